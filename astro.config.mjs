@@ -9,6 +9,7 @@ import react from '@astrojs/react';
 import solid from '@astrojs/solid-js';
 import { defineConfig } from 'astro/config';
 
+import { bundleStats } from './config/bundleStats.js';
 import { createDeploymentConfig } from './config/deployment.js';
 import { isLegacyRoutePath } from './config/legacyRoutes.js';
 
@@ -46,5 +47,7 @@ export default defineConfig({
     solid({
       include: ['src/components/solid/**/*'],
     }),
+    // Chunk composition for the bundle checks of the code health analyzer
+    bundleStats(),
   ],
 });
@@ -0,0 +1,15 @@
+import type { AstroIntegration } from 'astro';
+import type { Plugin } from 'rollup';
+
+export const BUNDLE_STATS_FILE: string;
+
+export interface BundleStatsOptions {
+  /** Output file, relative to the project root */
+  file?: string;
+}
+
+export function bundleStatsPlugin(
+  options: BundleStatsOptions & { root: string }
+): Plugin;
+
+export function bundleStats(options?: BundleStatsOptions): AstroIntegration;
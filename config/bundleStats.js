@@ -0,0 +1,109 @@
+// Records the composition of the client bundle for the code health analyzer.
+// Rollup knows which modules ended up in which chunk and how many bytes each
+// contributed; the analyzer cannot recover that from the built files alone.
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const BUNDLE_STATS_FILE = '.cache/bundle-stats.json';
+
+const toPosix = value => value.split(path.sep).join('/');
+
+// Rollup ids are absolute paths, `\0`-prefixed virtual modules, or paths
+// behind a plugin prefix such as `astro-entry:`
+const moduleName = (root, id) => {
+  const [, prefix = '', clean] = /^(?:([\w-]{2,}:)(?=\/))?(.*)$/s.exec(
+    id.replace(/^\0/, '')
+  );
+  return path.isAbsolute(clean)
+    ? `${prefix}${toPosix(path.relative(root, clean))}`
+    : `${prefix}${clean}`;
+};
+
+/**
+ * Rollup plugin that writes the chunk graph, the bytes each module renders
+ * to, and the static imports between modules
+ */
+export const bundleStatsPlugin = ({ root, file = BUNDLE_STATS_FILE }) => ({
+  name: 'bundle-stats',
+  async generateBundle(_options, bundle) {
+    const chunks = [];
+    const assets = [];
+    const modules = {};
+
+    for (const output of Object.values(bundle)) {
+      if (output.type === 'asset') {
+        const size =
+          typeof output.source === 'string'
+            ? Buffer.byteLength(output.source)
+            : output.source.byteLength;
+        assets.push({ file: output.fileName, bytes: size });
+        continue;
+      }
+
+      chunks.push({
+        file: output.fileName,
+        bytes: Buffer.byteLength(output.code),
+        isEntry: output.isEntry,
+        isDynamicEntry: output.isDynamicEntry,
+        facadeModule: output.facadeModuleId
+          ? moduleName(root, output.facadeModuleId)
+          : null,
+        imports: output.imports,
+        dynamicImports: output.dynamicImports,
+        css: [...(output.viteMetadata?.importedCss ?? [])],
+        modules: Object.entries(output.modules)
+          .filter(([, info]) => info.renderedLength > 0)
+          .map(([id, info]) => ({
+            id: moduleName(root, id),
+            bytes: info.renderedLength,
+          })),
+      });
+    }
+
+    // Every module, including re-export barrels that no chunk kept
+    for (const id of this.getModuleIds()) {
+      const info = this.getModuleInfo(id);
+      if (!info || info.isExternal) continue;
+      modules[moduleName(root, id)] = {
+        imports: info.importedIds.map(imported => moduleName(root, imported)),
+        dynamicImports: info.dynamicallyImportedIds.map(imported =>
+          moduleName(root, imported)
+        ),
+      };
+    }
+
+    const target = path.resolve(root, file);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(
+      target,
+      JSON.stringify({ version: 1, chunks, assets, modules })
+    );
+  },
+});
+
+/**
+ * Astro integration adding `bundleStatsPlugin` to the client build
+ */
+export const bundleStats = (options = {}) => {
+  let root = process.cwd();
+  return {
+    name: 'bundle-stats',
+    hooks: {
+      'astro:config:setup': ({ config }) => {
+        root = fileURLToPath(config.root);
+      },
+      'astro:build:setup': ({ target, updateConfig }) => {
+        if (target !== 'client') return;
+        updateConfig({
+          build: {
+            rollupOptions: {
+              plugins: [bundleStatsPlugin({ root, ...options })],
+            },
+          },
+        });
+      },
+    },
+  };
+};
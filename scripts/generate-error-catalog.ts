@@ -0,0 +1,10 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { renderErrorCatalog } from '../src/errors/catalog';
+import { ERROR_CATALOG } from '../src/errors/codes';
+
+const target = path.join(process.cwd(), ERROR_CATALOG);
+
+await fs.mkdir(path.dirname(target), { recursive: true });
+await fs.writeFile(target, renderErrorCatalog(), 'utf-8');
+console.log(`Wrote ${ERROR_CATALOG}`);
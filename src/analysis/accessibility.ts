@@ -1,17 +1,149 @@
 import type {
-  AnalysisModule,
   CodeIssue,
+  FileAnalysisModule,
+  IssueDraft,
   AnalyzerConfig,
+  SeverityLevel,
 } from '../types/analysis';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { glob } from 'glob';
 import { FileSystemError, AnalysisError } from '../errors';
 import { logger } from '../utils/logger';
-import { generateChecksum } from '../utils/common';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { filterToFileScope } from '../utils/file-scope';
+import { applyRuleSettings, severityForLevel } from '../config/rules';
+import { parseTemplate, TEMPLATE_EXTENSIONS } from '../utils/template-ast';
+import {
+  ariaAttributes,
+  ariaRoles,
+  requiredAriaAttributes,
+  roleAttributeSupport,
+} from '../config/aria';
+import type { AriaValue } from '../config/aria';
+import type {
+  TemplateAttribute,
+  TemplateElement,
+  TemplateNode,
+} from '../utils/template-ast';
+
+type A11yRule =
+  | 'a11y-image-alt'
+  | 'a11y-form-label'
+  | 'a11y-heading-order'
+  | 'a11y-aria'
+  | 'a11y-accessible-name'
+  | 'a11y-duplicate-id';
+
+interface A11yFinding {
+  rule: A11yRule;
+  message: string;
+  line: number;
+  column: number;
+  /** Other locations involved, e.g. the first element with a duplicated id */
+  related?: Array<{ line: number; column: number }>;
+}
+
+interface ElementEntry {
+  element: TemplateElement;
+  ancestors: TemplateElement[];
+  /** Rendered by an expression, so possibly never or more than once */
+  conditional: boolean;
+}
+
+const RULES: Record<
+  A11yRule,
+  {
+    title: string;
+    level: SeverityLevel;
+    suggestion: string;
+    documentation: string;
+    autoFixable: boolean;
+  }
+> = {
+  'a11y-image-alt': {
+    title: 'Missing Text Alternative',
+    level: 'high',
+    suggestion: 'Add alt="description" or alt="" for decorative images',
+    documentation:
+      'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content',
+    autoFixable: true,
+  },
+  'a11y-form-label': {
+    title: 'Unlabelled Form Control',
+    level: 'high',
+    suggestion:
+      'Wrap the control in a <label>, point a <label for> at its id, or add aria-labelledby',
+    documentation:
+      'https://www.w3.org/WAI/WCAG22/Understanding/labels-or-instructions',
+    autoFixable: true,
+  },
+  'a11y-heading-order': {
+    title: 'Skipped Heading Level',
+    level: 'medium',
+    suggestion: 'Use the next heading level down and restyle it with CSS',
+    documentation:
+      'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships',
+    autoFixable: false,
+  },
+  'a11y-aria': {
+    title: 'Invalid ARIA Usage',
+    level: 'high',
+    suggestion:
+      'Use only ARIA roles and attributes, with valid values, that the element role supports',
+    documentation: 'https://www.w3.org/TR/wai-aria-1.2/',
+    autoFixable: false,
+  },
+  'a11y-accessible-name': {
+    title: 'Missing Accessible Name',
+    level: 'high',
+    suggestion: 'Add descriptive text content or aria-label attribute',
+    documentation:
+      'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value',
+    autoFixable: true,
+  },
+  'a11y-duplicate-id': {
+    title: 'Duplicate Id',
+    level: 'medium',
+    suggestion:
+      'Give every element a unique id so labels and ARIA references resolve',
+    documentation:
+      'https://html.spec.whatwg.org/multipage/dom.html#the-id-attribute',
+    autoFixable: false,
+  },
+};
+
+/** Widget roles that must be given a name by the author */
+const NAMED_ROLES = new Set([
+  'button',
+  'checkbox',
+  'link',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'switch',
+  'tab',
+  'treeitem',
+]);
+
+const FORM_CONTROLS = new Set(['input', 'select', 'textarea']);
 
-export class AccessibilityAnalyzer implements AnalysisModule {
+// Input types that are not labelled form fields
+const UNLABELLED_INPUT_TYPES = new Set([
+  'hidden',
+  'submit',
+  'reset',
+  'button',
+  'image',
+]);
+
+export class AccessibilityAnalyzer implements FileAnalysisModule {
   name = 'AccessibilityAnalyzer';
+  reportedRules = ['a11y-*'];
+  supportsFileScope = true as const;
+  version = '1';
 
   canAnalyze(config: AnalyzerConfig): boolean {
     return config.enabledAnalyzers.includes('accessibility');
@@ -21,54 +153,27 @@ export class AccessibilityAnalyzer implements AnalysisModule {
     logger.info('Checking accessibility compliance...');
     const issues: CodeIssue[] = [];
 
-    const a11yPatterns = [
-      {
-        pattern: /<img(?![^>]*alt=)/g,
-        message: 'Images should have alt attributes for accessibility',
-        severity: 'high' as const,
-        suggestion: this.getA11ySuggestion(/<img(?![^>]*alt=)/g),
-        autoFixable: true,
-      },
-      {
-        pattern:
-          /<input(?![^>]*aria-label)(?![^>]*aria-labelledby)(?![^>]*id="[^"]*")(?![^>]*type="submit")(?![^>]*type="button")/g,
-        message: 'Form inputs should have accessible labels',
-        severity: 'high' as const,
-        suggestion: this.getA11ySuggestion(
-          /<input(?![^>]*aria-label)(?![^>]*aria-labelledby)(?![^>]*id="[^"]*")(?![^>]*type="submit")(?![^>]*type="button")/g
-        ),
-        autoFixable: true,
-      },
-      {
-        pattern:
-          /<button(?![^>]*aria-label)(?![^>]*aria-labelledby)>\s*<\/button>/g,
-        message: 'Empty buttons should have accessible labels',
-        severity: 'medium' as const,
-        suggestion: this.getA11ySuggestion(
-          /<button(?![^>]*aria-label)(?![^>]*aria-labelledby)>\s*<\/button>/g
-        ),
-        autoFixable: true,
-      },
-    ];
-
     try {
-      const files = await this.getProjectFiles(config, [
-        '**/*.{astro,tsx,jsx,vue,svelte}',
-      ]);
-
-      for (const file of files) {
-        const issuesInFile = await this._checkFileForPatterns(
-          file,
-          a11yPatterns.map(p => ({
-            ...p,
-            type: 'accessibility',
-            category: 'Accessibility',
-            source: 'a11y-scanner',
-            rule: 'accessibility-pattern',
-          })),
-          config.projectRoot
-        );
-        issues.push(...issuesInFile);
+      for (const file of await this.getFiles(config)) {
+        let content: string;
+        try {
+          content = await fs.readFile(file, 'utf-8');
+        } catch (error: unknown) {
+          const fsError =
+            error instanceof FileSystemError
+              ? error
+              : new FileSystemError(
+                  'read',
+                  file,
+                  error instanceof Error ? error : new Error(String(error))
+                );
+          logger.warn(`Could not analyze ${file}: ${fsError.message}`, {
+            error: fsError,
+            filePath: file,
+          });
+          continue;
+        }
+        issues.push(...(await this.analyzeFile(file, content, config)));
       }
     } catch (error: unknown) {
       const analysisError =
@@ -85,99 +190,590 @@ export class AccessibilityAnalyzer implements AnalysisModule {
     return issues;
   }
 
-  private async _checkFileForPatterns(
+  async getFiles(config: AnalyzerConfig): Promise<string[]> {
+    const extensions = TEMPLATE_EXTENSIONS.map(ext => ext.slice(1));
+    return this.getProjectFiles(config, [`**/*.{${extensions.join(',')}}`]);
+  }
+
+  async analyzeFile(
     filePath: string,
-    patterns: Array<{
-      pattern: RegExp;
-      message: string;
-      severity: 'critical' | 'high' | 'medium' | 'low';
-      type: CodeIssue['type'];
-      category: string;
-      source: string;
-      rule: string;
-      suggestion?: string;
-      autoFixable: boolean;
-      documentation?: string;
-    }>,
-    projectRoot: string
+    content: string,
+    config: AnalyzerConfig
   ): Promise<CodeIssue[]> {
-    const issues: CodeIssue[] = [];
+    let nodes: TemplateNode[];
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const allLines = content.split('\n');
-
-      for (const {
-        pattern,
-        message,
-        severity,
-        type,
-        category,
-        source,
-        rule,
-        suggestion,
-        autoFixable,
-        documentation,
-      } of patterns) {
-        // Reset lastIndex for global regex
-        pattern.lastIndex = 0;
-
-        let match;
-        while ((match = pattern.exec(content)) !== null) {
-          const index = match.index;
-          const linesBefore = content.substring(0, index).split('\n');
-          const lineNumber = linesBefore.length;
-          const lineIndex = lineNumber - 1;
-
-          // Get context lines
-          const before = allLines.slice(Math.max(0, lineIndex - 2), lineIndex);
-          const current = allLines[lineIndex];
-          const after = allLines.slice(lineIndex + 1, lineIndex + 3);
-
-          issues.push({
-            id: `${type}-` + Date.now() + '-' + Math.random(),
-            type,
-            severity: {
-              level: severity,
-              impact: severity === 'critical' ? 'blocking' : 'major',
-              urgency: severity === 'critical' ? 'immediate' : 'high',
-            },
-            title: `${category} Issue Detected`,
-            description: message,
-            file: path.relative(projectRoot, filePath),
-            line: lineNumber,
-            rule,
-            category,
-            source,
-            suggestion,
-            autoFixable,
-            documentation,
-            context: {
-              before,
-              current,
-              after,
-            },
-            metadata: {
-              checksum: generateChecksum(current),
-              timestamp: new Date(),
-            },
+      nodes = await parseTemplate(filePath, content);
+    } catch (error: unknown) {
+      logger.warn(`Could not parse ${filePath}: ${String(error)}`, {
+        filePath,
+      });
+      return [];
+    }
+
+    const file = path
+      .relative(config.projectRoot, filePath)
+      .split(path.sep)
+      .join('/');
+    const lines = content.split('\n');
+    const issues = this.checkTemplate(nodes).map(finding =>
+      this.toIssue(finding, file, lines)
+    );
+
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
+  }
+
+  /**
+   * Run every rule over one file's element tree, in document order
+   */
+  private checkTemplate(nodes: TemplateNode[]): A11yFinding[] {
+    const entries = this.collectElements(nodes, [], false);
+    const elements = entries
+      .map(entry => entry.element)
+      .filter(element => !element.component);
+
+    return [
+      ...this.checkImageAlt(elements),
+      ...this.checkFormLabels(entries),
+      ...this.checkHeadingOrder(elements),
+      ...this.checkAria(elements),
+      ...this.checkAccessibleNames(elements),
+      ...this.checkDuplicateIds(entries),
+    ].sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  private checkImageAlt(elements: TemplateElement[]): A11yFinding[] {
+    const findings: A11yFinding[] = [];
+
+    for (const element of elements) {
+      const needsAlt =
+        element.name === 'img' ||
+        (element.name === 'area' && this.getAttribute(element, 'href')) ||
+        (element.name === 'input' &&
+          this.getAttribute(element, 'type')?.value === 'image');
+
+      if (
+        needsAlt &&
+        !element.spread &&
+        !this.getAttribute(element, 'alt') &&
+        !this.hasLabelAttribute(element)
+      ) {
+        findings.push({
+          rule: 'a11y-image-alt',
+          message: `<${element.name}> has no alt attribute`,
+          line: element.line,
+          column: element.column,
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private checkFormLabels(entries: ElementEntry[]): A11yFinding[] {
+    const findings: A11yFinding[] = [];
+    const labelTargets = new Set<string>();
+    const ids = new Set<string>();
+    // Components, spreads and computed ids may supply ids we cannot see
+    let idsKnown = true;
+
+    for (const { element } of entries) {
+      const id = this.getAttribute(element, 'id');
+      if (element.component || element.spread || id?.value === null) {
+        idsKnown = false;
+      } else if (id) {
+        ids.add(id.value);
+      }
+      const target = this.getAttribute(element, 'for');
+      if (element.name === 'label' && target?.value) {
+        labelTargets.add(target.value);
+      }
+    }
+
+    for (const { element, ancestors } of entries) {
+      if (element.component || element.spread) continue;
+
+      if (element.name === 'label') {
+        const target = this.getAttribute(element, 'for');
+        if (idsKnown && target?.value && !ids.has(target.value)) {
+          findings.push({
+            rule: 'a11y-form-label',
+            message: `<label for="${target.value}"> does not match any element id`,
+            line: target.line,
+            column: target.column,
           });
         }
+        continue;
       }
-    } catch (error: unknown) {
-      const fsError =
-        error instanceof FileSystemError
-          ? error
-          : new FileSystemError(
-              'read',
-              filePath,
-              error instanceof Error ? error : new Error(String(error))
-            );
-      logger.warn(`Could not analyze ${filePath}: ${fsError.message}`, {
-        error: fsError,
-        filePath,
+
+      if (!this.isLabelledControl(element)) continue;
+
+      const id = this.getAttribute(element, 'id');
+      const labelled =
+        this.hasLabelAttribute(element) ||
+        ancestors.some(ancestor => ancestor.name === 'label') ||
+        id?.value === null ||
+        (id?.value != null && labelTargets.has(id.value));
+
+      if (!labelled) {
+        findings.push({
+          rule: 'a11y-form-label',
+          message: id
+            ? `<${element.name} id="${id.value}"> has no <label for="${id.value}">`
+            : `<${element.name}> has no associated label`,
+          line: element.line,
+          column: element.column,
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private checkHeadingOrder(elements: TemplateElement[]): A11yFinding[] {
+    const findings: A11yFinding[] = [];
+    let previous: number | undefined;
+
+    for (const element of elements) {
+      const match = /^h([1-6])$/.exec(element.name);
+      if (!match) continue;
+
+      const level = Number(match[1]);
+      if (previous !== undefined && level > previous + 1) {
+        findings.push({
+          rule: 'a11y-heading-order',
+          message: `Heading level jumps from <h${previous}> to <h${level}>`,
+          line: element.line,
+          column: element.column,
+        });
+      }
+      previous = level;
+    }
+
+    return findings;
+  }
+
+  private checkAria(elements: TemplateElement[]): A11yFinding[] {
+    const findings: A11yFinding[] = [];
+
+    for (const element of elements) {
+      const roleAttribute = this.getAttribute(element, 'role');
+      let role: string | undefined;
+
+      if (roleAttribute?.value) {
+        // The first recognised token wins; the rest are fallbacks
+        const tokens = roleAttribute.value.trim().split(/\s+/);
+        for (const token of tokens.filter(token => !ariaRoles.has(token))) {
+          findings.push({
+            rule: 'a11y-aria',
+            message: `Unknown ARIA role "${token}"`,
+            line: roleAttribute.line,
+            column: roleAttribute.column,
+          });
+        }
+        role = tokens.find(token => ariaRoles.has(token));
+      }
+
+      // A computed role could be anything
+      const roleKnown = roleAttribute?.value !== null && !element.spread;
+      const effectiveRole = role ?? this.getImplicitRole(element);
+
+      for (const attribute of element.attributes) {
+        const name = attribute.name.toLowerCase();
+        if (!name.startsWith('aria-')) continue;
+
+        const expected = ariaAttributes[name];
+        if (!expected) {
+          findings.push({
+            rule: 'a11y-aria',
+            message: `Unknown ARIA attribute "${attribute.name}"`,
+            line: attribute.line,
+            column: attribute.column,
+          });
+          continue;
+        }
+
+        if (
+          attribute.value !== null &&
+          !this.isValidAriaValue(attribute.value, expected)
+        ) {
+          findings.push({
+            rule: 'a11y-aria',
+            message: `${name}="${attribute.value}" is not valid; expected ${this.describeAriaValue(expected)}`,
+            line: attribute.line,
+            column: attribute.column,
+          });
+        }
+
+        const supportedBy = roleAttributeSupport[name];
+        if (
+          roleKnown &&
+          supportedBy &&
+          !(effectiveRole && supportedBy.includes(effectiveRole))
+        ) {
+          findings.push({
+            rule: 'a11y-aria',
+            message: effectiveRole
+              ? `${name} is not supported by role "${effectiveRole}"`
+              : `${name} is not supported on <${element.name}> without a role`,
+            line: attribute.line,
+            column: attribute.column,
+          });
+        }
+      }
+
+      // Native controls already expose checked, expanded and value states
+      if (
+        role &&
+        roleAttribute &&
+        !element.spread &&
+        !FORM_CONTROLS.has(element.name) &&
+        role !== this.getImplicitRole(element)
+      ) {
+        for (const required of requiredAriaAttributes[role] ?? []) {
+          if (!this.getAttribute(element, required)) {
+            findings.push({
+              rule: 'a11y-aria',
+              message: `role="${role}" requires ${required}`,
+              line: roleAttribute.line,
+              column: roleAttribute.column,
+            });
+          }
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  private checkAccessibleNames(elements: TemplateElement[]): A11yFinding[] {
+    const findings: A11yFinding[] = [];
+
+    for (const element of elements) {
+      if (element.spread || FORM_CONTROLS.has(element.name)) continue;
+
+      const role = this.getAttribute(element, 'role');
+      const interactive =
+        element.name === 'button' ||
+        (element.name === 'a' && this.getAttribute(element, 'href')) ||
+        (role?.value && NAMED_ROLES.has(role.value.trim().split(/\s+/)[0]));
+
+      if (
+        !interactive ||
+        this.isHidden(element) ||
+        this.hasLabelAttribute(element) ||
+        this.hasContentName(element.children)
+      ) {
+        continue;
+      }
+
+      findings.push({
+        rule: 'a11y-accessible-name',
+        message: role?.value
+          ? `<${element.name} role="${role.value}"> has no accessible name`
+          : `<${element.name}> has no accessible name`,
+        line: element.line,
+        column: element.column,
       });
     }
-    return issues;
+
+    return findings;
+  }
+
+  private checkDuplicateIds(entries: ElementEntry[]): A11yFinding[] {
+    const findings: A11yFinding[] = [];
+    const firstUse = new Map<
+      string,
+      { line: number; column: number; conditional: boolean }
+    >();
+
+    for (const { element, conditional } of entries) {
+      const id = element.component
+        ? undefined
+        : this.getAttribute(element, 'id');
+      if (!id?.value) continue;
+
+      const first = firstUse.get(id.value);
+      if (!first) {
+        firstUse.set(id.value, { ...id, conditional });
+        continue;
+      }
+      // e.g. the two branches of `{icon ? <button id="x" /> : <a id="x" />}`
+      if (first.conditional && conditional) continue;
+
+      findings.push({
+        rule: 'a11y-duplicate-id',
+        message: `id "${id.value}" is already used on line ${first.line}`,
+        line: id.line,
+        column: id.column,
+        related: [{ line: first.line, column: first.column }],
+      });
+    }
+
+    return findings;
+  }
+
+  private toIssue(
+    finding: A11yFinding,
+    file: string,
+    lines: string[]
+  ): IssueDraft {
+    const rule = RULES[finding.rule];
+    const lineIndex = finding.line - 1;
+
+    return {
+      type: 'accessibility',
+      severity: severityForLevel(rule.level),
+      title: rule.title,
+      description: finding.message,
+      file,
+      line: finding.line,
+      column: finding.column,
+      rule: finding.rule,
+      category: 'Accessibility',
+      source: 'a11y-scanner',
+      suggestion: rule.suggestion,
+      autoFixable: rule.autoFixable,
+      documentation: rule.documentation,
+      context: {
+        before: lines.slice(Math.max(0, lineIndex - 2), lineIndex),
+        current: lines[lineIndex] ?? '',
+        after: lines.slice(lineIndex + 1, lineIndex + 3),
+      },
+      ...(finding.related && {
+        metadata: {
+          relatedFiles: finding.related.map(
+            location => `${file}:${location.line}:${location.column}`
+          ),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Flatten the tree into document order, keeping each element's ancestors
+   */
+  private collectElements(
+    nodes: TemplateNode[],
+    ancestors: TemplateElement[],
+    conditional: boolean
+  ): ElementEntry[] {
+    return nodes.flatMap(node => {
+      if (node.kind === 'text') return [];
+      if (node.kind === 'expression') {
+        return this.collectElements(node.children, ancestors, true);
+      }
+      return [
+        { element: node, ancestors, conditional },
+        ...this.collectElements(
+          node.children,
+          [...ancestors, node],
+          conditional
+        ),
+      ];
+    });
+  }
+
+  private getAttribute(
+    element: TemplateElement,
+    name: string
+  ): TemplateAttribute | undefined {
+    return element.attributes.find(
+      attribute => attribute.name.toLowerCase() === name
+    );
+  }
+
+  /**
+   * aria-label, aria-labelledby or title with a non-empty or computed value
+   */
+  private hasLabelAttribute(element: TemplateElement): boolean {
+    return ['aria-label', 'aria-labelledby', 'title'].some(name => {
+      const attribute = this.getAttribute(element, name);
+      return (
+        attribute !== undefined &&
+        (attribute.value === null || attribute.value.trim() !== '')
+      );
+    });
+  }
+
+  /**
+   * Whether rendered content can name the element: visible text, named
+   * images, or anything computed at runtime
+   */
+  private hasContentName(nodes: TemplateNode[]): boolean {
+    return nodes.some(node => {
+      if (node.kind === 'text') return node.value.trim() !== '';
+      if (node.kind === 'expression' || node.component || node.spread) {
+        return true;
+      }
+      if (this.isHidden(node)) return false;
+      if (node.name === 'img') {
+        const alt = this.getAttribute(node, 'alt');
+        return (
+          this.hasLabelAttribute(node) ||
+          (alt !== undefined && alt.value?.trim() !== '')
+        );
+      }
+      return this.hasLabelAttribute(node) || this.hasContentName(node.children);
+    });
+  }
+
+  private isHidden(element: TemplateElement): boolean {
+    const hidden = this.getAttribute(element, 'hidden');
+    return (
+      this.getAttribute(element, 'aria-hidden')?.value === 'true' ||
+      (hidden !== undefined && hidden.value !== 'false')
+    );
+  }
+
+  private isLabelledControl(element: TemplateElement): boolean {
+    if (!FORM_CONTROLS.has(element.name)) return false;
+    if (element.name !== 'input') return true;
+
+    const type = this.getAttribute(element, 'type');
+    // A computed type might be hidden or a button
+    if (type?.value === null) return false;
+    return !UNLABELLED_INPUT_TYPES.has(type?.value.toLowerCase() ?? 'text');
+  }
+
+  /**
+   * Role an element has without a role attribute (HTML-AAM, simplified)
+   */
+  private getImplicitRole(element: TemplateElement): string | undefined {
+    const has = (name: string) =>
+      this.getAttribute(element, name) !== undefined;
+
+    switch (element.name) {
+      case 'a':
+      case 'area':
+        return has('href') ? 'link' : undefined;
+      case 'article':
+        return 'article';
+      case 'aside':
+        return 'complementary';
+      case 'button':
+      case 'summary':
+        return 'button';
+      case 'details':
+      case 'fieldset':
+        return 'group';
+      case 'dialog':
+        return 'dialog';
+      case 'form':
+        return 'form';
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return 'heading';
+      case 'hr':
+        return 'separator';
+      case 'img':
+        return this.getAttribute(element, 'alt')?.value === ''
+          ? 'presentation'
+          : 'img';
+      case 'input':
+        return this.getInputRole(element);
+      case 'li':
+        return 'listitem';
+      case 'main':
+        return 'main';
+      case 'menu':
+      case 'ol':
+      case 'ul':
+        return 'list';
+      case 'meter':
+        return 'meter';
+      case 'nav':
+        return 'navigation';
+      case 'option':
+        return 'option';
+      case 'output':
+        return 'status';
+      case 'progress':
+        return 'progressbar';
+      case 'section':
+        return 'region';
+      case 'select':
+        return has('multiple') ? 'listbox' : 'combobox';
+      case 'table':
+        return 'table';
+      case 'tbody':
+      case 'tfoot':
+      case 'thead':
+        return 'rowgroup';
+      case 'td':
+        return 'cell';
+      case 'textarea':
+        return 'textbox';
+      case 'th':
+        return 'columnheader';
+      case 'tr':
+        return 'row';
+      default:
+        return undefined;
+    }
+  }
+
+  private getInputRole(element: TemplateElement): string | undefined {
+    const type = this.getAttribute(element, 'type');
+    if (type?.value === null) return undefined;
+
+    switch (type?.value.toLowerCase() ?? 'text') {
+      case 'button':
+      case 'image':
+      case 'reset':
+      case 'submit':
+        return 'button';
+      case 'checkbox':
+        return 'checkbox';
+      case 'hidden':
+        return undefined;
+      case 'number':
+        return 'spinbutton';
+      case 'radio':
+        return 'radio';
+      case 'range':
+        return 'slider';
+      case 'search':
+        return this.getAttribute(element, 'list') ? 'combobox' : 'searchbox';
+      default:
+        // Text-like fields; date, password and friends accept the same states
+        return this.getAttribute(element, 'list') ? 'combobox' : 'textbox';
+    }
+  }
+
+  private isValidAriaValue(value: string, expected: AriaValue): boolean {
+    const trimmed = value.trim();
+
+    switch (expected) {
+      case 'boolean':
+        return trimmed === 'true' || trimmed === 'false';
+      case 'integer':
+        return /^-?\d+$/.test(trimmed);
+      case 'number':
+        return trimmed !== '' && Number.isFinite(Number(trimmed));
+      case 'text':
+        return true;
+      default:
+        return expected.includes(trimmed);
+    }
+  }
+
+  private describeAriaValue(expected: AriaValue): string {
+    switch (expected) {
+      case 'boolean':
+        return 'true or false';
+      case 'integer':
+        return 'an integer';
+      case 'number':
+        return 'a number';
+      case 'text':
+        return 'text';
+      default:
+        return `one of ${expected.join(', ')}`;
+    }
   }
 
   private async getProjectFiles(
@@ -193,23 +789,6 @@ export class AccessibilityAnalyzer implements AnalysisModule {
       absolute: true,
     });
 
-    return files;
-  }
-
-  private getA11ySuggestion(pattern: RegExp): string {
-    const suggestions: Record<string, string> = {
-      img: 'Add alt="description" or alt="" for decorative images',
-      input:
-        'Add aria-label, aria-labelledby, or associate with a label element',
-      button: 'Add descriptive text content or aria-label attribute',
-    };
-
-    const patternStr = pattern.toString();
-    for (const [key, suggestion] of Object.entries(suggestions)) {
-      if (patternStr.includes(key)) {
-        return suggestion;
-      }
-    }
-    return 'Ensure element is accessible to screen readers';
+    return filterToFileScope(config, files);
   }
 }
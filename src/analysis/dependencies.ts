@@ -0,0 +1,328 @@
+import type {
+  AnalysisModule,
+  CodeIssue,
+  IssueDraft,
+  AnalyzerConfig,
+} from '../types/analysis';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { AnalysisError } from '../errors';
+import { logger } from '../utils/logger';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { touchesFileScope } from '../utils/file-scope';
+import { matchesGlob } from '../utils/glob-pattern';
+import {
+  applyRuleSettings,
+  getRuleOptions,
+  isRuleEnabled,
+  severityForLevel,
+} from '../config/rules';
+import { ModuleGraph } from '../utils/module-graph';
+import type { SourceLocation } from '../utils/module-graph';
+
+// Modules the framework or tooling loads directly
+const DEFAULT_ENTRYPOINTS = [
+  'src/pages/**',
+  'src/cli/*.{ts,js}',
+  'src/middleware.{ts,js}',
+  'src/content.config.ts',
+  'src/content/config.ts',
+];
+
+// Lower layers must not depend on the UI built on top of them
+const DEFAULT_LAYERS: Record<string, string[]> = {
+  'src/utils': ['src/components', 'src/layouts', 'src/pages'],
+  'src/types': ['src/components', 'src/layouts', 'src/pages'],
+  'src/config': ['src/components', 'src/layouts', 'src/pages'],
+  'src/components': ['src/pages'],
+  'src/layouts': ['src/pages'],
+};
+
+// `src/...` paths run by package.json scripts, e.g. `tsx src/utils/error-reviewer-cli.ts`
+const SCRIPT_PATH_RE = /(?:^|[\s='"])(?:\.\/)?(src\/[\w./@-]+\.\w+)/g;
+
+export class DependencyAnalyzer implements AnalysisModule {
+  name = 'DependencyAnalyzer';
+  reportedRules = [
+    'dependency-cycle',
+    'dependency-layering',
+    'dependency-unreachable-file',
+    'dependency-unused-export',
+  ];
+  supportsFileScope = true;
+
+  canAnalyze(config: AnalyzerConfig): boolean {
+    return config.enabledAnalyzers.includes('dependencies');
+  }
+
+  async analyze(config: AnalyzerConfig): Promise<CodeIssue[]> {
+    logger.info('Building module dependency graph...');
+    const issues: IssueDraft[] = [];
+
+    try {
+      // Ignored files still import others, so only their own issues are dropped
+      const moduleGraph = await ModuleGraph.build(config.projectRoot);
+      const entrypoints = await this.getEntrypoints(config, moduleGraph);
+      const reachable = moduleGraph.reachableFrom(entrypoints);
+
+      if (isRuleEnabled(config, 'dependency-cycle')) {
+        issues.push(...this.checkCycles(moduleGraph));
+      }
+      if (isRuleEnabled(config, 'dependency-unreachable-file')) {
+        issues.push(
+          ...this.checkUnreachableFiles(moduleGraph, entrypoints, reachable)
+        );
+      }
+      if (isRuleEnabled(config, 'dependency-unused-export')) {
+        issues.push(
+          ...this.checkUnusedExports(moduleGraph, entrypoints, reachable)
+        );
+      }
+      if (isRuleEnabled(config, 'dependency-layering')) {
+        issues.push(...this.checkLayering(moduleGraph, config));
+      }
+    } catch (error: unknown) {
+      const analysisError = new AnalysisError(
+        this.name,
+        error instanceof Error ? error : new Error(String(error)),
+        { code: 'DEPENDENCY_GRAPH_FAILED' }
+      );
+      logger.error(
+        `Dependency analysis failed: ${analysisError.message}`,
+        analysisError
+      );
+      throw analysisError;
+    }
+    // The graph always spans the project; scoped runs report what the
+    // scoped files take part in
+    return stampIssues(
+      applyRuleSettings(
+        issues.filter(
+          issue =>
+            !matchesGlob(issue.file, config.ignore) &&
+            touchesFileScope(config, issue)
+        ),
+        config
+      ),
+      config.projectRoot
+    );
+  }
+
+  private checkCycles(moduleGraph: ModuleGraph): IssueDraft[] {
+    return moduleGraph.findCycles().map(cycle => {
+      const sites = cycle.slice(0, -1).map((file, index) => ({
+        file,
+        site: moduleGraph.getImport(file, cycle[index + 1]),
+      }));
+      const [first] = sites;
+
+      return this.createIssue(moduleGraph, first.file, first.site, {
+        rule: 'dependency-cycle',
+        level: 'medium',
+        title: 'Circular Import',
+        description: `Circular import: ${cycle.join(' → ')}`,
+        suggestion:
+          'Move the shared code into a module both sides import, or import types with `import type`',
+        relatedFiles: sites
+          .slice(1)
+          .map(({ file, site }) => `${file}:${site?.line}:${site?.column}`),
+      });
+    });
+  }
+
+  private checkUnreachableFiles(
+    moduleGraph: ModuleGraph,
+    entrypoints: string[],
+    reachable: Set<string>
+  ): IssueDraft[] {
+    const issues: IssueDraft[] = [];
+    // Without a page or other src/ entrypoint everything would be unreachable
+    if (!entrypoints.some(file => file.startsWith('src/'))) return issues;
+
+    for (const file of moduleGraph.modules.keys()) {
+      if (reachable.has(file) || !file.startsWith('src/')) continue;
+
+      issues.push(
+        this.createIssue(
+          moduleGraph,
+          file,
+          { line: 1, column: 1 },
+          {
+            rule: 'dependency-unreachable-file',
+            level: 'low',
+            title: 'Unreachable File',
+            description: `${file} is not imported, directly or indirectly, by any page or entrypoint`,
+            suggestion:
+              'Delete the file, or list it in the `entrypoints` option of this rule if it is loaded another way',
+          }
+        )
+      );
+    }
+    return issues;
+  }
+
+  private checkUnusedExports(
+    moduleGraph: ModuleGraph,
+    entrypoints: string[],
+    reachable: Set<string>
+  ): IssueDraft[] {
+    const issues: IssueDraft[] = [];
+    const used = moduleGraph.usedExports();
+    const entries = new Set(entrypoints);
+
+    for (const info of moduleGraph.modules.values()) {
+      // Whole unreachable files are reported once, not export by export
+      if (entries.has(info.file) || !reachable.has(info.file)) continue;
+
+      const usedNames = used.get(info.file) ?? new Set<string>();
+      if (usedNames.has('*')) continue;
+
+      for (const entry of info.exports) {
+        if (usedNames.has(entry.name)) continue;
+        // Astro reads a component's Props type itself
+        if (info.file.endsWith('.astro') && entry.name === 'Props') continue;
+
+        issues.push(
+          this.createIssue(moduleGraph, info.file, entry, {
+            rule: 'dependency-unused-export',
+            level: 'low',
+            title: 'Unused Export',
+            description:
+              entry.name === 'default'
+                ? 'The default export is never imported'
+                : `Export '${entry.name}' is never imported`,
+            suggestion:
+              'Remove the export, or the declaration if nothing in the file uses it either',
+          })
+        );
+      }
+    }
+    return issues;
+  }
+
+  private checkLayering(
+    moduleGraph: ModuleGraph,
+    config: AnalyzerConfig
+  ): IssueDraft[] {
+    const { layers } = getRuleOptions(config, 'dependency-layering', {
+      layers: DEFAULT_LAYERS,
+    });
+    const issues: IssueDraft[] = [];
+    const within = (file: string, directory: string) =>
+      file.startsWith(`${directory.replace(/\/+$/, '')}/`);
+
+    for (const info of moduleGraph.modules.values()) {
+      // The most specific layer a file belongs to decides its constraints
+      const layer = Object.keys(layers)
+        .filter(directory => within(info.file, directory))
+        .sort((a, b) => b.length - a.length)[0];
+      if (!layer) continue;
+
+      for (const entry of info.imports) {
+        const forbidden = layers[layer].find(directory =>
+          within(entry.target, directory)
+        );
+        if (!forbidden) continue;
+
+        issues.push(
+          this.createIssue(moduleGraph, info.file, entry, {
+            rule: 'dependency-layering',
+            level: 'medium',
+            title: 'Layering Violation',
+            description: `${info.file} imports ${entry.target}, but ${layer} must not depend on ${forbidden}`,
+            suggestion: `Move the shared code below ${layer}, or pass it in from ${forbidden}`,
+          })
+        );
+      }
+    }
+    return issues;
+  }
+
+  private createIssue(
+    moduleGraph: ModuleGraph,
+    file: string,
+    location: SourceLocation | undefined,
+    details: {
+      rule: string;
+      level: 'medium' | 'low';
+      title: string;
+      description: string;
+      suggestion: string;
+      relatedFiles?: string[];
+    }
+  ): IssueDraft {
+    const lines = moduleGraph.modules.get(file)?.lines ?? [];
+    const lineIndex = (location?.line ?? 1) - 1;
+
+    return {
+      type: 'dependency',
+      severity: severityForLevel(details.level),
+      title: details.title,
+      description: details.description,
+      file,
+      line: location?.line,
+      column: location?.column,
+      rule: details.rule,
+      category: 'Dependencies',
+      source: 'module-graph',
+      suggestion: details.suggestion,
+      autoFixable: false,
+      context: {
+        before: lines.slice(Math.max(0, lineIndex - 2), lineIndex),
+        current: lines[lineIndex] ?? '',
+        after: lines.slice(lineIndex + 1, lineIndex + 3),
+      },
+      ...(details.relatedFiles && {
+        metadata: { relatedFiles: details.relatedFiles },
+      }),
+    };
+  }
+
+  /**
+   * Pages and other framework entry modules, root config files, `src/`
+   * files run by package.json scripts, and the rule's `entrypoints` option
+   */
+  private async getEntrypoints(
+    config: AnalyzerConfig,
+    moduleGraph: ModuleGraph
+  ): Promise<string[]> {
+    const { entrypoints: patterns } = getRuleOptions(
+      config,
+      'dependency-unreachable-file',
+      { entrypoints: DEFAULT_ENTRYPOINTS }
+    );
+    const matched = await glob(patterns, {
+      cwd: config.projectRoot,
+      nodir: true,
+      posix: true,
+    });
+
+    const entrypoints = new Set(
+      matched.filter(file => moduleGraph.modules.has(file))
+    );
+    for (const file of moduleGraph.modules.keys()) {
+      if (!file.startsWith('src/')) entrypoints.add(file);
+    }
+    for (const file of await this.getScriptEntrypoints(config.projectRoot)) {
+      if (moduleGraph.modules.has(file)) entrypoints.add(file);
+    }
+
+    return [...entrypoints].sort();
+  }
+
+  private async getScriptEntrypoints(projectRoot: string): Promise<string[]> {
+    try {
+      const content = await fs.readFile(
+        path.join(projectRoot, 'package.json'),
+        'utf-8'
+      );
+      const scripts: Record<string, string> = JSON.parse(content).scripts ?? {};
+      return Object.values(scripts).flatMap(script =>
+        [...script.matchAll(SCRIPT_PATH_RE)].map(match => match[1])
+      );
+    } catch {
+      return [];
+    }
+  }
+}
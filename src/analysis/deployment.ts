@@ -1,15 +1,26 @@
 import type {
   AnalysisModule,
   CodeIssue,
+  IssueDraft,
   AnalyzerConfig,
   DeploymentChecklist,
 } from '../types/analysis';
 import { executeCommand } from '../utils/command-executor';
-import { AnalysisError, CommandExecutionError } from '../errors';
+import {
+  AnalysisError,
+  CommandExecutionError,
+  getErrorMessage,
+} from '../errors';
 import { logger } from '../utils/logger';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { applyRuleSettings, isRuleEnabled } from '../config/rules';
 
 export class DeploymentAnalyzer implements AnalysisModule {
   name = 'DeploymentAnalyzer';
+  reportedRules = ['deployment-*'];
+  // Builds and test suites are slow; type errors are reported first
+  timeout = 10 * 60 * 1000;
+  dependsOn = ['TypesAnalyzer'];
   private lastChecklist: DeploymentChecklist | null = null;
 
   canAnalyze(config: AnalyzerConfig): boolean {
@@ -26,26 +37,41 @@ export class DeploymentAnalyzer implements AnalysisModule {
     return config.enabledAnalyzers.includes('deployment');
   }
 
-  async analyze(config: AnalyzerConfig): Promise<CodeIssue[]> {
+  async analyze(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<CodeIssue[]> {
     if (!config.deploymentChecks) {
       logger.info('Deployment checks disabled; skipping deployment analyzer');
       return [];
     }
 
     logger.info('Checking deployment readiness...');
-    const issues: CodeIssue[] = [];
+    const issues: IssueDraft[] = [];
 
     try {
       const checks: DeploymentChecklist = {
-        buildStatus: await this.checkBuildStatus(config),
-        typeChecking: await this.checkTypes(config),
-        linting: await this.checkLinting(config),
-        testing: await this.checkTests(config),
-        dependencies: await this.checkDependencies(config),
+        buildStatus: await this.runCheck(config, 'buildStatus', signal, () =>
+          this.checkBuildStatus(config, signal)
+        ),
+        typeChecking: await this.runCheck(config, 'typeChecking', signal, () =>
+          this.checkTypes(config, signal)
+        ),
+        linting: await this.runCheck(config, 'linting', signal, () =>
+          this.checkLinting(config, signal)
+        ),
+        testing: await this.runCheck(config, 'testing', signal, () =>
+          this.checkTests(config, signal)
+        ),
+        dependencies: await this.runCheck(config, 'dependencies', signal, () =>
+          this.checkDependencies(config, signal)
+        ),
         security: 'pass', // Handled by SecurityAnalyzer
         performance: 'pass', // Handled by PerformanceAnalyzer
         accessibility: 'pass', // Handled by AccessibilityAnalyzer
-        seo: await this.checkSEO(config),
+        seo: await this.runCheck(config, 'seo', signal, () =>
+          this.checkSEO(config)
+        ),
         assets: 'pass', // Will be checked in build
       };
 
@@ -53,7 +79,6 @@ export class DeploymentAnalyzer implements AnalysisModule {
       Object.entries(checks).forEach(([check, status]) => {
         if (status === 'fail') {
           issues.push({
-            id: `deployment-${check}-${Date.now()}`,
             type: 'deployment',
             severity: {
               level: 'high',
@@ -74,7 +99,6 @@ export class DeploymentAnalyzer implements AnalysisModule {
           });
         } else if (status === 'warning') {
           issues.push({
-            id: `deployment-${check}-warning-${Date.now()}`,
             type: 'deployment',
             severity: {
               level: 'medium',
@@ -98,6 +122,7 @@ export class DeploymentAnalyzer implements AnalysisModule {
 
       this.lastChecklist = checks;
     } catch (error: unknown) {
+      signal?.throwIfAborted();
       const analysisError =
         error instanceof AnalysisError
           ? error
@@ -109,10 +134,34 @@ export class DeploymentAnalyzer implements AnalysisModule {
         error: analysisError,
       });
     }
-    return issues;
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
   }
 
-  private async checkLinting(config: AnalyzerConfig): Promise<'pass' | 'fail'> {
+  /**
+   * Run a checklist item unless its `deployment-<check>` rule is turned off.
+   * The checks treat a command that fails to run as a verdict, so a cancelled
+   * one is rethrown here rather than reported as passing or failing
+   */
+  private async runCheck<T extends string>(
+    config: AnalyzerConfig,
+    check: keyof DeploymentChecklist,
+    signal: AbortSignal | undefined,
+    run: () => Promise<T>
+  ): Promise<T | 'pass'> {
+    signal?.throwIfAborted();
+    if (!isRuleEnabled(config, `deployment-${check}`)) {
+      logger.debug(`Skipping deployment check ${check} (rule is off)`);
+      return 'pass';
+    }
+    const status = await run();
+    signal?.throwIfAborted();
+    return status;
+  }
+
+  private async checkLinting(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<'pass' | 'fail'> {
     try {
       if (process.env.npm_lifecycle_event === 'build') {
         return 'pass';
@@ -121,6 +170,7 @@ export class DeploymentAnalyzer implements AnalysisModule {
       const { exitCode } = await executeCommand('npm run lint', {
         cwd: config.projectRoot,
         ignoreExitCode: true,
+        signal,
       });
 
       // Linting is binary - either passes or fails (warnings still pass)
@@ -130,7 +180,10 @@ export class DeploymentAnalyzer implements AnalysisModule {
     }
   }
 
-  private async checkTests(config: AnalyzerConfig): Promise<'pass' | 'fail'> {
+  private async checkTests(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<'pass' | 'fail'> {
     try {
       if (process.env.npm_lifecycle_event === 'build') {
         return 'pass';
@@ -140,6 +193,7 @@ export class DeploymentAnalyzer implements AnalysisModule {
         cwd: config.projectRoot,
         ignoreExitCode: true,
         timeout: 60000, // 60 second timeout for tests
+        signal,
       });
 
       // Tests are binary - either pass or fail
@@ -150,12 +204,14 @@ export class DeploymentAnalyzer implements AnalysisModule {
   }
 
   private async checkDependencies(
-    config: AnalyzerConfig
+    config: AnalyzerConfig,
+    signal?: AbortSignal
   ): Promise<'pass' | 'fail' | 'warning'> {
     try {
       const { stdout } = await executeCommand('npm outdated --json', {
         cwd: config.projectRoot,
         ignoreExitCode: true,
+        signal,
       });
 
       if (!stdout || stdout === '{}') return 'pass';
@@ -212,7 +268,8 @@ export class DeploymentAnalyzer implements AnalysisModule {
   }
 
   private async checkBuildStatus(
-    config: AnalyzerConfig
+    config: AnalyzerConfig,
+    signal?: AbortSignal
   ): Promise<'pass' | 'fail' | 'warning'> {
     try {
       // Skip build check if we're already in a build process to avoid circular dependency
@@ -228,26 +285,30 @@ export class DeploymentAnalyzer implements AnalysisModule {
 
       const { exitCode } = await executeCommand('npm run build', {
         cwd: config.projectRoot,
+        signal,
       });
       return exitCode === 0 ? 'pass' : 'fail';
     } catch (error: unknown) {
       const cmdError =
         error instanceof CommandExecutionError
           ? error
-          : new CommandExecutionError(
-              'npm run build',
-              null,
-              null,
-              '',
-              '',
-              String(error)
-            );
+          : new CommandExecutionError('npm run build', null, null, '', '', {
+              code: 'COMMAND_NOT_RUN',
+              params: {
+                command: 'npm run build',
+                reason: getErrorMessage(error),
+              },
+              cause: error,
+            });
       logger.error(`Build check failed: ${cmdError.message}`, cmdError);
       return 'fail';
     }
   }
 
-  private async checkTypes(config: AnalyzerConfig): Promise<'pass' | 'fail'> {
+  private async checkTypes(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<'pass' | 'fail'> {
     try {
       // Skip type check during build process to prevent hangs
       if (
@@ -260,20 +321,21 @@ export class DeploymentAnalyzer implements AnalysisModule {
 
       const { exitCode } = await executeCommand('npx tsc --noEmit', {
         cwd: config.projectRoot,
+        signal,
       });
       return exitCode === 0 ? 'pass' : 'fail';
     } catch (error: unknown) {
       const cmdError =
         error instanceof CommandExecutionError
           ? error
-          : new CommandExecutionError(
-              'npx tsc --noEmit',
-              null,
-              null,
-              '',
-              '',
-              String(error)
-            );
+          : new CommandExecutionError('npx tsc --noEmit', null, null, '', '', {
+              code: 'COMMAND_NOT_RUN',
+              params: {
+                command: 'npx tsc --noEmit',
+                reason: getErrorMessage(error),
+              },
+              cause: error,
+            });
       logger.error(`Type check failed: ${cmdError.message}`, cmdError);
       return 'fail';
     }
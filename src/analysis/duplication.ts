@@ -0,0 +1,212 @@
+import type {
+  AnalysisModule,
+  CodeIssue,
+  DuplicationSummary,
+  IssueDraft,
+  AnalyzerConfig,
+} from '../types/analysis';
+import { AnalysisError } from '../errors';
+import { logger } from '../utils/logger';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { touchesFileScope } from '../utils/file-scope';
+import {
+  applyRuleSettings,
+  getRuleOptions,
+  isRuleEnabled,
+  severityForLevel,
+} from '../config/rules';
+import { ModuleGraph } from '../utils/module-graph';
+import type { ModuleExport } from '../utils/module-graph';
+import { detectClones } from '../utils/clone-detection';
+import type { CloneCluster } from '../utils/clone-detection';
+
+// Names every module of a kind exports by convention; `default` is unnamed
+const DEFAULT_IGNORED_NAMES = ['Props'];
+
+export class DuplicationAnalyzer implements AnalysisModule {
+  name = 'DuplicationAnalyzer';
+  reportedRules = ['duplicate-*'];
+  supportsFileScope = true;
+  private lastSummary: DuplicationSummary | null = null;
+
+  canAnalyze(config: AnalyzerConfig): boolean {
+    return config.enabledAnalyzers.includes('duplication');
+  }
+
+  async analyze(config: AnalyzerConfig): Promise<CodeIssue[]> {
+    logger.info('Detecting duplicated code...');
+    const issues: IssueDraft[] = [];
+    this.lastSummary = null;
+
+    try {
+      const moduleGraph = await ModuleGraph.build(
+        config.projectRoot,
+        config.ignore
+      );
+      const modules = [...moduleGraph.modules.values()].filter(info =>
+        info.file.startsWith('src/')
+      );
+
+      if (isRuleEnabled(config, 'duplicate-code')) {
+        const { minTokens, minLines } = getRuleOptions(
+          config,
+          'duplicate-code',
+          { minTokens: 50, minLines: 5 }
+        );
+        const report = detectClones(
+          modules.map(info => ({
+            file: info.file,
+            code: info.code,
+            jsx: info.file.endsWith('.tsx'),
+          })),
+          { minTokens, minLines }
+        );
+
+        for (const cluster of report.clusters) {
+          issues.push(this.createCloneIssue(moduleGraph, cluster));
+        }
+        this.lastSummary = {
+          percentage:
+            report.totalLines > 0
+              ? Math.round(
+                  (report.duplicatedLines / report.totalLines) * 1000
+                ) / 10
+              : 0,
+          duplicatedLines: report.duplicatedLines,
+          totalLines: report.totalLines,
+          clusters: report.clusters.length,
+        };
+        logger.info(
+          `Duplication: ${this.lastSummary.percentage}% of ${report.totalLines} lines in ${report.clusters.length} clone clusters`
+        );
+      }
+
+      if (isRuleEnabled(config, 'duplicate-export')) {
+        const { ignoreNames } = getRuleOptions(config, 'duplicate-export', {
+          ignoreNames: DEFAULT_IGNORED_NAMES,
+        });
+        const ignored = new Set(ignoreNames);
+        const exporters = new Map<
+          string,
+          Array<{ file: string; entry: ModuleExport }>
+        >();
+
+        for (const info of modules) {
+          // Route modules export framework-defined names like getStaticPaths
+          if (info.file.startsWith('src/pages/')) continue;
+          for (const entry of info.exports) {
+            if (entry.name === 'default' || ignored.has(entry.name)) continue;
+            const sites = exporters.get(entry.name) ?? [];
+            if (!sites.some(site => site.file === info.file)) {
+              sites.push({ file: info.file, entry });
+            }
+            exporters.set(entry.name, sites);
+          }
+        }
+
+        for (const [name, sites] of exporters) {
+          if (sites.length < 2) continue;
+          const [first] = sites;
+          issues.push(
+            this.createIssue(moduleGraph, first.file, first.entry, {
+              rule: 'duplicate-export',
+              level: 'low',
+              title: 'Duplicate Export Name',
+              description: `'${name}' is exported by ${sites.length} modules: ${sites.map(site => site.file).join(', ')}`,
+              suggestion:
+                'Keep one implementation and import it everywhere, or rename the exports if they do different things',
+              relatedFiles: sites.map(
+                site => `${site.file}:${site.entry.line}:${site.entry.column}`
+              ),
+            })
+          );
+        }
+      }
+    } catch (error: unknown) {
+      const analysisError = new AnalysisError(
+        this.name,
+        error instanceof Error ? error : new Error(String(error)),
+        { code: 'DUPLICATION_CHECK_FAILED' }
+      );
+      logger.error(
+        `Duplication analysis failed: ${analysisError.message}`,
+        analysisError
+      );
+      throw analysisError;
+    }
+    // Clones are found across the project; scoped runs report the ones
+    // that involve a scoped file
+    return stampIssues(
+      applyRuleSettings(
+        issues.filter(issue => touchesFileScope(config, issue)),
+        config
+      ),
+      config.projectRoot
+    );
+  }
+
+  /**
+   * Duplication totals from the most recent run, for the project health
+   */
+  getLastSummary(): DuplicationSummary | null {
+    return this.lastSummary;
+  }
+
+  private createCloneIssue(
+    moduleGraph: ModuleGraph,
+    cluster: CloneCluster
+  ): IssueDraft {
+    const [first] = cluster.locations;
+    const files = new Set(cluster.locations.map(location => location.file));
+
+    return this.createIssue(moduleGraph, first.file, first, {
+      rule: 'duplicate-code',
+      level: 'medium',
+      title: 'Duplicated Code',
+      description: `${cluster.lines} lines (${cluster.tokens} tokens) are duplicated in ${cluster.locations.length} places${files.size > 1 ? ` across ${files.size} files` : ''}`,
+      suggestion:
+        'Extract the shared code into one function or module and reuse it',
+      relatedFiles: cluster.locations.map(
+        location => `${location.file}:${location.line}:${location.column}`
+      ),
+    });
+  }
+
+  private createIssue(
+    moduleGraph: ModuleGraph,
+    file: string,
+    location: { line: number; column: number },
+    details: {
+      rule: string;
+      level: 'medium' | 'low';
+      title: string;
+      description: string;
+      suggestion: string;
+      relatedFiles: string[];
+    }
+  ): IssueDraft {
+    const lines = moduleGraph.modules.get(file)?.lines ?? [];
+    const lineIndex = location.line - 1;
+
+    return {
+      type: 'duplication',
+      severity: severityForLevel(details.level),
+      title: details.title,
+      description: details.description,
+      file,
+      line: location.line,
+      column: location.column,
+      rule: details.rule,
+      category: 'Duplication',
+      source: 'clone-detector',
+      suggestion: details.suggestion,
+      autoFixable: false,
+      context: {
+        before: lines.slice(Math.max(0, lineIndex - 2), lineIndex),
+        current: lines[lineIndex] ?? '',
+        after: lines.slice(lineIndex + 1, lineIndex + 3),
+      },
+      metadata: { relatedFiles: details.relatedFiles },
+    };
+  }
+}
@@ -1,30 +1,37 @@
 import type {
   AnalysisModule,
   CodeIssue,
+  IssueDraft,
   AnalyzerConfig,
   GitAnalysis,
 } from '../types/analysis';
 import { executeCommand } from '../utils/command-executor';
 import { AnalysisError, CommandExecutionError } from '../errors';
 import { logger } from '../utils/logger';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { applyRuleSettings } from '../config/rules';
 
 export class GitAnalyzer implements AnalysisModule {
   name = 'GitAnalyzer';
+  reportedRules = ['git-*'];
   private lastAnalysis: GitAnalysis | null = null;
 
   canAnalyze(config: AnalyzerConfig): boolean {
     return config.enabledAnalyzers.includes('git');
   }
 
-  async analyze(config: AnalyzerConfig): Promise<CodeIssue[]> {
+  async analyze(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<CodeIssue[]> {
     logger.info('Analyzing Git status...');
-    const issues: CodeIssue[] = [];
+    const issues: IssueDraft[] = [];
 
     try {
       const [branchInfo, statusInfo, logInfo] = await Promise.all([
-        this.executeCommand('git branch --show-current', config),
-        this.executeCommand('git status --porcelain', config),
-        this.executeCommand('git log --oneline -1', config),
+        this.executeCommand('git branch --show-current', config, signal),
+        this.executeCommand('git status --porcelain', config, signal),
+        this.executeCommand('git log --oneline -1', config, signal),
       ]);
 
       const branch = branchInfo.stdout.trim();
@@ -39,7 +46,7 @@ export class GitAnalyzer implements AnalysisModule {
           line.startsWith('AA') ||
           line.startsWith('DD')
       );
-      const aheadBehind = await this.getAheadBehind(config);
+      const aheadBehind = await this.getAheadBehind(config, signal);
       const aheadBy = aheadBehind?.ahead ?? 0;
       const behindBy = aheadBehind?.behind ?? 0;
       const branchStatus: GitAnalysis['branchStatus'] = !branch
@@ -78,7 +85,6 @@ export class GitAnalyzer implements AnalysisModule {
       // Check for common Git issues
       if (gitAnalysis.uncommittedChanges) {
         issues.push({
-          id: `git-uncommitted-${Date.now()}`,
           type: 'git',
           severity: {
             level: 'low',
@@ -86,7 +92,9 @@ export class GitAnalyzer implements AnalysisModule {
             urgency: 'low',
           },
           title: 'Uncommitted Changes',
-          description: 'There are uncommitted changes in the repository',
+          // The counts change with every edit, so they stay out of the
+          // fingerprinted context and the issue keeps its id
+          description: `There are ${statusLines.length} uncommitted changes in the repository (added: ${gitAnalysis.fileChanges.added.length}, modified: ${gitAnalysis.fileChanges.modified.length}, deleted: ${gitAnalysis.fileChanges.deleted.length}, untracked: ${gitAnalysis.untracked?.length ?? 0})`,
           file: '.git',
           rule: 'git-status',
           category: 'Git',
@@ -94,7 +102,7 @@ export class GitAnalyzer implements AnalysisModule {
           suggestion: 'Commit or stash changes before deployment',
           autoFixable: false,
           context: {
-            current: `${statusLines.length} uncommitted changes (added: ${gitAnalysis.fileChanges.added.length}, modified: ${gitAnalysis.fileChanges.modified.length}, deleted: ${gitAnalysis.fileChanges.deleted.length}, untracked: ${gitAnalysis.untracked?.length ?? 0})`,
+            current: 'uncommitted changes',
           },
         });
       }
@@ -109,7 +117,6 @@ export class GitAnalyzer implements AnalysisModule {
               : 'low';
 
         issues.push({
-          id: `git-branch-${Date.now()}`,
           type: 'git',
           severity: {
             level: severityLevel,
@@ -124,14 +131,15 @@ export class GitAnalyzer implements AnalysisModule {
                 : gitAnalysis.branchStatus === 'behind'
                   ? 'Branch Is Behind Upstream'
                   : 'Branch Ahead Of Upstream',
-          description:
+          description: `${
             gitAnalysis.branchStatus === 'detached'
               ? 'Repository is in a detached HEAD state; create or switch to a branch to avoid losing work.'
               : gitAnalysis.branchStatus === 'ahead'
                 ? 'Local branch has commits not pushed to upstream.'
                 : gitAnalysis.branchStatus === 'behind'
                   ? 'Local branch is behind upstream; pull latest changes to avoid conflicts.'
-                  : 'Local branch has diverged; manual merge or rebase is required.',
+                  : 'Local branch has diverged; manual merge or rebase is required.'
+          } (ahead: ${gitAnalysis.aheadBy ?? 0}, behind: ${gitAnalysis.behindBy ?? 0})`,
           file: '.git',
           rule: 'git-branch-alignment',
           category: 'Git',
@@ -146,14 +154,13 @@ export class GitAnalyzer implements AnalysisModule {
                   : 'Create or checkout a branch before committing further changes.',
           autoFixable: false,
           context: {
-            current: `ahead: ${gitAnalysis.aheadBy ?? 0}, behind: ${gitAnalysis.behindBy ?? 0}, status: ${gitAnalysis.branchStatus}`,
+            current: `status: ${gitAnalysis.branchStatus}`,
           },
         });
       }
 
       if (gitAnalysis.conflicts) {
         issues.push({
-          id: `git-conflicts-${Date.now()}`,
           type: 'git',
           severity: {
             level: 'high',
@@ -184,13 +191,10 @@ export class GitAnalyzer implements AnalysisModule {
         });
       }
     } catch (error: unknown) {
+      signal?.throwIfAborted();
       const analysisError =
         error instanceof CommandExecutionError
-          ? new AnalysisError(
-              this.name,
-              error,
-              `Failed to run Git command: ${error.message}`
-            )
+          ? new AnalysisError(this.name, error, { code: 'GIT_COMMAND_FAILED' })
           : new AnalysisError(
               this.name,
               error instanceof Error ? error : new Error(String(error))
@@ -199,12 +203,13 @@ export class GitAnalyzer implements AnalysisModule {
         error: analysisError,
       });
     }
-    return issues;
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
   }
 
   private async executeCommand(
     command: string,
-    config: AnalyzerConfig
+    config: AnalyzerConfig,
+    signal?: AbortSignal
   ): Promise<{
     stdout: string;
     stderr: string;
@@ -214,16 +219,19 @@ export class GitAnalyzer implements AnalysisModule {
     return executeCommand(command, {
       cwd: config.projectRoot,
       ignoreExitCode: true,
+      signal,
     });
   }
 
   private async getAheadBehind(
-    config: AnalyzerConfig
+    config: AnalyzerConfig,
+    signal?: AbortSignal
   ): Promise<{ ahead: number; behind: number } | null> {
     try {
       const result = await this.executeCommand(
         'git rev-list --left-right --count HEAD...@{u}',
-        config
+        config,
+        signal
       );
 
       const counts = result.stdout.trim().split(/\s+/);
@@ -0,0 +1,208 @@
+import type {
+  AnalysisModule,
+  CodeIssue,
+  IssueDraft,
+  AnalyzerConfig,
+  PackageLicense,
+} from '../types/analysis';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AnalysisError } from '../errors';
+import { logger } from '../utils/logger';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { isInFileScope } from '../utils/file-scope';
+import {
+  applyRuleSettings,
+  isRuleEnabled,
+  severityForLevel,
+} from '../config/rules';
+import { collectPackageLicenses } from '../utils/license-inventory';
+import {
+  evaluateLicense,
+  normalizeLicenseId,
+  parseLicenseExpression,
+} from '../utils/spdx';
+import type { LicensePolicyLists } from '../utils/spdx';
+
+// Strong copyleft licenses that reach code distributed with, or served next
+// to, the dependency
+const DEFAULT_DENIED_LICENSES = [
+  'AGPL-1.0-only',
+  'AGPL-1.0-or-later',
+  'AGPL-3.0-only',
+  'AGPL-3.0-or-later',
+  'GPL-2.0-only',
+  'GPL-2.0-or-later',
+  'GPL-3.0-only',
+  'GPL-3.0-or-later',
+  'SSPL-1.0',
+];
+
+export class LicenseAnalyzer implements AnalysisModule {
+  name = 'LicenseAnalyzer';
+  reportedRules = ['license-*'];
+  supportsFileScope = true;
+
+  canAnalyze(config: AnalyzerConfig): boolean {
+    return config.enabledAnalyzers.includes('licenses');
+  }
+
+  async analyze(config: AnalyzerConfig): Promise<CodeIssue[]> {
+    logger.info('Checking dependency licenses...');
+    const issues: IssueDraft[] = [];
+
+    // Licenses only change with the lockfile
+    if (
+      !isInFileScope(config, 'package.json') &&
+      !isInFileScope(config, 'package-lock.json')
+    ) {
+      return [];
+    }
+
+    try {
+      const inventory = await collectPackageLicenses(config.projectRoot);
+      if (!inventory) {
+        logger.debug('No package-lock.json found; skipping license check');
+        return [];
+      }
+
+      const policy = config.licenses ?? {};
+      const lists: LicensePolicyLists = {
+        allow: this.normalizePolicyIds(policy.allow ?? []),
+        deny: this.normalizePolicyIds(policy.deny ?? DEFAULT_DENIED_LICENSES),
+      };
+      const ignored = new Set(policy.ignorePackages ?? []);
+      const lines = await this.getLockfileLines(config.projectRoot);
+
+      for (const pkg of inventory) {
+        if (
+          (pkg.dev && policy.includeDev === false) ||
+          ignored.has(pkg.name) ||
+          ignored.has(`${pkg.name}@${pkg.version}`)
+        ) {
+          continue;
+        }
+
+        const tree = pkg.license ? parseLicenseExpression(pkg.license) : null;
+        if (!tree) {
+          if (isRuleEnabled(config, 'license-unknown')) {
+            issues.push(
+              this.createIssue(pkg, lines, {
+                rule: 'license-unknown',
+                level: 'medium',
+                title: 'Unknown Dependency License',
+                description: pkg.declared
+                  ? `${pkg.name}@${pkg.version} declares the license '${pkg.declared}', which is not an SPDX expression.`
+                  : `${pkg.name}@${pkg.version} declares no license${pkg.licenseFile ? ` and its ${path.posix.basename(pkg.licenseFile)} was not recognized` : ' and ships no license file'}.`,
+                suggestion:
+                  'Review the license terms, then allow the package in `licenses.ignorePackages`',
+              })
+            );
+          }
+          continue;
+        }
+
+        const verdict = evaluateLicense(tree, lists);
+        if (verdict === 'denied' && isRuleEnabled(config, 'license-denied')) {
+          issues.push(
+            this.createIssue(pkg, lines, {
+              rule: 'license-denied',
+              level: 'high',
+              title: 'Denied Dependency License',
+              description: `${pkg.name}@${pkg.version} is licensed under ${pkg.license}, which the license policy denies.`,
+              suggestion:
+                'Replace the dependency, or get legal approval and add it to `licenses.ignorePackages`',
+            })
+          );
+        } else if (
+          verdict === 'not-allowed' &&
+          isRuleEnabled(config, 'license-not-allowed')
+        ) {
+          issues.push(
+            this.createIssue(pkg, lines, {
+              rule: 'license-not-allowed',
+              level: 'medium',
+              title: 'Dependency License Not Allowed',
+              description: `${pkg.name}@${pkg.version} is licensed under ${pkg.license}, which is not in the allowed licenses.`,
+              suggestion:
+                'Add the license to `licenses.allow` after review, or replace the dependency',
+            })
+          );
+        }
+      }
+
+      logger.info(
+        `Licenses: checked ${inventory.length} packages, ${issues.length} violations`
+      );
+    } catch (error: unknown) {
+      const analysisError = new AnalysisError(
+        this.name,
+        error instanceof Error ? error : new Error(String(error)),
+        { code: 'LICENSE_CHECK_FAILED' }
+      );
+      logger.error(
+        `License analysis failed: ${analysisError.message}`,
+        analysisError
+      );
+      throw analysisError;
+    }
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
+  }
+
+  private normalizePolicyIds(ids: string[]): string[] {
+    return ids.map(id => {
+      const normalized = normalizeLicenseId(id);
+      if (!normalized) {
+        logger.warn(`Unknown SPDX license id '${id}' in the license policy`);
+      }
+      return normalized ?? id;
+    });
+  }
+
+  /**
+   * Line of each `packages` key in package-lock.json, for issue locations
+   */
+  private async getLockfileLines(
+    projectRoot: string
+  ): Promise<Map<string, number>> {
+    const lines = new Map<string, number>();
+    const content = await fs
+      .readFile(path.join(projectRoot, 'package-lock.json'), 'utf-8')
+      .catch(() => '');
+
+    content.split('\n').forEach((line, index) => {
+      const match = /^\s*"(node_modules\/[^"]+)":\s*\{/.exec(line);
+      if (match && !lines.has(match[1])) lines.set(match[1], index + 1);
+    });
+    return lines;
+  }
+
+  private createIssue(
+    pkg: PackageLicense,
+    lines: Map<string, number>,
+    details: {
+      rule: string;
+      level: 'high' | 'medium';
+      title: string;
+      description: string;
+      suggestion: string;
+    }
+  ): IssueDraft {
+    return {
+      type: 'license',
+      severity: severityForLevel(details.level),
+      title: details.title,
+      description: details.description,
+      file: 'package-lock.json',
+      line: lines.get(pkg.path),
+      rule: details.rule,
+      category: 'Licenses',
+      source: 'license-checker',
+      suggestion: details.suggestion,
+      autoFixable: false,
+      context: {
+        current: `${pkg.path}@${pkg.version}: ${pkg.declared ?? 'no license'}${pkg.dev ? ' (dev)' : ''}`,
+      },
+    };
+  }
+}
@@ -1,86 +1,103 @@
 import type {
   AnalysisModule,
+  BundleComposition,
   CodeIssue,
+  IssueDraft,
   AnalyzerConfig,
+  SeverityLevel,
 } from '../types/analysis';
-import { executeCommand } from '../utils/command-executor';
-import { AnalysisError, CommandExecutionError } from '../errors';
+import { AnalysisError } from '../errors';
 import { logger } from '../utils/logger';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { filterToFileScope } from '../utils/file-scope';
+import {
+  applyRuleSettings,
+  getRuleOptions,
+  isRuleEnabled,
+  severityForLevel,
+} from '../config/rules';
+import { formatBytes, performanceBudgets } from '../config/performance-budgets';
+import { BUNDLE_STATS_FILE } from '../../config/bundleStats.js';
+import {
+  chunkGroups,
+  moduleBytes,
+  packageOf,
+  reachableModules,
+  readBundleStats,
+  staticChunkClosure,
+} from '../utils/bundle-stats';
+import type { BundleStats } from '../utils/bundle-stats';
+import {
+  crawlSite,
+  findSiteFile,
+  resolveSiteUrl,
+  siteDeployment,
+} from '../utils/site-crawler';
+import type { BuiltSite, SiteLink, SitePage } from '../utils/site-crawler';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { glob } from 'glob';
 
+type BundleRule =
+  | 'bundle-size'
+  | 'bundle-duplicate-package'
+  | 'bundle-heavy-dependency'
+  | 'bundle-unneeded-dependency'
+  | 'bundle-route-budget';
+
+const BUNDLE_RULES: Record<
+  BundleRule,
+  { title: string; level: SeverityLevel; suggestion: string }
+> = {
+  'bundle-size': {
+    title: 'Large Bundle Size Detected',
+    level: 'medium',
+    suggestion:
+      'Consider code splitting, tree shaking, or removing unused dependencies',
+  },
+  'bundle-duplicate-package': {
+    title: 'Package Bundled More Than Once',
+    level: 'medium',
+    suggestion:
+      'Align the version ranges that pull in each copy, or run npm dedupe, so the bundle ships one copy',
+  },
+  'bundle-heavy-dependency': {
+    title: 'Heavy Dependency Loaded Up Front',
+    level: 'low',
+    suggestion:
+      'Load the dependency with a dynamic import() when it is first needed, or hydrate its island with client:visible',
+  },
+  'bundle-unneeded-dependency': {
+    title: 'Dependency Loaded on a Page That Does Not Use It',
+    level: 'medium',
+    suggestion:
+      'The dependency shares a chunk with code this page needs; import it dynamically or move it out of the shared module so Rollup splits it into its own chunk',
+  },
+  'bundle-route-budget': {
+    title: 'Page Over Performance Budget',
+    level: 'medium',
+    suggestion:
+      'Defer scripts the page does not need up front and trim large assets; budgets are set in src/config/performance-budgets.ts',
+  },
+};
+
+const JS_FILE_RE = /\.(?:mjs|js|cjs)$/i;
+const CSS_FILE_RE = /\.css$/i;
+const BLOG_POST_RE = /^blog\/[^/]+\/index\.html$/;
+
+// Attributes that load a script chunk
+const SCRIPT_ATTRIBUTES = new Set([
+  'src',
+  'component-url',
+  'renderer-url',
+  'before-hydration-url',
+]);
+
 export class PerformanceAnalyzer implements AnalysisModule {
   name = 'PerformanceAnalyzer';
-
-  private static stripAnsi(text: string): string {
-    // Basic ANSI escape sequence stripping (colors, cursor moves, etc.).
-    // Note: avoid regex literals with control escapes to satisfy ESLint no-control-regex.
-    const ansiRe = new RegExp(
-      '[\\u001B\\u009B][[\\]\\()#;?]*(?:' +
-        '(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?' +
-        '[0-9A-ORZcf-nqry=><~])',
-      'g'
-    );
-    return text.replace(ansiRe, '');
-  }
-
-  private static parseViteAssetSizes(output: string): Array<{
-    file: string;
-    bytes: number;
-    gzipBytes?: number;
-  }> {
-    const entries: Array<{ file: string; bytes: number; gzipBytes?: number }> =
-      [];
-
-    // Vite typically prints lines like:
-    // dist/_astro/app.BLAH.js                41.12 kB │ gzip: 13.30 kB
-    // Some terminals may alter spacing; keep matching loose.
-    const re =
-      /(^|\n)\s*(?:\d{2}:\d{2}:\d{2}\s+\[vite\]\s+)?(?<file>dist[\\/][^\s]+)\s+(?<size>\d+(?:\.\d+)?)\s*(?<unit>kB|MB)\b(?:\s*\|\s*gzip:\s*(?<gzip>\d+(?:\.\d+)?)\s*(?<gzipUnit>kB|MB))?/gm;
-
-    const toBytes = (value: number, unit: string): number =>
-      unit === 'MB' ? value * 1024 * 1024 : value * 1024;
-
-    let match: RegExpExecArray | null;
-    while ((match = re.exec(output))) {
-      const groups = match.groups as
-        | {
-            file?: string;
-            size?: string;
-            unit?: string;
-            gzip?: string;
-            gzipUnit?: string;
-          }
-        | undefined;
-
-      const file = groups?.file;
-      const size = groups?.size;
-      const unit = groups?.unit;
-      if (!file || !size || !unit) continue;
-
-      const value = Number(size);
-      if (!Number.isFinite(value)) continue;
-
-      const entry: { file: string; bytes: number; gzipBytes?: number } = {
-        file,
-        bytes: toBytes(value, unit),
-      };
-
-      const gzip = groups?.gzip;
-      const gzipUnit = groups?.gzipUnit;
-      if (gzip && gzipUnit) {
-        const gzipValue = Number(gzip);
-        if (Number.isFinite(gzipValue)) {
-          entry.gzipBytes = toBytes(gzipValue, gzipUnit);
-        }
-      }
-
-      entries.push(entry);
-    }
-
-    return entries;
-  }
+  reportedRules = ['image-optimization', 'lazy-loading', 'bundle-*'];
+  supportsFileScope = true;
+  private lastComposition: BundleComposition | null = null;
 
   canAnalyze(config: AnalyzerConfig): boolean {
     return config.enabledAnalyzers.includes('performance');
@@ -88,22 +105,30 @@ export class PerformanceAnalyzer implements AnalysisModule {
 
   async analyze(config: AnalyzerConfig): Promise<CodeIssue[]> {
     logger.info('Checking performance issues...');
-    const issues: CodeIssue[] = [];
+    const issues: IssueDraft[] = [];
+    this.lastComposition = null;
 
     try {
       if (process.env.npm_lifecycle_event === 'build') {
         logger.info('Skipping performance checks during build lifecycle');
-        return issues;
+        return [];
       }
 
       const skipBundleCheck = this.shouldSkipBundleCheck(config);
-      const tasks: Array<Promise<void>> = [
-        this.checkImageOptimization(config, issues),
-        this.checkLazyLoading(config, issues),
-      ];
+      const tasks: Array<Promise<void>> = [];
 
-      if (!skipBundleCheck) {
-        tasks.push(this.checkBundleSize(config, issues));
+      if (isRuleEnabled(config, 'image-optimization')) {
+        tasks.push(this.checkImageOptimization(config, issues));
+      }
+      if (isRuleEnabled(config, 'lazy-loading')) {
+        tasks.push(this.checkLazyLoading(config, issues));
+      }
+
+      const bundleRules = Object.keys(BUNDLE_RULES).filter(rule =>
+        isRuleEnabled(config, rule)
+      );
+      if (!skipBundleCheck && bundleRules.length > 0) {
+        tasks.push(this.checkBundle(config, issues));
       } else {
         logger.debug('Skipping bundle size check due to environment/config');
       }
@@ -121,7 +146,7 @@ export class PerformanceAnalyzer implements AnalysisModule {
         error: analysisError,
       });
     }
-    return issues;
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
   }
 
   /**
@@ -129,8 +154,13 @@ export class PerformanceAnalyzer implements AnalysisModule {
    */
   private async checkImageOptimization(
     config: AnalyzerConfig,
-    issues: CodeIssue[]
+    issues: IssueDraft[]
   ): Promise<void> {
+    const { maxKb, highKb } = getRuleOptions(config, 'image-optimization', {
+      maxKb: 200,
+      highKb: 500,
+    });
+
     try {
       // Find all image files
       const imageFiles = await glob('**/*.{png,jpg,jpeg,gif,bmp}', {
@@ -139,18 +169,17 @@ export class PerformanceAnalyzer implements AnalysisModule {
         absolute: true,
       });
 
-      for (const imagePath of imageFiles) {
+      for (const imagePath of filterToFileScope(config, imageFiles)) {
         try {
           const stats = await fs.stat(imagePath);
           const sizeInKB = stats.size / 1024;
 
-          // Flag images larger than 200KB
-          if (sizeInKB > 200) {
+          // Flag images larger than maxKb (200KB by default)
+          if (sizeInKB > maxKb) {
             issues.push({
-              id: `perf-image-${Date.now()}-${Math.random()}`,
               type: 'performance',
               severity: {
-                level: sizeInKB > 500 ? 'high' : 'medium',
+                level: sizeInKB > highKb ? 'high' : 'medium',
                 impact: 'minor',
                 urgency: 'medium',
               },
@@ -179,16 +208,21 @@ export class PerformanceAnalyzer implements AnalysisModule {
    */
   private async checkLazyLoading(
     config: AnalyzerConfig,
-    issues: CodeIssue[]
+    issues: IssueDraft[]
   ): Promise<void> {
+    const { skipPattern } = getRuleOptions(config, 'lazy-loading', {
+      skipPattern: 'icon|logo|avatar|favicon',
+    });
+
     try {
+      const skipRe = new RegExp(skipPattern, 'i');
       const htmlFiles = await glob('**/*.{astro,html,tsx,jsx}', {
         cwd: config.projectRoot,
         ignore: ['node_modules/**', 'dist/**', '.astro/**', ...config.ignore],
         absolute: true,
       });
 
-      for (const filePath of htmlFiles) {
+      for (const filePath of filterToFileScope(config, htmlFiles)) {
         try {
           const content = await fs.readFile(filePath, 'utf-8');
           const lines = content.split('\n');
@@ -202,12 +236,11 @@ export class PerformanceAnalyzer implements AnalysisModule {
               !/loading=["']lazy["']/i.test(line)
             ) {
               // Skip if it's clearly an icon or small image
-              if (/icon|logo|avatar|favicon/i.test(line)) continue;
+              if (skipRe.test(line)) continue;
               // Skip if it already has loading attribute
               if (/loading=["']/i.test(line)) continue;
 
               issues.push({
-                id: `perf-lazy-${Date.now()}-${Math.random()}`,
                 type: 'performance',
                 severity: { level: 'low', impact: 'minor', urgency: 'low' },
                 title: 'Image Missing Lazy Loading',
@@ -236,156 +269,414 @@ export class PerformanceAnalyzer implements AnalysisModule {
     }
   }
 
-  private async checkBundleSize(
+  /**
+   * Bundle totals from the most recent run, for the HTML report
+   */
+  getLastComposition(): BundleComposition | null {
+    return this.lastComposition;
+  }
+
+  /**
+   * Check the client bundle using the stats the `bundleStats()` integration
+   * records during the build, and what each built page loads
+   */
+  private async checkBundle(
     config: AnalyzerConfig,
-    issues: CodeIssue[]
+    issues: IssueDraft[]
   ): Promise<void> {
     try {
-      if (this.shouldSkipBundleCheck(config)) {
-        logger.debug('Skipping bundle size check in CI/test/watch context');
+      const statsFile = config.bundleStatsFile ?? BUNDLE_STATS_FILE;
+      const stats = await readBundleStats(config.projectRoot, statsFile);
+      if (!stats) {
+        logger.debug(
+          `No bundle stats in ${statsFile}; add bundleStats() to the Astro integrations and build to record them`
+        );
         return;
       }
 
-      const { stdout, stderr } = await executeCommand(
-        'npx astro build --dry-run',
-        {
-          cwd: config.projectRoot,
-          ignoreExitCode: true,
-          retries: 1,
-          retryDelay: 500,
+      const deployment = siteDeployment(config.site);
+      const site = await crawlSite(
+        config.projectRoot,
+        deployment.outDir,
+        deployment.basePath
+      );
+      const outDir = site?.outDir ?? deployment.outDir;
+
+      // Files outside the stats, like HTML pages and public/ files, are measured on disk
+      const sizes = new Map(
+        [...stats.chunks, ...stats.assets].map(entry => [
+          entry.file,
+          entry.bytes,
+        ])
+      );
+      const sizeOf = async (file: string): Promise<number> => {
+        let size = sizes.get(file);
+        if (size === undefined) {
+          size = await fs
+            .stat(path.join(config.projectRoot, outDir, file))
+            .then(
+              stat => stat.size,
+              () => 0
+            );
+          sizes.set(file, size);
         }
+        return size;
+      };
+
+      await this.checkBundleSize(config, stats, site, outDir, sizeOf, issues);
+      await this.checkDuplicatePackages(config, stats, outDir, issues);
+      const routes = site
+        ? await this.checkRoutes(
+            config,
+            stats,
+            site,
+            { ...deployment, basePath: site.basePath },
+            sizeOf,
+            issues
+          )
+        : [];
+
+      this.lastComposition = {
+        totalBytes: stats.chunks.reduce((sum, chunk) => sum + chunk.bytes, 0),
+        chunks: [...stats.chunks]
+          .sort((a, b) => b.bytes - a.bytes)
+          .map(chunk => ({
+            file: chunk.file,
+            bytes: chunk.bytes,
+            groups: chunkGroups(chunk),
+          })),
+        routes,
+      };
+      logger.info(
+        `Bundle: ${stats.chunks.length} chunks, ${formatBytes(this.lastComposition.totalBytes, 1)} of JavaScript${site ? ` across ${routes.length} pages` : ''}`
+      );
+    } catch (error: unknown) {
+      const analysisError = new AnalysisError(
+        this.name,
+        error instanceof Error ? error : new Error(String(error)),
+        { code: 'BUNDLE_CHECK_FAILED' }
       );
+      logger.warn(`Bundle check failed: ${analysisError.message}`, {
+        error: analysisError,
+      });
+    }
+  }
 
-      const output = PerformanceAnalyzer.stripAnsi(`${stdout}\n${stderr}`);
-
-      // If Astro/Vite provides an explicit warning, respect it.
-      if (output.includes('Large bundle detected')) {
-        issues.push({
-          id: `bundle-size-${Date.now()}`,
-          type: 'performance',
-          severity: {
-            level: 'medium',
-            impact: 'minor',
-            urgency: 'medium',
-          },
-          title: 'Large Bundle Size Detected',
-          description:
-            'The application bundle size may impact loading performance',
-          file: 'build-output',
-          rule: 'bundle-size',
-          category: 'Performance',
-          source: 'bundle-analyzer',
-          suggestion:
-            'Consider code splitting, tree shaking, or removing unused dependencies',
-          autoFixable: false,
-          context: {
-            current: 'Build analysis suggests large bundle size',
-          },
-        });
+  /**
+   * Flag single chunks, single stylesheets and the whole client bundle over
+   * the `bundle-size` limits
+   */
+  private async checkBundleSize(
+    config: AnalyzerConfig,
+    stats: BundleStats,
+    site: BuiltSite | null,
+    outDir: string,
+    sizeOf: (file: string) => Promise<number>,
+    issues: IssueDraft[]
+  ): Promise<void> {
+    if (!isRuleEnabled(config, 'bundle-size')) return;
+    const { maxSingleJsKb, maxTotalJsKb, maxSingleCssKb } = getRuleOptions(
+      config,
+      'bundle-size',
+      { maxSingleJsKb: 350, maxTotalJsKb: 2000, maxSingleCssKb: 250 }
+    );
 
-        return;
-      }
+    for (const chunk of stats.chunks) {
+      if (chunk.bytes <= maxSingleJsKb * 1024) continue;
+      const groups = chunkGroups(chunk)
+        .slice(0, 3)
+        .map(group => `${group.name} ${formatBytes(group.bytes, 1)}`);
+      issues.push(
+        this.createBundleIssue('bundle-size', `${outDir}/${chunk.file}`, {
+          description: `${chunk.file} is ${formatBytes(chunk.bytes, 1)}, over the ${maxSingleJsKb} KB chunk limit; largest parts: ${groups.join(', ')}`,
+          current: chunk.facadeModule ?? chunk.file,
+        })
+      );
+    }
 
-      // Prefer parsing the Vite asset table rather than relying on output length.
-      const assets = PerformanceAnalyzer.parseViteAssetSizes(output);
-      if (assets.length === 0) {
-        logger.debug(
-          'Bundle size check found no Vite asset size entries; skipping warning'
+    const totalBytes = stats.chunks.reduce(
+      (sum, chunk) => sum + chunk.bytes,
+      0
+    );
+    if (totalBytes > maxTotalJsKb * 1024) {
+      issues.push(
+        this.createBundleIssue('bundle-size', outDir, {
+          description: `The client bundle is ${formatBytes(totalBytes, 1)} of JavaScript in ${stats.chunks.length} chunks, over the ${maxTotalJsKb} KB limit`,
+          current: `${stats.chunks.length} chunks`,
+        })
+      );
+    }
+
+    // Astro emits page styles outside the client build, so look in the output too
+    const stylesheets = new Set([
+      ...stats.assets.map(asset => asset.file),
+      ...stats.chunks.flatMap(chunk => chunk.css),
+      ...(site?.files ?? []),
+    ]);
+    for (const file of [...stylesheets].filter(name =>
+      CSS_FILE_RE.test(name)
+    )) {
+      const bytes = await sizeOf(file);
+      if (bytes <= maxSingleCssKb * 1024) continue;
+      issues.push(
+        this.createBundleIssue('bundle-size', `${outDir}/${file}`, {
+          description: `${file} is ${formatBytes(bytes, 1)}, over the ${maxSingleCssKb} KB stylesheet limit`,
+          current: file,
+        })
+      );
+    }
+  }
+
+  /**
+   * Flag packages bundled from more than one install directory, which ships
+   * several copies (and usually several versions) of the same code
+   */
+  private async checkDuplicatePackages(
+    config: AnalyzerConfig,
+    stats: BundleStats,
+    outDir: string,
+    issues: IssueDraft[]
+  ): Promise<void> {
+    if (!isRuleEnabled(config, 'bundle-duplicate-package')) return;
+    const installs = new Map<string, Map<string, Set<string>>>();
+
+    for (const chunk of stats.chunks) {
+      for (const module of chunk.modules) {
+        const pkg = packageOf(module.id);
+        if (!pkg) continue;
+        const copies = installs.get(pkg.name) ?? new Map<string, Set<string>>();
+        copies.set(
+          pkg.path,
+          (copies.get(pkg.path) ?? new Set()).add(chunk.file)
         );
-        return;
+        installs.set(pkg.name, copies);
       }
+    }
 
-      const jsAssets = assets.filter(entry =>
-        /\.(mjs|js|cjs)$/i.test(entry.file)
+    for (const [name, copies] of installs) {
+      if (copies.size < 2) continue;
+      const described = await Promise.all(
+        [...copies].map(async ([installPath, chunks]) => {
+          const version = await fs
+            .readFile(
+              path.join(config.projectRoot, installPath, 'package.json'),
+              'utf-8'
+            )
+            .then(
+              manifest =>
+                (JSON.parse(manifest) as { version?: string }).version,
+              () => undefined
+            );
+          return `${version ? `${version} from ` : ''}${installPath} in ${[...chunks].join(', ')}`;
+        })
       );
-      const cssAssets = assets.filter(entry => /\.css$/i.test(entry.file));
-
-      // Thresholds (raw sizes) – conservative defaults to avoid false positives.
-      const MAX_SINGLE_JS_KB = 350;
-      const MAX_TOTAL_JS_KB = 2000;
-      const MAX_SINGLE_CSS_KB = 250;
-
-      const maxBy = <T>(items: T[], get: (item: T) => number): T | null => {
-        let best: T | null = null;
-        let bestValue = -Infinity;
-        for (const item of items) {
-          const value = get(item);
-          if (value > bestValue) {
-            bestValue = value;
-            best = item;
+      const chunkFiles = [
+        ...new Set([...copies.values()].flatMap(set => [...set])),
+      ];
+      issues.push(
+        this.createBundleIssue(
+          'bundle-duplicate-package',
+          `${outDir}/${chunkFiles[0]}`,
+          {
+            description: `${name} is bundled ${copies.size} times: ${described.join('; ')}`,
+            current: name,
+            relatedFiles:
+              chunkFiles.length > 1
+                ? chunkFiles.map(file => `${outDir}/${file}`)
+                : undefined,
           }
-        }
-        return best;
-      };
+        )
+      );
+    }
+  }
+
+  /**
+   * Measure what each built page loads up front and flag pages over the
+   * performance budgets and dependencies they load without using
+   */
+  private async checkRoutes(
+    config: AnalyzerConfig,
+    stats: BundleStats,
+    site: BuiltSite,
+    deployment: { basePath: string; siteUrl: string },
+    sizeOf: (file: string) => Promise<number>,
+    issues: IssueDraft[]
+  ): Promise<BundleComposition['routes']> {
+    const { maxKb: heavyKb } = getRuleOptions(
+      config,
+      'bundle-heavy-dependency',
+      { maxKb: 250 }
+    );
+    const { minKb: unneededKb } = getRuleOptions(
+      config,
+      'bundle-unneeded-dependency',
+      { minKb: 20 }
+    );
+    const chunks = new Map(stats.chunks.map(chunk => [chunk.file, chunk]));
+    const routes: BundleComposition['routes'] = [];
+
+    for (const page of site.pages) {
+      // Each file the page requests, with the first tag that requests it
+      const loaded = new Map<string, SiteLink>();
+      for (const link of page.links) {
+        if (link.navigation || link.element === 'meta') continue;
+        const target = resolveSiteUrl(link.url, page.url, deployment);
+        if (target.kind !== 'internal') continue;
+        const file = findSiteFile(site.files, target.path) ?? target.path;
+        if (file.endsWith('.html') || loaded.has(file)) continue;
+        loaded.set(file, link);
+      }
 
-      const jsTotalBytes = jsAssets.reduce(
-        (sum, entry) => sum + entry.bytes,
-        0
+      const entries = [...loaded]
+        .filter(
+          ([file, link]) =>
+            chunks.has(file) && SCRIPT_ATTRIBUTES.has(link.attribute)
+        )
+        .map(([file, link]) => ({
+          link,
+          closure: staticChunkClosure(stats, [file]),
+          facade: chunks.get(file)?.facadeModule ?? null,
+        }));
+      const scriptChunks = new Set(
+        entries.flatMap(entry => [...entry.closure])
       );
-      const largestJs = maxBy(jsAssets, entry => entry.bytes);
-      const largestCss = maxBy(cssAssets, entry => entry.bytes);
-
-      const largestJsKb = largestJs ? largestJs.bytes / 1024 : 0;
-      const jsTotalKb = jsTotalBytes / 1024;
-      const largestCssKb = largestCss ? largestCss.bytes / 1024 : 0;
-
-      const isLarge =
-        (largestJs && largestJsKb > MAX_SINGLE_JS_KB) ||
-        jsTotalKb > MAX_TOTAL_JS_KB ||
-        (largestCss && largestCssKb > MAX_SINGLE_CSS_KB);
-
-      if (isLarge) {
-        issues.push({
-          id: `bundle-size-${Date.now()}`,
-          type: 'performance',
-          severity: {
-            level: 'medium',
-            impact: 'minor',
-            urgency: 'medium',
-          },
-          title: 'Large Bundle Size Detected',
-          description:
-            'The application bundle size may impact loading performance',
-          file: 'build-output',
-          rule: 'bundle-size',
-          category: 'Performance',
-          source: 'bundle-analyzer',
-          suggestion:
-            'Consider code splitting, tree shaking, or removing unused dependencies',
-          autoFixable: false,
-          context: {
-            current: `largestJs=${largestJs ? `${largestJs.file} (${largestJsKb.toFixed(1)} kB)` : 'n/a'}, jsTotal=${jsTotalKb.toFixed(1)} kB, largestCss=${largestCss ? `${largestCss.file} (${largestCssKb.toFixed(1)} kB)` : 'n/a'}`,
-          },
-        });
+      const files = new Set([
+        ...loaded.keys(),
+        ...scriptChunks,
+        ...[...scriptChunks].flatMap(file => chunks.get(file)?.css ?? []),
+      ]);
+
+      let jsBytes = 0;
+      let cssBytes = 0;
+      let weightBytes = await sizeOf(page.path);
+      for (const file of files) {
+        const bytes = await sizeOf(file);
+        weightBytes += bytes;
+        if (JS_FILE_RE.test(file)) jsBytes += bytes;
+        else if (CSS_FILE_RE.test(file)) cssBytes += bytes;
       }
-    } catch (error: unknown) {
-      const analysisError =
-        error instanceof CommandExecutionError
-          ? new AnalysisError(
-              this.name,
-              error,
-              `Failed to run bundle size check: ${error.message}`
-            )
-          : new AnalysisError(
-              this.name,
-              error instanceof Error ? error : new Error(String(error))
-            );
-      logger.warn(`Bundle size check failed: ${analysisError.message}`, {
-        error: analysisError,
+      routes.push({
+        url: page.url,
+        file: page.file,
+        jsBytes,
+        cssBytes,
+        weightBytes,
       });
+
+      if (isRuleEnabled(config, 'bundle-route-budget')) {
+        const budgets: Array<[string, number, number]> = [
+          ['JavaScript', jsBytes, performanceBudgets.javascript.total],
+          ['CSS', cssBytes, performanceBudgets.css.total],
+          ['total page weight', weightBytes, this.pageWeightBudget(page)],
+        ];
+        for (const [kind, bytes, budget] of budgets) {
+          if (bytes <= budget) continue;
+          issues.push(
+            this.createBundleIssue('bundle-route-budget', page.file, {
+              description: `${page.url} loads ${formatBytes(bytes, 1)} of ${kind}, over its ${formatBytes(budget, 1)} budget`,
+              current: `${kind}: ${formatBytes(bytes, 1)}`,
+            })
+          );
+        }
+      }
+
+      // Modules the page's own scripts import; the rest of a loaded chunk rides along
+      const used = reachableModules(
+        stats,
+        entries.flatMap(entry => (entry.facade ? [entry.facade] : []))
+      );
+      const packages = new Map<
+        string,
+        { bytes: number; used: boolean; chunk: string }
+      >();
+      for (const file of scriptChunks) {
+        const chunk = chunks.get(file);
+        if (!chunk) continue;
+        for (const [id, bytes] of moduleBytes(chunk)) {
+          const pkg = packageOf(id);
+          if (!pkg) continue;
+          const entry = packages.get(pkg.name) ?? {
+            bytes: 0,
+            used: false,
+            chunk: file,
+          };
+          entry.bytes += bytes;
+          entry.used ||= used.has(id);
+          packages.set(pkg.name, entry);
+        }
+      }
+
+      for (const [name, { bytes, used: isUsed, chunk }] of packages) {
+        const rule: BundleRule = isUsed
+          ? 'bundle-heavy-dependency'
+          : 'bundle-unneeded-dependency';
+        const minBytes = (isUsed ? heavyKb : unneededKb) * 1024;
+        if (bytes < minBytes || !isRuleEnabled(config, rule)) continue;
+        const { link } =
+          entries.find(entry => entry.closure.has(chunk)) ?? entries[0];
+        issues.push(
+          this.createBundleIssue(rule, page.file, {
+            description: isUsed
+              ? `${page.url} loads ${formatBytes(bytes, 1)} of ${name} before the page runs`
+              : `${page.url} loads ${formatBytes(bytes, 1)} of ${name}, which none of its scripts import; it comes with ${chunk}`,
+            current: `<${link.element} ${link.attribute}="${link.url}">`,
+            location: link,
+          })
+        );
+      }
     }
+
+    return routes;
   }
 
-  private shouldSkipBundleCheck(config: AnalyzerConfig): boolean {
-    if (process.env.CI === 'true') {
-      return true;
+  /**
+   * The page weight budget for a built page
+   */
+  private pageWeightBudget(page: SitePage): number {
+    const { pageWeight } = performanceBudgets;
+    if (page.path === 'index.html') return pageWeight.home;
+    if (BLOG_POST_RE.test(page.path)) return pageWeight.blogPost;
+    return pageWeight.default;
+  }
+
+  private createBundleIssue(
+    rule: BundleRule,
+    file: string,
+    details: {
+      description: string;
+      current: string;
+      location?: { line: number; column: number };
+      relatedFiles?: string[];
     }
+  ): IssueDraft {
+    const { title, level, suggestion } = BUNDLE_RULES[rule];
+    return {
+      type: 'performance',
+      severity: severityForLevel(level),
+      title,
+      description: details.description,
+      file,
+      line: details.location?.line,
+      column: details.location?.column,
+      rule,
+      category: 'Performance',
+      source: 'bundle-analyzer',
+      suggestion,
+      autoFixable: false,
+      context: { current: details.current },
+      ...(details.relatedFiles && {
+        metadata: { relatedFiles: details.relatedFiles },
+      }),
+    };
+  }
 
-    if (process.env.npm_lifecycle_event === 'test') {
+  private shouldSkipBundleCheck(config: AnalyzerConfig): boolean {
+    if (config.watchMode) {
       return true;
     }
 
-    if (config.watchMode) {
+    // Bundle stats describe the whole bundle, not the changed files
+    if (config.files) {
       return true;
     }
 
@@ -1,6 +1,7 @@
 import type {
-  AnalysisModule,
   CodeIssue,
+  FileAnalysisModule,
+  IssueDraft,
   AnalyzerConfig,
 } from '../types/analysis';
 import fs from 'fs/promises';
@@ -8,45 +9,286 @@ import path from 'path';
 import { glob } from 'glob';
 import { FileSystemError, AnalysisError } from '../errors';
 import { logger } from '../utils/logger';
-import { generateChecksum } from '../utils/common';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { filterToFileScope, isInFileScope } from '../utils/file-scope';
+import {
+  applyRuleSettings,
+  getRuleOptions,
+  isRuleEnabled,
+  severityForLevel,
+} from '../config/rules';
 import { executeCommand } from '../utils/command-executor';
+import { normalizeIssuePath } from '../utils/issue-fingerprint';
+import {
+  DEFAULT_ENTROPY_OPTIONS,
+  SecretAllowlist,
+  redactSecrets,
+  scanForSecrets,
+} from '../utils/secret-scanner';
+import type { SecretFinding, SecretScanOptions } from '../utils/secret-scanner';
+
+/**
+ * Lines one commit added to a file, from `git log -p -U0`
+ */
+interface AddedHunk {
+  commit: string;
+  date: string;
+  file: string;
+  startLine: number;
+  lines: string[];
+}
+
+function parseAddedHunks(log: string): AddedHunk[] {
+  const hunks: AddedHunk[] = [];
+  let commit = '';
+  let date = '';
+  let file: string | null = null;
+  let hunk: AddedHunk | null = null;
+  let inHeader = false;
+
+  for (const line of log.split('\n')) {
+    const commitMatch = /^commit (\S+) (\S+)$/.exec(line);
+    if (commitMatch) {
+      [, commit, date] = commitMatch;
+      hunk = null;
+      continue;
+    }
+    if (line.startsWith('diff --git ')) {
+      inHeader = true;
+      file = null;
+      hunk = null;
+      continue;
+    }
+    if (inHeader) {
+      if (line.startsWith('+++ ')) {
+        const target = line.slice(4).replace(/^"|"$/g, '');
+        file = target.startsWith('b/') ? target.slice(2) : null;
+      }
+      if (!line.startsWith('@@')) continue;
+      inHeader = false;
+    }
 
-export class SecurityAnalyzer implements AnalysisModule {
+    const hunkMatch = /^@@ -\S+ \+(\d+)(?:,\d+)? @@/.exec(line);
+    if (hunkMatch) {
+      hunk = file
+        ? { commit, date, file, startLine: Number(hunkMatch[1]), lines: [] }
+        : null;
+      if (hunk) hunks.push(hunk);
+    } else if (hunk && line.startsWith('+')) {
+      hunk.lines.push(line.slice(1));
+    }
+  }
+
+  return hunks;
+}
+
+export class SecurityAnalyzer implements FileAnalysisModule {
   name = 'SecurityAnalyzer';
+  reportedRules = [
+    'dependency-vulnerability',
+    'env-files-in-repo',
+    'high-entropy-string',
+    'no-hardcoded-secrets',
+    'secret-in-git-history',
+    'security-pattern',
+  ];
+  supportsFileScope = true as const;
+  version = '1';
 
   canAnalyze(config: AnalyzerConfig): boolean {
     return config.enabledAnalyzers.includes('security');
   }
 
-  async analyze(config: AnalyzerConfig): Promise<CodeIssue[]> {
+  async analyze(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<CodeIssue[]> {
     logger.info('Checking security vulnerabilities...');
-    const issues: CodeIssue[] = [];
+    const issues: IssueDraft[] = [];
 
     try {
-      // Check for known vulnerabilities via npm audit
-      await this.checkDependencyVulnerabilities(config, issues);
+      await this.checkDependencies(config, issues, signal);
+
+      const allowlist =
+        this.scansSecrets(config) || this.scansHistory(config)
+          ? await this.loadAllowlist(config)
+          : null;
+
+      for (const file of await this.getFiles(config)) {
+        signal?.throwIfAborted();
+        let content: string;
+        try {
+          content = await fs.readFile(file, 'utf-8');
+        } catch (error: unknown) {
+          const fsError =
+            error instanceof FileSystemError
+              ? error
+              : new FileSystemError(
+                  'read',
+                  file,
+                  error instanceof Error ? error : new Error(String(error))
+                );
+          logger.warn(`Could not analyze ${file}: ${fsError.message}`, {
+            error: fsError,
+            filePath: file,
+          });
+          continue;
+        }
+        this.checkFile(file, content, config, allowlist, issues);
+      }
 
-      // Check for security anti-patterns
-      await this.checkSecurityPatterns(config, issues);
+      await this.checkRepository(config, allowlist, issues, signal);
+    } catch (error: unknown) {
+      signal?.throwIfAborted();
+      this.reportFailure(error);
+    }
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
+  }
 
-      // Check environment variables exposure
-      await this.checkEnvironmentSecurity(config, issues);
+  async analyzeProject(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<CodeIssue[]> {
+    const issues: IssueDraft[] = [];
 
-      // Check for committed environment files
-      await this.checkEnvFiles(config, issues);
+    try {
+      await this.checkDependencies(config, issues, signal);
+      const allowlist = this.scansHistory(config)
+        ? await this.loadAllowlist(config)
+        : null;
+      await this.checkRepository(config, allowlist, issues, signal);
     } catch (error: unknown) {
-      const analysisError =
-        error instanceof AnalysisError
-          ? error
-          : new AnalysisError(
-              this.name,
-              error instanceof Error ? error : new Error(String(error))
-            );
-      logger.warn(`Security analysis failed: ${analysisError.message}`, {
-        error: analysisError,
-      });
+      signal?.throwIfAborted();
+      this.reportFailure(error);
+    }
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
+  }
+
+  async analyzeFile(
+    file: string,
+    content: string,
+    config: AnalyzerConfig
+  ): Promise<CodeIssue[]> {
+    const issues: IssueDraft[] = [];
+    const allowlist = this.scansSecrets(config)
+      ? await this.loadAllowlist(config)
+      : null;
+
+    this.checkFile(file, content, config, allowlist, issues);
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
+  }
+
+  async getFiles(config: AnalyzerConfig): Promise<string[]> {
+    const files = await glob(config.include, {
+      cwd: config.projectRoot,
+      ignore: config.ignore,
+      nodir: true,
+      absolute: true,
+    });
+
+    return filterToFileScope(config, files);
+  }
+
+  getCacheInputs(config: AnalyzerConfig): string[] {
+    return [
+      path.resolve(
+        config.projectRoot,
+        config.secretsAllowlistFile ?? SecretAllowlist.DEFAULT_FILE
+      ),
+    ];
+  }
+
+  /**
+   * Check for known vulnerabilities via npm audit, which covers the whole
+   * dependency tree, so scoped runs only audit a changed lockfile
+   */
+  private async checkDependencies(
+    config: AnalyzerConfig,
+    issues: IssueDraft[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (
+      isRuleEnabled(config, 'dependency-vulnerability') &&
+      (isInFileScope(config, 'package.json') ||
+        isInFileScope(config, 'package-lock.json'))
+    ) {
+      await this.checkDependencyVulnerabilities(config, issues, signal);
+    }
+  }
+
+  /**
+   * Checks that span files in the repository: secrets in the git history
+   * and committed environment files
+   */
+  private async checkRepository(
+    config: AnalyzerConfig,
+    allowlist: SecretAllowlist | null,
+    issues: IssueDraft[],
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (allowlist && this.scansHistory(config)) {
+      await this.checkGitHistorySecrets(config, allowlist, issues, signal);
+    }
+
+    // Check for committed environment files
+    if (isRuleEnabled(config, 'env-files-in-repo')) {
+      await this.checkEnvFiles(config, issues);
     }
-    return issues;
+  }
+
+  /**
+   * Checks of one file's content: security anti-patterns and hardcoded secrets
+   */
+  private checkFile(
+    file: string,
+    content: string,
+    config: AnalyzerConfig,
+    allowlist: SecretAllowlist | null,
+    issues: IssueDraft[]
+  ): void {
+    if (isRuleEnabled(config, 'security-pattern')) {
+      issues.push(...this.checkSecurityPatterns(file, content, config));
+    }
+
+    if (allowlist && this.scansSecrets(config)) {
+      this.checkHardcodedSecrets(file, content, config, allowlist, issues);
+    }
+  }
+
+  private scansSecrets(config: AnalyzerConfig): boolean {
+    return (
+      isRuleEnabled(config, 'no-hardcoded-secrets') ||
+      isRuleEnabled(config, 'high-entropy-string')
+    );
+  }
+
+  private scansHistory(config: AnalyzerConfig): boolean {
+    // History is not file scoped, and too slow to rescan on every change
+    return (
+      isRuleEnabled(config, 'secret-in-git-history') &&
+      !config.files &&
+      !config.watchMode
+    );
+  }
+
+  private loadAllowlist(config: AnalyzerConfig): Promise<SecretAllowlist> {
+    return SecretAllowlist.load(
+      config.projectRoot,
+      config.secretsAllowlistFile
+    );
+  }
+
+  private reportFailure(error: unknown): void {
+    const analysisError =
+      error instanceof AnalysisError
+        ? error
+        : new AnalysisError(
+            this.name,
+            error instanceof Error ? error : new Error(String(error))
+          );
+    logger.warn(`Security analysis failed: ${analysisError.message}`, {
+      error: analysisError,
+    });
   }
 
   /**
@@ -54,7 +296,8 @@ export class SecurityAnalyzer implements AnalysisModule {
    */
   private async checkDependencyVulnerabilities(
     config: AnalyzerConfig,
-    issues: CodeIssue[]
+    issues: IssueDraft[],
+    signal?: AbortSignal
   ): Promise<void> {
     try {
       const lockfilePath = path.join(config.projectRoot, 'package-lock.json');
@@ -71,6 +314,7 @@ export class SecurityAnalyzer implements AnalysisModule {
         timeout: 15000,
         retries: 1,
         retryDelay: 500,
+        signal,
       });
 
       if (!stdout) {
@@ -151,7 +395,6 @@ export class SecurityAnalyzer implements AnalysisModule {
             this.shouldReport(bucket.label, config.severityThreshold)
           ) {
             issues.push({
-              id: `security-vuln-${bucket.label}-${Date.now()}`,
               type: 'security',
               severity: {
                 level: bucket.label,
@@ -187,96 +430,174 @@ export class SecurityAnalyzer implements AnalysisModule {
   }
 
   /**
-   * Check for exposed environment variables or secrets
+   * Scan project files for provider tokens, private keys, hardcoded
+   * credentials and high-entropy string literals
+   */
+  private checkHardcodedSecrets(
+    file: string,
+    content: string,
+    config: AnalyzerConfig,
+    allowlist: SecretAllowlist,
+    issues: IssueDraft[]
+  ): void {
+    const scanOptions: SecretScanOptions = {
+      signatures: isRuleEnabled(config, 'no-hardcoded-secrets'),
+      entropy:
+        isRuleEnabled(config, 'high-entropy-string') &&
+        getRuleOptions(config, 'high-entropy-string', DEFAULT_ENTROPY_OPTIONS),
+    };
+    const relativePath = normalizeIssuePath(file, config.projectRoot);
+    if (this.skipSecretScan(config, relativePath, allowlist)) return;
+
+    const findings = scanForSecrets(content, scanOptions).filter(
+      finding => !allowlist.allows(relativePath, finding)
+    );
+    if (findings.length === 0) return;
+
+    // Context comes from the redacted copy so no raw secret is reported
+    const lines = redactSecrets(content, findings).split('\n');
+    for (const finding of findings) {
+      const i = finding.line - 1;
+      const isEntropy = finding.kind === 'entropy';
+      issues.push({
+        type: 'security',
+        severity: severityForLevel(finding.severity),
+        title: isEntropy ? finding.name : `Potential ${finding.name} Exposure`,
+        description: isEntropy
+          ? `String literal with ${finding.entropy.toFixed(2)} bits of entropy per character may be a secret (fingerprint ${finding.fingerprint}).`
+          : `Possible hardcoded ${finding.name} detected (fingerprint ${finding.fingerprint}). Never commit secrets to version control.`,
+        file: relativePath,
+        line: finding.line,
+        column: finding.column,
+        rule: isEntropy ? 'high-entropy-string' : 'no-hardcoded-secrets',
+        category: 'Security',
+        source: 'secret-scanner',
+        suggestion: `Move secrets to environment variables and rotate the exposed value; if it is not a secret, add its fingerprint to ${config.secretsAllowlistFile ?? SecretAllowlist.DEFAULT_FILE}`,
+        autoFixable: false,
+        context: {
+          before: lines.slice(Math.max(0, i - 1), i),
+          current: lines[i],
+          after: lines.slice(i + 1, i + 2),
+        },
+      });
+    }
+  }
+
+  /**
+   * Scan the lines added by recent commits for secrets that are gone from
+   * the working tree. Removing a secret does not remove it from the history,
+   * so it has to be rotated.
    */
-  private async checkEnvironmentSecurity(
+  private async checkGitHistorySecrets(
     config: AnalyzerConfig,
-    issues: CodeIssue[]
+    allowlist: SecretAllowlist,
+    issues: IssueDraft[],
+    signal?: AbortSignal
   ): Promise<void> {
-    const secretPatterns = [
-      {
-        pattern:
-          /(['"]?)(?:api[_-]?key|apikey)(['"]?)\s*[:=]\s*(['"])[^'"]+\3/gi,
-        name: 'API Key',
-      },
-      {
-        pattern:
-          /(['"]?)(?:secret|password|passwd|pwd)(['"]?)\s*[:=]\s*(['"])[^'"]+\3/gi,
-        name: 'Secret/Password',
-      },
-      {
-        pattern: /(['"]?)(?:private[_-]?key)(['"]?)\s*[:=]\s*(['"])[^'"]+\3/gi,
-        name: 'Private Key',
-      },
-      {
-        pattern:
-          /(['"]?)(?:auth[_-]?token|access[_-]?token|bearer)(['"]?)\s*[:=]\s*(['"])[^'"]+\3/gi,
-        name: 'Auth Token',
-      },
-      {
-        pattern: /-----BEGIN (?:RSA |DSA |EC )?PRIVATE KEY-----/g,
-        name: 'Private Key Block',
-      },
-    ];
+    const { maxCommits } = getRuleOptions(config, 'secret-in-git-history', {
+      maxCommits: 500,
+    });
 
-    const files = await this.getProjectFiles(config);
+    let log: string;
+    try {
+      // --relative limits the diff to the project root and makes its paths
+      // relative to it; -U0 leaves only changed lines in each hunk
+      const { stdout, exitCode } = await executeCommand(
+        `git log -p -U0 --no-color --no-merges --no-renames --diff-filter=AM --relative --date=short --format="commit %h %ad" -n ${Math.max(1, Math.floor(maxCommits))}`,
+        {
+          cwd: config.projectRoot,
+          ignoreExitCode: true,
+          timeout: 60000,
+          maxBuffer: 64 * 1024 * 1024,
+          signal,
+        }
+      );
+      if (exitCode !== 0 || !stdout) {
+        logger.debug('No git history available; skipping secret history scan');
+        return;
+      }
+      log = stdout;
+    } catch (error) {
+      logger.debug('Git history secret scan failed', { error });
+      return;
+    }
 
-    for (const file of files) {
-      // Skip common false positive files
-      if (
-        file.includes('node_modules') ||
-        file.includes('.env.example') ||
-        file.endsWith('.md')
-      ) {
-        continue;
+    // Newest commits come first, so later hunks overwrite with the commit
+    // that introduced the secret
+    const introduced = new Map<
+      string,
+      { finding: SecretFinding; hunk: AddedHunk; line: string }
+    >();
+    for (const hunk of parseAddedHunks(log)) {
+      if (this.skipSecretScan(config, hunk.file, allowlist)) continue;
+
+      const content = hunk.lines.join('\n');
+      const findings = scanForSecrets(content, { entropy: false }).filter(
+        finding => !allowlist.allows(hunk.file, finding)
+      );
+      if (findings.length === 0) continue;
+
+      const redacted = redactSecrets(content, findings).split('\n');
+      for (const finding of findings) {
+        introduced.set(finding.fingerprint, {
+          finding,
+          hunk,
+          line: redacted[finding.line - 1],
+        });
       }
+    }
 
-      try {
-        const content = await fs.readFile(file, 'utf-8');
-        const lines = content.split('\n');
-
-        for (const { pattern, name } of secretPatterns) {
-          for (let i = 0; i < lines.length; i++) {
-            if (pattern.test(lines[i])) {
-              issues.push({
-                id: `security-secret-${Date.now()}-${Math.random()}`,
-                type: 'security',
-                severity: {
-                  level: 'critical',
-                  impact: 'blocking',
-                  urgency: 'immediate',
-                },
-                title: `Potential ${name} Exposure`,
-                description: `Possible hardcoded ${name} detected. Never commit secrets to version control.`,
-                file: path.relative(config.projectRoot, file),
-                line: i + 1,
-                rule: 'no-hardcoded-secrets',
-                category: 'Security',
-                source: 'secret-scanner',
-                suggestion:
-                  'Move secrets to environment variables and add to .gitignore',
-                autoFixable: false,
-                context: {
-                  before: lines.slice(Math.max(0, i - 1), i),
-                  current: lines[i].replace(
-                    /(['"])[^'"]{8,}(['"])/g,
-                    '$1[REDACTED]$2'
-                  ),
-                  after: lines.slice(i + 1, i + 2),
-                },
-              });
-            }
-          }
-        }
-      } catch {
-        // Skip unreadable files
+    const currentContent = new Map<string, string | null>();
+    for (const { finding, hunk, line } of introduced.values()) {
+      if (!currentContent.has(hunk.file)) {
+        currentContent.set(
+          hunk.file,
+          await fs
+            .readFile(path.join(config.projectRoot, hunk.file), 'utf-8')
+            .catch(() => null)
+        );
       }
+      // Secrets still in the file are reported by the working tree scan
+      if (currentContent.get(hunk.file)?.includes(finding.secret)) continue;
+
+      issues.push({
+        type: 'security',
+        severity: severityForLevel(finding.severity),
+        title: `${finding.name} in Git History`,
+        description: `${finding.name} (fingerprint ${finding.fingerprint}) was added in commit ${hunk.commit} on ${hunk.date} and is no longer in the working tree, but it is still readable in the repository history.`,
+        file: hunk.file,
+        line: hunk.startLine + finding.line - 1,
+        rule: 'secret-in-git-history',
+        category: 'Security',
+        source: 'secret-scanner',
+        suggestion:
+          'Rotate or revoke the credential. Rewriting history (e.g. with git filter-repo) is not enough once the commit has been pushed.',
+        autoFixable: false,
+        context: {
+          current: line,
+        },
+      });
     }
   }
 
+  private skipSecretScan(
+    config: AnalyzerConfig,
+    file: string,
+    allowlist: SecretAllowlist
+  ): boolean {
+    // Skip common false positive files
+    return (
+      file.includes('node_modules') ||
+      file.includes('.env.example') ||
+      file.endsWith('.md') ||
+      path.resolve(config.projectRoot, file) === allowlist.filePath ||
+      allowlist.allowsFile(file)
+    );
+  }
+
   private async checkEnvFiles(
     config: AnalyzerConfig,
-    issues: CodeIssue[]
+    issues: IssueDraft[]
   ): Promise<void> {
     try {
       const envFiles = await glob('**/.env*', {
@@ -292,12 +613,11 @@ export class SecurityAnalyzer implements AnalysisModule {
         nodir: true,
       });
 
-      envFiles
+      filterToFileScope(config, envFiles)
         .filter(file => !file.endsWith('.example'))
         .forEach(file => {
           const relativePath = path.relative(config.projectRoot, file);
           issues.push({
-            id: `security-env-${Date.now()}-${Math.random()}`,
             type: 'security',
             severity: {
               level: 'high',
@@ -324,10 +644,11 @@ export class SecurityAnalyzer implements AnalysisModule {
     }
   }
 
-  private async checkSecurityPatterns(
-    config: AnalyzerConfig,
-    issues: CodeIssue[]
-  ): Promise<void> {
+  private checkSecurityPatterns(
+    file: string,
+    content: string,
+    config: AnalyzerConfig
+  ): IssueDraft[] {
     const securityPatterns = [
       {
         pattern: /eval\s*\(/g,
@@ -358,27 +679,24 @@ export class SecurityAnalyzer implements AnalysisModule {
       },
     ];
 
-    const files = await this.getProjectFiles(config);
-
-    for (const file of files) {
-      const issuesInFile = await this._checkFileForPatterns(
-        file,
-        securityPatterns.map(p => ({
-          ...p,
-          type: 'security',
-          category: 'Security',
-          source: 'security-scanner',
-          rule: 'security-pattern',
-          autoFixable: false,
-        })),
-        config.projectRoot
-      );
-      issues.push(...issuesInFile);
-    }
+    return this._checkFileForPatterns(
+      file,
+      content,
+      securityPatterns.map(p => ({
+        ...p,
+        type: 'security',
+        category: 'Security',
+        source: 'security-scanner',
+        rule: 'security-pattern',
+        autoFixable: false,
+      })),
+      config.projectRoot
+    );
   }
 
-  private async _checkFileForPatterns(
+  private _checkFileForPatterns(
     filePath: string,
+    content: string,
     patterns: Array<{
       pattern: RegExp;
       message: string;
@@ -392,90 +710,59 @@ export class SecurityAnalyzer implements AnalysisModule {
       documentation?: string;
     }>,
     projectRoot: string
-  ): Promise<CodeIssue[]> {
-    const issues: CodeIssue[] = [];
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
-
-      for (const {
-        pattern,
-        message,
-        severity,
-        type,
-        category,
-        source,
-        rule,
-        suggestion,
-        autoFixable,
-        documentation,
-      } of patterns) {
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i];
-          const matches = line.match(pattern);
-
-          if (matches) {
-            issues.push({
-              id: `${type}-${Date.now()}-${Math.random()}`,
-              type,
-              severity: {
-                level: severity,
-                impact: severity === 'critical' ? 'blocking' : 'major',
-                urgency: severity === 'critical' ? 'immediate' : 'high',
-              },
-              title: `${category} Issue Detected`,
-              description: message,
-              file: path.relative(projectRoot, filePath),
-              line: i + 1,
-              rule,
-              category,
-              source,
-              suggestion,
-              autoFixable,
-              documentation,
-              context: {
-                before: lines.slice(Math.max(0, i - 2), i),
-                current: line,
-                after: lines.slice(i + 1, i + 3),
-              },
-              metadata: {
-                checksum: generateChecksum(line),
-                timestamp: new Date(),
-              },
-            });
-          }
+  ): IssueDraft[] {
+    const issues: IssueDraft[] = [];
+    const lines = content.split('\n');
+
+    for (const {
+      pattern,
+      message,
+      severity,
+      type,
+      category,
+      source,
+      rule,
+      suggestion,
+      autoFixable,
+      documentation,
+    } of patterns) {
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const matches = line.match(pattern);
+
+        if (matches) {
+          issues.push({
+            type,
+            severity: {
+              level: severity,
+              impact: severity === 'critical' ? 'blocking' : 'major',
+              urgency: severity === 'critical' ? 'immediate' : 'high',
+            },
+            title: `${category} Issue Detected`,
+            description: message,
+            file: path.relative(projectRoot, filePath),
+            line: i + 1,
+            rule,
+            category,
+            source,
+            suggestion,
+            autoFixable,
+            documentation,
+            context: {
+              before: lines.slice(Math.max(0, i - 2), i),
+              current: line,
+              after: lines.slice(i + 1, i + 3),
+            },
+            metadata: {
+              timestamp: new Date(),
+            },
+          });
         }
       }
-    } catch (error: unknown) {
-      const fsError =
-        error instanceof FileSystemError
-          ? error
-          : new FileSystemError(
-              'read',
-              filePath,
-              error instanceof Error ? error : new Error(String(error))
-            );
-      logger.warn(`Could not analyze ${filePath}: ${fsError.message}`, {
-        error: fsError,
-        filePath,
-      });
     }
     return issues;
   }
 
-  private async getProjectFiles(config: AnalyzerConfig): Promise<string[]> {
-    const projectRoot = config.projectRoot;
-
-    const files = await glob(config.include, {
-      cwd: projectRoot,
-      ignore: config.ignore,
-      nodir: true,
-      absolute: true,
-    });
-
-    return files;
-  }
-
   private getSecuritySuggestion(pattern: RegExp): string {
     const suggestions: Record<string, string> = {
       eval: 'Use JSON.parse() for data parsing or Function constructor for safer code execution',
@@ -0,0 +1,388 @@
+import type {
+  AnalysisModule,
+  CodeIssue,
+  IssueDraft,
+  AnalyzerConfig,
+  SeverityLevel,
+} from '../types/analysis';
+import { AnalysisError } from '../errors';
+import { logger } from '../utils/logger';
+import { stampIssues } from '../utils/issue-fingerprint';
+import {
+  applyRuleSettings,
+  getRuleOptions,
+  isRuleEnabled,
+  severityForLevel,
+} from '../config/rules';
+import { isLegacyRouteUrl } from '../utils/legacy-routes';
+import {
+  crawlSite,
+  findSiteFile,
+  resolveSiteUrl,
+  siteDeployment,
+} from '../utils/site-crawler';
+import type { SiteLink, SitePage } from '../utils/site-crawler';
+
+type SiteRule =
+  | 'site-broken-link'
+  | 'site-missing-anchor'
+  | 'site-legacy-link'
+  | 'site-orphan-page'
+  | 'site-duplicate-title'
+  | 'site-duplicate-description'
+  | 'site-missing-canonical'
+  | 'site-missing-open-graph';
+
+interface LinkSite {
+  page: SitePage;
+  link: SiteLink;
+}
+
+const RULES: Record<
+  SiteRule,
+  { title: string; level: SeverityLevel; suggestion: string }
+> = {
+  'site-broken-link': {
+    title: 'Broken Link',
+    level: 'high',
+    suggestion:
+      'Point the link at a page or file that is built, and build root-relative URLs with withBasePath()',
+  },
+  'site-missing-anchor': {
+    title: 'Missing Link Anchor',
+    level: 'medium',
+    suggestion: 'Add the id to the target page or fix the fragment',
+  },
+  'site-legacy-link': {
+    title: 'Link to Legacy Route',
+    level: 'medium',
+    suggestion:
+      'Link to the page the legacy route redirects to; legacy routes are listed in config/legacyRoutes.js',
+  },
+  'site-orphan-page': {
+    title: 'Orphan Page',
+    level: 'low',
+    suggestion:
+      'Link to the page from the navigation or a related page, or stop building it',
+  },
+  'site-duplicate-title': {
+    title: 'Duplicate Page Title',
+    level: 'medium',
+    suggestion: 'Give every page a title that describes its own content',
+  },
+  'site-duplicate-description': {
+    title: 'Duplicate Meta Description',
+    level: 'low',
+    suggestion: 'Write a meta description for each page',
+  },
+  'site-missing-canonical': {
+    title: 'Missing Canonical URL',
+    level: 'medium',
+    suggestion: 'Add <link rel="canonical"> through the shared BaseHead',
+  },
+  'site-missing-open-graph': {
+    title: 'Missing Open Graph Tags',
+    level: 'low',
+    suggestion:
+      'Add the missing og: properties so shared links get a title, image and URL',
+  },
+};
+
+const REQUIRED_OPEN_GRAPH = ['og:title', 'og:type', 'og:image', 'og:url'];
+
+// Fragments browsers resolve without a matching element
+const IMPLICIT_FRAGMENTS = new Set(['', 'top']);
+
+const NOT_FOUND_PAGE_RE = /^404(?:\/index)?\.html$/;
+
+/**
+ * Crawls the static build offline. Links are resolved the way the deployed
+ * site serves them, under the base path from the deployment config.
+ */
+export class SiteAnalyzer implements AnalysisModule {
+  name = 'SiteAnalyzer';
+  reportedRules = ['site-*'];
+
+  canAnalyze(config: AnalyzerConfig): boolean {
+    return config.enabledAnalyzers.includes('site');
+  }
+
+  async analyze(config: AnalyzerConfig): Promise<CodeIssue[]> {
+    logger.info('Checking the built site...');
+    const issues: IssueDraft[] = [];
+
+    try {
+      const deployment = siteDeployment(config.site);
+      const { outDir, siteUrl } = deployment;
+      const site = await crawlSite(
+        config.projectRoot,
+        outDir,
+        deployment.basePath
+      );
+      if (!site) {
+        logger.debug(`No build output in ${outDir}; skipping site checks`);
+        return [];
+      }
+      const { basePath } = site;
+      if (basePath !== deployment.basePath) {
+        logger.info(
+          `${site.outDir} was built for the base path ${basePath}, not ${deployment.basePath}; checking links under ${basePath}`
+        );
+      }
+
+      const pages = new Map(site.pages.map(page => [page.path, page]));
+      const { ignorePatterns } = getRuleOptions(config, 'site-broken-link', {
+        ignorePatterns: [] as string[],
+      });
+      const ignored = ignorePatterns.map(pattern => new RegExp(pattern));
+      const linked = new Set<string>();
+      // A broken navigation link shows up on every page; report it once
+      const findings = new Map<
+        string,
+        { rule: SiteRule; description: string; sites: LinkSite[] }
+      >();
+      const report = (
+        rule: SiteRule,
+        target: string,
+        link: SiteLink,
+        page: SitePage,
+        description: string
+      ) => {
+        if (!isRuleEnabled(config, rule)) return;
+        const key = `${rule}\0${target}`;
+        const finding = findings.get(key) ?? { rule, description, sites: [] };
+        finding.sites.push({ page, link });
+        findings.set(key, finding);
+      };
+
+      for (const page of site.pages) {
+        const legacyPage = isLegacyRouteUrl(page.url.slice(basePath.length));
+
+        for (const link of page.links) {
+          const target = resolveSiteUrl(link.url, page.url, {
+            basePath,
+            siteUrl,
+          });
+          if (
+            target.kind === 'external' ||
+            ignored.some(pattern => pattern.test(link.url))
+          ) {
+            continue;
+          }
+          if (target.kind === 'outside-base') {
+            report(
+              'site-broken-link',
+              target.pathname,
+              link,
+              page,
+              `${link.url} is outside the base path ${basePath}, so it is not found once deployed`
+            );
+            continue;
+          }
+
+          const resolved = `${basePath}${target.path}`;
+          const targetFile = findSiteFile(site.files, target.path);
+          if (!targetFile) {
+            report(
+              'site-broken-link',
+              resolved,
+              link,
+              page,
+              `${link.url} does not resolve to a file in ${site.outDir}`
+            );
+            continue;
+          }
+
+          if (link.navigation) {
+            if (targetFile !== page.path) linked.add(targetFile);
+            if (!legacyPage && isLegacyRouteUrl(target.path)) {
+              report(
+                'site-legacy-link',
+                resolved,
+                link,
+                page,
+                `${link.url} is a legacy route that only redirects`
+              );
+            }
+          }
+
+          const targetPage = pages.get(targetFile);
+          if (
+            targetPage &&
+            target.fragment !== null &&
+            !IMPLICIT_FRAGMENTS.has(target.fragment) &&
+            !targetPage.anchors.has(target.fragment)
+          ) {
+            report(
+              'site-missing-anchor',
+              `${resolved}#${target.fragment}`,
+              link,
+              page,
+              `${link.url} points at #${target.fragment}, which ${targetPage.file} does not have`
+            );
+          }
+        }
+      }
+
+      for (const { rule, description, sites } of findings.values()) {
+        issues.push(this.createLinkIssue(rule, description, sites));
+      }
+
+      // Redirect stubs and error pages are not meant to be found or indexed
+      const indexable = site.pages.filter(
+        page =>
+          !page.noindex &&
+          !NOT_FOUND_PAGE_RE.test(page.path) &&
+          !isLegacyRouteUrl(page.url.slice(basePath.length))
+      );
+
+      if (isRuleEnabled(config, 'site-orphan-page')) {
+        for (const page of indexable) {
+          if (page.path === 'index.html' || linked.has(page.path)) continue;
+          issues.push(
+            this.createIssue('site-orphan-page', page.file, null, {
+              description: `No page links to ${page.url}`,
+              current: page.url,
+            })
+          );
+        }
+      }
+
+      this.checkDuplicates(config, indexable, 'site-duplicate-title', issues);
+      this.checkDuplicates(
+        config,
+        indexable,
+        'site-duplicate-description',
+        issues
+      );
+
+      for (const page of indexable) {
+        if (
+          !page.canonical &&
+          isRuleEnabled(config, 'site-missing-canonical')
+        ) {
+          issues.push(
+            this.createIssue('site-missing-canonical', page.file, null, {
+              description: `${page.url} has no canonical URL`,
+              current: page.url,
+            })
+          );
+        }
+
+        const missing = REQUIRED_OPEN_GRAPH.filter(
+          property => !page.openGraph.has(property)
+        );
+        if (
+          missing.length > 0 &&
+          isRuleEnabled(config, 'site-missing-open-graph')
+        ) {
+          issues.push(
+            this.createIssue('site-missing-open-graph', page.file, null, {
+              description: `${page.url} is missing ${missing.join(', ')}`,
+              current: page.url,
+            })
+          );
+        }
+      }
+
+      logger.info(
+        `Site: crawled ${site.pages.length} pages in ${site.outDir}, ${issues.length} issues`
+      );
+    } catch (error: unknown) {
+      const analysisError = new AnalysisError(
+        this.name,
+        error instanceof Error ? error : new Error(String(error)),
+        { code: 'SITE_CHECK_FAILED' }
+      );
+      logger.error(
+        `Site analysis failed: ${analysisError.message}`,
+        analysisError
+      );
+      throw analysisError;
+    }
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
+  }
+
+  /**
+   * Report each title or description shared by several pages once, at the
+   * first page that has it
+   */
+  private checkDuplicates(
+    config: AnalyzerConfig,
+    pages: SitePage[],
+    rule: 'site-duplicate-title' | 'site-duplicate-description',
+    issues: IssueDraft[]
+  ): void {
+    if (!isRuleEnabled(config, rule)) return;
+    const field = rule === 'site-duplicate-title' ? 'title' : 'description';
+    const groups = new Map<string, SitePage[]>();
+
+    for (const page of pages) {
+      const value = page[field]?.value.trim();
+      if (!value) continue;
+      groups.set(value, [...(groups.get(value) ?? []), page]);
+    }
+
+    for (const [value, group] of groups) {
+      if (group.length < 2) continue;
+      const [first] = group;
+      issues.push(
+        this.createIssue(rule, first.file, first[field], {
+          description: `${group.length} pages share the ${field} "${value}": ${group.map(page => page.url).join(', ')}`,
+          current: value,
+          relatedFiles: group.map(
+            page => `${page.file}:${page[field]?.line}:${page[field]?.column}`
+          ),
+        })
+      );
+    }
+  }
+
+  private createLinkIssue(
+    rule: SiteRule,
+    description: string,
+    sites: LinkSite[]
+  ): IssueDraft {
+    const [{ page, link }] = sites;
+    return this.createIssue(rule, page.file, link, {
+      description:
+        sites.length > 1
+          ? `${description}; linked from ${sites.length} places`
+          : description,
+      current: `<${link.element} ${link.attribute}="${link.url}">`,
+      relatedFiles:
+        sites.length > 1
+          ? sites.map(
+              site => `${site.page.file}:${site.link.line}:${site.link.column}`
+            )
+          : undefined,
+    });
+  }
+
+  private createIssue(
+    rule: SiteRule,
+    file: string,
+    location: { line: number; column: number } | null,
+    details: { description: string; current: string; relatedFiles?: string[] }
+  ): IssueDraft {
+    const { title, level, suggestion } = RULES[rule];
+    return {
+      type: 'site',
+      severity: severityForLevel(level),
+      title,
+      description: details.description,
+      file,
+      line: location?.line,
+      column: location?.column,
+      rule,
+      category: 'Site',
+      source: 'site-crawler',
+      suggestion,
+      autoFixable: false,
+      context: { current: details.current },
+      ...(details.relatedFiles && {
+        metadata: { relatedFiles: details.relatedFiles },
+      }),
+    };
+  }
+}
@@ -1,103 +1,105 @@
 import type {
   AnalysisModule,
   CodeIssue,
+  IssueDraft,
   AnalyzerConfig,
 } from '../types/analysis';
-import { executeCommand } from '../utils/command-executor';
-import { AnalysisError, CommandExecutionError } from '../errors';
+import { AnalysisError } from '../errors';
 import { logger } from '../utils/logger';
-import path from 'path';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { applyRuleSettings, severityForLevel } from '../config/rules';
+import { TypeScriptProgram } from '../utils/typescript-program';
+import type { TypeScriptDiagnosticInfo } from '../utils/typescript-program';
 
 export class TypesAnalyzer implements AnalysisModule {
   name = 'TypesAnalyzer';
+  reportedRules = ['TS*'];
+  supportsFileScope = true;
 
   canAnalyze(config: AnalyzerConfig): boolean {
     return config.enabledAnalyzers.includes('types');
   }
 
-  async analyze(config: AnalyzerConfig): Promise<CodeIssue[]> {
+  async analyze(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<CodeIssue[]> {
     logger.info('Checking type errors...');
-    const issues: CodeIssue[] = [];
+    const issues: IssueDraft[] = [];
 
     try {
-      const { stdout, stderr } = await executeCommand(
-        'npx tsc --noEmit --skipLibCheck',
-        {
-          cwd: config.projectRoot,
-          ignoreExitCode: true,
-        }
+      const program = TypeScriptProgram.forProject(config.projectRoot);
+      const diagnostics = await program.getSemanticDiagnostics(
+        config.files,
+        signal
       );
 
-      if (stderr || stdout.includes('error TS')) {
-        const typeErrors = this.parseTSErrors(
-          stdout + stderr,
-          config.projectRoot
-        );
-        issues.push(...typeErrors);
+      if (diagnostics === null) {
+        logger.info('No tsconfig.json found; skipping type check');
+        return [];
+      }
+
+      for (const diagnostic of diagnostics) {
+        issues.push(this.toIssue(program.describe(diagnostic)));
       }
     } catch (error: unknown) {
-      const analysisError =
-        error instanceof CommandExecutionError
-          ? new AnalysisError(
-              this.name,
-              error,
-              `Failed to run TypeScript type check: ${error.message}`
-            )
-          : new AnalysisError(
-              this.name,
-              error instanceof Error ? error : new Error(String(error))
-            );
+      signal?.throwIfAborted();
+      const analysisError = new AnalysisError(
+        this.name,
+        error instanceof Error ? error : new Error(String(error)),
+        { code: 'TYPE_CHECK_FAILED' }
+      );
       logger.error(
         `Type analysis failed: ${analysisError.message}`,
         analysisError
       );
       throw analysisError;
     }
-    return issues;
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
   }
 
-  private parseTSErrors(output: string, projectRoot: string): CodeIssue[] {
-    const lines = output.split('\n');
-    const errors: CodeIssue[] = [];
-
-    for (const line of lines) {
-      const match = line.match(/^(.+)\((\d+),(\d+)\): error TS(\d+): (.+)$/);
-      if (match) {
-        const [, file, lineNum, colNum, code, message] = match;
-
-        errors.push({
-          id: `ts-type-${code}-${Date.now()}`,
-          type: 'type',
-          severity: this.getTypescriptSeverity(code),
-          title: `TypeScript Error TS${code}`,
-          description: message,
-          file: path.relative(projectRoot, file),
-          line: parseInt(lineNum),
-          column: parseInt(colNum),
-          rule: `TS${code}`,
-          category: 'TypeScript',
-          source: 'typescript',
-          autoFixable: this.isAutoFixableTS(code),
-          context: {
-            current: line,
-          },
-        });
-      }
-    }
+  private toIssue(diagnostic: TypeScriptDiagnosticInfo): IssueDraft {
+    const code = String(diagnostic.code);
 
-    return errors;
+    return {
+      type: 'type',
+      severity: this.getTypescriptSeverity(code, diagnostic.kind),
+      title: `TypeScript ${diagnostic.kind} TS${code}`,
+      description: diagnostic.description,
+      file: diagnostic.file,
+      line: diagnostic.line,
+      column: diagnostic.column,
+      rule: `TS${code}`,
+      category: 'TypeScript',
+      source: 'typescript',
+      autoFixable: this.isAutoFixableTS(code),
+      context: diagnostic.context,
+      ...(diagnostic.relatedFiles.length > 0 && {
+        metadata: { relatedFiles: diagnostic.relatedFiles },
+      }),
+    };
   }
 
-  private getTypescriptSeverity(code: string): CodeIssue['severity'] {
+  /**
+   * Default severity per TS code; `rules` can override any `TS<code>` id
+   */
+  private getTypescriptSeverity(
+    code: string,
+    kind: TypeScriptDiagnosticInfo['kind']
+  ): CodeIssue['severity'] {
     const criticalCodes = ['2304', '2322', '2339', '2345']; // Cannot find name, type issues
     const highCodes = ['2531', '2532', '2533']; // Object possibly null/undefined
 
-    if (criticalCodes.includes(code)) {
-      return { level: 'critical', impact: 'blocking', urgency: 'immediate' };
+    if (kind === 'Warning') {
+      return severityForLevel('low');
+    } else if (kind !== 'Error') {
+      return severityForLevel('info');
+    } else if (criticalCodes.includes(code)) {
+      return severityForLevel('critical');
     } else if (highCodes.includes(code)) {
-      return { level: 'high', impact: 'major', urgency: 'high' };
+      return severityForLevel('high');
     } else {
-      return { level: 'medium', impact: 'minor', urgency: 'medium' };
+      return severityForLevel('medium');
     }
   }
 
@@ -1,20 +1,28 @@
 import { ProjectAnalyzer } from '../core/analyzer';
-import { ReportGenerator } from '../utils/report-generator';
+import { PluginLoader } from '../core/plugin-loader';
+import { runInterruptibleAnalysis } from '../core/interruptible-analysis';
+import {
+  emitAnalysis,
+  parseReportSpec,
+  reportFiles,
+} from '../utils/report-outputs';
+import { watchProject } from '../utils/project-watcher';
 import { logger, LogLevel } from '../utils/logger';
-import { AppError } from '../errors';
+import { AppError, formatErrorReport, getErrorMessage } from '../errors';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import path from 'path';
-import { promises as fs } from 'fs';
 import { ConfigLoader } from '../config/config-loader';
+import { ReportFormatSchema } from '../config/schema';
 import type { AnalyzerConfig } from '../config/schema';
-import chokidar from 'chokidar';
 
 class Cli {
   private args: Partial<AnalyzerConfig> & {
     output?: string;
+    report?: string[];
     format?: 'json' | 'markdown' | 'html';
     verbose?: boolean;
+    baseline?: string;
+    updateBaseline?: boolean;
   };
 
   constructor() {
@@ -35,12 +43,19 @@ class Cli {
       })
       .option('outputFormat', {
         type: 'string',
-        choices: ['json', 'markdown', 'html', 'terminal'],
+        choices: ReportFormatSchema.options,
         description: 'Output format for the report',
       })
+      .option('report', {
+        type: 'string',
+        array: true,
+        description:
+          'Report to emit as format[:path], repeatable; without a path it goes to stdout',
+      })
       .option('githubIntegration', {
         type: 'boolean',
-        description: 'Enable GitHub integration',
+        description:
+          'Publish annotations, a job summary and a PR comment body in GitHub Actions',
       })
       .option('deploymentChecks', {
         type: 'boolean',
@@ -54,6 +69,20 @@ class Cli {
         type: 'boolean',
         description: 'Run in watch mode, re-analyzing on file changes',
       })
+      .option('baseline', {
+        type: 'string',
+        description:
+          'Baseline file to compare against and update (default .analyzer-baseline.json); only issues missing from it are reported',
+      })
+      .option('changedSince', {
+        type: 'string',
+        description:
+          'Only analyze files changed since this git ref (e.g. HEAD for a pre-commit check, origin/main for a PR)',
+      })
+      .option('updateBaseline', {
+        type: 'boolean',
+        description: 'Write the current issues to the baseline file',
+      })
       .option('verbose', {
         type: 'boolean',
         description: 'Enable verbose logging',
@@ -67,34 +96,37 @@ class Cli {
     }
   }
 
-  private async performAnalysisAndReport(config: AnalyzerConfig) {
+  private async createAnalyzer(config: AnalyzerConfig) {
     const analyzer = new ProjectAnalyzer(config);
-    const analysisResult = await analyzer.analyze();
-
-    let reportContent: string;
-    switch (config.outputFormat) {
-      case 'json':
-        reportContent = ReportGenerator.generateJsonReport(analysisResult);
-        break;
-      case 'markdown':
-        reportContent = ReportGenerator.generateMarkdownReport(analysisResult);
-        break;
-      case 'html':
-        reportContent = ReportGenerator.generateHTMLReport(analysisResult);
-        break;
-      case 'terminal':
-        reportContent = ReportGenerator.generateTerminalReport(analysisResult);
-        break;
-      default:
-        reportContent = ReportGenerator.generateJsonReport(analysisResult); // Fallback
+    for (const plugin of await PluginLoader.loadPlugins(config)) {
+      analyzer.registerModule(plugin);
     }
+    return analyzer;
+  }
+
+  /**
+   * The first Ctrl+C cancels the analysis and still reports what finished;
+   * a second one exits at once
+   */
+  private async performAnalysisAndReport(
+    config: AnalyzerConfig,
+    analyzer: ProjectAnalyzer
+  ) {
+    const analysisResult = await runInterruptibleAnalysis(analyzer, {
+      updateBaseline: this.args.updateBaseline,
+    });
+
+    await emitAnalysis(analysisResult, config, this.args.output);
 
-    if (this.args.output) {
-      const outputPath = path.resolve(config.projectRoot, this.args.output);
-      await fs.writeFile(outputPath, reportContent);
-      logger.info(`Report successfully written to ${outputPath}`);
-    } else {
-      process.stdout.write(`${reportContent}\n`);
+    // Fail CI only on regressions when comparing against a baseline
+    if (analysisResult.baseline && analysisResult.baseline.newIssues > 0) {
+      logger.warn(
+        `${analysisResult.baseline.newIssues} new issue(s) not in baseline ${analysisResult.baseline.file}`
+      );
+      process.exitCode = 1;
+    }
+    if (analysisResult.cancelled) {
+      process.exitCode = 130;
     }
   }
 
@@ -106,26 +138,56 @@ class Cli {
         projectRoot: this.args.projectRoot,
         severityThreshold: this.args.severityThreshold,
         outputFormat: this.args.outputFormat,
+        outputs: this.args.report?.map(parseReportSpec),
         githubIntegration: this.args.githubIntegration,
         deploymentChecks: this.args.deploymentChecks,
         autoFix: this.args.autoFix,
         watchMode: this.args.watchMode,
+        baselineFile: this.args.baseline,
+        changedSince: this.args.changedSince,
       });
 
-      // Initial analysis
-      await this.performAnalysisAndReport(loadedConfig);
+      // Initial analysis; watch mode keeps the analyzer, and with it the
+      // cache, so a change only re-analyzes the changed files
+      const analyzer = await this.createAnalyzer(loadedConfig);
+      await this.performAnalysisAndReport(loadedConfig, analyzer);
 
       if (loadedConfig.watchMode) {
         logger.info(`Watching for changes in ${loadedConfig.projectRoot}...`);
-        const watcher = chokidar.watch(loadedConfig.projectRoot, {
-          ignored: loadedConfig.ignore, // Use configured ignore patterns
-          persistent: true,
-          ignoreInitial: true, // Don't trigger on initial scan
-        });
+        logger.info('Press Ctrl+C to stop watching');
+
+        let activeRuns = 0;
+        const watcher = watchProject(
+          {
+            ...loadedConfig,
+            ignore: [
+              ...loadedConfig.ignore,
+              ...reportFiles(loadedConfig, this.args.output),
+            ],
+          },
+          async files => {
+            logger.info(`${files.length} file(s) changed, re-analyzing...`);
+            activeRuns++;
+            try {
+              await this.performAnalysisAndReport(loadedConfig, analyzer);
+              logger.info('Analysis complete. Watching for more changes...');
+            } catch (error) {
+              logger.error(
+                'Analysis failed during watch',
+                error instanceof Error ? error : undefined
+              );
+            } finally {
+              activeRuns--;
+            }
+          }
+        );
 
-        watcher.on('all', async (event, path) => {
-          logger.info(`File ${path} ${event}, re-analyzing...`);
-          await this.performAnalysisAndReport(loadedConfig);
+        // While a run is active, Ctrl+C cancels it instead
+        process.on('SIGINT', () => {
+          if (activeRuns > 0) return;
+          logger.info('Stopping file watcher...');
+          watcher.close();
+          process.exit(0);
         });
 
         // Keep the process alive
@@ -137,8 +199,14 @@ class Cli {
       const err =
         error instanceof AppError
           ? error
-          : new AppError(String(error), 'CLI_ERROR');
-      logger.fatal('CLI encountered a fatal error', err);
+          : new AppError({
+              code: 'CLI_ERROR',
+              params: { reason: getErrorMessage(error) },
+              cause: error instanceof Error ? error : undefined,
+            });
+      logger.fatal(
+        `CLI encountered a fatal error\n${formatErrorReport(err, { stack: this.args.verbose })}`
+      );
       process.exit(1);
     }
   }
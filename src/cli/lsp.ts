@@ -0,0 +1,9 @@
+import { LanguageServer } from '../core/language-server';
+import { logger } from '../utils/logger';
+
+// stdout carries the protocol; log output goes to the client instead
+logger.setStreamOutput(false);
+
+new LanguageServer(process.stdin, process.stdout, code =>
+  process.exit(code)
+).listen();
@@ -0,0 +1,324 @@
+/**
+ * WAI-ARIA reference data used by the accessibility analyzer
+ *
+ * Covers the roles, states and properties of WAI-ARIA 1.2, the values each
+ * attribute accepts and which roles support the non-global attributes.
+ */
+
+/**
+ * Valid WAI-ARIA 1.2 role names
+ */
+export const ariaRoles = new Set([
+  'alert',
+  'alertdialog',
+  'application',
+  'article',
+  'banner',
+  'blockquote',
+  'button',
+  'caption',
+  'cell',
+  'checkbox',
+  'code',
+  'columnheader',
+  'combobox',
+  'complementary',
+  'contentinfo',
+  'definition',
+  'deletion',
+  'dialog',
+  'directory',
+  'document',
+  'emphasis',
+  'feed',
+  'figure',
+  'form',
+  'generic',
+  'grid',
+  'gridcell',
+  'group',
+  'heading',
+  'img',
+  'insertion',
+  'link',
+  'list',
+  'listbox',
+  'listitem',
+  'log',
+  'main',
+  'marquee',
+  'math',
+  'menu',
+  'menubar',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'meter',
+  'navigation',
+  'none',
+  'note',
+  'option',
+  'paragraph',
+  'presentation',
+  'progressbar',
+  'radio',
+  'radiogroup',
+  'region',
+  'row',
+  'rowgroup',
+  'rowheader',
+  'scrollbar',
+  'search',
+  'searchbox',
+  'separator',
+  'slider',
+  'spinbutton',
+  'status',
+  'strong',
+  'subscript',
+  'superscript',
+  'switch',
+  'tab',
+  'table',
+  'tablist',
+  'tabpanel',
+  'term',
+  'textbox',
+  'time',
+  'timer',
+  'toolbar',
+  'tooltip',
+  'tree',
+  'treegrid',
+  'treeitem',
+]);
+
+export type AriaValue = 'boolean' | 'integer' | 'number' | 'text' | string[];
+
+const TRISTATE = ['true', 'false', 'mixed', 'undefined'];
+const OPTIONAL_BOOLEAN = ['true', 'false', 'undefined'];
+
+/**
+ * WAI-ARIA 1.2 states and properties with the values they accept
+ */
+export const ariaAttributes: Record<string, AriaValue> = {
+  'aria-activedescendant': 'text',
+  'aria-atomic': 'boolean',
+  'aria-autocomplete': ['inline', 'list', 'both', 'none'],
+  'aria-braillelabel': 'text',
+  'aria-brailleroledescription': 'text',
+  'aria-busy': 'boolean',
+  'aria-checked': TRISTATE,
+  'aria-colcount': 'integer',
+  'aria-colindex': 'integer',
+  'aria-colspan': 'integer',
+  'aria-controls': 'text',
+  'aria-current': ['page', 'step', 'location', 'date', 'time', 'true', 'false'],
+  'aria-describedby': 'text',
+  'aria-description': 'text',
+  'aria-details': 'text',
+  'aria-disabled': 'boolean',
+  'aria-dropeffect': 'text',
+  'aria-errormessage': 'text',
+  'aria-expanded': OPTIONAL_BOOLEAN,
+  'aria-flowto': 'text',
+  'aria-grabbed': OPTIONAL_BOOLEAN,
+  'aria-haspopup': [
+    'false',
+    'true',
+    'menu',
+    'listbox',
+    'tree',
+    'grid',
+    'dialog',
+  ],
+  'aria-hidden': OPTIONAL_BOOLEAN,
+  'aria-invalid': ['grammar', 'false', 'spelling', 'true'],
+  'aria-keyshortcuts': 'text',
+  'aria-label': 'text',
+  'aria-labelledby': 'text',
+  'aria-level': 'integer',
+  'aria-live': ['assertive', 'off', 'polite'],
+  'aria-modal': 'boolean',
+  'aria-multiline': 'boolean',
+  'aria-multiselectable': 'boolean',
+  'aria-orientation': ['horizontal', 'vertical', 'undefined'],
+  'aria-owns': 'text',
+  'aria-placeholder': 'text',
+  'aria-posinset': 'integer',
+  'aria-pressed': TRISTATE,
+  'aria-readonly': 'boolean',
+  'aria-relevant': 'text',
+  'aria-required': 'boolean',
+  'aria-roledescription': 'text',
+  'aria-rowcount': 'integer',
+  'aria-rowindex': 'integer',
+  'aria-rowspan': 'integer',
+  'aria-selected': OPTIONAL_BOOLEAN,
+  'aria-setsize': 'integer',
+  'aria-sort': ['ascending', 'descending', 'none', 'other'],
+  'aria-valuemax': 'number',
+  'aria-valuemin': 'number',
+  'aria-valuenow': 'number',
+  'aria-valuetext': 'text',
+};
+
+const RANGE_ROLES = [
+  'meter',
+  'progressbar',
+  'scrollbar',
+  'separator',
+  'slider',
+  'spinbutton',
+];
+const SET_ITEM_ROLES = [
+  'article',
+  'listitem',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'row',
+  'tab',
+  'treeitem',
+];
+const CELL_ROLES = ['cell', 'columnheader', 'gridcell', 'rowheader'];
+const TEXT_ROLES = ['searchbox', 'textbox'];
+
+/**
+ * Roles supporting each non-global attribute; attributes not listed are global
+ */
+export const roleAttributeSupport: Record<string, string[]> = {
+  'aria-activedescendant': [
+    'application',
+    'combobox',
+    'grid',
+    'group',
+    'listbox',
+    'menu',
+    'menubar',
+    'radiogroup',
+    'row',
+    'spinbutton',
+    'tablist',
+    'toolbar',
+    'tree',
+    'treegrid',
+    ...TEXT_ROLES,
+  ],
+  'aria-autocomplete': ['combobox', ...TEXT_ROLES],
+  'aria-checked': [
+    'checkbox',
+    'menuitemcheckbox',
+    'menuitemradio',
+    'option',
+    'radio',
+    'switch',
+    'treeitem',
+  ],
+  'aria-colcount': ['grid', 'table', 'treegrid'],
+  'aria-colindex': ['row', ...CELL_ROLES],
+  'aria-colspan': CELL_ROLES,
+  'aria-expanded': [
+    'application',
+    'button',
+    'checkbox',
+    'columnheader',
+    'combobox',
+    'gridcell',
+    'link',
+    'listbox',
+    'menuitem',
+    'menuitemcheckbox',
+    'menuitemradio',
+    'row',
+    'rowheader',
+    'switch',
+    'tab',
+    'treeitem',
+  ],
+  'aria-level': ['heading', 'listitem', 'row', 'treeitem'],
+  'aria-modal': ['alertdialog', 'dialog'],
+  'aria-multiline': TEXT_ROLES,
+  'aria-multiselectable': ['grid', 'listbox', 'tablist', 'tree', 'treegrid'],
+  'aria-orientation': [
+    'listbox',
+    'menu',
+    'menubar',
+    'radiogroup',
+    'scrollbar',
+    'separator',
+    'slider',
+    'tablist',
+    'toolbar',
+    'tree',
+    'treegrid',
+  ],
+  'aria-placeholder': TEXT_ROLES,
+  'aria-posinset': SET_ITEM_ROLES,
+  'aria-pressed': ['button'],
+  'aria-readonly': [
+    'checkbox',
+    'columnheader',
+    'combobox',
+    'grid',
+    'gridcell',
+    'listbox',
+    'menuitemcheckbox',
+    'menuitemradio',
+    'radiogroup',
+    'rowheader',
+    'slider',
+    'spinbutton',
+    'switch',
+    'treegrid',
+    ...TEXT_ROLES,
+  ],
+  'aria-required': [
+    'checkbox',
+    'columnheader',
+    'combobox',
+    'gridcell',
+    'listbox',
+    'radiogroup',
+    'rowheader',
+    'spinbutton',
+    'tree',
+    'treegrid',
+    ...TEXT_ROLES,
+  ],
+  'aria-rowcount': ['grid', 'table', 'treegrid'],
+  'aria-rowindex': ['row', ...CELL_ROLES],
+  'aria-rowspan': CELL_ROLES,
+  'aria-selected': [
+    'columnheader',
+    'gridcell',
+    'option',
+    'row',
+    'rowheader',
+    'tab',
+    'treeitem',
+  ],
+  'aria-setsize': SET_ITEM_ROLES,
+  'aria-sort': ['columnheader', 'rowheader'],
+  'aria-valuemax': RANGE_ROLES,
+  'aria-valuemin': RANGE_ROLES,
+  'aria-valuenow': RANGE_ROLES,
+  'aria-valuetext': RANGE_ROLES,
+};
+
+/**
+ * Attributes a role cannot work without when set explicitly
+ */
+export const requiredAriaAttributes: Record<string, string[]> = {
+  checkbox: ['aria-checked'],
+  combobox: ['aria-expanded'],
+  heading: ['aria-level'],
+  menuitemcheckbox: ['aria-checked'],
+  menuitemradio: ['aria-checked'],
+  radio: ['aria-checked'],
+  scrollbar: ['aria-controls', 'aria-valuenow'],
+  slider: ['aria-valuenow'],
+  switch: ['aria-checked'],
+};
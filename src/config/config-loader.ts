@@ -1,62 +1,468 @@
 import type { AnalyzerConfig } from './schema';
 import { AnalyzerConfigSchema } from './schema';
 import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
 import path from 'path';
+import { pathToFileURL } from 'url';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { ZodIssue } from 'zod';
 import { logger } from '../utils/logger';
-import { ConfigurationError } from '../errors';
+import { ConfigurationError, getErrorMessage } from '../errors';
+import { rulesForFile } from './rules';
+import { matchesGlob } from '../utils/glob-pattern';
+import { normalizeIssuePath } from '../utils/issue-fingerprint';
 
 type ReadFileFn = (path: string, encoding: BufferEncoding) => Promise<string>;
 
+/** Configuration files looked up in the project root; the first found is used */
+export const CONFIG_FILES = [
+  '.analyzer.json',
+  '.analyzer.yaml',
+  '.analyzer.yml',
+  'analyzer.config.ts',
+  'analyzer.config.mjs',
+  'analyzer.config.js',
+];
+
+const SCRIPT_EXTENSIONS = new Set(['.ts', '.mts', '.js', '.mjs', '.cjs']);
+
+/** A configuration file: every key optional, plus the presets it extends */
+const ConfigFileSchema = AnalyzerConfigSchema.partial().extend({
+  extends: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+});
+
+type ConfigFile = z.infer<typeof ConfigFileSchema>;
+type ConfigValues = Record<string, unknown>;
+
+/**
+ * Where each configured value came from, by key path (`rules.TS2532`,
+ * `overrides[0]`): a project-relative file, `CLI options` or `default`
+ */
+export type ConfigSources = Record<string, string>;
+
+export interface ResolvedConfig {
+  config: AnalyzerConfig;
+  sources: ConfigSources;
+}
+
+/**
+ * Typed helper for `analyzer.config.ts`; returns the configuration unchanged
+ */
+export function defineConfig(config: ConfigFile): ConfigFile {
+  return config;
+}
+
+const isPlainObject = (value: unknown): value is ConfigValues =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** `overrides.0.files` as `overrides[0].files` */
+const formatKeyPath = (keys: Array<string | number>) =>
+  keys
+    .map((key, index) =>
+      typeof key === 'number' ? `[${key}]` : index === 0 ? key : `.${key}`
+    )
+    .join('');
+
+/**
+ * Source of a key path: the layer that set it or the closest parent it set
+ */
+function sourceOf(sources: ConfigSources, keyPath: string): string {
+  for (let key = keyPath; key; ) {
+    if (sources[key]) return sources[key];
+    const parent = Math.max(key.lastIndexOf('.'), key.lastIndexOf('['));
+    key = parent > 0 ? key.slice(0, parent) : '';
+  }
+  return 'default';
+}
+
+/**
+ * Merge one layer over the configuration so far: objects are merged key by
+ * key, everything else replaces. Overrides from files add up; CLI options
+ * replace them like any other array.
+ */
+function mergeLayer(
+  target: ConfigValues,
+  layer: ConfigValues,
+  source: string,
+  sources: ConfigSources,
+  keyPrefix = ''
+): void {
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined || (!keyPrefix && key === 'extends')) continue;
+    const keyPath = keyPrefix ? `${keyPrefix}.${key}` : key;
+
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      target[key] = { ...target[key] };
+      mergeLayer(target[key] as ConfigValues, value, source, sources, keyPath);
+      continue;
+    }
+
+    const appended =
+      keyPath === 'overrides' &&
+      source !== 'CLI options' &&
+      Array.isArray(target.overrides);
+    const offset = appended ? (target.overrides as unknown[]).length : 0;
+    if (!appended) {
+      for (const existing of Object.keys(sources)) {
+        if (
+          existing.startsWith(`${keyPath}.`) ||
+          existing.startsWith(`${keyPath}[`)
+        ) {
+          delete sources[existing];
+        }
+      }
+    }
+    if (keyPath === 'overrides' && Array.isArray(value)) {
+      value.forEach((_, index) => {
+        sources[`overrides[${offset + index}]`] = source;
+      });
+      target.overrides = [
+        ...(appended ? (target.overrides as unknown[]) : []),
+        ...value,
+      ];
+    } else {
+      target[key] = value;
+      sources[keyPath] = source;
+    }
+  }
+}
+
 export class ConfigLoader {
   static async loadConfig(
     cliOptions: Partial<AnalyzerConfig>,
     readFile: ReadFileFn = fs.readFile
   ): Promise<AnalyzerConfig> {
-    let config: Partial<AnalyzerConfig> = {};
+    return (await this.resolveConfig(cliOptions, readFile)).config;
+  }
+
+  /**
+   * Load the configuration in layers, later ones winning: schema defaults,
+   * the presets the project file extends, the project file, then CLI
+   * options. Also reports where each value came from.
+   */
+  static async resolveConfig(
+    cliOptions: Partial<AnalyzerConfig>,
+    readFile: ReadFileFn = fs.readFile
+  ): Promise<ResolvedConfig> {
+    const projectRoot = path.resolve(cliOptions.projectRoot || process.cwd());
+    const label = (file: string) => {
+      const relative = path.relative(projectRoot, file);
+      return relative.startsWith('..') ? file : relative.replace(/\\/g, '/');
+    };
+
+    // 1. Defaults are handled by the Zod schema
+
+    // 2. Load the project file and everything it extends, presets first
+    const layers: Array<{ source: string; values: ConfigValues }> = [];
+    const configFile = await this.findConfigFile(projectRoot, readFile);
+    if (configFile) {
+      await this.loadLayers(configFile, readFile, label, layers, []);
+      logger.info(`Loaded configuration from ${configFile.file}`);
+    } else {
+      logger.info(
+        `No analyzer configuration found in ${projectRoot}. Using defaults and CLI options.`
+      );
+    }
+
+    // 3. Apply CLI options (highest precedence). Flags the user didn't pass
+    // arrive as undefined and must not mask values from the file.
+    const definedCliOptions = Object.fromEntries(
+      Object.entries(cliOptions).filter(([, value]) => value !== undefined)
+    );
+    this.validateLayer(definedCliOptions, 'CLI options');
+    layers.push({ source: 'CLI options', values: definedCliOptions });
+
+    const merged: ConfigValues = {};
+    const sources: ConfigSources = {};
+    for (const layer of layers) {
+      mergeLayer(merged, layer.values, layer.source, sources);
+    }
+
+    // 4. Validate
+    const result = AnalyzerConfigSchema.safeParse(merged);
+    if (!result.success) {
+      const [issue] = result.error.issues;
+      const keyPath = formatKeyPath(issue.path);
+      logger.error('Configuration validation failed', result.error);
+      throw new ConfigurationError(keyPath || 'validation', {
+        code: 'CONFIG_INVALID',
+        params: { source: sourceOf(sources, keyPath), reason: issue.message },
+      });
+    }
+    const validated = result.data;
+
+    // 5. Resolve plugin specifiers so loaders get absolute module paths
+    if (validated.plugins && validated.plugins.length > 0) {
+      validated.plugins = await this.resolvePlugins(
+        validated.plugins,
+        validated.projectRoot
+      );
+    }
+
+    return { config: validated, sources };
+  }
 
-    // 1. Load default configuration (handled by Zod schema defaults)
+  /**
+   * The configuration in effect for one file: `rules` with the matching
+   * overrides applied, whose rules are attributed to the override
+   */
+  static forFile(resolved: ResolvedConfig, file: string): ResolvedConfig {
+    const { config } = resolved;
+    const sources = { ...resolved.sources };
+    const relative = normalizeIssuePath(file, config.projectRoot);
 
-    // 2. Load from file (.analyzer.json)
-    const configFilePath = path.join(
-      cliOptions.projectRoot || process.cwd(),
-      '.analyzer.json'
+    (config.overrides ?? []).forEach((override, index) => {
+      if (
+        !matchesGlob(relative, override.files) ||
+        matchesGlob(relative, override.excludedFiles ?? [])
+      ) {
+        return;
+      }
+      for (const rule of Object.keys(override.rules)) {
+        sources[`rules.${rule}`] =
+          `${sourceOf(sources, `overrides[${index}]`)} (overrides[${index}])`;
+      }
+    });
+    for (const key of Object.keys(sources)) {
+      if (key.startsWith('overrides')) delete sources[key];
+    }
+
+    return {
+      config: {
+        ...config,
+        rules: rulesForFile(config, file),
+        overrides: undefined,
+      },
+      sources,
+    };
+  }
+
+  /**
+   * Every configured value by key path, with the layer it came from. Arrays
+   * and rule settings are listed as single values.
+   */
+  static listValues(
+    resolved: ResolvedConfig
+  ): Array<{ key: string; value: unknown; source: string }> {
+    const values: Array<{ key: string; value: unknown; source: string }> = [];
+    const visit = (value: unknown, keyPath: string, depth: number) => {
+      if (isPlainObject(value) && depth < 2) {
+        for (const [key, child] of Object.entries(value)) {
+          visit(child, keyPath ? `${keyPath}.${key}` : key, depth + 1);
+        }
+        return;
+      }
+      if (value !== undefined) {
+        values.push({
+          key: keyPath,
+          value,
+          source: sourceOf(resolved.sources, keyPath),
+        });
+      }
+    };
+    visit(resolved.config, '', 0);
+    return values;
+  }
+
+  /**
+   * Resolve plugin specifiers to absolute module paths. Relative and absolute
+   * paths are resolved against the project root; anything else is treated as a
+   * package name installed in the project.
+   */
+  static async resolvePlugins(
+    plugins: string[],
+    projectRoot: string
+  ): Promise<string[]> {
+    const requireFromProject = createRequire(
+      path.join(path.resolve(projectRoot), 'package.json')
     );
+
+    return Promise.all(
+      plugins.map(async specifier => {
+        try {
+          if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            const resolved = path.resolve(projectRoot, specifier);
+            await fs.access(resolved);
+            return resolved;
+          }
+          return requireFromProject.resolve(specifier);
+        } catch (error: unknown) {
+          throw new ConfigurationError('plugins', {
+            code: 'PLUGIN_NOT_FOUND',
+            params: {
+              plugin: specifier,
+              projectRoot,
+              reason: getErrorMessage(error),
+            },
+            cause: error,
+          });
+        }
+      })
+    );
+  }
+
+  private static async findConfigFile(
+    projectRoot: string,
+    readFile: ReadFileFn
+  ): Promise<{ file: string; content: string } | null> {
+    for (const name of CONFIG_FILES) {
+      const file = path.join(projectRoot, name);
+      try {
+        return { file, content: await readFile(file, 'utf-8') };
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw new ConfigurationError('file', {
+          code: 'CONFIG_UNREADABLE',
+          params: { file: name, reason: getErrorMessage(error) },
+          cause: error,
+        });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Add a configuration file to `layers` after the presets it extends,
+   * depth first
+   */
+  private static async loadLayers(
+    { file, content }: { file: string; content: string },
+    readFile: ReadFileFn,
+    label: (file: string) => string,
+    layers: Array<{ source: string; values: ConfigValues }>,
+    chain: string[]
+  ): Promise<void> {
+    if (chain.includes(file)) {
+      throw new ConfigurationError('extends', {
+        code: 'CONFIG_EXTENDS_CYCLE',
+        params: { chain: [...chain, file].map(label).join(' -> ') },
+      });
+    }
+
+    const source = label(file);
+    const values = await this.parseConfigFile(file, content, source);
+    const fileConfig = this.validateLayer(values, source);
+
+    const presets =
+      typeof fileConfig.extends === 'string'
+        ? [fileConfig.extends]
+        : (fileConfig.extends ?? []);
+    for (const preset of presets) {
+      const presetFile = this.resolvePreset(preset, file, source);
+      let presetContent: string;
+      try {
+        presetContent = await readFile(presetFile, 'utf-8');
+      } catch (error: unknown) {
+        throw new ConfigurationError('extends', {
+          code: 'CONFIG_PRESET_UNREADABLE',
+          params: { preset, file: source, reason: getErrorMessage(error) },
+          cause: error,
+        });
+      }
+      await this.loadLayers(
+        { file: presetFile, content: presetContent },
+        readFile,
+        label,
+        layers,
+        [...chain, file]
+      );
+    }
+
+    // Plugins listed by a preset live next to it, not in the project
+    if (Array.isArray(values.plugins)) {
+      values.plugins = (values.plugins as string[]).map(plugin =>
+        plugin.startsWith('.')
+          ? path.resolve(path.dirname(file), plugin)
+          : plugin
+      );
+    }
+    layers.push({ source, values });
+  }
+
+  private static async parseConfigFile(
+    file: string,
+    content: string,
+    source: string
+  ): Promise<ConfigValues> {
+    const extension = path.extname(file);
+    let values: unknown;
     try {
-      const fileContent = await readFile(configFilePath, 'utf-8');
-      const fileConfig = JSON.parse(fileContent);
-      config = { ...config, ...fileConfig };
-      logger.info(`Loaded configuration from ${configFilePath}`);
-    } catch (error: unknown) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        logger.info(
-          `No .analyzer.json found at ${configFilePath}. Using defaults and CLI options.`
+      if (SCRIPT_EXTENSIONS.has(extension)) {
+        // The content hash makes a changed file load again in watch mode
+        const version = createHash('sha256').update(content).digest('hex');
+        const module = await import(
+          /* @vite-ignore */ `${pathToFileURL(file).href}?v=${version.slice(0, 12)}`
         );
+        values = module.default;
+      } else if (extension === '.yaml' || extension === '.yml') {
+        values = parseYaml(content) ?? {};
       } else {
-        logger.warn(
-          `Failed to parse .analyzer.json at ${configFilePath}: ${error instanceof Error ? error.message : String(error)}`
-        );
-        throw new ConfigurationError(
-          'file',
-          `Failed to parse .analyzer.json: ${error instanceof Error ? error.message : String(error)}`
-        );
+        values = JSON.parse(content);
       }
+    } catch (error: unknown) {
+      logger.warn(
+        `Failed to parse ${file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      throw new ConfigurationError('file', {
+        code: 'CONFIG_PARSE_FAILED',
+        params: { file: source, reason: getErrorMessage(error) },
+        cause: error,
+      });
     }
 
-    // 3. Apply CLI options (highest precedence)
-    config = { ...config, ...cliOptions };
+    if (!isPlainObject(values)) {
+      throw new ConfigurationError('file', {
+        code: 'CONFIG_NOT_AN_OBJECT',
+        params: {
+          file: source,
+          expected: SCRIPT_EXTENSIONS.has(extension)
+            ? 'export a configuration object as default'
+            : 'contain an object',
+        },
+      });
+    }
+    return values;
+  }
+
+  /**
+   * Validate one layer on its own, so an error names the file that has it
+   */
+  private static validateLayer(
+    values: ConfigValues,
+    source: string
+  ): ConfigFile {
+    const result = ConfigFileSchema.safeParse(values);
+    if (result.success) return result.data;
 
-    // 4. Validate and return
+    const [issue]: ZodIssue[] = result.error.issues;
+    throw new ConfigurationError(formatKeyPath(issue.path) || 'validation', {
+      code: 'CONFIG_INVALID',
+      params: { source, reason: issue.message },
+    });
+  }
+
+  /**
+   * Resolve an `extends` entry: paths are relative to the extending file,
+   * anything else is a package installed where that file lives
+   */
+  private static resolvePreset(
+    preset: string,
+    fromFile: string,
+    source: string
+  ): string {
+    if (preset.startsWith('.') || path.isAbsolute(preset)) {
+      return path.resolve(path.dirname(fromFile), preset);
+    }
     try {
-      return AnalyzerConfigSchema.parse(config);
+      return createRequire(fromFile).resolve(preset);
     } catch (error: unknown) {
-      logger.error(
-        'Configuration validation failed',
-        error instanceof Error ? error : undefined
-      );
-      throw new ConfigurationError(
-        'validation',
-        `Invalid configuration: ${error instanceof Error ? error.message : String(error)}`
-      );
+      throw new ConfigurationError('extends', {
+        code: 'CONFIG_PRESET_NOT_FOUND',
+        params: { preset, file: source, reason: getErrorMessage(error) },
+        cause: error,
+      });
     }
   }
 }
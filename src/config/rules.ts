@@ -0,0 +1,151 @@
+import type {
+  AnalyzerConfig,
+  CodeIssue,
+  IssueDraft,
+  RuleSetting,
+  SeverityLevel,
+} from '../types/analysis';
+import { matchesGlob } from '../utils/glob-pattern';
+import { normalizeIssuePath } from '../utils/issue-fingerprint';
+import { logger } from '../utils/logger';
+
+type RulesConfig = Pick<AnalyzerConfig, 'rules' | 'overrides'> & {
+  projectRoot?: string;
+};
+
+interface ResolvedRule {
+  enabled: boolean;
+  severity?: SeverityLevel;
+  options: Record<string, unknown>;
+}
+
+const SEVERITIES: Record<SeverityLevel, CodeIssue['severity']> = {
+  critical: { level: 'critical', impact: 'blocking', urgency: 'immediate' },
+  high: { level: 'high', impact: 'major', urgency: 'high' },
+  medium: { level: 'medium', impact: 'minor', urgency: 'medium' },
+  low: { level: 'low', impact: 'minor', urgency: 'low' },
+  info: { level: 'info', impact: 'cosmetic', urgency: 'low' },
+};
+
+/**
+ * Standard impact and urgency for a severity level
+ */
+export function severityForLevel(level: SeverityLevel): CodeIssue['severity'] {
+  return { ...SEVERITIES[level] };
+}
+
+/**
+ * Resolve the `rules` entry for a rule id into an enabled flag, an optional
+ * severity override and its options.
+ */
+export function resolveRule(config: RulesConfig, ruleId: string): ResolvedRule {
+  const setting: RuleSetting | undefined = config.rules?.[ruleId];
+
+  if (setting === undefined) {
+    return { enabled: true, options: {} };
+  }
+  if (typeof setting === 'string') {
+    return setting === 'off'
+      ? { enabled: false, options: {} }
+      : { enabled: true, severity: setting, options: {} };
+  }
+  if (setting.severity === 'off') {
+    return { enabled: false, options: setting.options ?? {} };
+  }
+  return {
+    enabled: true,
+    severity: setting.severity,
+    options: setting.options ?? {},
+  };
+}
+
+/**
+ * The `rules` in effect for one file: the top-level rules with every
+ * matching override applied over them in order
+ */
+export function rulesForFile(
+  config: RulesConfig,
+  file: string
+): Record<string, RuleSetting> | undefined {
+  if (!config.overrides?.length) return config.rules;
+
+  const relative = normalizeIssuePath(file, config.projectRoot);
+  let rules = config.rules;
+  for (const override of config.overrides) {
+    if (
+      matchesGlob(relative, override.files) &&
+      !matchesGlob(relative, override.excludedFiles ?? [])
+    ) {
+      rules = { ...rules, ...override.rules };
+    }
+  }
+  return rules;
+}
+
+/**
+ * Whether a rule should run. Lets analyzers skip expensive checks entirely,
+ * so a rule turned off at the top level still runs when an override turns it
+ * back on for some files.
+ */
+export function isRuleEnabled(config: RulesConfig, ruleId: string): boolean {
+  if (resolveRule(config, ruleId).enabled) return true;
+  return (config.overrides ?? []).some(
+    ({ rules }) =>
+      rules[ruleId] !== undefined && resolveRule({ rules }, ruleId).enabled
+  );
+}
+
+/**
+ * Merge configured rule options over the analyzer's defaults. Unknown keys
+ * and values whose type differs from the default are ignored with a warning.
+ */
+export function getRuleOptions<T extends Record<string, unknown>>(
+  config: RulesConfig,
+  ruleId: string,
+  defaults: T
+): T {
+  const { options } = resolveRule(config, ruleId);
+  const merged: Record<string, unknown> = { ...defaults };
+
+  for (const [key, value] of Object.entries(options)) {
+    if (!(key in defaults)) {
+      logger.warn(`Ignoring unknown option '${key}' for rule '${ruleId}'`);
+    } else if (typeof value !== typeof defaults[key]) {
+      logger.warn(
+        `Ignoring option '${key}' for rule '${ruleId}': expected ${typeof defaults[key]}, got ${typeof value}`
+      );
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return merged as T;
+}
+
+/**
+ * Drop issues from rules that are turned off and apply severity overrides,
+ * using the rules in effect for each issue's file. Every analyzer runs its
+ * issues through this before emitting them.
+ */
+export function applyRuleSettings(
+  issues: IssueDraft[],
+  config: RulesConfig
+): IssueDraft[] {
+  if (!config.rules && !config.overrides?.length) return issues;
+
+  const applied: IssueDraft[] = [];
+  for (const issue of issues) {
+    const rule = resolveRule(
+      { rules: rulesForFile(config, issue.file) },
+      issue.rule
+    );
+    if (!rule.enabled) continue;
+
+    applied.push(
+      rule.severity
+        ? { ...issue, severity: severityForLevel(rule.severity) }
+        : issue
+    );
+  }
+  return applied;
+}
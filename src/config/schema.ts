@@ -1,5 +1,66 @@
 import { z } from 'zod';
 
+const SeverityLevelSchema = z.enum([
+  'critical',
+  'high',
+  'medium',
+  'low',
+  'info',
+]);
+
+const RuleSettingSchema = z.union([
+  z.literal('off'),
+  SeverityLevelSchema,
+  z.object({
+    severity: z.union([z.literal('off'), SeverityLevelSchema]).optional(),
+    options: z.record(z.unknown()).optional(),
+  }),
+]);
+
+// Rules for the files matching `files`, applied over `rules` in order
+const RuleOverrideSchema = z.object({
+  files: z.array(z.string().min(1)).min(1),
+  excludedFiles: z.array(z.string().min(1)).optional(),
+  rules: z.record(z.string(), RuleSettingSchema),
+});
+
+export const ReportFormatSchema = z.enum([
+  'json',
+  'markdown',
+  'html',
+  'terminal',
+  'sarif',
+  'csv',
+  'junit',
+]);
+
+// A report without a path, or with `-`, goes to stdout
+const ReportOutputSchema = z.object({
+  format: ReportFormatSchema,
+  path: z.string().min(1).optional(),
+});
+
+// SPDX ids; packages as `name` or `name@version`
+const LicensePolicySchema = z.object({
+  allow: z.array(z.string().min(1)).optional(),
+  deny: z.array(z.string().min(1)).optional(),
+  ignorePackages: z.array(z.string().min(1)).optional(),
+  includeDev: z.boolean().optional(),
+});
+
+const SiteCheckSchema = z.object({
+  outDir: z.string().min(1).optional(),
+  basePath: z.string().min(1).optional(),
+  siteUrl: z.string().url().optional(),
+});
+
+// Replaces the timeout (ms, 0 for none), priority or dependencies a module declares
+const ModuleScheduleSchema = z.object({
+  timeout: z.number().int().min(0).optional(),
+  priority: z.number().int().optional(),
+  dependsOn: z.array(z.string().min(1)).optional(),
+});
+
 export const AnalyzerConfigSchema = z.object({
   projectRoot: z.string().default(process.cwd()),
   ignore: z
@@ -21,22 +82,43 @@ export const AnalyzerConfigSchema = z.object({
       'accessibility',
       'git',
       'deployment',
+      'dependencies',
+      'duplication',
+      'licenses',
+      'site',
     ]),
-  severityThreshold: z
-    .enum(['critical', 'high', 'medium', 'low', 'info'])
-    .default('low'),
-  outputFormat: z
-    .enum(['json', 'markdown', 'html', 'terminal'])
-    .default('terminal'),
+  severityThreshold: SeverityLevelSchema.default('low'),
+  outputFormat: ReportFormatSchema.default('terminal'),
+  outputs: z.array(ReportOutputSchema).min(1).optional(),
   concurrencyLimit: z.number().min(1).max(8).default(4),
+  // Milliseconds after which a module without its own timeout is stopped
+  moduleTimeout: z.number().int().min(0).optional(),
+  // Scheduling per module, keyed by module name, e.g. DeploymentAnalyzer
+  modules: z.record(z.string(), ModuleScheduleSchema).optional(),
   githubIntegration: z.boolean().default(true),
   deploymentChecks: z.boolean().default(true),
   autoFix: z.boolean().default(false),
   watchMode: z.boolean().default(false),
   enableCache: z.boolean().default(true),
+  baselineFile: z.string().optional(),
+  secretsAllowlistFile: z.string().optional(),
+  bundleStatsFile: z.string().min(1).optional(),
+  // Analyze only the files changed since this git ref
+  changedSince: z.string().min(1).optional(),
+  files: z.array(z.string()).optional(),
+  // What to do with modules that cannot limit themselves to `files`
+  unscopedAnalyzers: z.enum(['skip', 'run']).default('skip'),
+  healthHistory: z.boolean().default(true),
+  plugins: z.array(z.string().min(1)).optional(),
+  rules: z.record(z.string(), RuleSettingSchema).optional(),
+  overrides: z.array(RuleOverrideSchema).optional(),
+  licenses: LicensePolicySchema.optional(),
+  site: SiteCheckSchema.optional(),
 });
 
 export type AnalyzerConfig = z.infer<typeof AnalyzerConfigSchema>;
+export type ReportFormat = z.infer<typeof ReportFormatSchema>;
+export type ReportOutput = z.infer<typeof ReportOutputSchema>;
 
 export const MetricSchema = z.object({
   value: z.string(),
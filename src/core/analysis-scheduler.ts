@@ -0,0 +1,305 @@
+import type {
+  AnalysisModule,
+  AnalysisProgress,
+  CodeIssue,
+  ModuleRun,
+  ModuleRunStatus,
+} from '../types/analysis';
+import type { AnalyzerConfig } from '../config/schema';
+import {
+  AnalysisError,
+  CancellationError,
+  ConfigurationError,
+  TimeoutError,
+} from '../errors';
+import { logger } from '../utils/logger';
+
+/** Timeout of a module that declares none, unless `moduleTimeout` is set */
+export const DEFAULT_MODULE_TIMEOUT = 5 * 60 * 1000;
+
+export interface ScheduleOptions {
+  /** Modules running at once */
+  concurrency: number;
+  /** Aborting stops the running modules and skips the rest */
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/**
+ * When and for how long a module runs, from the module and the `modules`
+ * configuration
+ */
+export interface ModulePlan {
+  module: AnalysisModule;
+  /** Milliseconds; 0 for none */
+  timeout: number;
+  priority: number;
+  dependsOn: string[];
+}
+
+export interface ModuleOutcome {
+  module: AnalysisModule;
+  run: ModuleRun;
+  /** Empty unless the run completed */
+  issues: CodeIssue[];
+}
+
+type RunModule = (
+  module: AnalysisModule,
+  signal: AbortSignal
+) => Promise<CodeIssue[]>;
+
+/**
+ * Reject with the signal's reason once it aborts, even when `promise` never
+ * settles, e.g. because a module ignores its signal
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => reject(signal.reason);
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', abort);
+    });
+  });
+}
+
+/**
+ * Runs analysis modules with bounded concurrency. Among the modules whose
+ * dependencies have ended, the highest priority starts first; each run is
+ * aborted after its timeout, and all of them when `signal` aborts. A module
+ * that fails, times out or is cancelled yields no issues and never stops the
+ * others.
+ */
+export class AnalysisScheduler {
+  private progress = new Map<string, AnalysisProgress['modules'][number]>();
+
+  constructor(
+    private readonly config: Pick<AnalyzerConfig, 'moduleTimeout' | 'modules'>,
+    private readonly options: ScheduleOptions
+  ) {}
+
+  /**
+   * Plans in the order modules start when nothing else holds them back:
+   * descending priority, then registration order
+   *
+   * @throws {ConfigurationError} If the dependencies form a loop
+   */
+  static plan(
+    modules: AnalysisModule[],
+    config: Pick<AnalyzerConfig, 'moduleTimeout' | 'modules'>
+  ): ModulePlan[] {
+    const plans = modules.map(module => {
+      const configured = config.modules?.[module.name] ?? {};
+      return {
+        module,
+        timeout:
+          configured.timeout ??
+          module.timeout ??
+          config.moduleTimeout ??
+          DEFAULT_MODULE_TIMEOUT,
+        priority: configured.priority ?? module.priority ?? 0,
+        dependsOn: configured.dependsOn ?? module.dependsOn ?? [],
+      };
+    });
+
+    const byName = new Map(plans.map(plan => [plan.module.name, plan]));
+    const visited = new Set<string>();
+    const visit = (name: string, chain: string[]) => {
+      if (chain.includes(name)) {
+        throw new ConfigurationError('modules', {
+          code: 'MODULE_DEPENDENCY_CYCLE',
+          params: { chain: [...chain, name].join(' -> ') },
+        });
+      }
+      if (visited.has(name)) return;
+      for (const dependency of byName.get(name)?.dependsOn ?? []) {
+        if (byName.has(dependency)) visit(dependency, [...chain, name]);
+      }
+      visited.add(name);
+    };
+    plans.forEach(plan => visit(plan.module.name, []));
+
+    return plans
+      .map((plan, index) => ({ plan, index }))
+      .sort((a, b) => b.plan.priority - a.plan.priority || a.index - b.index)
+      .map(({ plan }) => plan);
+  }
+
+  /**
+   * Run every module; outcomes are in the order of `modules`
+   */
+  async run(
+    modules: AnalysisModule[],
+    runModule: RunModule
+  ): Promise<ModuleOutcome[]> {
+    const plans = AnalysisScheduler.plan(modules, this.config);
+    const scheduled = new Set(plans.map(plan => plan.module.name));
+    const ended = new Set<string>();
+    const outcomes = new Map<AnalysisModule, ModuleOutcome>();
+    const concurrency = Math.max(this.options.concurrency, 1);
+
+    this.progress = new Map(
+      plans.map(plan => [
+        plan.module.name,
+        { name: plan.module.name, state: 'pending' },
+      ])
+    );
+    this.emitProgress();
+
+    const pending = [...plans];
+    const running = new Map<ModulePlan, Promise<void>>();
+    while (pending.length > 0 || running.size > 0) {
+      while (!this.options.signal?.aborted && running.size < concurrency) {
+        const index = pending.findIndex(plan =>
+          plan.dependsOn.every(
+            dependency => !scheduled.has(dependency) || ended.has(dependency)
+          )
+        );
+        if (index === -1) break;
+
+        const [plan] = pending.splice(index, 1);
+        running.set(
+          plan,
+          this.runPlan(plan, runModule).then(outcome => {
+            outcomes.set(plan.module, outcome);
+            ended.add(plan.module.name);
+            running.delete(plan);
+          })
+        );
+      }
+
+      if (this.options.signal?.aborted) {
+        for (const plan of pending.splice(0)) {
+          outcomes.set(
+            plan.module,
+            this.end(
+              plan,
+              'cancelled',
+              0,
+              [],
+              new CancellationError(plan.module.name, 'MODULE_CANCELLED')
+            )
+          );
+        }
+      }
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    return modules.flatMap(module => outcomes.get(module) ?? []);
+  }
+
+  private async runPlan(
+    plan: ModulePlan,
+    runModule: RunModule
+  ): Promise<ModuleOutcome> {
+    const { module, timeout } = plan;
+    const controller = new AbortController();
+    const cancel = () =>
+      controller.abort(new CancellationError(module.name, 'MODULE_CANCELLED'));
+    this.options.signal?.addEventListener('abort', cancel, { once: true });
+    const timer =
+      timeout > 0
+        ? setTimeout(
+            () =>
+              controller.abort(
+                new TimeoutError(module.name, timeout, 'MODULE_TIMEOUT')
+              ),
+            timeout
+          )
+        : undefined;
+
+    const startedAt = Date.now();
+    this.progress.set(module.name, {
+      name: module.name,
+      state: 'running',
+      startedAt,
+    });
+    this.emitProgress();
+
+    try {
+      const issues = await untilAborted(
+        Promise.resolve().then(() => runModule(module, controller.signal)),
+        controller.signal
+      );
+      logger.debug(
+        `Module '${module.name}' completed in ${Date.now() - startedAt}ms with ${issues.length} issues`
+      );
+      return this.end(plan, 'completed', Date.now() - startedAt, issues);
+    } catch (error: unknown) {
+      const reason = controller.signal.aborted
+        ? controller.signal.reason
+        : error;
+      const durationMs = Date.now() - startedAt;
+
+      if (reason instanceof TimeoutError) {
+        logger.warn(reason.message);
+        return this.end(plan, 'timeout', durationMs, [], reason);
+      }
+      if (reason instanceof CancellationError) {
+        logger.debug(reason.message);
+        return this.end(plan, 'cancelled', durationMs, [], reason);
+      }
+      const analysisError =
+        reason instanceof AnalysisError
+          ? reason
+          : new AnalysisError(
+              module.name,
+              reason instanceof Error ? reason : new Error(String(reason))
+            );
+      logger.error(`Analysis module '${module.name}' failed`, analysisError);
+      return this.end(plan, 'failed', durationMs, [], analysisError);
+    } finally {
+      clearTimeout(timer);
+      this.options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  private end(
+    plan: ModulePlan,
+    status: ModuleRunStatus,
+    durationMs: number,
+    issues: CodeIssue[],
+    error?: Error
+  ): ModuleOutcome {
+    const { name } = plan.module;
+    const run: ModuleRun = {
+      module: name,
+      status,
+      durationMs,
+      issues: issues.length,
+      ...(error && { error: error.message }),
+    };
+    this.progress.set(name, {
+      name,
+      state: status,
+      durationMs,
+      issues: issues.length,
+    });
+    this.emitProgress();
+    return { module: plan.module, run, issues };
+  }
+
+  private emitProgress(): void {
+    if (!this.options.onProgress) return;
+    const modules = [...this.progress.values()].map(entry => ({ ...entry }));
+    try {
+      this.options.onProgress({
+        modules,
+        completed: modules.filter(
+          entry => entry.state !== 'pending' && entry.state !== 'running'
+        ).length,
+        total: modules.length,
+      });
+    } catch (error: unknown) {
+      // A failing progress listener must not fail the analysis
+      logger.debug(
+        `Progress listener failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
@@ -0,0 +1,442 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { z } from 'zod';
+import type { FSWatcher } from 'chokidar';
+import type { ProjectAnalyzer } from './analyzer';
+import type {
+  AnalyzerConfig,
+  CodeIssue,
+  ProjectHealth,
+  SeverityLevel,
+} from '../types/analysis';
+import { CONFIG_FILES } from '../config/config-loader';
+import { ValidationError } from '../errors';
+import { normalizeIssuePath } from '../utils/issue-fingerprint';
+import { logger } from '../utils/logger';
+import { watchProject } from '../utils/project-watcher';
+
+/** Issues added and removed by an analysis, as streamed to `/events` */
+export interface IssueChanges {
+  added: CodeIssue[];
+  /** Ids of issues no longer reported */
+  removed: string[];
+  health: ProjectHealth;
+  analyzedAt: string;
+}
+
+const SEVERITY_RANK: Record<SeverityLevel, number> = {
+  info: 0,
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 4,
+};
+
+// Changes to these affect every file, so they trigger a full analysis
+const PROJECT_FILES = new Set([
+  ...CONFIG_FILES,
+  'package.json',
+  'package-lock.json',
+]);
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const HEARTBEAT_MS = 30_000;
+const LOCAL_ORIGIN_RE =
+  /^https?:\/\/(?:localhost|127\.0\.0\.1|\[::1\])(?::\d+)?$/;
+
+const AnalyzeRequestSchema = z.object({
+  paths: z.array(z.string().min(1)).optional(),
+});
+
+const FixRequestSchema = z.object({
+  issueIds: z.array(z.string().min(1)).optional(),
+  dryRun: z.boolean().default(false),
+});
+
+/**
+ * Keeps a `ProjectAnalyzer` and its cache warm between runs and serves the
+ * current issues over a local HTTP/JSON API:
+ *
+ * - `GET /health`: project health and whether an analysis is running
+ * - `GET /issues?severity=&category=`: issues at or above a severity, in the given categories
+ * - `POST /analyze`: analyze the project, or only `{ "paths": [...] }`
+ * - `POST /fix`: apply (or with `"dryRun": true` preview) the fixes for `{ "issueIds": [...] }`
+ * - `GET /events`: Server-Sent Events, a `snapshot` on connect and `issues` on every change
+ *
+ * Changed files are re-analyzed one by one through the cache; project-wide
+ * checks refresh on a full analysis.
+ */
+export class AnalysisServer {
+  private server: http.Server | null = null;
+  private watcher: FSWatcher | null = null;
+  private clients = new Set<ServerResponse>();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private issues: CodeIssue[] = [];
+  private health: ProjectHealth | null = null;
+  private analyzedAt: string | null = null;
+  private analyzing = 0;
+  /** Analyses run one at a time, in the order they were requested */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly analyzer: ProjectAnalyzer,
+    private readonly config: AnalyzerConfig
+  ) {}
+
+  /**
+   * Start listening, analyze the project and, with `watch`, keep
+   * re-analyzing changed files
+   *
+   * @returns The port the server listens on
+   */
+  async start(
+    options: { port?: number; host?: string; watch?: boolean } = {}
+  ): Promise<number> {
+    const { port = 4400, host = '127.0.0.1', watch = true } = options;
+
+    const server = http.createServer((request, response) => {
+      void this.handle(request, response);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+    this.heartbeat = setInterval(() => {
+      for (const client of this.clients) client.write(': ping\n\n');
+    }, HEARTBEAT_MS);
+
+    const { port: boundPort } = server.address() as AddressInfo;
+    logger.info(`Analysis server listening on http://${host}:${boundPort}`);
+
+    void this.analyzeProject().catch((error: unknown) => {
+      logger.error(
+        'Initial analysis failed',
+        error instanceof Error ? error : undefined
+      );
+    });
+    if (watch) {
+      this.watcher = watchProject(this.config, files =>
+        files.some(file => PROJECT_FILES.has(path.basename(file)))
+          ? this.analyzeProject()
+          : this.analyzePaths(files)
+      );
+    }
+    return boundPort;
+  }
+
+  async close(): Promise<void> {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    await this.watcher?.close();
+    for (const client of this.clients) client.end();
+    this.clients.clear();
+    await new Promise<void>(resolve => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+    });
+    this.server = null;
+  }
+
+  /**
+   * Run a full analysis and publish what changed
+   */
+  analyzeProject(): Promise<void> {
+    return this.enqueue(async () => {
+      const result = await this.analyzer.analyze();
+      this.update(result.issues, result.health);
+    });
+  }
+
+  /**
+   * Re-analyze some files and publish what changed. Issues of deleted files
+   * are dropped.
+   *
+   * @param files - Paths, absolute or relative to the project root
+   */
+  analyzePaths(files: string[]): Promise<void> {
+    return this.enqueue(async () => {
+      const { projectRoot } = this.config;
+      const relative = new Set(
+        files.map(file => normalizeIssuePath(file, projectRoot))
+      );
+
+      const analyzed: CodeIssue[] = [];
+      for (const file of relative) {
+        if (await exists(path.join(projectRoot, file))) {
+          analyzed.push(...(await this.analyzer.analyzeFile(file)));
+        }
+      }
+
+      const issues = [
+        ...this.issues.filter(
+          issue => !relative.has(normalizeIssuePath(issue.file, projectRoot))
+        ),
+        ...analyzed,
+      ];
+      const health = this.analyzer.calculateProjectHealth(
+        issues,
+        this.health?.duplication ?? null
+      );
+      if (this.health) health.trends = this.health.trends;
+      this.update(issues, health);
+    });
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = async () => {
+      this.analyzing++;
+      try {
+        await task();
+      } finally {
+        this.analyzing--;
+      }
+    };
+    const next = this.queue.then(run, run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private update(issues: CodeIssue[], health: ProjectHealth): void {
+    const previous = new Set(this.issues.map(issue => issue.id));
+    const current = new Set(issues.map(issue => issue.id));
+    const changes: IssueChanges = {
+      added: issues.filter(issue => !previous.has(issue.id)),
+      removed: [...previous].filter(id => !current.has(id)),
+      health,
+      analyzedAt: new Date().toISOString(),
+    };
+
+    this.issues = issues;
+    this.health = health;
+    this.analyzedAt = changes.analyzedAt;
+    this.broadcast('issues', changes);
+    logger.info(
+      `${issues.length} issues (${changes.added.length} new, ${changes.removed.length} resolved)`
+    );
+  }
+
+  private async handle(
+    request: IncomingMessage,
+    response: ServerResponse
+  ): Promise<void> {
+    const origin = request.headers.origin;
+    // A local server can still be reached by any page the developer has open
+    if (origin && !LOCAL_ORIGIN_RE.test(origin)) {
+      this.send(response, 403, { error: `Origin ${origin} is not allowed` });
+      return;
+    }
+    if (origin) {
+      response.setHeader('Access-Control-Allow-Origin', origin);
+      response.setHeader('Vary', 'Origin');
+    }
+
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const route = `${request.method} ${url.pathname}`;
+    try {
+      switch (route) {
+        case 'OPTIONS /analyze':
+        case 'OPTIONS /fix':
+          response.writeHead(204, {
+            'Access-Control-Allow-Methods': 'GET, POST',
+            'Access-Control-Allow-Headers': 'Content-Type',
+          });
+          response.end();
+          return;
+        case 'GET /health':
+          this.send(response, 200, {
+            status: 'ok',
+            analyzing: this.analyzing > 0,
+            analyzedAt: this.analyzedAt,
+            health: this.health,
+            cache: this.analyzer.getCacheStats(),
+          });
+          return;
+        case 'GET /issues':
+          this.send(response, 200, this.filterIssues(url.searchParams));
+          return;
+        case 'GET /events':
+          this.subscribe(request, response);
+          return;
+        case 'POST /analyze': {
+          const { paths } = parseBody(
+            AnalyzeRequestSchema,
+            await readBody(request)
+          );
+          await (paths ? this.analyzePaths(paths) : this.analyzeProject());
+          this.send(response, 200, {
+            analyzedAt: this.analyzedAt,
+            health: this.health,
+            issues: paths ? this.issuesIn(paths) : this.issues,
+          });
+          return;
+        }
+        case 'POST /fix':
+          this.send(
+            response,
+            200,
+            await this.fix(parseBody(FixRequestSchema, await readBody(request)))
+          );
+          return;
+        default:
+          this.send(response, 404, { error: `No route for ${route}` });
+      }
+    } catch (error: unknown) {
+      if (error instanceof ValidationError) {
+        this.send(response, 400, { error: error.message });
+        return;
+      }
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error(`${route} failed`, err);
+      this.send(response, 500, { error: err.message });
+    }
+  }
+
+  private filterIssues(params: URLSearchParams) {
+    const severity = params.get('severity');
+    if (severity && !(severity in SEVERITY_RANK)) {
+      throw new ValidationError(
+        'severity',
+        [`must be one of ${Object.keys(SEVERITY_RANK).join(', ')}`],
+        { code: 'REQUEST_INVALID' }
+      );
+    }
+    const categories = params
+      .get('category')
+      ?.split(',')
+      .map(category => category.trim().toLowerCase())
+      .filter(Boolean);
+
+    const issues = this.issues.filter(
+      issue =>
+        (!severity ||
+          SEVERITY_RANK[issue.severity.level] >=
+            SEVERITY_RANK[severity as SeverityLevel]) &&
+        (!categories?.length ||
+          categories.includes(issue.category.toLowerCase()))
+    );
+    return { analyzedAt: this.analyzedAt, total: issues.length, issues };
+  }
+
+  private issuesIn(paths: string[]): CodeIssue[] {
+    const { projectRoot } = this.config;
+    const files = new Set(
+      paths.map(file => normalizeIssuePath(file, projectRoot))
+    );
+    return this.issues.filter(issue =>
+      files.has(normalizeIssuePath(issue.file, projectRoot))
+    );
+  }
+
+  /**
+   * Fix current issues without analyzing the project first, then re-analyze
+   * the files that changed
+   */
+  private async fix({ issueIds, dryRun }: z.infer<typeof FixRequestSchema>) {
+    const fixable = this.issues.filter(issue => issue.autoFixable);
+    const selected = issueIds
+      ? fixable.filter(issue => issueIds.includes(issue.id))
+      : fixable;
+    if (issueIds) {
+      const unknown = issueIds.filter(
+        id => !selected.some(issue => issue.id === id)
+      );
+      if (unknown.length > 0) {
+        throw new ValidationError(
+          'issueIds',
+          [`no current auto-fixable issue with id ${unknown.join(', ')}`],
+          { code: 'REQUEST_INVALID' }
+        );
+      }
+    }
+
+    const preview = await this.analyzer.previewIssueFixes(selected);
+    if (dryRun) return preview;
+
+    const result = await this.analyzer.applyFixes(preview);
+    const touched = [...new Set(result.fixed.map(issue => issue.file))];
+    if (touched.length > 0) await this.analyzePaths(touched);
+    return result;
+  }
+
+  private subscribe(request: IncomingMessage, response: ServerResponse) {
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    this.clients.add(response);
+    request.on('close', () => this.clients.delete(response));
+
+    writeEvent(response, 'snapshot', {
+      issues: this.issues,
+      health: this.health,
+      analyzedAt: this.analyzedAt,
+    });
+  }
+
+  private broadcast(event: string, data: unknown): void {
+    for (const client of this.clients) writeEvent(client, event, data);
+  }
+
+  private send(response: ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
+
+function writeEvent(response: ServerResponse, event: string, data: unknown) {
+  response.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ValidationError('body', ['must be at most 1 MB'], {
+        code: 'REQUEST_INVALID',
+      });
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8').trim();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError('body', ['must be JSON'], {
+      code: 'REQUEST_INVALID',
+    });
+  }
+}
+
+function parseBody<T extends z.ZodTypeAny>(
+  schema: T,
+  body: unknown
+): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError(
+      'body',
+      result.error.issues.map(
+        issue => `${issue.path.join('.') || 'body'}: ${issue.message}`
+      ),
+      { code: 'REQUEST_INVALID' }
+    );
+  }
+  return result.data;
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
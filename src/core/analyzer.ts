@@ -5,26 +5,109 @@ import type {
   DeploymentChecklist,
   AnalysisResult,
   AnalysisModule,
+  FileAnalysisModule,
+  BaselineComparison,
+  IssueSuppression,
+  DuplicationSummary,
+  BundleComposition,
+  HealthSnapshot,
+  AnalysisScope,
+  FilePatch,
+  FixFailure,
+  FixPreview,
+  FixResult,
+  FixVerification,
+  AnalysisProgress,
 } from '../types/analysis';
 import type { AnalyzerConfig } from '../config/schema';
 import { ConfigLoader } from '../config/config-loader';
 import { logger } from '../utils/logger';
-import { AnalysisError } from '../errors';
+import {
+  createCorrelationId,
+  getLogContext,
+  withLogContext,
+} from '../utils/log-context';
+import { AnalysisError, ConfigurationError } from '../errors';
+import { AnalysisScheduler } from './analysis-scheduler';
+import type { ModuleOutcome } from './analysis-scheduler';
 
 import { SyntaxAnalyzer } from '../analysis/syntax';
 import { TypesAnalyzer } from '../analysis/types';
 import { SecurityAnalyzer } from '../analysis/security';
 import { PerformanceAnalyzer } from '../analysis/performance';
 import { AccessibilityAnalyzer } from '../analysis/accessibility';
+import { DependencyAnalyzer } from '../analysis/dependencies';
+import { DuplicationAnalyzer } from '../analysis/duplication';
+import { LicenseAnalyzer } from '../analysis/licenses';
+import { SiteAnalyzer } from '../analysis/site';
 import { GitAnalyzer } from '../analysis/git';
 import { DeploymentAnalyzer } from '../analysis/deployment';
 import { AnalysisCache } from '../utils/analysis-cache';
+import { AnalysisBaseline } from '../utils/analysis-baseline';
+import { IssueSuppressions } from '../utils/issue-suppressions';
+import { HealthHistory } from '../utils/health-history';
+import { normalizeIssuePath, stampIssues } from '../utils/issue-fingerprint';
+import { getChangedFiles, isInFileScope } from '../utils/file-scope';
+import { applyRuleSettings, resolveRule, rulesForFile } from '../config/rules';
+import { matchesGlob } from '../utils/glob-pattern';
+import { applyHunks, diffHunks } from '../utils/diff';
+import type { DiffHunk } from '../utils/diff';
+import crypto from 'crypto';
 import path from 'path';
 
+// Files where the generic fix can append the suggestion as a line comment
+const SCRIPT_FILE_RE = /\.(?:[cm]?[jt]sx?)$/;
+
+// Options that pick the files and modules to run, or decide what happens to
+// the issues, but not what a module finds in a file; changing them keeps the
+// cached issues
+const RUN_OPTIONS = new Set<string>([
+  'ignore',
+  'include',
+  'enabledAnalyzers',
+  'plugins',
+  'files',
+  'changedSince',
+  'unscopedAnalyzers',
+  'concurrencyLimit',
+  'outputFormat',
+  'outputs',
+  'autoFix',
+  'watchMode',
+  'enableCache',
+  'baselineFile',
+  'healthHistory',
+  'githubIntegration',
+  'deploymentChecks',
+]);
+
+function isFileModule(module: AnalysisModule): module is FileAnalysisModule {
+  const candidate = module as Partial<FileAnalysisModule>;
+  return (
+    module.supportsFileScope === true &&
+    typeof candidate.getFiles === 'function' &&
+    typeof candidate.analyzeFile === 'function'
+  );
+}
+
+export interface AnalyzeOptions {
+  /** Write the current issues to the baseline file instead of comparing */
+  updateBaseline?: boolean;
+  /**
+   * Aborting stops the running modules and skips the rest; the result then
+   * covers the modules that completed and has `cancelled` set
+   */
+  signal?: AbortSignal;
+  /** Called whenever a module starts or ends */
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
 export class ProjectAnalyzer {
   private config: AnalyzerConfig;
   private analysisModules: AnalysisModule[] = [];
   private cache: AnalysisCache | null = null;
+  /** Module that reported each issue of the last analysis, by issue id */
+  private issueModules = new Map<string, AnalysisModule>();
   private readonly MAX_CONCURRENCY = 8;
 
   constructor(initialConfig: Partial<AnalyzerConfig> = {}) {
@@ -40,6 +123,10 @@ export class ProjectAnalyzer {
     this.registerModule(new AccessibilityAnalyzer());
     this.registerModule(new GitAnalyzer());
     this.registerModule(new DeploymentAnalyzer());
+    this.registerModule(new DependencyAnalyzer());
+    this.registerModule(new DuplicationAnalyzer());
+    this.registerModule(new LicenseAnalyzer());
+    this.registerModule(new SiteAnalyzer());
   }
 
   public registerModule(module: AnalysisModule) {
@@ -50,12 +137,9 @@ export class ProjectAnalyzer {
    * Clear the analysis cache
    */
   async clearCache(): Promise<void> {
-    if (this.cache) {
-      await this.cache.clear();
-      logger.info('Analysis cache cleared');
-    } else {
-      logger.warn('Cache not initialized');
-    }
+    // Clearing deletes the cache file, so it needs no loaded cache
+    await (this.cache ?? new AnalysisCache(this.config.projectRoot)).clear();
+    logger.info('Analysis cache cleared');
   }
 
   /**
@@ -70,16 +154,25 @@ export class ProjectAnalyzer {
 
   /**
    * Auto-fix issues that have autoFixable = true
-   * Returns an object with fixed and failed issues
+   * Returns the fixed, failed and skipped issues and a re-analysis of the fixed files
    *
    * @param issueIds - Optional array of issue IDs to fix. If not provided, all auto-fixable issues will be fixed.
-   * @returns Object containing arrays of fixed and failed issues
+   * @returns Object containing arrays of fixed, failed and skipped issues
    * @throws {AnalysisError} If the auto-fix process encounters a critical error
    */
-  async autoFix(issueIds?: string[]): Promise<{
-    fixed: CodeIssue[];
-    failed: Array<{ issue: CodeIssue; reason: string }>;
-  }> {
+  async autoFix(issueIds?: string[]): Promise<FixResult> {
+    return this.applyFixes(await this.previewFixes(issueIds));
+  }
+
+  /**
+   * Collect the fixes for auto-fixable issues as per-file patches without
+   * writing anything, so they can be reviewed or applied hunk by hunk
+   *
+   * @param issueIds - Optional array of issue IDs to fix. If not provided, all auto-fixable issues are included.
+   * @returns Patches for the files with fixes, and the issues no fix could be proposed for
+   * @throws {AnalysisError} If the project cannot be analyzed
+   */
+  async previewFixes(issueIds?: string[]): Promise<FixPreview> {
     logger.info('Starting auto-fix process...');
 
     try {
@@ -106,100 +199,102 @@ export class ProjectAnalyzer {
 
       if (issuesToFix.length === 0) {
         logger.info('No auto-fixable issues found');
-        return { fixed: [], failed: [] };
+        return { patches: [], failed: [] };
       }
 
       logger.info(`Found ${issuesToFix.length} auto-fixable issues`);
-
-      const fixed: CodeIssue[] = [];
-      const failed: Array<{ issue: CodeIssue; reason: string }> = [];
-
-      // Process each issue
-      for (const issue of issuesToFix) {
-        try {
-          await this.applyFix(issue);
-          fixed.push(issue);
-          logger.debug(`Fixed: ${issue.title} in ${issue.file}`);
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          failed.push({
-            issue,
-            reason: errorMessage,
-          });
-          logger.warn(`Failed to fix: ${issue.title} - ${errorMessage}`);
-        }
-      }
-
-      logger.info(
-        `Auto-fix complete: ${fixed.length} fixed, ${failed.length} failed`
-      );
-      return { fixed, failed };
+      return await this.previewIssueFixes(issuesToFix);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       logger.error('Auto-fix process failed', err);
-      throw new AnalysisError('AutoFix', err, 'Auto-fix process failed');
+      throw new AnalysisError('AutoFix', err, { code: 'AUTOFIX_FAILED' });
     }
   }
 
   /**
-   * Apply a fix to a single issue
+   * Collect the fixes for the given issues without analyzing the project
+   * again, e.g. for issues an editor already shows
    *
-   * @param issue - The code issue to fix
-   * @throws {Error} If the issue is missing required information or the fix fails
+   * @param issues - Auto-fixable issues from an earlier analysis
+   * @returns Patches for the files with fixes, and the issues no fix could be proposed for
    */
-  private async applyFix(issue: CodeIssue): Promise<void> {
-    const fs = await import('fs/promises');
+  async previewIssueFixes(issues: CodeIssue[]): Promise<FixPreview> {
+    const patches: FilePatch[] = [];
+    const failed: FixFailure[] = [];
+    const issuesByFile = new Map<string, CodeIssue[]>();
 
-    if (!issue.file || !issue.suggestion) {
-      throw new Error(
-        `Issue missing required information: ${!issue.file ? 'file path' : 'suggestion'}`
-      );
+    for (const issue of issues) {
+      if (!issue.file || !issue.suggestion) {
+        failed.push({
+          issue,
+          reason: `Issue missing required information: ${!issue.file ? 'file path' : 'suggestion'}`,
+        });
+        continue;
+      }
+      const file = normalizeIssuePath(issue.file, this.config.projectRoot);
+      issuesByFile.set(file, [...(issuesByFile.get(file) ?? []), issue]);
     }
 
-    // Resolve project-relative paths to avoid ENOENT on apply
-    const targetPath = path.isAbsolute(issue.file)
-      ? issue.file
-      : path.join(this.config.projectRoot, issue.file);
-
-    try {
-      // Verify file exists before attempting to read
+    for (const [file, fileIssues] of issuesByFile) {
       try {
-        await fs.access(targetPath);
-      } catch {
-        throw new Error(`File not found: ${targetPath}`);
+        const patch = await this.createPatch(file, fileIssues, failed);
+        if (patch) patches.push(patch);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        failed.push(
+          ...fileIssues.map(issue => ({ issue, reason: errorMessage }))
+        );
+        logger.warn(`Failed to fix: ${file} - ${errorMessage}`);
       }
+    }
 
-      // Read the file
-      const content = await fs.readFile(targetPath, 'utf-8');
-      const lines = content.split('\n');
-
-      // Apply the fix based on suggestion
-      let fixedContent = content;
-
-      if (issue.category === 'accessibility') {
-        // Add aria-label to elements
-        fixedContent = this.fixAccessibilityIssue(content, issue);
-      } else if (
-        issue.category === 'security' &&
-        issue.suggestion.includes('sanitize')
-      ) {
-        // Add input sanitization
-        fixedContent = this.fixSecurityIssue(content, issue);
-      } else if (issue.category === 'performance') {
-        // Apply performance optimizations
-        fixedContent = this.fixPerformanceIssue(content, issue);
-      } else {
-        // Generic fix: apply suggestion as comment
-        if (issue.line && issue.line > 0 && issue.line <= lines.length) {
-          lines[issue.line - 1] =
-            `${lines[issue.line - 1]} // ${issue.suggestion}`;
-          fixedContent = lines.join('\n');
-        }
+    logger.info(
+      `Proposed fixes for ${patches.reduce((sum, patch) => sum + patch.issues.length, 0)} issues in ${patches.length} files, ${failed.length} failed`
+    );
+    return { patches, failed };
+  }
+
+  /**
+   * Write previewed fixes, keeping only the hunks `accept` approves, then
+   * re-run the modules that reported the fixed issues on the touched files
+   *
+   * @param preview - Fixes collected by previewFixes
+   * @param accept - Decides whether to apply each hunk; all are applied by default
+   * @returns Object containing arrays of fixed, failed and skipped issues, and their verification
+   */
+  async applyFixes(
+    preview: FixPreview,
+    accept: (
+      patch: FilePatch,
+      hunk: DiffHunk
+    ) => boolean | Promise<boolean> = () => true
+  ): Promise<FixResult> {
+    const fs = await import('fs/promises');
+    const fixed: CodeIssue[] = [];
+    const failed: FixFailure[] = [...preview.failed];
+    const skipped: CodeIssue[] = [];
+
+    for (const patch of preview.patches) {
+      const accepted: DiffHunk[] = [];
+      for (const hunk of patch.hunks) {
+        if (await accept(patch, hunk)) accepted.push(hunk);
       }
 
-      // Only write if content changed
-      if (fixedContent !== content) {
+      const applied = patch.issues.filter(issue =>
+        this.isFixAccepted(issue, patch.hunks, accepted)
+      );
+      skipped.push(...patch.issues.filter(issue => !applied.includes(issue)));
+      if (accepted.length === 0) continue;
+
+      const targetPath = path.join(this.config.projectRoot, patch.file);
+      try {
+        const content = await fs.readFile(targetPath, 'utf-8');
+        if (content !== patch.original) {
+          throw new Error('File changed since the fixes were previewed');
+        }
+        const fixedContent = applyHunks(content, accepted);
+
         // Create backup before modifying
         try {
           await fs.writeFile(`${targetPath}.backup`, content, 'utf-8');
@@ -210,20 +305,202 @@ export class ProjectAnalyzer {
               ? backupError
               : new Error(String(backupError));
           logger.warn(
-            `Failed to create backup for ${issue.file}: ${err.message}`
+            `Failed to create backup for ${patch.file}: ${err.message}`
           );
         }
 
         // Write the fixed content back
         await fs.writeFile(targetPath, fixedContent, 'utf-8');
-      } else {
-        logger.debug(`No changes needed for ${targetPath}`);
+        fixed.push(...applied);
+        logger.debug(
+          `Applied ${accepted.length} of ${patch.hunks.length} hunks to ${patch.file}`
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        const reason = `Failed to apply fix to ${targetPath}: ${errorMessage}`;
+        failed.push(...applied.map(issue => ({ issue, reason })));
+        logger.warn(`Failed to fix: ${patch.file} - ${errorMessage}`);
       }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to apply fix to ${targetPath}: ${errorMessage}`);
     }
+
+    logger.info(
+      `Auto-fix complete: ${fixed.length} fixed, ${failed.length} failed, ${skipped.length} skipped`
+    );
+    return {
+      fixed,
+      failed,
+      skipped,
+      verification: await this.verifyFixes(fixed),
+    };
+  }
+
+  /**
+   * Propose the fixes for the issues in one file. Each fix is judged on the
+   * original content, since an earlier fix may already have covered it.
+   *
+   * @param file - Path relative to the project root
+   * @param issues - Auto-fixable issues in the file
+   * @param failed - Receives the issues whose fix changes nothing
+   * @throws {Error} If the file cannot be read
+   */
+  private async createPatch(
+    file: string,
+    issues: CodeIssue[],
+    failed: FixFailure[]
+  ): Promise<FilePatch | null> {
+    const fs = await import('fs/promises');
+    const targetPath = path.join(this.config.projectRoot, file);
+
+    // Verify file exists before attempting to read
+    try {
+      await fs.access(targetPath);
+    } catch {
+      throw new Error(`File not found: ${targetPath}`);
+    }
+    const original = await fs.readFile(targetPath, 'utf-8');
+
+    let patched = original;
+    const fixing: CodeIssue[] = [];
+    for (const issue of issues) {
+      if (this.computeFix(original, issue) === original) {
+        failed.push({ issue, reason: 'The fix makes no change' });
+        continue;
+      }
+      patched = this.computeFix(patched, issue);
+      fixing.push(issue);
+    }
+
+    if (fixing.length === 0) {
+      logger.debug(`No changes needed for ${targetPath}`);
+      return null;
+    }
+    return {
+      file,
+      original,
+      patched,
+      hunks: diffHunks(original, patched),
+      issues: fixing,
+    };
+  }
+
+  /**
+   * Whether an issue's fix was accepted: the hunk covering its line was, or
+   * every hunk was when none covers it
+   */
+  private isFixAccepted(
+    issue: CodeIssue,
+    hunks: DiffHunk[],
+    accepted: DiffHunk[]
+  ): boolean {
+    const covering = hunks.find(
+      hunk =>
+        issue.line !== undefined &&
+        issue.line >= hunk.oldStart &&
+        issue.line < hunk.oldStart + hunk.oldCount
+    );
+    return covering
+      ? accepted.includes(covering)
+      : accepted.length === hunks.length;
+  }
+
+  /**
+   * Re-run the modules that reported the fixed issues, limited to the files
+   * the fixes touched, to confirm that the issues are gone
+   */
+  private async verifyFixes(fixed: CodeIssue[]): Promise<FixVerification> {
+    const verification: FixVerification = {
+      resolved: [],
+      unresolved: [],
+      unverified: [],
+    };
+    if (fixed.length === 0) return verification;
+
+    const { projectRoot } = this.config;
+    const files = [
+      ...new Set(
+        fixed.map(issue => normalizeIssuePath(issue.file, projectRoot))
+      ),
+    ];
+    const config = { ...this.config, files };
+    const issuesByModule = new Map<AnalysisModule | undefined, CodeIssue[]>();
+    for (const issue of fixed) {
+      const module = this.issueModules.get(issue.id);
+      issuesByModule.set(module, [
+        ...(issuesByModule.get(module) ?? []),
+        issue,
+      ]);
+    }
+
+    for (const [module, issues] of issuesByModule) {
+      if (!module) {
+        verification.unverified.push(...issues);
+        continue;
+      }
+      try {
+        // Modules that cannot scope to files re-check the whole project
+        const reported = (await module.analyze(config)).filter(issue =>
+          isInFileScope(config, issue.file)
+        );
+        for (const issue of issues) {
+          const file = normalizeIssuePath(issue.file, projectRoot);
+          const stillReported = reported.some(
+            other =>
+              other.rule === issue.rule &&
+              other.line === issue.line &&
+              normalizeIssuePath(other.file, projectRoot) === file
+          );
+          verification[stillReported ? 'unresolved' : 'resolved'].push(issue);
+        }
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.warn(
+          `Could not re-run '${module.name}' to verify fixes: ${errorMessage}`
+        );
+        verification.unverified.push(...issues);
+      }
+    }
+
+    if (verification.unresolved.length > 0) {
+      logger.warn(
+        `${verification.unresolved.length} fixed issue(s) are still reported after re-analysis`
+      );
+    }
+    return verification;
+  }
+
+  /**
+   * The content of a file with the fix for one issue applied
+   */
+  private computeFix(content: string, issue: CodeIssue): string {
+    const category = issue.category.toLowerCase();
+
+    if (category === 'accessibility') {
+      // Add aria-label to elements
+      return this.fixAccessibilityIssue(content, issue);
+    }
+    if (category === 'security' && issue.suggestion?.includes('sanitize')) {
+      // Add input sanitization
+      return this.fixSecurityIssue(content, issue);
+    }
+    if (category === 'performance') {
+      // Apply performance optimizations
+      return this.fixPerformanceIssue(content, issue);
+    }
+
+    // Generic fix: apply suggestion as comment, in files that have line comments
+    const lines = content.split('\n');
+    if (
+      SCRIPT_FILE_RE.test(issue.file) &&
+      issue.line &&
+      issue.line > 0 &&
+      issue.line <= lines.length
+    ) {
+      lines[issue.line - 1] = `${lines[issue.line - 1]} // ${issue.suggestion}`;
+      return lines.join('\n');
+    }
+    return content;
   }
 
   private fixAccessibilityIssue(content: string, _issue: CodeIssue): string {
@@ -266,88 +543,97 @@ export class ProjectAnalyzer {
     return content;
   }
 
-  async analyze(): Promise<AnalysisResult> {
+  analyze(options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+    return this.inRun(() => this.analyzeProject(options));
+  }
+
+  private async analyzeProject(
+    options: AnalyzeOptions
+  ): Promise<AnalysisResult> {
     logger.info('Starting comprehensive project analysis...');
     const issues: CodeIssue[] = [];
     let gitAnalysis: GitAnalysis | null = null;
     let deploymentChecklist: DeploymentChecklist | null = null;
+    let duplication: DuplicationSummary | null = null;
+    let bundle: BundleComposition | null = null;
 
     try {
       // Load and validate configuration using ConfigLoader
       this.config = await ConfigLoader.loadConfig(this.config);
 
-      // Initialize cache if enabled and not already initialized
-      if (this.config.enableCache && !this.cache) {
-        this.cache = new AnalysisCache(this.config.projectRoot);
-        await this.cache.initialize();
-        const stats = this.cache.getStats();
-        logger.info(
-          `Cache enabled: ${stats.totalFiles} files, ${stats.totalIssues} cached issues`
-        );
+      await this.initializeCache();
+
+      const scope = await this.resolveFileScope();
+      if (scope && options.updateBaseline) {
+        throw new ConfigurationError('changedSince', {
+          code: 'BASELINE_PARTIAL_UPDATE',
+        });
       }
 
       // Run all enabled analysis modules in parallel
-      const runnableModules = this.analysisModules.filter(module =>
-        module.canAnalyze(this.config)
-      );
+      const runnableModules = this.analysisModules.filter(module => {
+        if (!module.canAnalyze(this.config)) return false;
+        if (
+          scope &&
+          !module.supportsFileScope &&
+          this.config.unscopedAnalyzers !== 'run'
+        ) {
+          scope.skippedModules.push(module.name);
+          return false;
+        }
+        return true;
+      });
+      if (scope && scope.skippedModules.length > 0) {
+        logger.info(
+          `Skipping modules that only analyze the whole project: ${scope.skippedModules.join(', ')}`
+        );
+      }
 
-      const concurrency = Math.min(
-        Math.max(this.config.concurrencyLimit ?? 4, 1),
-        this.MAX_CONCURRENCY
+      const outcomes = await new AnalysisScheduler(this.config, {
+        concurrency: this.getConcurrency(this.config),
+        signal: options.signal,
+        onProgress: options.onProgress,
+      }).run(runnableModules, (module, signal) =>
+        this.runModule(module, this.config, signal)
       );
+      const cancelled = options.signal?.aborted === true;
+      if (cancelled) {
+        logger.warn('Analysis cancelled; reporting the modules that completed');
+      }
 
-      const results = await this.runWithConcurrency(
-        runnableModules,
-        concurrency,
-        async module => {
-          const start = Date.now();
-          try {
-            const moduleIssues = await module.analyze(this.config);
-            const duration = Date.now() - start;
-            logger.debug(
-              `Module '${module.name}' completed in ${duration}ms with ${moduleIssues.length} issues`
-            );
-            return { module, issues: moduleIssues };
-          } catch (error: unknown) {
-            const analysisError =
-              error instanceof AnalysisError
-                ? error
-                : new AnalysisError(
-                    module.name,
-                    error instanceof Error ? error : new Error(String(error))
-                  );
-            logger.error(
-              `Analysis module '${module.name}' failed`,
-              analysisError
-            );
-            return { module, issues: [] };
-          }
+      this.issueModules.clear();
+      for (const { module, run, issues: moduleIssues } of outcomes) {
+        if (run.status !== 'completed') continue;
+        issues.push(...moduleIssues);
+        for (const issue of moduleIssues) {
+          this.issueModules.set(issue.id, module);
         }
-      );
 
-      results.forEach(result => {
-        if (result.status === 'fulfilled' && result.value) {
-          issues.push(...result.value.issues);
-
-          if (
-            result.value.module instanceof GitAnalyzer &&
-            typeof result.value.module.getLastAnalysis === 'function'
-          ) {
-            gitAnalysis = result.value.module.getLastAnalysis();
-          }
-          if (
-            result.value.module instanceof DeploymentAnalyzer &&
-            typeof result.value.module.getLastChecklist === 'function'
-          ) {
-            deploymentChecklist = result.value.module.getLastChecklist();
-          }
-        } else if (result.status === 'rejected') {
-          logger.error(
-            'An analysis module promise was rejected',
-            result.reason
-          );
+        if (
+          module instanceof GitAnalyzer &&
+          typeof module.getLastAnalysis === 'function'
+        ) {
+          gitAnalysis = module.getLastAnalysis();
         }
-      });
+        if (
+          module instanceof DeploymentAnalyzer &&
+          typeof module.getLastChecklist === 'function'
+        ) {
+          deploymentChecklist = module.getLastChecklist();
+        }
+        if (
+          module instanceof DuplicationAnalyzer &&
+          typeof module.getLastSummary === 'function'
+        ) {
+          duplication = module.getLastSummary();
+        }
+        if (
+          module instanceof PerformanceAnalyzer &&
+          typeof module.getLastComposition === 'function'
+        ) {
+          bundle = module.getLastComposition();
+        }
+      }
 
       // Save cache if enabled
       if (this.cache) {
@@ -355,8 +641,30 @@ export class ProjectAnalyzer {
         logger.debug('Cache saved after analysis');
       }
 
+      // Suppressed issues never count; unused or expired suppressions do
+      const { issues: unsuppressed, suppressions } =
+        await this.applySuppressions(issues, outcomes);
+
       // Calculate health score based on collected issues
-      const projectHealth = this.calculateProjectHealth(issues);
+      const projectHealth = this.calculateProjectHealth(
+        unsuppressed,
+        duplication
+      );
+      // A cancelled run is not comparable with the recorded ones
+      const history = cancelled ? [] : await this.recordHistory(projectHealth);
+      projectHealth.trends = HealthHistory.getTrends(history);
+
+      // Health always reflects every issue; the baseline only narrows what is reported
+      if (cancelled && options.updateBaseline) {
+        logger.warn('Baseline not updated from a cancelled analysis');
+      }
+      const { reportedIssues, baseline } = await this.applyBaseline(
+        unsuppressed,
+        { ...options, updateBaseline: options.updateBaseline && !cancelled },
+        outcomes
+          .filter(outcome => outcome.run.status !== 'completed')
+          .map(outcome => outcome.module.name)
+      );
 
       // Extract GitAnalysis and DeploymentChecklist from issues if available
       // This assumes these analyzers add their specific results as issues or metadata
@@ -366,10 +674,17 @@ export class ProjectAnalyzer {
       logger.info('Project analysis complete.');
 
       return {
-        issues,
+        issues: reportedIssues,
         health: projectHealth,
         git: gitAnalysis, // Will be populated by GitAnalyzer if it adds a specific issue type or metadata
         deployment: deploymentChecklist, // Will be populated by DeploymentAnalyzer
+        ...(baseline && { baseline }),
+        ...(suppressions.length > 0 && { suppressions }),
+        ...(history.length > 0 && { history }),
+        ...(scope && { scope }),
+        ...(bundle && { bundle }),
+        modules: outcomes.map(outcome => outcome.run),
+        ...(cancelled && { cancelled }),
       };
     } catch (error: unknown) {
       const analysisError =
@@ -378,7 +693,7 @@ export class ProjectAnalyzer {
           : new AnalysisError(
               'ProjectAnalyzer',
               error instanceof Error ? error : new Error(String(error)),
-              'Overall project analysis failed'
+              { code: 'PROJECT_ANALYSIS_FAILED' }
             );
       logger.fatal('Overall project analysis failed', analysisError);
       throw analysisError;
@@ -386,38 +701,357 @@ export class ProjectAnalyzer {
   }
 
   /**
-   * Run tasks with bounded concurrency to avoid I/O thrash on large repos
+   * Analyze a single file with the modules that can scope to files. Modules
+   * that check files one at a time reuse their cached issues while the
+   * file's content is unchanged. Suppressions apply, but the baseline and
+   * health history are left to full analyses.
+   *
+   * @param file - Path of the file, absolute or relative to the project root
+   * @returns The file's issues
+   * @throws {AnalysisError} If the configuration cannot be loaded
    */
-  private async runWithConcurrency<T, R>(
-    items: T[],
-    limit: number,
-    worker: (item: T) => Promise<R>
-  ): Promise<Array<PromiseSettledResult<R>>> {
-    const results: Array<PromiseSettledResult<R>> = Array(items.length);
-    let index = 0;
-
-    const runners = Array.from(
-      { length: Math.min(limit, items.length) },
-      async () => {
-        while (true) {
-          const currentIndex = index++;
-          if (currentIndex >= items.length) break;
-
-          try {
-            const value = await worker(items[currentIndex]);
-            results[currentIndex] = { status: 'fulfilled', value };
-          } catch (reason) {
-            results[currentIndex] = { status: 'rejected', reason };
-          }
-        }
+  analyzeFile(file: string): Promise<CodeIssue[]> {
+    return this.inRun(() => this.analyzeSingleFile(file));
+  }
+
+  private async analyzeSingleFile(file: string): Promise<CodeIssue[]> {
+    try {
+      this.config = await ConfigLoader.loadConfig(this.config);
+      await this.initializeCache();
+    } catch (error: unknown) {
+      throw error instanceof AnalysisError
+        ? error
+        : new AnalysisError(
+            'ProjectAnalyzer',
+            error instanceof Error ? error : new Error(String(error)),
+            { code: 'FILE_ANALYSIS_FAILED', params: { file } }
+          );
+    }
+
+    const relative = normalizeIssuePath(file, this.config.projectRoot);
+    const config = { ...this.config, files: [relative] };
+    const modules = this.analysisModules.filter(
+      module => module.supportsFileScope && module.canAnalyze(config)
+    );
+
+    const issues: CodeIssue[] = [];
+    const outcomes = await new AnalysisScheduler(config, {
+      concurrency: this.getConcurrency(config),
+    }).run(modules, (module, signal) => this.runModule(module, config, signal));
+    for (const { module, run, issues: moduleIssues } of outcomes) {
+      if (run.status !== 'completed') continue;
+      // Modules may still report project-wide findings alongside the file's
+      const fileIssues = moduleIssues.filter(issue =>
+        isInFileScope(config, issue.file)
+      );
+      issues.push(...fileIssues);
+      for (const issue of fileIssues) {
+        this.issueModules.set(issue.id, module);
       }
+    }
+
+    await this.cache?.save();
+    return (await this.applySuppressions(issues, outcomes, config)).issues;
+  }
+
+  /**
+   * Load the cache once, then drop its entries whenever the configuration
+   * or the file modules changed since they were cached
+   */
+  private async initializeCache(): Promise<void> {
+    if (!this.config.enableCache) return;
+    if (this.cache) {
+      this.cache.useKey(await this.getCacheKey());
+      return;
+    }
+    this.cache = new AnalysisCache(this.config.projectRoot);
+    await this.cache.initialize();
+    this.cache.useKey(await this.getCacheKey());
+    const stats = this.cache.getStats();
+    logger.info(
+      `Cache enabled: ${stats.totalFiles} files, ${stats.totalIssues} cached issues`
     );
+  }
 
-    await Promise.all(runners);
-    return results;
+  /**
+   * Identifies what cached issues depend on besides the files' content: the
+   * configuration, and the version and cache inputs of every file module
+   */
+  private async getCacheKey(): Promise<string> {
+    const fs = await import('fs/promises');
+    const config = Object.fromEntries(
+      Object.entries(this.config).filter(([option]) => !RUN_OPTIONS.has(option))
+    );
+    const modules = await Promise.all(
+      this.analysisModules.filter(isFileModule).map(async module => ({
+        name: module.name,
+        version: module.version,
+        inputs: await Promise.all(
+          (module.getCacheInputs?.(this.config) ?? []).map(file =>
+            fs.readFile(file, 'utf-8').catch(() => null)
+          )
+        ),
+      }))
+    );
+
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ config, modules }))
+      .digest('hex');
+  }
+
+  /**
+   * Run a module; with the cache enabled, modules that check files one at a
+   * time only re-check the files whose content changed
+   */
+  private runModule(
+    module: AnalysisModule,
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<CodeIssue[]> {
+    return withLogContext({ module: module.name }, () =>
+      this.cache && isFileModule(module)
+        ? this.analyzeThroughCache(module, config, this.cache, signal)
+        : module.analyze(config, signal)
+    );
+  }
+
+  /**
+   * Modules running at once: `concurrencyLimit`, capped to avoid I/O thrash
+   * on large repos
+   */
+  private getConcurrency(config: AnalyzerConfig): number {
+    return Math.min(
+      Math.max(config.concurrencyLimit ?? 4, 1),
+      this.MAX_CONCURRENCY
+    );
   }
 
-  private calculateProjectHealth(issues: CodeIssue[]): ProjectHealth {
+  /**
+   * Run `fn` under the correlation id already active or a new one, so every
+   * entry logged by the run, its modules and their commands can be filtered
+   */
+  private inRun<T>(fn: () => Promise<T>): Promise<T> {
+    return withLogContext(
+      { correlationId: getLogContext().correlationId ?? createCorrelationId() },
+      fn
+    );
+  }
+
+  private async analyzeThroughCache(
+    module: FileAnalysisModule,
+    config: AnalyzerConfig,
+    cache: AnalysisCache,
+    signal?: AbortSignal
+  ): Promise<CodeIssue[]> {
+    const fs = await import('fs/promises');
+    const issues = module.analyzeProject
+      ? await module.analyzeProject(config, signal)
+      : [];
+    const files = await module.getFiles(config);
+    let analyzed = 0;
+
+    for (const file of files) {
+      signal?.throwIfAborted();
+      let content: string;
+      try {
+        content = await fs.readFile(file, 'utf-8');
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.warn(`Could not analyze ${file}: ${errorMessage}`);
+        continue;
+      }
+
+      let fileIssues = cache.getCachedIssues(file, module.name, content);
+      if (!fileIssues) {
+        fileIssues = await module.analyzeFile(file, content, config);
+        cache.setCachedIssues(file, module.name, content, fileIssues);
+        analyzed++;
+      }
+      issues.push(...fileIssues);
+    }
+
+    logger.debug(
+      `Module '${module.name}' analyzed ${analyzed} of ${files.length} files, reusing cached issues for the rest`
+    );
+    return issues;
+  }
+
+  /**
+   * In changed-files mode, limit `config.files` to the files changed since
+   * `changedSince`. Returns null when every file is analyzed.
+   */
+  private async resolveFileScope(): Promise<AnalysisScope | null> {
+    const { changedSince } = this.config;
+    if (changedSince) {
+      const files = await getChangedFiles(
+        this.config.projectRoot,
+        changedSince
+      );
+      this.config = { ...this.config, files };
+      logger.info(
+        `Analyzing ${files.length} files changed since ${changedSince}`
+      );
+    }
+    if (!this.config.files) return null;
+
+    return {
+      ...(changedSince && { changedSince }),
+      files: this.config.files,
+      skippedModules: [],
+    };
+  }
+
+  /**
+   * Drop issues silenced by inline suppression comments and report the
+   * suppressions that no longer apply. A suppression is only unused once
+   * the modules that report its rules have run to completion.
+   */
+  private async applySuppressions(
+    issues: CodeIssue[],
+    outcomes: ModuleOutcome[],
+    config: AnalyzerConfig = this.config
+  ): Promise<{
+    issues: CodeIssue[];
+    suppressions: IssueSuppression[];
+  }> {
+    const ran = outcomes.map(outcome => outcome.module);
+    const completed = new Set(
+      outcomes
+        .filter(outcome => outcome.run.status === 'completed')
+        .map(outcome => outcome.module)
+    );
+    const wasChecked = (rule: string, file: string) => {
+      if (!resolveRule({ rules: rulesForFile(config, file) }, rule).enabled) {
+        return false;
+      }
+      // A rule no module declares may come from any module that declares none
+      const declaring = this.analysisModules.filter(
+        module =>
+          module.reportedRules && matchesGlob(rule, module.reportedRules)
+      );
+      const reporting =
+        declaring.length > 0
+          ? ran.filter(module => declaring.includes(module))
+          : ran.filter(module => !module.reportedRules);
+      if (declaring.length > 0 && reporting.length === 0) return false;
+      return reporting.every(module => completed.has(module));
+    };
+
+    const result = await new IssueSuppressions(
+      config.projectRoot,
+      config.ignore
+    ).apply(issues, wasChecked);
+
+    if (result.suppressions.length > 0) {
+      logger.info(
+        `Suppressions: ${issues.length - result.issues.length} issues suppressed by ${result.suppressions.length} comments`
+      );
+    }
+
+    // Suppressions in files that were not analyzed would all look unused
+    const inScope = <T extends { file: string }>(items: T[]) =>
+      items.filter(item => isInFileScope(config, item.file));
+
+    return {
+      issues: [
+        ...result.issues,
+        ...stampIssues(
+          applyRuleSettings(inScope(result.findings), config),
+          config.projectRoot
+        ),
+      ],
+      suppressions: inScope(result.suppressions),
+    };
+  }
+
+  /**
+   * Add this run to the health history. History is a convenience, so a
+   * failure to record it is logged and never fails the analysis.
+   */
+  private async recordHistory(
+    health: ProjectHealth
+  ): Promise<HealthSnapshot[]> {
+    if (!this.config.healthHistory) return [];
+
+    const history = new HealthHistory(this.config.projectRoot);
+    // A partial analysis is not comparable with the recorded full ones
+    if (this.config.files) return history.load();
+    try {
+      const commit = await history.currentCommit();
+      if (!commit) {
+        logger.debug('Not a git repository; health history not recorded');
+        return [];
+      }
+      return await history.record(health, commit);
+    } catch (error: unknown) {
+      logger.warn(
+        `Failed to record health history in ${history.filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Write the baseline file, or compare against it whenever it exists: the
+   * configured `baselineFile`, else `.analyzer-baseline.json`. Without the
+   * issues of `incompleteModules`, absent entries may still be present, so
+   * none are listed as fixed.
+   */
+  private async applyBaseline(
+    issues: CodeIssue[],
+    options: AnalyzeOptions,
+    incompleteModules: string[] = []
+  ): Promise<{
+    reportedIssues: CodeIssue[];
+    baseline?: BaselineComparison;
+  }> {
+    const baseline = new AnalysisBaseline(
+      this.config.projectRoot,
+      this.config.baselineFile
+    );
+
+    if (options.updateBaseline) {
+      await baseline.write(issues);
+      return { reportedIssues: issues };
+    }
+
+    const entries = await baseline.load();
+    if (!entries) {
+      // Only a baseline named in the configuration is expected to exist
+      if (this.config.baselineFile) {
+        logger.warn(
+          `Baseline file ${baseline.filePath} not found; reporting all issues`
+        );
+      }
+      return { reportedIssues: issues };
+    }
+
+    const { issues: newIssues, comparison } = baseline.compare(
+      issues,
+      entries.filter(entry => isInFileScope(this.config, entry.file))
+    );
+    if (incompleteModules.length > 0) {
+      logger.info(
+        `Not listing fixed baseline issues; ${incompleteModules.join(', ')} did not complete`
+      );
+      comparison.fixed = [];
+    }
+    logger.info(
+      `Baseline comparison: ${comparison.newIssues} new, ${comparison.unchanged} unchanged, ${comparison.fixed.length} fixed`
+    );
+    return { reportedIssues: newIssues, baseline: comparison };
+  }
+
+  /**
+   * Score a set of issues. Trends are left neutral; they come from the
+   * health history of full analyses.
+   */
+  calculateProjectHealth(
+    issues: CodeIssue[],
+    duplication: DuplicationSummary | null = null
+  ): ProjectHealth {
     let score = 100;
     const criticalWeight = 20;
     const highWeight = 10;
@@ -463,6 +1097,7 @@ export class ProjectAnalyzer {
         velocity: 0,
         lastCheck: new Date(),
       },
+      ...(duplication && { duplication }),
     };
   }
 }
@@ -0,0 +1,35 @@
+import type { AnalyzeOptions, ProjectAnalyzer } from './analyzer';
+import type { AnalysisResult } from '../types/analysis';
+import { ProgressDisplay } from '../utils/progress-display';
+import { logger } from '../utils/logger';
+
+/**
+ * Run an analysis for a CLI: progress is shown live when stderr is a
+ * terminal, the first Ctrl+C cancels the analysis so what finished can still
+ * be reported (the result has `cancelled` set), and a second one exits at once
+ */
+export async function runInterruptibleAnalysis(
+  analyzer: ProjectAnalyzer,
+  options: Omit<AnalyzeOptions, 'signal' | 'onProgress'> = {}
+): Promise<AnalysisResult> {
+  const controller = new AbortController();
+  const interrupt = () => {
+    if (controller.signal.aborted) process.exit(130);
+    logger.warn('Cancelling analysis; press Ctrl+C again to exit');
+    controller.abort();
+  };
+  const progress = process.stderr.isTTY ? new ProgressDisplay() : null;
+
+  process.on('SIGINT', interrupt);
+  progress?.start();
+  try {
+    return await analyzer.analyze({
+      ...options,
+      signal: controller.signal,
+      onProgress: progress ? update => progress.update(update) : undefined,
+    });
+  } finally {
+    progress?.stop();
+    process.off('SIGINT', interrupt);
+  }
+}
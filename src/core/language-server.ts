@@ -0,0 +1,374 @@
+import path from 'path';
+import type { Readable, Writable } from 'stream';
+import { fileURLToPath } from 'url';
+import { ProjectAnalyzer } from './analyzer';
+import { PluginLoader } from './plugin-loader';
+import { ConfigLoader } from '../config/config-loader';
+import type { AnalyzerConfig, CodeIssue } from '../types/analysis';
+import { JsonRpcError } from '../errors';
+import { JsonRpcConnection, JsonRpcErrorCodes } from '../utils/json-rpc';
+import { LogLevel, logger } from '../utils/logger';
+
+interface Position {
+  line: number;
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+/** 1 = Error, 2 = Warning, 3 = Information, 4 = Hint */
+type DiagnosticSeverity = 1 | 2 | 3 | 4;
+
+export interface Diagnostic {
+  range: Range;
+  severity: DiagnosticSeverity;
+  code: string;
+  source: string;
+  message: string;
+  data: { issueId: string };
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: Diagnostic[];
+  isPreferred: boolean;
+  edit: { changes: Record<string, TextEdit[]> };
+}
+
+interface InitializeParams {
+  rootUri?: string | null;
+  rootPath?: string | null;
+  workspaceFolders?: Array<{ uri: string }> | null;
+  /** Configuration overrides, as `.analyzer.json` would set them */
+  initializationOptions?: Partial<AnalyzerConfig> | null;
+}
+
+interface TextDocumentParams {
+  textDocument: { uri: string; version?: number; text?: string };
+  contentChanges?: Array<{ text: string; range?: Range }>;
+}
+
+interface CodeActionParams {
+  textDocument: { uri: string };
+  range: Range;
+}
+
+interface OpenDocument {
+  text: string;
+  version: number;
+  issues: CodeIssue[];
+}
+
+const SEVERITIES: Record<CodeIssue['severity']['level'], DiagnosticSeverity> = {
+  critical: 1,
+  high: 1,
+  medium: 2,
+  low: 3,
+  info: 4,
+};
+
+/** `window/logMessage` types; debug output is not forwarded */
+const MESSAGE_TYPES: Partial<Record<LogLevel, number>> = {
+  [LogLevel.FATAL]: 1,
+  [LogLevel.ERROR]: 1,
+  [LogLevel.WARN]: 2,
+  [LogLevel.INFO]: 3,
+};
+
+/**
+ * A Language Server Protocol server that analyzes documents when they are
+ * opened or saved, publishes the issues as diagnostics, and offers quick
+ * fixes for auto-fixable issues.
+ *
+ * Analysis reads files from disk, so diagnostics follow the saved content;
+ * edits in between are only tracked to keep quick fixes from applying to
+ * text they were not computed for.
+ */
+export class LanguageServer {
+  private readonly connection: JsonRpcConnection;
+  private analyzer: ProjectAnalyzer | null = null;
+  private projectRoot = '';
+  private documents = new Map<string, OpenDocument>();
+  /** Pending analysis per document, so results publish in order */
+  private analyses = new Map<string, Promise<void>>();
+  private shutdownRequested = false;
+  private exited = false;
+
+  constructor(
+    input: Readable,
+    output: Writable,
+    private readonly onExit: (code: number) => void = () => {}
+  ) {
+    this.connection = new JsonRpcConnection(input, output);
+
+    this.connection.onRequest('initialize', params =>
+      this.initialize(params as InitializeParams)
+    );
+    this.connection.onRequest('shutdown', () => {
+      this.requireInitialized();
+      this.shutdownRequested = true;
+      return null;
+    });
+    this.connection.onRequest('textDocument/codeAction', params =>
+      this.codeActions(params as CodeActionParams)
+    );
+
+    this.connection.onNotification('textDocument/didOpen', params =>
+      this.didOpen(params as TextDocumentParams)
+    );
+    this.connection.onNotification('textDocument/didChange', params =>
+      this.didChange(params as TextDocumentParams)
+    );
+    this.connection.onNotification('textDocument/didSave', params =>
+      this.didSave(params as TextDocumentParams)
+    );
+    this.connection.onNotification('textDocument/didClose', params =>
+      this.didClose(params as TextDocumentParams)
+    );
+    this.connection.onNotification('exit', () => this.exit());
+  }
+
+  listen(): void {
+    logger.subscribe(entry => {
+      const type = MESSAGE_TYPES[entry.level];
+      if (type) {
+        this.connection.notify('window/logMessage', {
+          type,
+          message: entry.message,
+        });
+      }
+    });
+    // A client that goes away without `exit` counts as a crash
+    this.connection.listen(() => this.exit());
+  }
+
+  private async initialize(params: InitializeParams) {
+    const rootUri = params.rootUri ?? params.workspaceFolders?.[0]?.uri;
+    this.projectRoot = rootUri
+      ? fileURLToPath(rootUri)
+      : (params.rootPath ?? process.cwd());
+
+    const config = await ConfigLoader.loadConfig({
+      ...params.initializationOptions,
+      projectRoot: this.projectRoot,
+    });
+    const analyzer = new ProjectAnalyzer(config);
+    for (const plugin of await PluginLoader.loadPlugins(config)) {
+      analyzer.registerModule(plugin);
+    }
+    this.analyzer = analyzer;
+    logger.info(`Language server analyzing ${this.projectRoot}`);
+
+    return {
+      capabilities: {
+        textDocumentSync: {
+          openClose: true,
+          change: 1,
+          save: { includeText: false },
+        },
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+      },
+      serverInfo: { name: 'code-health-analyzer' },
+    };
+  }
+
+  private requireInitialized(): ProjectAnalyzer {
+    if (!this.analyzer) {
+      throw new JsonRpcError(JsonRpcErrorCodes.ServerNotInitialized, {
+        code: 'LSP_NOT_INITIALIZED',
+      });
+    }
+    return this.analyzer;
+  }
+
+  private didOpen({ textDocument }: TextDocumentParams): Promise<void> {
+    if (!this.analyzer) return Promise.resolve();
+    this.documents.set(textDocument.uri, {
+      text: textDocument.text ?? '',
+      version: textDocument.version ?? 0,
+      issues: [],
+    });
+    return this.scheduleAnalysis(textDocument.uri);
+  }
+
+  private didChange({ textDocument, contentChanges }: TextDocumentParams) {
+    const document = this.documents.get(textDocument.uri);
+    // Full sync: the last change holds the whole text
+    const change = contentChanges?.[contentChanges.length - 1];
+    if (!document || !change) return;
+    document.text = change.text;
+    document.version = textDocument.version ?? document.version;
+  }
+
+  private didSave({ textDocument }: TextDocumentParams): Promise<void> {
+    if (!this.documents.has(textDocument.uri)) return Promise.resolve();
+    return this.scheduleAnalysis(textDocument.uri);
+  }
+
+  private async didClose({ textDocument }: TextDocumentParams) {
+    if (!this.documents.delete(textDocument.uri)) return;
+    await this.analyses.get(textDocument.uri);
+    this.analyses.delete(textDocument.uri);
+    this.connection.notify('textDocument/publishDiagnostics', {
+      uri: textDocument.uri,
+      diagnostics: [],
+    });
+  }
+
+  private scheduleAnalysis(uri: string): Promise<void> {
+    const previous = this.analyses.get(uri) ?? Promise.resolve();
+    const next = previous.then(() => this.analyzeDocument(uri));
+    this.analyses.set(uri, next);
+    return next;
+  }
+
+  private async analyzeDocument(uri: string): Promise<void> {
+    const file = this.projectFile(uri);
+    if (!file || !this.documents.has(uri)) return;
+
+    let issues: CodeIssue[];
+    try {
+      issues = await this.requireInitialized().analyzeFile(file);
+    } catch (error: unknown) {
+      logger.error(
+        `Could not analyze ${file}`,
+        error instanceof Error ? error : undefined
+      );
+      return;
+    }
+
+    // The document may have been closed while it was analyzed
+    const document = this.documents.get(uri);
+    if (!document) return;
+    document.issues = issues;
+    this.connection.notify('textDocument/publishDiagnostics', {
+      uri,
+      version: document.version,
+      diagnostics: issues.map(issue => this.toDiagnostic(issue, document)),
+    });
+  }
+
+  /**
+   * The project-relative path of a document, or null for documents that are
+   * not files in the project
+   */
+  private projectFile(uri: string): string | null {
+    if (!uri.startsWith('file:')) return null;
+    const relative = path.relative(this.projectRoot, fileURLToPath(uri));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+    return relative.split(path.sep).join('/');
+  }
+
+  private async codeActions({
+    textDocument,
+    range,
+  }: CodeActionParams): Promise<CodeAction[]> {
+    const analyzer = this.requireInitialized();
+    const document = this.documents.get(textDocument.uri);
+    if (!document) return [];
+
+    const actions: CodeAction[] = [];
+    for (const issue of document.issues) {
+      const diagnostic = this.toDiagnostic(issue, document);
+      if (!issue.autoFixable || !overlaps(diagnostic.range, range)) continue;
+
+      const { patches } = await analyzer.previewIssueFixes([issue]);
+      const patch = patches[0];
+      // Fixes are computed from the saved file, which unsaved edits invalidate
+      if (!patch || patch.original !== document.text) continue;
+
+      actions.push({
+        title: `Fix: ${issue.title}`,
+        kind: 'quickfix',
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: {
+          changes: {
+            [textDocument.uri]: [lineEdit(patch.original, patch.patched)],
+          },
+        },
+      });
+    }
+    return actions;
+  }
+
+  private toDiagnostic(issue: CodeIssue, document: OpenDocument): Diagnostic {
+    const lines = document.text.split('\n');
+    const line = Math.min(Math.max((issue.line ?? 1) - 1, 0), lines.length - 1);
+    const lineText = lines[line].replace(/\r$/, '');
+    return {
+      range: {
+        start: { line, character: Math.max((issue.column ?? 1) - 1, 0) },
+        end: { line, character: lineText.length },
+      },
+      severity: SEVERITIES[issue.severity.level],
+      code: issue.rule,
+      source: issue.source || 'code-health-analyzer',
+      message: `${issue.title}: ${issue.description}`,
+      data: { issueId: issue.id },
+    };
+  }
+
+  private exit(): void {
+    if (this.exited) return;
+    this.exited = true;
+    this.onExit(this.shutdownRequested ? 0 : 1);
+  }
+}
+
+function overlaps(a: Range, b: Range): boolean {
+  const before = (x: Position, y: Position) =>
+    x.line < y.line || (x.line === y.line && x.character < y.character);
+  return !before(a.end, b.start) && !before(b.end, a.start);
+}
+
+/**
+ * One edit replacing the lines that differ between the two texts, so the
+ * editor keeps its cursor and folding everywhere else
+ */
+function lineEdit(original: string, patched: string): TextEdit {
+  const before = original.split('\n');
+  const after = patched.split('\n');
+  const common = Math.min(before.length, after.length);
+
+  // The last line stays in the replaced range, so the range never ends past the text
+  let start = 0;
+  while (start < common - 1 && before[start] === after[start]) start++;
+  let end = 0;
+  while (
+    end < common - start - 1 &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const replaced = after.slice(start, after.length - end);
+  if (end > 0) {
+    return {
+      range: {
+        start: { line: start, character: 0 },
+        end: { line: before.length - end, character: 0 },
+      },
+      newText: replaced.map(line => `${line}\n`).join(''),
+    };
+  }
+  return {
+    range: {
+      start: { line: start, character: 0 },
+      end: {
+        line: before.length - 1,
+        character: before[before.length - 1].length,
+      },
+    },
+    newText: replaced.join('\n'),
+  };
+}
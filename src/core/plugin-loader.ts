@@ -0,0 +1,207 @@
+import { pathToFileURL } from 'url';
+import type {
+  AnalysisModule,
+  AnalyzerConfig,
+  CodeIssue,
+  FileAnalysisModule,
+} from '../types/analysis';
+import { ConfigurationError, getErrorMessage } from '../errors';
+import { logger } from '../utils/logger';
+import { stampIssues } from '../utils/issue-fingerprint';
+import { applyRuleSettings } from '../config/rules';
+
+type AnalysisModuleClass = new () => AnalysisModule;
+
+// Built-in modules by the `enabledAnalyzers` key that toggles them
+const BUILT_IN_MODULES: Record<string, string> = {
+  syntax: 'SyntaxAnalyzer',
+  types: 'TypesAnalyzer',
+  security: 'SecurityAnalyzer',
+  performance: 'PerformanceAnalyzer',
+  accessibility: 'AccessibilityAnalyzer',
+  git: 'GitAnalyzer',
+  deployment: 'DeploymentAnalyzer',
+  dependencies: 'DependencyAnalyzer',
+  duplication: 'DuplicationAnalyzer',
+  licenses: 'LicenseAnalyzer',
+  site: 'SiteAnalyzer',
+};
+
+// A plugin with one of these names would be toggled or scheduled as a built-in
+const RESERVED_NAMES = new Set(Object.entries(BUILT_IN_MODULES).flat());
+
+function isAnalysisModule(value: unknown): value is AnalysisModule {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Partial<AnalysisModule>;
+  return (
+    typeof candidate.name === 'string' &&
+    candidate.name.length > 0 &&
+    typeof candidate.canAnalyze === 'function' &&
+    typeof candidate.analyze === 'function'
+  );
+}
+
+function isAnalysisModuleClass(value: unknown): value is AnalysisModuleClass {
+  return (
+    typeof value === 'function' &&
+    typeof (value.prototype as Partial<AnalysisModule> | undefined)?.analyze ===
+      'function'
+  );
+}
+
+/**
+ * Wraps a third-party module so it is toggled through `enabledAnalyzers` by
+ * its name, like the built-ins, honors the `rules` map, and its issues get
+ * stable fingerprinted ids. The optional members of `AnalysisModule` and
+ * `FileAnalysisModule` are only present when the plugin defines them, so a
+ * file module is still cached and kept in changed-files runs.
+ */
+export class PluginModule implements AnalysisModule {
+  readonly name: string;
+  readonly dependsOn?: string[];
+  readonly priority?: number;
+  readonly timeout?: number;
+  readonly supportsFileScope?: boolean;
+  readonly reportedRules?: string[];
+  readonly version?: string;
+  readonly getFiles?: FileAnalysisModule['getFiles'];
+  readonly analyzeFile?: FileAnalysisModule['analyzeFile'];
+  readonly analyzeProject?: FileAnalysisModule['analyzeProject'];
+  readonly getCacheInputs?: FileAnalysisModule['getCacheInputs'];
+
+  constructor(
+    private readonly module: AnalysisModule,
+    readonly source: string
+  ) {
+    this.name = module.name;
+    this.dependsOn = module.dependsOn;
+    this.priority = module.priority;
+    this.timeout = module.timeout;
+    this.supportsFileScope = module.supportsFileScope;
+    this.reportedRules = module.reportedRules;
+
+    const { version, getFiles, analyzeFile, analyzeProject, getCacheInputs } =
+      module as Partial<FileAnalysisModule>;
+    this.version = version;
+    if (getFiles) {
+      this.getFiles = config => getFiles.call(module, config);
+    }
+    if (analyzeFile) {
+      this.analyzeFile = async (file, content, config) =>
+        this.stamp(
+          await analyzeFile.call(module, file, content, config),
+          config
+        );
+    }
+    if (analyzeProject) {
+      this.analyzeProject = async (config, signal) =>
+        this.stamp(await analyzeProject.call(module, config, signal), config);
+    }
+    if (getCacheInputs) {
+      this.getCacheInputs = config => getCacheInputs.call(module, config);
+    }
+  }
+
+  canAnalyze(config: AnalyzerConfig): boolean {
+    return (
+      config.enabledAnalyzers.includes(this.name) &&
+      this.module.canAnalyze(config)
+    );
+  }
+
+  async analyze(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<CodeIssue[]> {
+    return this.stamp(await this.module.analyze(config, signal), config);
+  }
+
+  private stamp(issues: CodeIssue[], config: AnalyzerConfig): CodeIssue[] {
+    return stampIssues(applyRuleSettings(issues, config), config.projectRoot);
+  }
+}
+
+/**
+ * Loads custom AnalysisModule implementations listed in `plugins`
+ */
+export class PluginLoader {
+  /**
+   * Import every configured plugin and collect the analysis modules it exports.
+   * Expects plugin paths already resolved by ConfigLoader.
+   *
+   * @throws {ConfigurationError} If a plugin cannot be imported, exports no
+   * module, or names a module like a built-in or another plugin
+   */
+  static async loadPlugins(
+    config: Pick<AnalyzerConfig, 'plugins'>
+  ): Promise<PluginModule[]> {
+    const modules: PluginModule[] = [];
+    const seen = new Set<string>();
+
+    for (const pluginPath of config.plugins ?? []) {
+      const exported = await this.importPlugin(pluginPath);
+
+      if (exported.length === 0) {
+        throw new ConfigurationError('plugins', {
+          code: 'PLUGIN_INVALID_EXPORT',
+          params: { plugin: pluginPath },
+        });
+      }
+
+      for (const module of exported) {
+        if (RESERVED_NAMES.has(module.name)) {
+          throw new ConfigurationError('plugins', {
+            code: 'PLUGIN_NAME_RESERVED',
+            params: { name: module.name, plugin: pluginPath },
+          });
+        }
+        if (seen.has(module.name)) {
+          throw new ConfigurationError('plugins', {
+            code: 'PLUGIN_DUPLICATE_NAME',
+            params: { name: module.name, plugin: pluginPath },
+          });
+        }
+        seen.add(module.name);
+        modules.push(new PluginModule(module, pluginPath));
+        logger.debug(`Loaded analyzer plugin '${module.name}'`, {
+          source: pluginPath,
+        });
+      }
+    }
+
+    return modules;
+  }
+
+  private static async importPlugin(
+    pluginPath: string
+  ): Promise<AnalysisModule[]> {
+    let namespace: Record<string, unknown>;
+    try {
+      namespace = await import(
+        /* @vite-ignore */ pathToFileURL(pluginPath).href
+      );
+    } catch (error: unknown) {
+      throw new ConfigurationError('plugins', {
+        code: 'PLUGIN_IMPORT_FAILED',
+        params: { plugin: pluginPath, reason: getErrorMessage(error) },
+        cause: error,
+      });
+    }
+
+    // Prefer exported instances; only instantiate classes that add a new name
+    const values = Array.from(new Set<unknown>(Object.values(namespace)));
+    const modules = values.filter(isAnalysisModule);
+
+    for (const candidate of values.filter(isAnalysisModuleClass)) {
+      const instance = new candidate();
+      if (
+        isAnalysisModule(instance) &&
+        !modules.some(module => module.name === instance.name)
+      ) {
+        modules.push(instance);
+      }
+    }
+
+    return modules;
+  }
+}
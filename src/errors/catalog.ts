@@ -0,0 +1,58 @@
+import { ERROR_CODES, type ErrorCode } from './codes';
+
+/**
+ * Markdown catalog of every registered error code, written to
+ * docs/ERROR-CODES.md by `npm run docs:errors`
+ */
+export function renderErrorCatalog(): string {
+  const codes = Object.keys(ERROR_CODES) as ErrorCode[];
+  const lines = [
+    '# Error codes',
+    '',
+    '<!-- Generated from src/errors/codes.ts by `npm run docs:errors`; do not edit. -->',
+    '',
+    'Every error the analyzer raises carries one of these codes. The CLI prints the',
+    'code with the hint below; `{name}` in a message is filled in from the failing',
+    'file, key or command. Retryable errors may succeed when run again unchanged.',
+    '',
+    ...renderTable(
+      ['Code', 'Message', 'Retryable'],
+      codes.map(code => [
+        `[\`${code}\`](#${code.toLowerCase()})`,
+        ERROR_CODES[code].message,
+        ERROR_CODES[code].retryable ? 'yes' : 'no',
+      ])
+    ),
+  ];
+
+  for (const code of codes) {
+    const definition = ERROR_CODES[code];
+    lines.push(
+      '',
+      `## \`${code}\``,
+      '',
+      definition.description,
+      '',
+      `- **Message:** \`${definition.message}\``,
+      `- **Fix:** ${definition.remediation}`,
+      `- **Retryable:** ${definition.retryable ? 'yes' : 'no'}`
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Markdown table with padded columns, as Prettier formats it
+ */
+function renderTable(header: string[], rows: string[][]): string[] {
+  const widths = header.map((cell, column) =>
+    Math.max(cell.length, ...rows.map(row => row[column].length))
+  );
+  const renderRow = (cells: string[]) =>
+    `| ${cells.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`;
+  return [
+    renderRow(header),
+    renderRow(widths.map(width => '-'.repeat(width))),
+    ...rows.map(renderRow),
+  ];
+}
@@ -0,0 +1,499 @@
+/**
+ * Registry of the error codes the analyzer raises
+ * @module errors/codes
+ * @description Every `AppError` carries one of these codes. A code never
+ * changes meaning once released; docs/ERROR-CODES.md is generated from this
+ * registry with `npm run docs:errors`.
+ */
+
+export interface ErrorCodeDefinition {
+  /** Message with `{name}` placeholders filled in from the throw site */
+  message: string;
+  /** What the error means, for the error catalog */
+  description: string;
+  /** What to do about it, printed by the CLI */
+  remediation: string;
+  /** Whether running the same operation again may succeed */
+  retryable: boolean;
+}
+
+export const ERROR_CODES = {
+  /* ==================== GENERAL ==================== */
+
+  APP_ERROR: {
+    message: 'Application error',
+    description: 'An error without a more specific code.',
+    remediation:
+      'Run again with --verbose and report the output if the error persists.',
+    retryable: false,
+  },
+  WRAPPED_ERROR: {
+    message: '{reason}',
+    description:
+      'An error raised by a library or the runtime rather than the analyzer itself; the cause carries the original error.',
+    remediation:
+      'Check the cause below; it usually names the file or command involved.',
+    retryable: false,
+  },
+  CLI_ERROR: {
+    message: '{reason}',
+    description: 'An unexpected error ended a CLI command.',
+    remediation:
+      'Run again with --verbose and report the output if the error persists.',
+    retryable: false,
+  },
+
+  /* ==================== CONFIGURATION ==================== */
+
+  CONFIGURATION_ERROR: {
+    message: 'Invalid configuration',
+    description: 'A configuration value is invalid.',
+    remediation:
+      'Fix the named key in .analyzer.json or the matching CLI option.',
+    retryable: false,
+  },
+  CONFIG_INVALID: {
+    message: 'Invalid configuration in {source} ({reason})',
+    description:
+      'A configuration file, preset or CLI option has a value that does not match the configuration schema.',
+    remediation:
+      'Fix the named key in the file shown; `--print-config <file>` shows where each value comes from.',
+    retryable: false,
+  },
+  CONFIG_UNREADABLE: {
+    message: 'Failed to read {file}: {reason}',
+    description: 'The project configuration file exists but cannot be read.',
+    remediation: 'Check the permissions of the configuration file.',
+    retryable: false,
+  },
+  CONFIG_PARSE_FAILED: {
+    message: 'Failed to parse {file}: {reason}',
+    description:
+      'A configuration file is not valid JSON or YAML, or a script configuration throws when imported.',
+    remediation: 'Fix the syntax error at the position given in the message.',
+    retryable: false,
+  },
+  CONFIG_NOT_AN_OBJECT: {
+    message: '{file} must {expected}',
+    description:
+      'A configuration file parsed, but to something other than an object.',
+    remediation:
+      'Make the file a single object, or `export default defineConfig({...})` in a script configuration.',
+    retryable: false,
+  },
+  CONFIG_EXTENDS_CYCLE: {
+    message: 'Circular configuration: {chain}',
+    description: 'Configuration files extend each other in a loop.',
+    remediation: 'Remove one of the `extends` entries along the chain shown.',
+    retryable: false,
+  },
+  CONFIG_PRESET_NOT_FOUND: {
+    message: "Cannot resolve preset '{preset}' extended by {file}: {reason}",
+    description:
+      'An `extends` entry names neither a relative file nor an installed package.',
+    remediation:
+      'Install the preset package, or fix the relative path in `extends`.',
+    retryable: false,
+  },
+  CONFIG_PRESET_UNREADABLE: {
+    message: "Cannot read preset '{preset}' extended by {file}: {reason}",
+    description: 'An `extends` entry resolved to a file that cannot be read.',
+    remediation:
+      'Check that the preset file exists and is readable; reinstall the preset package if it is one.',
+    retryable: false,
+  },
+  PLUGIN_NOT_FOUND: {
+    message:
+      "Cannot resolve analyzer plugin '{plugin}' from {projectRoot}: {reason}",
+    description:
+      'A `plugins` entry names neither a relative file nor an installed package.',
+    remediation:
+      'Install the plugin package, or fix the path in `plugins`; relative paths start at the project root.',
+    retryable: false,
+  },
+  PLUGIN_IMPORT_FAILED: {
+    message: 'Failed to import analyzer plugin {plugin}: {reason}',
+    description: 'A plugin module throws or fails to load when imported.',
+    remediation:
+      'Import the plugin with `node` directly to see the full error, and fix or update the plugin.',
+    retryable: false,
+  },
+  PLUGIN_INVALID_EXPORT: {
+    message: 'Analyzer plugin {plugin} does not export an AnalysisModule',
+    description:
+      'A plugin module loaded, but neither its default export nor its named exports are analysis modules.',
+    remediation:
+      'Export an object with `name`, `canAnalyze` and `analyze`, or a class creating one.',
+    retryable: false,
+  },
+  PLUGIN_DUPLICATE_NAME: {
+    message: "Duplicate analyzer plugin name '{name}' in {plugin}",
+    description: 'Two plugin modules share a name.',
+    remediation:
+      'Rename one of the modules; `enabledAnalyzers` selects modules by name.',
+    retryable: false,
+  },
+  PLUGIN_NAME_RESERVED: {
+    message:
+      "Analyzer plugin {plugin} names a module '{name}', which a built-in analyzer uses",
+    description:
+      'A plugin module has the name or the `enabledAnalyzers` key of a built-in analyzer, so the two would be toggled or scheduled together.',
+    remediation:
+      'Rename the plugin module; built-in names like `types` and `TypesAnalyzer` are reserved.',
+    retryable: false,
+  },
+  REPORT_FORMAT_UNKNOWN: {
+    message:
+      "Unknown report format '{format}' in '{spec}', expected one of {formats}",
+    description:
+      'A `--report` option names a format the analyzer cannot write.',
+    remediation: 'Use one of the formats listed in the message.',
+    retryable: false,
+  },
+  BASELINE_INVALID: {
+    message: 'Invalid baseline file {file}: {reason}',
+    description:
+      'The baseline file is not valid JSON or does not have the baseline format.',
+    remediation:
+      'Restore the file from version control, or recreate it with `--updateBaseline`.',
+    retryable: false,
+  },
+  BASELINE_PARTIAL_UPDATE: {
+    message: 'The baseline can only be updated from an analysis of every file',
+    description:
+      'Updating the baseline was requested for an analysis limited to changed files, which would drop every other file from it.',
+    remediation: 'Drop `--changed-since` when running with `--updateBaseline`.',
+    retryable: false,
+  },
+  SECRETS_ALLOWLIST_INVALID: {
+    message: 'Invalid secret allowlist {file}: {reason}',
+    description:
+      'The secret allowlist file is not valid JSON or does not have the allowlist format.',
+    remediation: 'Fix the allowlist file, or remove `secretsAllowlistFile`.',
+    retryable: false,
+  },
+  GIT_REF_INVALID: {
+    message: "Invalid git ref '{ref}'",
+    description:
+      'A `--changed-since` ref contains characters git does not allow.',
+    remediation: 'Pass a branch, tag or commit, e.g. `--changed-since main`.',
+    retryable: false,
+  },
+  GIT_REF_UNRESOLVED: {
+    message: "Cannot compare with '{ref}': {reason}",
+    description:
+      'Changed files could not be listed, because the project is not a git repository or the ref is unknown.',
+    remediation:
+      'Fetch the ref first (in CI, fetch with enough depth), or compare with a ref that exists locally.',
+    retryable: false,
+  },
+  FIX_NEEDS_TTY: {
+    message:
+      'Interactive fixing needs a terminal; use --apply or --patch instead',
+    description: '`fix --interactive` ran without a terminal to prompt in.',
+    remediation: 'Use `--apply` or `--patch` in scripts and CI.',
+    retryable: false,
+  },
+  LOCKFILE_MISSING: {
+    message: 'No package-lock.json found in {projectRoot}',
+    description: 'Third-party notices are built from the npm lockfile.',
+    remediation: 'Run `npm install` to create package-lock.json.',
+    retryable: false,
+  },
+  MODULE_DEPENDENCY_CYCLE: {
+    message: 'Analysis modules depend on each other in a loop: {chain}',
+    description:
+      'The `dependsOn` entries of the analysis modules, from the modules or from `modules` in the configuration, form a loop.',
+    remediation: 'Remove one of the `dependsOn` entries along the chain shown.',
+    retryable: false,
+  },
+
+  /* ==================== ANALYSIS ==================== */
+
+  ANALYSIS_ERROR: {
+    message: 'Analysis failed for checker',
+    description:
+      'An analysis module failed; the other modules still run and the report omits its issues.',
+    remediation:
+      'Check the cause below; listing only that module in `enabledAnalyzers` reproduces it alone.',
+    retryable: false,
+  },
+  SYNTAX_CHECK_FAILED: {
+    message: 'Failed to run TypeScript syntax check',
+    description: 'The TypeScript compiler could not be run over the sources.',
+    remediation:
+      'Check that `typescript` is installed and tsconfig.json is valid.',
+    retryable: false,
+  },
+  TYPE_CHECK_FAILED: {
+    message: 'Failed to run TypeScript type check',
+    description:
+      'The TypeScript program could not be created for type checking.',
+    remediation:
+      'Check that `typescript` is installed and tsconfig.json is valid.',
+    retryable: false,
+  },
+  DEPENDENCY_GRAPH_FAILED: {
+    message: 'Failed to build the module dependency graph',
+    description: 'Imports between source files could not be resolved.',
+    remediation:
+      'Check tsconfig.json `paths` and that the files in the cause can be parsed.',
+    retryable: false,
+  },
+  DUPLICATION_CHECK_FAILED: {
+    message: 'Failed to detect duplicated code',
+    description: 'The duplication analyzer could not tokenize the sources.',
+    remediation: 'Check the file named in the cause for syntax errors.',
+    retryable: false,
+  },
+  LICENSE_CHECK_FAILED: {
+    message: 'Failed to check dependency licenses',
+    description: 'Installed packages could not be read from the lockfile.',
+    remediation:
+      'Run `npm install` so package-lock.json and node_modules are in sync.',
+    retryable: false,
+  },
+  SITE_CHECK_FAILED: {
+    message: 'Failed to check the built site',
+    description:
+      'The build output could not be read for link and asset checks.',
+    remediation:
+      'Build the site first, or point `site.outDir` at the build output.',
+    retryable: false,
+  },
+  BUNDLE_CHECK_FAILED: {
+    message: 'Failed to check the bundle',
+    description:
+      'The bundle stats recorded by the build could not be analyzed.',
+    remediation:
+      'Rebuild with the `bundleStats()` integration so the stats match the output.',
+    retryable: false,
+  },
+  GIT_COMMAND_FAILED: {
+    message: 'Failed to run Git command',
+    description: 'A git command the git analyzer relies on failed.',
+    remediation:
+      'Check that git is installed and the project root is inside a repository.',
+    retryable: false,
+  },
+  AUTOFIX_FAILED: {
+    message: 'Auto-fix process failed',
+    description:
+      'Applying fixes stopped part way; files already fixed are kept.',
+    remediation:
+      'Review the changes with `git diff`, then re-run `fix` to continue.',
+    retryable: false,
+  },
+  PROJECT_ANALYSIS_FAILED: {
+    message: 'Overall project analysis failed',
+    description: 'The analysis run failed outside any single module.',
+    remediation: 'Check the cause below; it names the failing step.',
+    retryable: false,
+  },
+  FILE_ANALYSIS_FAILED: {
+    message: 'Could not analyze {file}',
+    description:
+      'Single-file analysis, as used by the language server and watch mode, failed.',
+    remediation: 'Check that the file is inside the project root and readable.',
+    retryable: false,
+  },
+  MODULE_TIMEOUT: {
+    message: "Analysis module '{operation}' timed out after {timeoutMs}ms",
+    description:
+      'An analysis module ran past its timeout and was stopped; the report leaves out its issues.',
+    remediation:
+      "Find the slow step with --verbose, or raise the module's `timeout` under `modules` or `moduleTimeout` in .analyzer.json.",
+    retryable: true,
+  },
+  MODULE_CANCELLED: {
+    message: "Analysis module '{operation}' was cancelled",
+    description:
+      'The analysis was cancelled, e.g. with Ctrl+C, before the module finished; the partial report leaves out its issues.',
+    remediation: 'Run the analysis again to completion.',
+    retryable: true,
+  },
+
+  /* ==================== FILE SYSTEM ==================== */
+
+  FILE_SYSTEM_ERROR: {
+    message: 'File system operation failed',
+    description: 'A file could not be read or written.',
+    remediation: 'Check that the path exists and its permissions.',
+    retryable: false,
+  },
+  BUNDLE_STATS_UNREADABLE: {
+    message: 'Could not read bundle stats',
+    description:
+      'The stats file written by the `bundleStats()` integration is missing or invalid.',
+    remediation:
+      'Build the site with the integration enabled, or fix `bundleStatsFile`.',
+    retryable: false,
+  },
+  LOCKFILE_UNREADABLE: {
+    message: 'Could not read lockfile',
+    description: 'package-lock.json exists but is not valid JSON.',
+    remediation: 'Run `npm install` to rewrite package-lock.json.',
+    retryable: false,
+  },
+
+  /* ==================== COMMANDS ==================== */
+
+  COMMAND_EXECUTION_ERROR: {
+    message: 'Command execution failed',
+    description: 'An external command failed.',
+    remediation: 'Run the command from the details by hand to see its output.',
+    retryable: false,
+  },
+  COMMAND_FAILED: {
+    message: 'Command execution failed: {command}',
+    description: 'An external command exited with an error.',
+    remediation:
+      'Run the command by hand in the project root to see its output.',
+    retryable: false,
+  },
+  COMMAND_EXITED: {
+    message: 'Command exited with code {exitCode}',
+    description: 'A streamed external command exited with a non-zero code.',
+    remediation:
+      'Run the command by hand in the project root to see its output.',
+    retryable: false,
+  },
+  COMMAND_NOT_RUN: {
+    message: "Could not run '{command}': {reason}",
+    description: 'A deployment check could not start its command.',
+    remediation: 'Check that npm and the project dependencies are installed.',
+    retryable: false,
+  },
+  COMMAND_TIMEOUT: {
+    message: "Command '{operation}' timed out after {timeoutMs}ms",
+    description: 'An external command ran past its timeout and was stopped.',
+    remediation:
+      'Run again; if the command is just slow, raise its timeout or exclude the analyzer running it.',
+    retryable: true,
+  },
+  COMMAND_CANCELLED: {
+    message: "Command '{operation}' was cancelled",
+    description:
+      'An external command was stopped because the analysis it ran for was cancelled or timed out.',
+    remediation: 'Nothing to fix; run the analysis again to completion.',
+    retryable: true,
+  },
+
+  /* ==================== NETWORK ==================== */
+
+  NETWORK_ERROR: {
+    message: 'Network request failed',
+    description:
+      'An HTTP request failed; 429 and 5xx responses are retried with backoff.',
+    remediation: 'Check the network connection and the status in the message.',
+    retryable: true,
+  },
+  TIMEOUT_ERROR: {
+    message: "Operation '{operation}' timed out after {timeoutMs}ms",
+    description: 'An operation ran past its timeout.',
+    remediation:
+      'Run again, or raise the timeout if the operation is just slow.',
+    retryable: true,
+  },
+  OPERATION_CANCELLED: {
+    message: "Operation '{operation}' was cancelled",
+    description: 'An operation was stopped before it finished.',
+    remediation: 'Nothing to fix; run it again to completion.',
+    retryable: true,
+  },
+
+  /* ==================== REQUESTS ==================== */
+
+  VALIDATION_ERROR: {
+    message: 'Validation failed',
+    description: 'A value did not meet the constraints listed in the message.',
+    remediation: 'Fix the named field.',
+    retryable: false,
+  },
+  REQUEST_INVALID: {
+    message: 'Invalid request',
+    description:
+      'A request to the analysis server had a missing or invalid field.',
+    remediation:
+      'Fix the named field; the server API is described in the README.',
+    retryable: false,
+  },
+  JSON_RPC_ERROR: {
+    message: 'JSON-RPC request failed',
+    description: 'A JSON-RPC request could not be answered.',
+    remediation: 'Check the request against the language server protocol.',
+    retryable: false,
+  },
+  LSP_NOT_INITIALIZED: {
+    message: 'The server has not been initialized',
+    description: 'The language server received a request before `initialize`.',
+    remediation: 'Send `initialize` first; editors do this on their own.',
+    retryable: false,
+  },
+  RPC_METHOD_NOT_FOUND: {
+    message: 'Unhandled method {method}',
+    description:
+      'A JSON-RPC request named a method the server does not handle.',
+    remediation:
+      'Check the method name; see the README for supported requests.',
+    retryable: false,
+  },
+} as const satisfies Record<string, ErrorCodeDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+/** Path of the generated catalog, relative to the repository root */
+export const ERROR_CATALOG = 'docs/ERROR-CODES.md';
+
+type Placeholders<T extends string> =
+  T extends `${string}{${infer Name}}${infer Rest}`
+    ? Name | Placeholders<Rest>
+    : never;
+
+/** Values for the placeholders in the message of `C` */
+export type ErrorParams<C extends ErrorCode> = Record<
+  Placeholders<(typeof ERROR_CODES)[C]['message']>,
+  string | number
+>;
+
+/**
+ * A registered code plus the values for its message, accepted by every
+ * `AppError` in place of a free-form message
+ */
+export type ErrorInit = {
+  [C in ErrorCode]: [Placeholders<(typeof ERROR_CODES)[C]['message']>] extends [
+    never,
+  ]
+    ? { code: C; params?: ErrorParams<C>; cause?: unknown }
+    : { code: C; params: ErrorParams<C>; cause?: unknown };
+}[ErrorCode];
+
+/**
+ * Definition of a code; undefined for codes outside the registry
+ */
+export function getErrorDefinition(
+  code: string
+): ErrorCodeDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(ERROR_CODES, code)
+    ? ERROR_CODES[code as ErrorCode]
+    : undefined;
+}
+
+/**
+ * Fill in the message template of `code`
+ */
+export function formatErrorMessage(
+  code: ErrorCode,
+  params: Record<string, string | number> = {}
+): string {
+  return ERROR_CODES[code].message.replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * Link to the catalog entry of `code`
+ */
+export function getErrorDocsLink(code: string): string {
+  return `${ERROR_CATALOG}#${code.toLowerCase()}`;
+}
@@ -3,25 +3,93 @@
  * @module errors
  * @description Provides custom error classes for different failure scenarios,
  * type guards for error checking, Result types for safer error handling,
- * and utilities for error wrapping and formatting.
+ * and utilities for error wrapping and formatting. Error codes and their
+ * documentation live in the registry in `./codes`.
  */
 
+import {
+  formatErrorMessage,
+  getErrorDefinition,
+  getErrorDocsLink,
+  type ErrorCode,
+  type ErrorInit,
+} from './codes';
+
+export {
+  ERROR_CATALOG,
+  ERROR_CODES,
+  formatErrorMessage,
+  getErrorDefinition,
+  getErrorDocsLink,
+} from './codes';
+export type {
+  ErrorCode,
+  ErrorCodeDefinition,
+  ErrorInit,
+  ErrorParams,
+} from './codes';
+
+/**
+ * Message, code and cause of an error created from a free-form message or a
+ * registered code
+ */
+function resolveMessage(
+  message: string | ErrorInit,
+  code: string
+): { message: string; code: string; cause?: unknown } {
+  if (typeof message === 'string') {
+    return { message, code };
+  }
+  return {
+    message: formatErrorMessage(message.code, message.params),
+    code: message.code,
+    cause: message.cause,
+  };
+}
+
+function originalErrorOf(details: unknown): unknown {
+  return details && typeof details === 'object' && 'originalError' in details
+    ? details.originalError
+    : undefined;
+}
+
 export class AppError extends Error {
+  /** One of `ERROR_CODES`; other codes get no catalog entry */
+  public code: ErrorCode | (string & {});
+
+  /**
+   * `message` is either free-form text, with `code` as its code, or a
+   * registered code whose template is filled in. The cause defaults to
+   * `details.originalError`.
+   */
   constructor(
-    message: string,
-    public code = 'APP_ERROR',
-    public details?: unknown
+    message: string | ErrorInit,
+    code: ErrorCode | (string & {}) = 'APP_ERROR',
+    public details?: unknown,
+    options?: ErrorOptions
   ) {
-    super(message);
+    const resolved = resolveMessage(message, code);
+    const cause = options?.cause ?? resolved.cause ?? originalErrorOf(details);
+    super(resolved.message, cause === undefined ? undefined : { cause });
     this.name = 'AppError';
+    this.code = resolved.code;
     Object.setPrototypeOf(this, AppError.prototype);
   }
 
+  /**
+   * Whether running the same operation again may succeed, as registered for
+   * the code
+   */
+  isRetryable(): boolean {
+    return getErrorDefinition(this.code)?.retryable ?? false;
+  }
+
   toJSON() {
     return {
       name: this.name,
       message: this.message,
       code: this.code,
+      retryable: this.isRetryable(),
       details: this.details,
       stack: this.stack,
     };
@@ -35,15 +103,15 @@ export class CommandExecutionError extends AppError {
     signal: NodeJS.Signals | null,
     stdout: string,
     stderr: string,
-    message = 'Command execution failed'
+    message: string | ErrorInit = 'Command execution failed'
   ) {
-    super(message, 'COMMAND_EXECUTION_ERROR', {
-      command,
-      exitCode,
-      signal,
-      stdout,
-      stderr,
-    });
+    const resolved = resolveMessage(message, 'COMMAND_EXECUTION_ERROR');
+    super(
+      resolved.message,
+      resolved.code,
+      { command, exitCode, signal, stdout, stderr },
+      { cause: resolved.cause }
+    );
     this.name = 'CommandExecutionError';
     Object.setPrototypeOf(this, CommandExecutionError.prototype);
   }
@@ -54,11 +122,12 @@ export class FileSystemError extends AppError {
     operation: string,
     filePath: string,
     originalError: Error,
-    message = 'File system operation failed'
+    message: string | ErrorInit = 'File system operation failed'
   ) {
+    const resolved = resolveMessage(message, 'FILE_SYSTEM_ERROR');
     super(
-      `${message}: ${operation} on ${filePath}. Original error: ${originalError.message}`,
-      'FILE_SYSTEM_ERROR',
+      `${resolved.message}: ${operation} on ${filePath}. Original error: ${originalError.message}`,
+      resolved.code,
       { operation, filePath, originalError }
     );
     this.name = 'FileSystemError';
@@ -76,11 +145,12 @@ export class AnalysisError extends AppError {
   constructor(
     checkerName: string,
     originalError: Error,
-    message = 'Analysis failed for checker'
+    message: string | ErrorInit = 'Analysis failed for checker'
   ) {
+    const resolved = resolveMessage(message, 'ANALYSIS_ERROR');
     super(
-      `${message}: ${checkerName}. Original error: ${originalError.message}`,
-      'ANALYSIS_ERROR',
+      `${resolved.message}: ${checkerName}. Original error: ${originalError.message}`,
+      resolved.code,
       { checkerName, originalError }
     );
     this.name = 'AnalysisError';
@@ -103,8 +173,17 @@ export class ConfigurationError extends AppError {
   /** Configuration key that caused the error */
   public readonly configKey: string;
 
-  constructor(configKey: string, message = 'Invalid configuration') {
-    super(`${message}: ${configKey}`, 'CONFIGURATION_ERROR', { configKey });
+  constructor(
+    configKey: string,
+    message: string | ErrorInit = 'Invalid configuration'
+  ) {
+    const resolved = resolveMessage(message, 'CONFIGURATION_ERROR');
+    super(
+      `${resolved.message}: ${configKey}`,
+      resolved.code,
+      { configKey },
+      { cause: resolved.cause }
+    );
     this.name = 'ConfigurationError';
     this.configKey = configKey;
     Object.setPrototypeOf(this, ConfigurationError.prototype);
@@ -124,11 +203,12 @@ export class NetworkError extends AppError {
     url: string,
     status: number,
     originalError?: Error,
-    message = 'Network request failed'
+    message: string | ErrorInit = 'Network request failed'
   ) {
+    const resolved = resolveMessage(message, 'NETWORK_ERROR');
     super(
-      `${message}: ${url} responded with status ${status}. Original error: ${originalError?.message}`,
-      'NETWORK_ERROR',
+      `${resolved.message}: ${url} responded with status ${status}. Original error: ${originalError?.message}`,
+      resolved.code,
       { url, status, originalError }
     );
     this.name = 'NetworkError';
@@ -140,7 +220,7 @@ export class NetworkError extends AppError {
   /**
    * Check if the error is retryable based on status code
    */
-  isRetryable(): boolean {
+  override isRetryable(): boolean {
     return this.status >= 500 || this.status === 429;
   }
 }
@@ -157,11 +237,12 @@ export class ValidationError extends AppError {
   constructor(
     field: string,
     constraints: string[],
-    message = 'Validation failed'
+    message: string | ErrorInit = 'Validation failed'
   ) {
+    const resolved = resolveMessage(message, 'VALIDATION_ERROR');
     super(
-      `${message}: ${field} - ${constraints.join(', ')}`,
-      'VALIDATION_ERROR',
+      `${resolved.message}: ${field} - ${constraints.join(', ')}`,
+      resolved.code,
       {
         field,
         constraints,
@@ -183,12 +264,22 @@ export class TimeoutError extends AppError {
   /** Operation that timed out */
   public readonly operation: string;
 
-  constructor(operation: string, timeoutMs: number) {
-    super(
-      `Operation '${operation}' timed out after ${timeoutMs}ms`,
-      'TIMEOUT_ERROR',
-      { operation, timeoutMs }
-    );
+  /**
+   * `code` picks a more specific registered code, such as `COMMAND_TIMEOUT`;
+   * its template gets the operation and timeout
+   */
+  constructor(
+    operation: string,
+    timeoutMs: number,
+    code:
+      | 'TIMEOUT_ERROR'
+      | 'COMMAND_TIMEOUT'
+      | 'MODULE_TIMEOUT' = 'TIMEOUT_ERROR'
+  ) {
+    super({ code, params: { operation, timeoutMs } }, code, {
+      operation,
+      timeoutMs,
+    });
     this.name = 'TimeoutError';
     this.timeoutMs = timeoutMs;
     this.operation = operation;
@@ -196,6 +287,42 @@ export class TimeoutError extends AppError {
   }
 }
 
+/**
+ * Error thrown when an operation is stopped through its `AbortSignal`
+ */
+export class CancellationError extends AppError {
+  /** Operation that was cancelled */
+  public readonly operation: string;
+
+  constructor(
+    operation: string,
+    code:
+      | 'OPERATION_CANCELLED'
+      | 'COMMAND_CANCELLED'
+      | 'MODULE_CANCELLED' = 'OPERATION_CANCELLED'
+  ) {
+    super({ code, params: { operation } }, code, { operation });
+    this.name = 'CancellationError';
+    this.operation = operation;
+    Object.setPrototypeOf(this, CancellationError.prototype);
+  }
+}
+
+/**
+ * Error answered to a JSON-RPC request, e.g. by the language server
+ */
+export class JsonRpcError extends AppError {
+  /** JSON-RPC error code, e.g. -32601 for an unknown method */
+  public readonly rpcCode: number;
+
+  constructor(rpcCode: number, message: string | ErrorInit) {
+    super(message, 'JSON_RPC_ERROR', { rpcCode });
+    this.name = 'JsonRpcError';
+    this.rpcCode = rpcCode;
+    Object.setPrototypeOf(this, JsonRpcError.prototype);
+  }
+}
+
 /* ==================== ERROR UTILITIES ==================== */
 
 /**
@@ -268,6 +395,53 @@ export function formatErrorForLogging(error: unknown): Record<string, unknown> {
   };
 }
 
+/**
+ * Errors from `error` down its `cause` chain, outermost first
+ */
+export function getCauseChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current: unknown = error;
+  while (current !== undefined && !chain.includes(current)) {
+    chain.push(current);
+    current = isError(current) ? current.cause : undefined;
+  }
+  return chain;
+}
+
+/**
+ * Human-readable report of an error for the terminal: code and message,
+ * the registered remediation hint and docs link, then the cause chain.
+ * Stacks are only included with `stack`.
+ */
+export function formatErrorReport(
+  error: unknown,
+  options: { stack?: boolean } = {}
+): string {
+  const describe = (value: unknown) =>
+    isAppError(value)
+      ? `[${value.code}] ${value.message}`
+      : isError(value)
+        ? `${value.name}: ${value.message}`
+        : String(value);
+
+  const [outer, ...causes] = getCauseChain(error);
+  const lines = [describe(outer)];
+  if (isAppError(outer)) {
+    const definition = getErrorDefinition(outer.code);
+    if (definition) {
+      lines.push(`  hint: ${definition.remediation}`);
+      lines.push(`  docs: ${getErrorDocsLink(outer.code)}`);
+    }
+  }
+  for (const cause of causes) {
+    lines.push(`  caused by: ${describe(cause)}`);
+  }
+  if (options.stack && isError(outer) && outer.stack) {
+    lines.push('', outer.stack);
+  }
+  return lines.join('\n');
+}
+
 /**
  * Retry an async operation with exponential backoff
  */
@@ -0,0 +1,202 @@
+/**
+ * Live results for the error dashboard, streamed from the analysis server
+ * (`npm run error-review:serve`) while developing.
+ *
+ * The dashboard renders mock data at build time; once the server sends its
+ * first snapshot, every section is re-rendered from the real issues using the
+ * `<template>` elements in ErrorDashboard.astro, so scoped styles still apply.
+ */
+import type { CodeIssue, ProjectHealth } from '../types/analysis';
+
+interface Snapshot {
+  issues: CodeIssue[];
+  health: ProjectHealth | null;
+  analyzedAt: string | null;
+}
+
+interface IssueChanges {
+  added: CodeIssue[];
+  removed: string[];
+  health: ProjectHealth;
+  analyzedAt: string;
+}
+
+const SEVERITY_ICONS: Record<string, string> = {
+  critical: '🚨',
+  high: '⚠️',
+  medium: '📋',
+};
+
+const TYPE_ICONS: Record<string, string> = {
+  type: '🏷️',
+  security: '🔒',
+  performance: '⚡',
+  accessibility: '♿',
+};
+
+const CATEGORY_ICONS: Record<string, string> = {
+  TypeScript: '🏷️',
+  Security: '🔒',
+  Performance: '⚡',
+  Accessibility: '♿',
+  Git: '📝',
+};
+
+export const severityIcon = (level: string) => SEVERITY_ICONS[level] ?? 'ℹ️';
+export const typeIcon = (type: string) => TYPE_ICONS[type] ?? '🐛';
+export const categoryIcon = (category: string) =>
+  CATEGORY_ICONS[category] ?? '📂';
+
+export function scoreClass(score: number): string {
+  if (score >= 90) return 'excellent';
+  if (score >= 70) return 'good';
+  if (score >= 50) return 'warning';
+  return 'critical';
+}
+
+/**
+ * Subscribe the dashboard to the server's event stream. Returns the
+ * EventSource so callers can close it.
+ */
+export function connectLiveDashboard(
+  root: HTMLElement,
+  apiUrl: string
+): EventSource {
+  const issues = new Map<string, CodeIssue>();
+  const source = new EventSource(new URL('/events', apiUrl));
+
+  source.addEventListener('snapshot', event => {
+    const snapshot = JSON.parse((event as MessageEvent).data) as Snapshot;
+    issues.clear();
+    for (const issue of snapshot.issues) issues.set(issue.id, issue);
+    if (snapshot.health) {
+      render(root, [...issues.values()], snapshot.health, snapshot.analyzedAt);
+    }
+  });
+
+  source.addEventListener('issues', event => {
+    const changes = JSON.parse((event as MessageEvent).data) as IssueChanges;
+    for (const id of changes.removed) issues.delete(id);
+    for (const issue of changes.added) issues.set(issue.id, issue);
+    render(root, [...issues.values()], changes.health, changes.analyzedAt);
+  });
+
+  source.addEventListener('open', () => root.classList.add('is-live'));
+  // EventSource reconnects by itself; show the data as stale meanwhile
+  source.addEventListener('error', () => root.classList.remove('is-live'));
+
+  return source;
+}
+
+function render(
+  root: HTMLElement,
+  issues: CodeIssue[],
+  health: ProjectHealth,
+  analyzedAt: string | null
+): void {
+  setText(root, 'updated', new Date(analyzedAt ?? Date.now()).toLocaleString());
+  setText(root, 'score', String(health.score));
+  const circle = live(root, 'score-circle');
+  if (circle) {
+    circle.className = `score-circle score-${scoreClass(health.score)}`;
+  }
+  for (const key of [
+    'criticalIssues',
+    'highIssues',
+    'mediumIssues',
+    'lowIssues',
+  ] as const) {
+    setText(root, key, String(health[key]));
+  }
+  setText(root, 'total', String(issues.length));
+
+  const categories = Object.entries(health.categories);
+  const maxCount = Math.max(0, ...categories.map(([, count]) => count));
+  fill(root, 'categories', 'category', categories, (card, [name, count]) => {
+    field(card, 'icon').textContent = categoryIcon(name);
+    field(card, 'name').textContent = name;
+    field(card, 'count').textContent = String(count);
+    field(card, 'fill').style.width =
+      `${maxCount > 0 ? (count / maxCount) * 100 : 0}%`;
+  });
+
+  fill(
+    root,
+    'critical',
+    'critical-issue',
+    issues.filter(issue => issue.severity.level === 'critical'),
+    (item, issue) => {
+      field(item, 'title').textContent = issue.title;
+      field(item, 'severity').textContent = issue.severity.level;
+      field(item, 'type').textContent = issue.type;
+      field(item, 'autofix').hidden = !issue.autoFixable;
+      field(item, 'description').textContent = issue.description;
+      field(item, 'location').textContent =
+        `📁 ${issue.file}${issue.line ? `:${issue.line}` : ''}`;
+      field(item, 'suggestion').textContent = issue.suggestion
+        ? `💡 ${issue.suggestion}`
+        : '';
+      field(item, 'suggestion').hidden = !issue.suggestion;
+    }
+  );
+
+  fill(root, 'issues', 'issue-row', issues, (row, issue) => {
+    const level = issue.severity.level;
+    row.querySelector('tr')?.classList.add(`severity-${level}`);
+    const severity = field(row, 'severity');
+    severity.classList.add(level);
+    severity.textContent = `${severityIcon(level)}${level}`;
+    field(row, 'type').textContent = `${typeIcon(issue.type)}${issue.type}`;
+    field(row, 'title').textContent = issue.title;
+    field(row, 'file').textContent = issue.file;
+    field(row, 'line').textContent = issue.line ? String(issue.line) : 'N/A';
+    field(row, 'category').textContent = issue.category;
+    field(row, 'autofix').textContent = issue.autoFixable ? '✅' : '❌';
+  });
+
+  root.dispatchEvent(
+    new CustomEvent('error-dashboard:update', {
+      bubbles: true,
+      detail: { issues: issues.length, score: health.score },
+    })
+  );
+}
+
+/**
+ * Replace the children of a `data-live` container with one filled copy of
+ * a `data-template` per item
+ */
+function fill<T>(
+  root: HTMLElement,
+  container: string,
+  template: string,
+  items: T[],
+  populate: (fragment: DocumentFragment, item: T) => void
+): void {
+  const target = live(root, container);
+  const source = root.querySelector<HTMLTemplateElement>(
+    `template[data-template="${template}"]`
+  );
+  if (!target || !source) return;
+
+  target.replaceChildren(
+    ...items.map(item => {
+      const fragment = source.content.cloneNode(true) as DocumentFragment;
+      populate(fragment, item);
+      return fragment;
+    })
+  );
+}
+
+function live(root: HTMLElement, name: string): HTMLElement | null {
+  return root.querySelector<HTMLElement>(`[data-live="${name}"]`);
+}
+
+function setText(root: HTMLElement, name: string, text: string): void {
+  const element = live(root, name);
+  if (element) element.textContent = text;
+}
+
+function field(parent: ParentNode, name: string): HTMLElement {
+  return parent.querySelector(`[data-field="${name}"]`) as HTMLElement;
+}
@@ -0,0 +1,298 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccessibilityAnalyzer } from '../analysis/accessibility';
+import type { AnalyzerConfig } from '../types/analysis';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+describe('AccessibilityAnalyzer', () => {
+  let analyzer: AccessibilityAnalyzer;
+  let config: AnalyzerConfig;
+
+  const writeSource = async (name: string, lines: string[]) => {
+    const file = path.join(config.projectRoot, name);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, lines.join('\n'));
+  };
+
+  const findings = async () =>
+    (await analyzer.analyze(config)).map(issue => ({
+      rule: issue.rule,
+      description: issue.description,
+      file: issue.file,
+      line: issue.line,
+      column: issue.column,
+    }));
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    analyzer = new AccessibilityAnalyzer();
+    config = {
+      projectRoot: await fs.mkdtemp(path.join(os.tmpdir(), 'a11y-analyzer-')),
+      enabledAnalyzers: ['accessibility'],
+      ignore: [],
+      include: [],
+      frameworks: ['astro'],
+      severityThreshold: 'low',
+      outputFormat: 'terminal',
+      githubIntegration: false,
+      deploymentChecks: false,
+      autoFix: false,
+      watchMode: false,
+      enableCache: false,
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(config.projectRoot, { recursive: true, force: true });
+  });
+
+  it('should report images without alt text at their exact position', async () => {
+    await writeSource('src/pages/index.astro', [
+      '---',
+      "const alt = 'Logo';",
+      '---',
+      '<main>',
+      '  <img src="/hero.png">',
+      '  <img src="/logo.png" alt={alt}>',
+      '  <img src="/divider.png" alt="">',
+      '  <img {...imageProps}>',
+      '</main>',
+    ]);
+
+    const issues = await analyzer.analyze(config);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      type: 'accessibility',
+      rule: 'a11y-image-alt',
+      severity: { level: 'high' },
+      description: '<img> has no alt attribute',
+      file: 'src/pages/index.astro',
+      line: 5,
+      column: 3,
+      category: 'Accessibility',
+      context: { current: '  <img src="/hero.png">' },
+    });
+  });
+
+  it('should require form controls to be linked to a label', async () => {
+    await writeSource('src/components/Form.astro', [
+      '<form>',
+      '  <label for="email">Email</label>',
+      '  <input id="email" type="email">',
+      '  <label>Name <input name="name"></label>',
+      '  <input id="phone" type="tel">',
+      '  <input type="search" aria-label="Search">',
+      '  <input type="hidden" name="token">',
+      '  <label for="missing">Missing</label>',
+      '  <textarea></textarea>',
+      '</form>',
+    ]);
+
+    expect(await findings()).toEqual([
+      expect.objectContaining({
+        rule: 'a11y-form-label',
+        description: '<input id="phone"> has no <label for="phone">',
+        line: 5,
+        column: 3,
+      }),
+      expect.objectContaining({
+        rule: 'a11y-form-label',
+        description: '<label for="missing"> does not match any element id',
+        line: 8,
+        column: 10,
+      }),
+      expect.objectContaining({
+        rule: 'a11y-form-label',
+        description: '<textarea> has no associated label',
+        line: 9,
+        column: 3,
+      }),
+    ]);
+  });
+
+  it('should report heading levels that skip a level', async () => {
+    await writeSource('src/pages/docs.astro', [
+      '<h1>Docs</h1>',
+      '<h2>Install</h2>',
+      '<h4>Options</h4>',
+      '<h2>Usage</h2>',
+      '<h3>API</h3>',
+    ]);
+
+    expect(await findings()).toEqual([
+      expect.objectContaining({
+        rule: 'a11y-heading-order',
+        description: 'Heading level jumps from <h2> to <h4>',
+        line: 3,
+        column: 1,
+      }),
+    ]);
+  });
+
+  it('should validate ARIA roles, attributes and values per role', async () => {
+    await writeSource('src/components/Widgets.astro', [
+      '<div role="buton">Save</div>',
+      '<div aria-labeledby="title">Panel</div>',
+      '<button aria-pressed="yes">Bold</button>',
+      '<button aria-checked="true">Mute</button>',
+      '<div role="checkbox" tabindex="0">Remember me</div>',
+      '<input type="checkbox" role="switch" id="dark">',
+      '<label for="dark">Dark mode</label>',
+      '<button aria-expanded="false" aria-controls="menu">Menu</button>',
+    ]);
+
+    expect(await findings()).toEqual([
+      expect.objectContaining({
+        rule: 'a11y-aria',
+        description: 'Unknown ARIA role "buton"',
+        line: 1,
+        column: 6,
+      }),
+      expect.objectContaining({
+        rule: 'a11y-aria',
+        description: 'Unknown ARIA attribute "aria-labeledby"',
+        line: 2,
+        column: 6,
+      }),
+      expect.objectContaining({
+        rule: 'a11y-aria',
+        description:
+          'aria-pressed="yes" is not valid; expected one of true, false, mixed, undefined',
+        line: 3,
+        column: 9,
+      }),
+      expect.objectContaining({
+        rule: 'a11y-aria',
+        description: 'aria-checked is not supported by role "button"',
+        line: 4,
+        column: 9,
+      }),
+      expect.objectContaining({
+        rule: 'a11y-aria',
+        description: 'role="checkbox" requires aria-checked',
+        line: 5,
+        column: 6,
+      }),
+    ]);
+  });
+
+  it('should require interactive elements to have an accessible name', async () => {
+    await writeSource('src/components/Toolbar.astro', [
+      '<nav>',
+      '  <button></button>',
+      '  <a href="/search"><svg viewBox="0 0 24 24"></svg></a>',
+      '  <div role="button" tabindex="0"></div>',
+      '  <button aria-label="Close">×</button>',
+      '  <a href="/home"><img src="/home.svg" alt="Home"></a>',
+      '  <button>{label}</button>',
+      '  <button><Icon name="menu" /></button>',
+      '</nav>',
+    ]);
+
+    expect(await findings()).toEqual([
+      expect.objectContaining({
+        rule: 'a11y-accessible-name',
+        description: '<button> has no accessible name',
+        line: 2,
+        column: 3,
+      }),
+      expect.objectContaining({
+        rule: 'a11y-accessible-name',
+        description: '<a> has no accessible name',
+        line: 3,
+        column: 3,
+      }),
+      expect.objectContaining({
+        rule: 'a11y-accessible-name',
+        description: '<div role="button"> has no accessible name',
+        line: 4,
+        column: 3,
+      }),
+    ]);
+  });
+
+  it('should report duplicate ids with the first occurrence', async () => {
+    await writeSource('src/pages/about.astro', [
+      '<section id="team">Team</section>',
+      '<section id="contact">Contact</section>',
+      '<div>',
+      '  <section id="team">More team</section>',
+      '</div>',
+      '{compact ? <button id="toggle">A</button> : <a id="toggle">B</a>}',
+    ]);
+
+    const issues = await analyzer.analyze(config);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      rule: 'a11y-duplicate-id',
+      description: 'id "team" is already used on line 1',
+      line: 4,
+      column: 12,
+      metadata: { relatedFiles: ['src/pages/about.astro:1:10'] },
+    });
+  });
+
+  it('should check JSX markup in .tsx files', async () => {
+    await writeSource('src/components/Search.tsx', [
+      'export function Search({ items }: { items: string[] }) {',
+      '  return (',
+      '    <form>',
+      '      <label htmlFor="query">Search</label>',
+      '      <input id="query" aria-required />',
+      '      <input type="text" {...rest} />',
+      '      <Button />',
+      '      <ul>',
+      '        {items.map(item => (',
+      '          <li key={item}><img src={item} /></li>',
+      '        ))}',
+      '      </ul>',
+      '      <button type="submit" aria-hidden={true}></button>',
+      '    </form>',
+      '  );',
+      '}',
+    ]);
+
+    expect(await findings()).toEqual([
+      {
+        rule: 'a11y-image-alt',
+        description: '<img> has no alt attribute',
+        file: 'src/components/Search.tsx',
+        line: 10,
+        column: 26,
+      },
+    ]);
+  });
+
+  it('should honor per-rule settings', async () => {
+    await writeSource('src/pages/index.astro', [
+      '<h1>Title</h1>',
+      '<h3>Section</h3>',
+      '<img src="/hero.png">',
+    ]);
+
+    const issues = await analyzer.analyze({
+      ...config,
+      rules: { 'a11y-image-alt': 'off', 'a11y-heading-order': 'low' },
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      rule: 'a11y-heading-order',
+      severity: { level: 'low' },
+    });
+  });
+});
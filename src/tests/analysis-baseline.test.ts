@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { execFileSync, execSync } from 'child_process';
+import os from 'os';
+import path from 'path';
+import { ProjectAnalyzer } from '../core/analyzer';
+import { AnalysisBaseline } from '../utils/analysis-baseline';
+import { fingerprintIssue } from '../utils/issue-fingerprint';
+import { ConfigurationError } from '../errors';
+import { createIssue } from './fixtures/issues';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+describe('AnalysisBaseline', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'analyzer-baseline-')
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('returns null when no baseline exists', async () => {
+    const baseline = new AnalysisBaseline(projectRoot);
+    await expect(baseline.load()).resolves.toBeNull();
+  });
+
+  it('round-trips written issues', async () => {
+    const baseline = new AnalysisBaseline(projectRoot, 'reports/baseline.json');
+    const issue = createIssue();
+
+    await baseline.write([issue]);
+    const entries = await baseline.load();
+
+    expect(entries).toEqual([
+      {
+        fingerprint: fingerprintIssue(issue, projectRoot),
+        rule: 'lazy-loading',
+        file: 'src/pages/index.astro',
+        title: 'Image Missing Lazy Loading',
+        severity: 'low',
+      },
+    ]);
+  });
+
+  it('reports only new issues and lists fixed ones', async () => {
+    const baseline = new AnalysisBaseline(projectRoot);
+    const kept = createIssue();
+    const fixed = createIssue({
+      file: 'src/pages/about.astro',
+      title: 'Old issue',
+    });
+    const entries = await baseline.write([kept, fixed]);
+
+    const shifted = createIssue({ line: 80 });
+    const added = createIssue({ rule: 'security-pattern', title: 'New issue' });
+    const { issues, comparison } = baseline.compare([shifted, added], entries);
+
+    expect(issues).toEqual([added]);
+    expect(comparison).toMatchObject({
+      file: AnalysisBaseline.DEFAULT_FILE,
+      newIssues: 1,
+      unchanged: 1,
+    });
+    expect(comparison.fixed.map(entry => entry.title)).toEqual(['Old issue']);
+  });
+
+  it('counts duplicate fingerprints individually', async () => {
+    const baseline = new AnalysisBaseline(projectRoot);
+    const entries = await baseline.write([createIssue()]);
+
+    const { issues, comparison } = baseline.compare(
+      [createIssue({ line: 1 }), createIssue({ line: 2 })],
+      entries
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(comparison.unchanged).toBe(1);
+  });
+
+  it('compares against the default baseline file whenever it exists', async () => {
+    let issues = [createIssue()];
+    const analyzer = new ProjectAnalyzer({
+      projectRoot,
+      enabledAnalyzers: [],
+      healthHistory: false,
+    });
+    analyzer.registerModule({
+      name: 'Fixture',
+      canAnalyze: () => true,
+      analyze: async () => issues,
+    });
+
+    expect((await analyzer.analyze()).baseline).toBeUndefined();
+    await analyzer.analyze({ updateBaseline: true });
+
+    issues = [...issues, createIssue({ rule: 'security-pattern' })];
+    const result = await analyzer.analyze();
+
+    expect(result.issues.map(issue => issue.rule)).toEqual([
+      'security-pattern',
+    ]);
+    expect(result.baseline).toMatchObject({
+      file: AnalysisBaseline.DEFAULT_FILE,
+      newIssues: 1,
+      unchanged: 1,
+    });
+  });
+
+  it('rejects malformed baseline files', async () => {
+    await fs.writeFile(
+      path.join(projectRoot, AnalysisBaseline.DEFAULT_FILE),
+      JSON.stringify({ version: 99, entries: [] })
+    );
+
+    await expect(new AnalysisBaseline(projectRoot).load()).rejects.toThrow(
+      ConfigurationError
+    );
+  });
+});
+
+describe('Baseline gate', () => {
+  let repo: string;
+
+  const cli = (args: string[]) => {
+    try {
+      execFileSync(
+        path.join(process.cwd(), 'node_modules/.bin/tsx'),
+        [
+          path.join(process.cwd(), 'src/utils/error-reviewer-cli.ts'),
+          'analyze',
+          '--projectRoot',
+          repo,
+          ...args,
+        ],
+        { cwd: repo, stdio: 'pipe' }
+      );
+      return 0;
+    } catch (error: unknown) {
+      return (error as { status: number }).status;
+    }
+  };
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'baseline-gate-'));
+    const git = (command: string) =>
+      execSync(`git ${command}`, { cwd: repo, stdio: 'pipe' });
+    git('init -q -b main');
+    git('config user.email dev@example.com');
+    git('config user.name Dev');
+    git('commit -q --allow-empty -m init');
+    await fs.writeFile(
+      path.join(repo, '.analyzer.json'),
+      JSON.stringify({ enabledAnalyzers: ['git'], healthHistory: false })
+    );
+    // A dirty checkout, as in CI jobs that write files before the check
+    await fs.writeFile(path.join(repo, 'notes.txt'), 'draft\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('passes right after the baseline is updated', () => {
+    expect(cli(['--updateBaseline'])).toBe(0);
+    // The untracked baseline file itself changes the working tree
+    expect(cli([])).toBe(0);
+  }, 60_000);
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AnalysisCache } from '../utils/analysis-cache';
+import { ProjectAnalyzer } from '../core/analyzer';
+import { AccessibilityAnalyzer } from '../analysis/accessibility';
+import type { CodeIssue, FileAnalysisModule } from '../types/analysis';
+import { createIssue } from './fixtures/issues';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+  },
+}));
+
+const MISSING_ALT: Partial<CodeIssue> = {
+  id: 'accessibility-0123456789abcdef',
+  type: 'accessibility',
+  severity: { level: 'high', impact: 'major', urgency: 'high' },
+  title: 'Missing Text Alternative',
+  description: '<img> has no alt attribute',
+  file: 'src/pages/index.astro',
+  line: 1,
+  rule: 'a11y-image-alt',
+  category: 'Accessibility',
+  source: 'a11y-scanner',
+  autoFixable: true,
+};
+
+describe('AnalysisCache', () => {
+  let projectRoot: string;
+  let cache: AnalysisCache;
+  const file = () => path.join(projectRoot, 'src/pages/index.astro');
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-cache-'));
+    cache = new AnalysisCache(projectRoot);
+    await cache.initialize();
+    cache.useKey('config-1');
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should keep issues per module for the cached content', () => {
+    const issue = createIssue(MISSING_ALT);
+    cache.setCachedIssues(file(), 'AccessibilityAnalyzer', '<img>', [issue]);
+    cache.setCachedIssues(file(), 'SecurityAnalyzer', '<img>', []);
+
+    expect(
+      cache.getCachedIssues(file(), 'AccessibilityAnalyzer', '<img>')
+    ).toEqual([issue]);
+    expect(cache.getCachedIssues(file(), 'SecurityAnalyzer', '<img>')).toEqual(
+      []
+    );
+    expect(
+      cache.getCachedIssues(file(), 'PerformanceAnalyzer', '<img>')
+    ).toBeNull();
+    expect(cache.getStats()).toMatchObject({ totalFiles: 1, totalIssues: 1 });
+
+    // Changed content misses for every module
+    expect(
+      cache.getCachedIssues(file(), 'AccessibilityAnalyzer', '<img alt="">')
+    ).toBeNull();
+    expect(cache.getCachedIssues(file(), 'SecurityAnalyzer', '<img>')).toBe(
+      null
+    );
+  });
+
+  it('should drop the entries of another configuration', async () => {
+    cache.setCachedIssues(file(), 'AccessibilityAnalyzer', '<img>', []);
+    await cache.save();
+
+    const reloaded = new AnalysisCache(projectRoot);
+    await reloaded.initialize();
+    reloaded.useKey('config-1');
+    expect(
+      reloaded.getCachedIssues(file(), 'AccessibilityAnalyzer', '<img>')
+    ).toEqual([]);
+
+    reloaded.useKey('config-2');
+    expect(
+      reloaded.getCachedIssues(file(), 'AccessibilityAnalyzer', '<img>')
+    ).toBeNull();
+    expect(reloaded.getStats().totalFiles).toBe(0);
+  });
+});
+
+describe('ProjectAnalyzer with the analysis cache', () => {
+  let projectRoot: string;
+  let analyzeFile: ReturnType<typeof vi.spyOn>;
+
+  const createAnalyzer = (rules?: Record<string, 'off'>) =>
+    new ProjectAnalyzer({
+      projectRoot,
+      enabledAnalyzers: ['accessibility'],
+      enableCache: true,
+      healthHistory: false,
+      ...(rules && { rules }),
+    });
+  const analyzedFiles = () =>
+    analyzeFile.mock.calls.map(([file]) =>
+      path.relative(projectRoot, file as string)
+    );
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'incremental-'));
+    await fs.mkdir(path.join(projectRoot, 'src/pages'), { recursive: true });
+    await fs.writeFile(
+      path.join(projectRoot, 'src/pages/index.astro'),
+      '<img src="/hero.png">\n'
+    );
+    await fs.writeFile(
+      path.join(projectRoot, 'src/pages/about.astro'),
+      '<h1>About</h1>\n<h3>Team</h3>\n'
+    );
+    analyzeFile = vi.spyOn(AccessibilityAnalyzer.prototype, 'analyzeFile');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should re-analyze only the files that changed', async () => {
+    const analyzer = createAnalyzer();
+    const first = await analyzer.analyze();
+    expect(analyzedFiles().sort()).toEqual([
+      path.join('src', 'pages', 'about.astro'),
+      path.join('src', 'pages', 'index.astro'),
+    ]);
+    expect(first.issues.map(issue => issue.rule).sort()).toEqual([
+      'a11y-heading-order',
+      'a11y-image-alt',
+    ]);
+
+    analyzeFile.mockClear();
+    const unchanged = await analyzer.analyze();
+    expect(analyzeFile).not.toHaveBeenCalled();
+    expect(unchanged.issues).toEqual(first.issues);
+
+    await fs.writeFile(
+      path.join(projectRoot, 'src/pages/index.astro'),
+      '<img src="/hero.png" alt="">\n'
+    );
+    const edited = await analyzer.analyze();
+    expect(analyzedFiles()).toEqual([path.join('src', 'pages', 'index.astro')]);
+    expect(edited.issues.map(issue => issue.rule)).toEqual([
+      'a11y-heading-order',
+    ]);
+  });
+
+  it('should reuse the cache on disk until the configuration changes', async () => {
+    await createAnalyzer().analyze();
+
+    analyzeFile.mockClear();
+    await createAnalyzer().analyze();
+    expect(analyzeFile).not.toHaveBeenCalled();
+
+    const withoutHeadings = await createAnalyzer({
+      'a11y-heading-order': 'off',
+    }).analyze();
+    expect(analyzeFile).toHaveBeenCalledTimes(2);
+    expect(withoutHeadings.issues.map(issue => issue.rule)).toEqual([
+      'a11y-image-alt',
+    ]);
+  });
+
+  it('should re-analyze every file when the checks of a module change', async () => {
+    const checkedBy = (version: string) => {
+      const module: FileAnalysisModule = {
+        name: 'TodoAnalyzer',
+        supportsFileScope: true,
+        version,
+        canAnalyze: () => true,
+        analyze: vi.fn(),
+        getFiles: async () => [path.join(projectRoot, 'src/pages/index.astro')],
+        analyzeFile: vi.fn(async () => []),
+      };
+      const analyzer = createAnalyzer();
+      analyzer.registerModule(module);
+      return { analyzer, module };
+    };
+
+    const v1 = checkedBy('1');
+    await v1.analyzer.analyze();
+    const again = checkedBy('1');
+    await again.analyzer.analyze();
+    const v2 = checkedBy('2');
+    await v2.analyzer.analyze();
+
+    expect(v1.module.analyzeFile).toHaveBeenCalledTimes(1);
+    expect(again.module.analyzeFile).not.toHaveBeenCalled();
+    expect(v2.module.analyzeFile).toHaveBeenCalledTimes(1);
+    expect(v2.module.analyze).not.toHaveBeenCalled();
+    expect(analyzeFile).toHaveBeenCalledTimes(4);
+  });
+});
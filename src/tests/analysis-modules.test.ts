@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { SyntaxAnalyzer } from '../analysis/syntax';
 import { SecurityAnalyzer } from '../analysis/security';
+import { TypeScriptProgram } from '../utils/typescript-program';
 import {
   AnalysisError,
   CommandExecutionError,
@@ -72,20 +76,48 @@ describe('Individual Analysis Modules', () => {
       expect(analyzer.canAnalyze(configWithoutSyntax)).toBe(false);
     });
 
-    it('should handle command execution errors gracefully', async () => {
-      const { executeCommand } = await import('../utils/command-executor');
-      vi.mocked(executeCommand).mockRejectedValueOnce(
-        new CommandExecutionError(
-          'npx tsc --noEmit',
-          1,
-          null,
-          '',
-          'Type check failed',
-          'Command failed'
-        )
+    it('should report parse errors without type errors', async () => {
+      const projectRoot = await fs.mkdtemp(
+        path.join(os.tmpdir(), 'syntax-analyzer-')
       );
+      try {
+        await fs.mkdir(path.join(projectRoot, 'src'));
+        await fs.writeFile(
+          path.join(projectRoot, 'tsconfig.json'),
+          JSON.stringify({
+            compilerOptions: { lib: ['es2020'], types: [] },
+            include: ['src'],
+          })
+        );
+        await fs.writeFile(
+          path.join(projectRoot, 'src', 'broken.ts'),
+          "export const a: number = 'not a number';\nexport const b = (1;\n"
+        );
+
+        const issues = await analyzer.analyze({ ...mockConfig, projectRoot });
+
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({
+          type: 'syntax',
+          rule: 'TS1005',
+          title: 'TypeScript Syntax Error TS1005',
+          file: 'src/broken.ts',
+          line: 2,
+        });
+      } finally {
+        await fs.rm(projectRoot, { recursive: true, force: true });
+      }
+    });
+
+    it('should wrap compiler failures in an AnalysisError', async () => {
+      const spy = vi
+        .spyOn(TypeScriptProgram.prototype, 'getSyntacticDiagnostics')
+        .mockImplementationOnce(() => {
+          throw new Error('Type check failed');
+        });
 
       await expect(analyzer.analyze(mockConfig)).rejects.toThrow(AnalysisError);
+      spy.mockRestore();
     });
   });
 
@@ -0,0 +1,370 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AnalysisScheduler } from '../core/analysis-scheduler';
+import { ProjectAnalyzer } from '../core/analyzer';
+import { runInterruptibleAnalysis } from '../core/interruptible-analysis';
+import { executeCommand } from '../utils/command-executor';
+import { ProgressDisplay } from '../utils/progress-display';
+import { CancellationError, ConfigurationError } from '../errors';
+import type {
+  AnalysisModule,
+  AnalysisProgress,
+  CodeIssue,
+} from '../types/analysis';
+import { createIssue } from './fixtures/issues';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+  },
+}));
+
+/**
+ * A module that records when it starts and ends, and runs until `run`
+ * settles or its signal aborts
+ */
+function createModule(
+  name: string,
+  log: string[],
+  run: (signal?: AbortSignal) => Promise<CodeIssue[]> = async () => [],
+  schedule: Pick<AnalysisModule, 'dependsOn' | 'priority' | 'timeout'> = {}
+): AnalysisModule {
+  return {
+    name,
+    ...schedule,
+    canAnalyze: () => true,
+    analyze: async (_config, signal) => {
+      log.push(`start ${name}`);
+      try {
+        return await run(signal);
+      } finally {
+        log.push(`end ${name}`);
+      }
+    },
+  };
+}
+
+const waitForAbort = (signal?: AbortSignal) =>
+  new Promise<never>((_resolve, reject) => {
+    signal?.addEventListener('abort', () => reject(signal.reason), {
+      once: true,
+    });
+  });
+
+describe('AnalysisScheduler', () => {
+  it('starts modules by priority once their dependencies have ended', async () => {
+    const log: string[] = [];
+    const modules = [
+      createModule('Deployment', log, undefined, {
+        dependsOn: ['Types'],
+        priority: 10,
+      }),
+      createModule('Syntax', log),
+      createModule('Types', log),
+    ];
+
+    const outcomes = await new AnalysisScheduler({}, { concurrency: 1 }).run(
+      modules,
+      (module, signal) => module.analyze({} as never, signal)
+    );
+
+    expect(log).toEqual([
+      'start Syntax',
+      'end Syntax',
+      'start Types',
+      'end Types',
+      'start Deployment',
+      'end Deployment',
+    ]);
+    expect(outcomes.map(outcome => outcome.run.module)).toEqual([
+      'Deployment',
+      'Syntax',
+      'Types',
+    ]);
+  });
+
+  it('lets the modules configuration override what a module declares', () => {
+    const log: string[] = [];
+    const plans = AnalysisScheduler.plan(
+      [
+        createModule('Syntax', log, undefined, { timeout: 100 }),
+        createModule('Types', log),
+      ],
+      { moduleTimeout: 0, modules: { Types: { priority: 5, timeout: 50 } } }
+    );
+
+    expect(
+      plans.map(({ module, timeout, priority }) => ({
+        name: module.name,
+        timeout,
+        priority,
+      }))
+    ).toEqual([
+      { name: 'Types', timeout: 50, priority: 5 },
+      { name: 'Syntax', timeout: 100, priority: 0 },
+    ]);
+  });
+
+  it('rejects dependencies that form a loop', () => {
+    const log: string[] = [];
+    const modules = [
+      createModule('A', log, undefined, { dependsOn: ['B'] }),
+      createModule('B', log, undefined, { dependsOn: ['A'] }),
+    ];
+
+    expect(() => AnalysisScheduler.plan(modules, {})).toThrow(
+      ConfigurationError
+    );
+    expect(() => AnalysisScheduler.plan(modules, {})).toThrow(/A -> B -> A/);
+  });
+
+  it('stops a module after its timeout and runs the others', async () => {
+    const log: string[] = [];
+    const modules = [
+      // Never settles and ignores its signal, like a hung command
+      createModule('Hung', log, () => new Promise(() => {}), { timeout: 20 }),
+      createModule('Syntax', log, async () => [createIssue({ file: 'a.ts' })]),
+    ];
+
+    const outcomes = await new AnalysisScheduler({}, { concurrency: 2 }).run(
+      modules,
+      (module, signal) => module.analyze({} as never, signal)
+    );
+
+    expect(outcomes.map(outcome => outcome.run)).toEqual([
+      expect.objectContaining({
+        module: 'Hung',
+        status: 'timeout',
+        issues: 0,
+        error: "Analysis module 'Hung' timed out after 20ms",
+      }),
+      expect.objectContaining({
+        module: 'Syntax',
+        status: 'completed',
+        issues: 1,
+      }),
+    ]);
+  });
+
+  it('cancels running and pending modules when the signal aborts', async () => {
+    const log: string[] = [];
+    const controller = new AbortController();
+    const modules = [
+      createModule('Syntax', log, async () => [createIssue({ file: 'a.ts' })]),
+      createModule(
+        'Types',
+        log,
+        signal => {
+          controller.abort();
+          return waitForAbort(signal);
+        },
+        { dependsOn: ['Syntax'] }
+      ),
+      createModule('Deployment', log, undefined, { dependsOn: ['Types'] }),
+    ];
+
+    const outcomes = await new AnalysisScheduler(
+      {},
+      { concurrency: 2, signal: controller.signal }
+    ).run(modules, (module, signal) => module.analyze({} as never, signal));
+
+    expect(outcomes.map(({ run }) => [run.module, run.status])).toEqual([
+      ['Syntax', 'completed'],
+      ['Types', 'cancelled'],
+      ['Deployment', 'cancelled'],
+    ]);
+    expect(log).not.toContain('start Deployment');
+  });
+
+  it('reports progress as modules start and end', async () => {
+    const log: string[] = [];
+    const events: AnalysisProgress[] = [];
+
+    await new AnalysisScheduler(
+      {},
+      { concurrency: 1, onProgress: progress => events.push(progress) }
+    ).run(
+      [
+        createModule('Syntax', log, async () => [
+          createIssue({ file: 'a.ts' }),
+        ]),
+        createModule('Types', log, async () => {
+          throw new Error('tsc crashed');
+        }),
+      ],
+      (module, signal) => module.analyze({} as never, signal)
+    );
+
+    expect(
+      events.map(event => [
+        event.completed,
+        event.modules.map(module => module.state).join(','),
+      ])
+    ).toEqual([
+      [0, 'pending,pending'],
+      [0, 'running,pending'],
+      [1, 'completed,pending'],
+      [1, 'completed,running'],
+      [2, 'completed,failed'],
+    ]);
+    expect(events.at(-1)?.modules[0]).toMatchObject({ issues: 1 });
+  });
+});
+
+describe('ProgressDisplay', () => {
+  it('renders a bar and one line per module', () => {
+    const lines = ProgressDisplay.render(
+      {
+        modules: [
+          {
+            name: 'SyntaxAnalyzer',
+            state: 'completed',
+            durationMs: 1200,
+            issues: 3,
+          },
+          { name: 'TypesAnalyzer', state: 'running', startedAt: 1000 },
+          { name: 'GitAnalyzer', state: 'timeout', durationMs: 300 },
+          { name: 'DeploymentAnalyzer', state: 'pending' },
+        ],
+        completed: 2,
+        total: 4,
+      },
+      6000
+    );
+
+    expect(lines).toEqual([
+      `Analyzing [${'█'.repeat(12)}${'░'.repeat(12)}] 2/4 modules`,
+      '  ✓ SyntaxAnalyzer      1.2s, 3 issues',
+      '  … TypesAnalyzer       5.0s',
+      '  ⏱ GitAnalyzer         300ms, timeout',
+      '  · DeploymentAnalyzer',
+    ]);
+  });
+});
+
+describe('executeCommand cancellation', () => {
+  it('kills the command when the signal aborts', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(
+      executeCommand('node -e "setTimeout(() => {}, 10000)"', {
+        signal: controller.signal,
+        retries: 2,
+      })
+    ).rejects.toMatchObject({ code: 'COMMAND_CANCELLED' });
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it('does not start when the signal has already aborted', async () => {
+    await expect(
+      executeCommand('node -e ""', { signal: AbortSignal.abort() })
+    ).rejects.toBeInstanceOf(CancellationError);
+  });
+});
+
+describe('ProjectAnalyzer cancellation', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'cancellation-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('returns the issues of the modules that finished', async () => {
+    const log: string[] = [];
+    const controller = new AbortController();
+    const analyzer = new ProjectAnalyzer({
+      projectRoot,
+      enabledAnalyzers: [],
+      healthHistory: false,
+    });
+    analyzer.registerModule(
+      createModule('Fast', log, async () => [createIssue({ file: 'a.ts' })])
+    );
+    analyzer.registerModule(
+      createModule(
+        'Slow',
+        log,
+        signal => {
+          controller.abort();
+          return waitForAbort(signal);
+        },
+        { dependsOn: ['Fast'] }
+      )
+    );
+
+    const result = await analyzer.analyze({ signal: controller.signal });
+
+    expect(result.cancelled).toBe(true);
+    expect(result.issues.map(issue => issue.file)).toEqual(['a.ts']);
+    expect(
+      result.modules?.map(({ module, status }) => [module, status])
+    ).toEqual([
+      ['Fast', 'completed'],
+      ['Slow', 'cancelled'],
+    ]);
+  });
+
+  it('cancels on the first Ctrl+C and stops listening afterwards', async () => {
+    const log: string[] = [];
+    const listeners = process.listenerCount('SIGINT');
+    const analyzer = new ProjectAnalyzer({
+      projectRoot,
+      enabledAnalyzers: [],
+      healthHistory: false,
+    });
+    analyzer.registerModule(
+      createModule('Slow', log, signal => {
+        process.emit('SIGINT');
+        return waitForAbort(signal);
+      })
+    );
+
+    const result = await runInterruptibleAnalysis(analyzer);
+
+    expect(result.cancelled).toBe(true);
+    expect(result.modules?.[0].status).toBe('cancelled');
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+  });
+
+  it('lists no fixed baseline issues while a module has no results', async () => {
+    const log: string[] = [];
+    let failing = false;
+    const analyzer = new ProjectAnalyzer({
+      projectRoot,
+      enabledAnalyzers: [],
+      healthHistory: false,
+      baselineFile: 'baseline.json',
+    });
+    analyzer.registerModule(
+      createModule('Fast', log, async () => [createIssue({ file: 'a.ts' })])
+    );
+    analyzer.registerModule(
+      createModule('Flaky', log, async () => {
+        if (failing) throw new Error('tsc crashed');
+        return [createIssue({ file: 'b.ts' })];
+      })
+    );
+    await analyzer.analyze({ updateBaseline: true });
+
+    failing = true;
+    const result = await analyzer.analyze();
+
+    expect(result.baseline).toMatchObject({
+      newIssues: 0,
+      unchanged: 1,
+      fixed: [],
+    });
+  });
+});
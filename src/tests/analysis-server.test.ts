@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AnalysisServer } from '../core/analysis-server';
+import type { ProjectAnalyzer } from '../core/analyzer';
+import type {
+  AnalyzerConfig,
+  CodeIssue,
+  ProjectHealth,
+} from '../types/analysis';
+import { createIssue } from './fixtures/issues';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+  },
+}));
+
+const MISSING_ALT: Partial<CodeIssue> = {
+  id: 'issue-1',
+  type: 'accessibility',
+  severity: { level: 'high', impact: 'major', urgency: 'high' },
+  title: 'Missing Text Alternative',
+  description: '<img> has no alt attribute',
+  file: 'src/pages/index.astro',
+  line: 2,
+  rule: 'a11y-image-alt',
+  category: 'Accessibility',
+  source: 'a11y-scanner',
+  autoFixable: true,
+};
+
+const healthOf = (issues: CodeIssue[]): ProjectHealth => ({
+  score: 100 - issues.length * 10,
+  criticalIssues: 0,
+  highIssues: issues.length,
+  mediumIssues: 0,
+  lowIssues: 0,
+  totalIssues: issues.length,
+  categories: {},
+  trends: { improving: true, velocity: 0, lastCheck: new Date(0) },
+});
+
+const IMAGE = createIssue(MISSING_ALT);
+const SECRET = createIssue({
+  ...MISSING_ALT,
+  id: 'issue-2',
+  type: 'security',
+  severity: { level: 'critical', impact: 'blocking', urgency: 'immediate' },
+  title: 'Hardcoded secret',
+  file: 'src/lib/api.ts',
+  rule: 'hardcoded-secret',
+  category: 'Security',
+  autoFixable: false,
+});
+const STYLE = createIssue({
+  ...MISSING_ALT,
+  id: 'issue-3',
+  severity: { level: 'low', impact: 'minor', urgency: 'low' },
+  file: 'src/lib/api.ts',
+  category: 'Performance',
+});
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+describe('AnalysisServer', () => {
+  let projectRoot: string;
+  let server: AnalysisServer;
+  let port: number;
+  let analyzer: {
+    analyze: ReturnType<typeof vi.fn>;
+    analyzeFile: ReturnType<typeof vi.fn>;
+    calculateProjectHealth: ReturnType<typeof vi.fn>;
+    previewIssueFixes: ReturnType<typeof vi.fn>;
+    applyFixes: ReturnType<typeof vi.fn>;
+    getCacheStats: ReturnType<typeof vi.fn>;
+  };
+
+  const request = (
+    method: string,
+    url: string,
+    body?: string,
+    headers: Record<string, string> = {}
+  ) =>
+    new Promise<Reply>((resolve, reject) => {
+      const req = http.request(
+        { host: '127.0.0.1', port, method, path: url, headers },
+        res => {
+          let data = '';
+          res.on('data', chunk => (data += chunk));
+          res.on('end', () =>
+            resolve({
+              status: res.statusCode ?? 0,
+              headers: res.headers,
+              body: data ? JSON.parse(data) : {},
+            })
+          );
+        }
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+
+  /** Collects the server-sent events of one `/events` connection */
+  const subscribe = () =>
+    new Promise<{ events: Array<{ event: string; data: unknown }> }>(
+      resolve => {
+        const stream = {
+          events: [] as Array<{ event: string; data: unknown }>,
+        };
+        http.get({ host: '127.0.0.1', port, path: '/events' }, res => {
+          let buffer = '';
+          res.on('data', chunk => {
+            buffer += chunk;
+            const blocks = buffer.split('\n\n');
+            buffer = blocks.pop() ?? '';
+            for (const block of blocks) {
+              const event = /^event: (.+)$/m.exec(block)?.[1];
+              const data = /^data: (.+)$/m.exec(block)?.[1];
+              if (event && data) {
+                stream.events.push({ event, data: JSON.parse(data) });
+              }
+            }
+          });
+          resolve(stream);
+        });
+      }
+    );
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-server-'));
+    await fs.mkdir(path.join(projectRoot, 'src/pages'), { recursive: true });
+    await fs.writeFile(path.join(projectRoot, 'src/pages/index.astro'), '');
+
+    const issues = [IMAGE, SECRET, STYLE];
+    analyzer = {
+      analyze: vi.fn().mockResolvedValue({ issues, health: healthOf(issues) }),
+      analyzeFile: vi.fn().mockResolvedValue([]),
+      calculateProjectHealth: vi.fn((current: CodeIssue[]) =>
+        healthOf(current)
+      ),
+      previewIssueFixes: vi.fn().mockResolvedValue({ patches: [], failed: [] }),
+      applyFixes: vi.fn().mockResolvedValue({
+        fixed: [IMAGE],
+        failed: [],
+        skipped: [],
+        verification: { resolved: [IMAGE], unresolved: [], unverified: [] },
+      }),
+      getCacheStats: vi.fn().mockReturnValue(null),
+    };
+
+    server = new AnalysisServer(
+      analyzer as unknown as ProjectAnalyzer,
+      { projectRoot, ignore: [] } as unknown as AnalyzerConfig
+    );
+    port = await server.start({ port: 0, watch: false });
+    // start() analyzes the project in the background
+    await vi.waitFor(async () =>
+      expect((await request('GET', '/health')).body.analyzedAt).toBeTruthy()
+    );
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should report the health of the last analysis', async () => {
+    const { status, body } = await request('GET', '/health');
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      status: 'ok',
+      analyzing: false,
+      analyzedAt: expect.any(String),
+      health: { score: 70, totalIssues: 3 },
+    });
+  });
+
+  it('should filter issues by minimum severity and category', async () => {
+    const severe = await request('GET', '/issues?severity=high');
+    expect(severe.body.issues).toEqual([IMAGE, SECRET]);
+
+    const categories = await request(
+      'GET',
+      '/issues?category=security,performance'
+    );
+    expect(categories.body).toMatchObject({ total: 2 });
+    expect(categories.body.issues).toEqual([SECRET, STYLE]);
+
+    const invalid = await request('GET', '/issues?severity=urgent');
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should re-analyze only the requested paths through the cache', async () => {
+    const fixed = { ...IMAGE, id: 'issue-4', line: 3 };
+    analyzer.analyzeFile.mockResolvedValue([fixed]);
+
+    const { body } = await request(
+      'POST',
+      '/analyze',
+      JSON.stringify({ paths: ['src/pages/index.astro', 'src/lib/api.ts'] })
+    );
+
+    // src/lib/api.ts no longer exists, so its issues are dropped
+    expect(analyzer.analyzeFile).toHaveBeenCalledTimes(1);
+    expect(analyzer.analyzeFile).toHaveBeenCalledWith('src/pages/index.astro');
+    expect(analyzer.analyze).toHaveBeenCalledTimes(1);
+    expect(body).toMatchObject({
+      health: { totalIssues: 1 },
+      issues: [fixed],
+    });
+  });
+
+  it('should stream issue changes to subscribers', async () => {
+    const stream = await subscribe();
+    await vi.waitFor(() => expect(stream.events).toHaveLength(1));
+    expect(stream.events[0]).toMatchObject({
+      event: 'snapshot',
+      data: { issues: [IMAGE, SECRET, STYLE] },
+    });
+
+    analyzer.analyze.mockResolvedValue({
+      issues: [SECRET],
+      health: healthOf([SECRET]),
+    });
+    await request('POST', '/analyze');
+
+    await vi.waitFor(() => expect(stream.events).toHaveLength(2));
+    expect(stream.events[1]).toMatchObject({
+      event: 'issues',
+      data: {
+        added: [],
+        removed: ['issue-1', 'issue-3'],
+        health: { totalIssues: 1 },
+      },
+    });
+  });
+
+  it('should fix current issues without a full analysis', async () => {
+    const preview = await request(
+      'POST',
+      '/fix',
+      JSON.stringify({ issueIds: ['issue-1'], dryRun: true })
+    );
+    expect(preview.status).toBe(200);
+    expect(analyzer.previewIssueFixes).toHaveBeenCalledWith([IMAGE]);
+    expect(analyzer.applyFixes).not.toHaveBeenCalled();
+
+    const applied = await request('POST', '/fix', JSON.stringify({}));
+    expect(applied.body).toMatchObject({ fixed: [IMAGE] });
+    expect(analyzer.previewIssueFixes).toHaveBeenLastCalledWith([IMAGE, STYLE]);
+    expect(analyzer.analyzeFile).toHaveBeenCalledWith('src/pages/index.astro');
+    expect(analyzer.analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid requests', async () => {
+    const unknownIssue = await request(
+      'POST',
+      '/fix',
+      JSON.stringify({ issueIds: ['issue-2'] })
+    );
+    expect(unknownIssue.status).toBe(400);
+    expect(unknownIssue.body.error).toContain('issue-2');
+
+    expect((await request('POST', '/analyze', '{"paths":')).status).toBe(400);
+    expect(
+      (await request('POST', '/analyze', JSON.stringify({ paths: 'src' })))
+        .status
+    ).toBe(400);
+    expect((await request('DELETE', '/issues')).status).toBe(404);
+  });
+
+  it('should only answer pages served from localhost', async () => {
+    const local = await request('GET', '/health', undefined, {
+      Origin: 'http://localhost:4321',
+    });
+    expect(local.headers['access-control-allow-origin']).toBe(
+      'http://localhost:4321'
+    );
+
+    const remote = await request('POST', '/fix', '{}', {
+      Origin: 'https://example.com',
+    });
+    expect(remote.status).toBe(403);
+    expect(analyzer.applyFixes).not.toHaveBeenCalled();
+  });
+});
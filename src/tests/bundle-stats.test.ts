@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PerformanceAnalyzer } from '../analysis/performance';
+import { chunkGroups, moduleGroup, packageOf } from '../utils/bundle-stats';
+import type { BundleStats } from '../utils/bundle-stats';
+import type { AnalyzerConfig } from '../types/analysis';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+const HOME = 'src/pages/index.astro?astro&type=script&index=0&lang.ts';
+const ABOUT = 'src/pages/about.astro?astro&type=script&index=0&lang.ts';
+const COUNTER = 'astro-entry:src/components/Counter.tsx';
+const THREE = 'node_modules/three/build/three.module.js';
+const PREACT = 'node_modules/preact/dist/preact.module.js';
+const NESTED_PREACT =
+  'node_modules/island-kit/node_modules/preact/dist/preact.module.js';
+
+const chunk = (
+  file: string,
+  bytes: number,
+  modules: Record<string, number>,
+  extra: Partial<BundleStats['chunks'][number]> = {}
+): BundleStats['chunks'][number] => ({
+  file,
+  bytes,
+  isEntry: false,
+  isDynamicEntry: false,
+  facadeModule: null,
+  imports: [],
+  dynamicImports: [],
+  css: [],
+  modules: Object.entries(modules).map(([id, size]) => ({ id, bytes: size })),
+  ...extra,
+});
+
+// Both pages load the shared chunk, but only the home page's script uses three
+const STATS: BundleStats = {
+  version: 1,
+  chunks: [
+    chunk(
+      '_astro/home.js',
+      1000,
+      { [HOME]: 1000 },
+      { isEntry: true, facadeModule: HOME, imports: ['_astro/shared.js'] }
+    ),
+    chunk('_astro/shared.js', 156000, {
+      [THREE]: 300000,
+      'src/scripts/scene.ts': 10000,
+      'src/utils/format.ts': 2000,
+    }),
+    chunk(
+      '_astro/about.js',
+      1000,
+      { [ABOUT]: 1000 },
+      { isEntry: true, facadeModule: ABOUT, imports: ['_astro/shared.js'] }
+    ),
+    chunk(
+      '_astro/Counter.js',
+      12000,
+      { [NESTED_PREACT]: 20000, 'src/components/Counter.tsx': 4000 },
+      { isEntry: true, facadeModule: COUNTER }
+    ),
+    chunk(
+      '_astro/preact.js',
+      10000,
+      { [PREACT]: 20000 },
+      { isEntry: true, facadeModule: PREACT }
+    ),
+  ],
+  assets: [],
+  modules: {
+    [HOME]: { imports: ['src/scripts/scene.ts'], dynamicImports: [] },
+    'src/scripts/scene.ts': { imports: [THREE], dynamicImports: [] },
+    [ABOUT]: { imports: ['src/utils/format.ts'], dynamicImports: [] },
+    [COUNTER]: { imports: ['src/components/Counter.tsx'], dynamicImports: [] },
+    'src/components/Counter.tsx': {
+      imports: [NESTED_PREACT],
+      dynamicImports: [],
+    },
+  },
+};
+
+describe('bundle stats attribution', () => {
+  it('should name the innermost package and where it is installed', () => {
+    expect(packageOf('node_modules/@preact/signals/dist/index.js')).toEqual({
+      name: '@preact/signals',
+      path: 'node_modules/@preact/signals',
+    });
+    expect(packageOf(`${NESTED_PREACT}?commonjs-module`)).toEqual({
+      name: 'preact',
+      path: 'node_modules/island-kit/node_modules/preact',
+    });
+    expect(packageOf('src/scripts/scene.ts')).toBeNull();
+  });
+
+  it('should group first-party modules by directory', () => {
+    expect(moduleGroup(COUNTER)).toEqual({
+      name: 'src/components',
+      kind: 'source',
+    });
+    expect(moduleGroup(HOME)).toEqual({ name: 'src/pages', kind: 'source' });
+    expect(moduleGroup(THREE)).toEqual({ name: 'three', kind: 'package' });
+  });
+
+  it('should scale rendered sizes to the emitted chunk size', () => {
+    expect(chunkGroups(STATS.chunks[1])).toEqual([
+      { name: 'three', kind: 'package', bytes: 150000 },
+      { name: 'src/scripts', kind: 'source', bytes: 5000 },
+      { name: 'src/utils', kind: 'source', bytes: 1000 },
+    ]);
+  });
+});
+
+describe('PerformanceAnalyzer bundle checks', () => {
+  let analyzer: PerformanceAnalyzer;
+  let config: AnalyzerConfig;
+
+  const write = async (file: string, content: string) => {
+    const target = path.join(config.projectRoot, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+  };
+  const issuesFor = async (rule: string) =>
+    (await analyzer.analyze(config)).filter(issue => issue.rule === rule);
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    analyzer = new PerformanceAnalyzer();
+    config = {
+      projectRoot: await fs.mkdtemp(path.join(os.tmpdir(), 'bundle-')),
+      enabledAnalyzers: ['performance'],
+      ignore: [],
+      include: [],
+      frameworks: [],
+      severityThreshold: 'low',
+      outputFormat: 'terminal',
+      githubIntegration: false,
+      deploymentChecks: false,
+      autoFix: false,
+      watchMode: false,
+      enableCache: false,
+      site: { basePath: '/repo/' },
+    };
+
+    await write('.cache/bundle-stats.json', JSON.stringify(STATS));
+    await write(
+      'dist/index.html',
+      `<html>
+  <head>
+    <link rel="stylesheet" href="/repo/_astro/index.css">
+    <script type="module" src="/repo/_astro/home.js"></script>
+  </head>
+  <body>
+    <astro-island component-url="/repo/_astro/Counter.js" renderer-url="/repo/_astro/preact.js"></astro-island>
+    <a href="/repo/about/">About</a>
+  </body>
+</html>
+`
+    );
+    await write(
+      'dist/about/index.html',
+      `<html>
+  <head>
+    <script type="module" src="/repo/_astro/about.js"></script>
+  </head>
+</html>
+`
+    );
+    await write('dist/_astro/index.css', 'a'.repeat(120 * 1024));
+    await write(
+      'node_modules/preact/package.json',
+      JSON.stringify({ name: 'preact', version: '10.26.0' })
+    );
+    await write(
+      'node_modules/island-kit/node_modules/preact/package.json',
+      JSON.stringify({ name: 'preact', version: '10.19.0' })
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(config.projectRoot, { recursive: true, force: true });
+  });
+
+  it('should measure what each page loads up front', async () => {
+    await analyzer.analyze(config);
+    const composition = analyzer.getLastComposition();
+
+    expect(composition?.totalBytes).toBe(180000);
+    expect(composition?.chunks[0]).toMatchObject({
+      file: '_astro/shared.js',
+      groups: [
+        { name: 'three' },
+        { name: 'src/scripts' },
+        { name: 'src/utils' },
+      ],
+    });
+    expect(composition?.routes).toEqual([
+      expect.objectContaining({
+        url: '/repo/about/',
+        file: 'dist/about/index.html',
+        jsBytes: 157000,
+        cssBytes: 0,
+      }),
+      expect.objectContaining({
+        url: '/repo/',
+        file: 'dist/index.html',
+        jsBytes: 179000,
+        cssBytes: 120 * 1024,
+      }),
+    ]);
+  });
+
+  it('should report dependencies a page loads without importing them', async () => {
+    const unneeded = await issuesFor('bundle-unneeded-dependency');
+
+    expect(unneeded).toHaveLength(1);
+    expect(unneeded[0]).toMatchObject({
+      file: 'dist/about/index.html',
+      line: 3,
+      description:
+        '/repo/about/ loads 146.5 KB of three, which none of its scripts import; it comes with _astro/shared.js',
+      context: { current: '<script src="/repo/_astro/about.js">' },
+    });
+  });
+
+  it('should report heavy dependencies a page imports up front', async () => {
+    expect(await issuesFor('bundle-heavy-dependency')).toEqual([]);
+
+    config.rules = { 'bundle-heavy-dependency': { options: { maxKb: 100 } } };
+    const heavy = await issuesFor('bundle-heavy-dependency');
+
+    expect(heavy.map(issue => [issue.file, issue.description])).toEqual([
+      [
+        'dist/index.html',
+        '/repo/ loads 146.5 KB of three before the page runs',
+      ],
+    ]);
+  });
+
+  it('should report packages bundled from several install directories', async () => {
+    const duplicates = await issuesFor('bundle-duplicate-package');
+
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0]).toMatchObject({
+      file: 'dist/_astro/Counter.js',
+      description:
+        'preact is bundled 2 times: 10.19.0 from node_modules/island-kit/node_modules/preact in _astro/Counter.js; 10.26.0 from node_modules/preact in _astro/preact.js',
+      metadata: {
+        relatedFiles: ['dist/_astro/Counter.js', 'dist/_astro/preact.js'],
+      },
+    });
+  });
+
+  it('should enforce the per-page budgets', async () => {
+    const budgets = await issuesFor('bundle-route-budget');
+
+    expect(budgets.map(issue => [issue.file, issue.description])).toEqual([
+      ['dist/index.html', '/repo/ loads 120 KB of CSS, over its 100 KB budget'],
+    ]);
+  });
+
+  it('should point size limits at the offending output file', async () => {
+    config.rules = {
+      'bundle-size': {
+        options: { maxSingleJsKb: 100, maxSingleCssKb: 100 },
+      },
+    };
+    const sizes = await issuesFor('bundle-size');
+
+    expect(sizes.map(issue => [issue.file, issue.description])).toEqual([
+      [
+        'dist/_astro/shared.js',
+        '_astro/shared.js is 152.3 KB, over the 100 KB chunk limit; largest parts: three 146.5 KB, src/scripts 4.9 KB, src/utils 1000 Bytes',
+      ],
+      [
+        'dist/_astro/index.css',
+        '_astro/index.css is 120 KB, over the 100 KB stylesheet limit',
+      ],
+    ]);
+  });
+
+  it('should skip projects built without bundle stats', async () => {
+    await fs.rm(path.join(config.projectRoot, '.cache'), { recursive: true });
+    const issues = await analyzer.analyze(config);
+
+    expect(issues.filter(issue => issue.rule.startsWith('bundle-'))).toEqual(
+      []
+    );
+    expect(analyzer.getLastComposition()).toBeNull();
+  });
+});
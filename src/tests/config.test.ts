@@ -1,4 +1,8 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { ConfigLoader } from '../config/config-loader';
 import { AnalyzerConfigSchema } from '../config/schema';
 import { ConfigurationError } from '../errors';
@@ -39,6 +43,8 @@ describe('Configuration System', () => {
         watchMode: false,
         enableCache: true,
         concurrencyLimit: 4,
+        unscopedAnalyzers: 'skip' as const,
+        healthHistory: true,
       };
 
       const result = AnalyzerConfigSchema.parse(validConfig);
@@ -77,6 +83,10 @@ describe('Configuration System', () => {
         'accessibility',
         'git',
         'deployment',
+        'dependencies',
+        'duplication',
+        'licenses',
+        'site',
       ]);
       expect(result.severityThreshold).toBe('low');
       expect(result.outputFormat).toBe('terminal');
@@ -84,6 +94,8 @@ describe('Configuration System', () => {
       expect(result.deploymentChecks).toBe(true);
       expect(result.autoFix).toBe(false);
       expect(result.watchMode).toBe(false);
+      expect(result.unscopedAnalyzers).toBe('skip');
+      expect(result.healthHistory).toBe(true);
     });
 
     it('should reject invalid severity threshold', () => {
@@ -165,6 +177,47 @@ describe('Configuration System', () => {
       expect(result.ignore).toEqual(['custom-ignore']); // From file
     });
 
+    it('should not let unset CLI options mask file configuration', async () => {
+      const readFile = async () =>
+        JSON.stringify({ baselineFile: '.analyzer-baseline.json' });
+
+      const result = await ConfigLoader.loadConfig(
+        { baselineFile: undefined, severityThreshold: undefined },
+        readFile
+      );
+
+      expect(result.baselineFile).toBe('.analyzer-baseline.json');
+      expect(result.severityThreshold).toBe('low');
+    });
+
+    it('should let CLI reports replace the outputs from the file', async () => {
+      const readFile = async () =>
+        JSON.stringify({
+          outputs: [
+            { format: 'sarif', path: 'reports/analysis.sarif' },
+            { format: 'junit', path: 'reports/junit.xml' },
+          ],
+        });
+
+      const fromFile = await ConfigLoader.loadConfig({}, readFile);
+      expect(fromFile.outputs).toEqual([
+        { format: 'sarif', path: 'reports/analysis.sarif' },
+        { format: 'junit', path: 'reports/junit.xml' },
+      ]);
+
+      const fromCli = await ConfigLoader.loadConfig(
+        { outputs: [{ format: 'terminal' }] },
+        readFile
+      );
+      expect(fromCli.outputs).toEqual([{ format: 'terminal' }]);
+
+      await expect(
+        ConfigLoader.loadConfig({}, async () =>
+          JSON.stringify({ outputs: [{ format: 'pdf' }] })
+        )
+      ).rejects.toThrow(ConfigurationError);
+    });
+
     it('should handle invalid JSON in config file', async () => {
       const invalidReader = async () => '{ invalid json }';
 
@@ -197,6 +250,167 @@ describe('Configuration System', () => {
     });
   });
 
+  describe('Layered configuration', () => {
+    let projectRoot: string;
+    const write = async (file: string, content: string) => {
+      await fs.mkdir(path.dirname(path.join(projectRoot, file)), {
+        recursive: true,
+      });
+      await fs.writeFile(path.join(projectRoot, file), content);
+    };
+
+    beforeEach(async () => {
+      projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'layered-config-'));
+      await write(
+        'node_modules/@acme/analyzer-preset/package.json',
+        JSON.stringify({ name: '@acme/analyzer-preset', main: 'preset.yaml' })
+      );
+      await write(
+        'node_modules/@acme/analyzer-preset/preset.yaml',
+        [
+          'extends: ./base.json',
+          'severityThreshold: medium',
+          'rules:',
+          '  lazy-loading: high',
+          'overrides:',
+          "  - files: ['e2e/**']",
+          '    rules:',
+          "      hardcoded-secret: 'off'",
+        ].join('\n')
+      );
+      await write(
+        'node_modules/@acme/analyzer-preset/base.json',
+        JSON.stringify({
+          ignore: ['vendor'],
+          plugins: ['./plugin.js'],
+          rules: { TS2532: 'critical' },
+        })
+      );
+      await write('node_modules/@acme/analyzer-preset/plugin.js', '');
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should layer presets, the project file and CLI options', async () => {
+      await write(
+        '.analyzer.yaml',
+        [
+          'extends: "@acme/analyzer-preset"',
+          'rules:',
+          '  TS2532: low',
+          'overrides:',
+          "  - files: ['src/pages/**']",
+          '    rules:',
+          '      lazy-loading: info',
+        ].join('\n')
+      );
+
+      const { config, sources } = await ConfigLoader.resolveConfig({
+        projectRoot,
+        outputFormat: 'json',
+      });
+
+      expect(config.severityThreshold).toBe('medium');
+      expect(config.ignore).toEqual(['vendor']);
+      expect(config.rules).toEqual({ TS2532: 'low', 'lazy-loading': 'high' });
+      expect(config.overrides?.map(override => override.files)).toEqual([
+        ['e2e/**'],
+        ['src/pages/**'],
+      ]);
+      // Relative plugins resolve next to the preset that lists them
+      expect(config.plugins).toEqual([
+        path.join(projectRoot, 'node_modules/@acme/analyzer-preset/plugin.js'),
+      ]);
+      expect(sources).toMatchObject({
+        severityThreshold: 'node_modules/@acme/analyzer-preset/preset.yaml',
+        'rules.TS2532': '.analyzer.yaml',
+        'overrides[1]': '.analyzer.yaml',
+        outputFormat: 'CLI options',
+      });
+
+      const forPage = ConfigLoader.forFile(
+        { config, sources },
+        path.join(projectRoot, 'src/pages/index.astro')
+      );
+      expect(ConfigLoader.listValues(forPage)).toEqual(
+        expect.arrayContaining([
+          {
+            key: 'rules.lazy-loading',
+            value: 'info',
+            source: '.analyzer.yaml (overrides[1])',
+          },
+          { key: 'enableCache', value: true, source: 'default' },
+        ])
+      );
+    });
+
+    it('should print the configuration of a file relative to the project root', async () => {
+      await write(
+        '.analyzer.json',
+        JSON.stringify({
+          overrides: [
+            { files: ['src/pages/**'], rules: { 'lazy-loading': 'info' } },
+          ],
+        })
+      );
+
+      // Run from the repository, not the project, like a monorepo script
+      const output = execFileSync(
+        path.join(process.cwd(), 'node_modules/.bin/tsx'),
+        [
+          path.join(process.cwd(), 'src/utils/error-reviewer-cli.ts'),
+          '--projectRoot',
+          projectRoot,
+          '--printConfig',
+          'src/pages/index.astro',
+        ],
+        { encoding: 'utf-8', stdio: 'pipe' }
+      );
+
+      expect(output).toContain('Configuration for src/pages/index.astro');
+      expect(output).toMatch(
+        /rules\.lazy-loading\s+"info"\s+\(\.analyzer\.json/
+      );
+    }, 60_000);
+
+    it('should load analyzer.config.ts', async () => {
+      const config = await ConfigLoader.loadConfig({
+        projectRoot: path.join(__dirname, 'fixtures', 'analyzer-config'),
+      });
+
+      expect(config.autoFix).toBe(true);
+      expect(config.severityThreshold).toBe('medium');
+      expect(config.rules).toEqual({
+        TS2532: 'critical',
+        'lazy-loading': 'off',
+      });
+    });
+
+    it('should point validation errors at the file and key', async () => {
+      await write(
+        '.analyzer.yml',
+        ['overrides:', '  - rules:', '      TS2532: warn'].join('\n')
+      );
+
+      const error = await ConfigLoader.loadConfig({ projectRoot }).catch(
+        (caught: unknown) => caught
+      );
+      expect(error).toBeInstanceOf(ConfigurationError);
+      expect((error as ConfigurationError).configKey).toBe(
+        'overrides[0].files'
+      );
+      expect((error as Error).message).toContain('.analyzer.yml');
+
+      await write('.analyzer.json', JSON.stringify({ extends: './a.json' }));
+      await write('a.json', JSON.stringify({ extends: './.analyzer.json' }));
+      await expect(ConfigLoader.loadConfig({ projectRoot })).rejects.toThrow(
+        'Circular configuration: .analyzer.json -> a.json -> .analyzer.json'
+      );
+    });
+  });
+
   describe('Configuration Validation Edge Cases', () => {
     it('should handle empty arrays in configuration', () => {
       const configWithEmptyArrays = {
@@ -236,5 +450,23 @@ describe('Configuration System', () => {
 
       expect(() => AnalyzerConfigSchema.parse(invalidConfig)).toThrow();
     });
+
+    it('should validate per-rule settings', () => {
+      const result = AnalyzerConfigSchema.parse({
+        rules: {
+          TS2532: 'critical',
+          'lazy-loading': 'off',
+          'image-optimization': { severity: 'low', options: { maxKb: 400 } },
+        },
+      });
+      expect(result.rules?.['image-optimization']).toEqual({
+        severity: 'low',
+        options: { maxKb: 400 },
+      });
+
+      expect(() =>
+        AnalyzerConfigSchema.parse({ rules: { TS2532: 'warn' } })
+      ).toThrow();
+    });
   });
 });
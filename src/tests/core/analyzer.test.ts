@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { ProjectAnalyzer } from '../../core/analyzer';
 import { ConfigLoader } from '../../config/config-loader';
+import { AnalysisBaseline } from '../../utils/analysis-baseline';
+import { IssueSuppressions } from '../../utils/issue-suppressions';
+import { HealthHistory } from '../../utils/health-history';
 
 // Hoist mocks
 const { mockAnalyze, MockAnalyzer } = vi.hoisted(() => {
@@ -36,6 +39,18 @@ vi.mock('../../utils/logger', () => ({
 }));
 
 vi.mock('../../utils/analysis-cache');
+vi.mock('../../utils/analysis-baseline');
+vi.mock('../../utils/issue-suppressions', () => ({
+  IssueSuppressions: vi.fn().mockImplementation(function () {
+    return {
+      apply: vi.fn().mockImplementation(async issues => ({
+        issues,
+        suppressions: [],
+        findings: [],
+      })),
+    };
+  }),
+}));
 
 // Mock analyzers
 vi.mock('../../analysis/syntax', () => ({ SyntaxAnalyzer: MockAnalyzer }));
@@ -51,6 +66,16 @@ vi.mock('../../analysis/git', () => ({ GitAnalyzer: MockAnalyzer }));
 vi.mock('../../analysis/deployment', () => ({
   DeploymentAnalyzer: MockAnalyzer,
 }));
+vi.mock('../../analysis/dependencies', () => ({
+  DependencyAnalyzer: MockAnalyzer,
+}));
+vi.mock('../../analysis/duplication', () => ({
+  DuplicationAnalyzer: MockAnalyzer,
+}));
+vi.mock('../../analysis/licenses', () => ({
+  LicenseAnalyzer: MockAnalyzer,
+}));
+vi.mock('../../analysis/site', () => ({ SiteAnalyzer: MockAnalyzer }));
 
 // Mock fs/promises
 vi.mock('fs/promises', () => ({
@@ -72,7 +97,7 @@ describe('ProjectAnalyzer', () => {
 
   it('should initialize with default modules', () => {
     new ProjectAnalyzer();
-    expect(MockAnalyzer).toHaveBeenCalledTimes(7); // 7 modules
+    expect(MockAnalyzer).toHaveBeenCalledTimes(11); // 11 modules
   });
 
   it('should run analysis', async () => {
@@ -117,4 +142,267 @@ describe('ProjectAnalyzer', () => {
     const fs = await import('fs/promises');
     expect(fs.writeFile).toHaveBeenCalled();
   });
+
+  it('should preview fixes as hunks without writing files', async () => {
+    const fs = await import('fs/promises');
+    const content = ['const a = 1;', 'const b = 2;', 'const c = 3;', ''].join(
+      '\n'
+    );
+    vi.mocked(fs.readFile).mockResolvedValueOnce(content);
+    mockAnalyze.mockResolvedValueOnce([
+      {
+        id: 'fixable1',
+        file: 'src/test.ts',
+        line: 2,
+        autoFixable: true,
+        suggestion: 'Fix me',
+        category: 'style',
+        severity: { level: 'medium' },
+      },
+      {
+        id: 'config1',
+        file: 'package.json',
+        line: 1,
+        autoFixable: true,
+        suggestion: 'Run npm audit fix',
+        category: 'Security',
+        severity: { level: 'high' },
+      },
+    ]);
+
+    const preview = await new ProjectAnalyzer().previewFixes();
+
+    expect(preview.patches).toHaveLength(1);
+    expect(preview.patches[0].file).toBe('src/test.ts');
+    expect(preview.patches[0].patched).toContain('const b = 2; // Fix me');
+    expect(preview.patches[0].hunks).toHaveLength(1);
+    expect(preview.failed.map(({ issue }) => issue.id)).toEqual(['config1']);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should apply only accepted hunks and re-check the fixed issues', async () => {
+    const fs = await import('fs/promises');
+    const content = Array.from({ length: 20 }, (_, i) => `line${i + 1}`).join(
+      '\n'
+    );
+    const issue = (id: string, line: number) => ({
+      id,
+      file: 'test.ts',
+      line,
+      rule: 'style-rule',
+      autoFixable: true,
+      suggestion: `Fix ${id}`,
+      category: 'style',
+      severity: { level: 'medium' },
+    });
+    vi.mocked(fs.readFile)
+      .mockResolvedValueOnce(content)
+      .mockResolvedValueOnce(content);
+    mockAnalyze.mockResolvedValueOnce([
+      issue('first', 2),
+      issue('last', 18),
+      issue('other', 5),
+    ]);
+
+    const analyzer = new ProjectAnalyzer();
+    const preview = await analyzer.previewFixes();
+    expect(preview.patches[0].hunks).toHaveLength(2);
+
+    // The re-run still reports the issue on line 5
+    mockAnalyze.mockResolvedValueOnce([issue('rerun', 5)]);
+
+    const result = await analyzer.applyFixes(
+      preview,
+      (_patch, hunk) => hunk.oldStart < 10
+    );
+
+    expect(result.fixed.map(fixed => fixed.id)).toEqual(['first', 'other']);
+    expect(result.skipped.map(skipped => skipped.id)).toEqual(['last']);
+    expect(result.verification.resolved.map(({ id }) => id)).toEqual(['first']);
+    expect(result.verification.unresolved.map(({ id }) => id)).toEqual([
+      'other',
+    ]);
+    expect(mockAnalyze).toHaveBeenLastCalledWith(
+      expect.objectContaining({ files: ['test.ts'] })
+    );
+
+    const written = vi
+      .mocked(fs.writeFile)
+      .mock.calls.find(([file]) => String(file).endsWith('test.ts'));
+    expect(written?.[1]).toContain('line2 // Fix first');
+    expect(written?.[1]).toContain('line5 // Fix other');
+    expect(written?.[1]).not.toContain('Fix last');
+  });
+
+  it('should write the baseline when updating it', async () => {
+    const analyzer = new ProjectAnalyzer();
+    const issue = { id: 'a', severity: { level: 'low' }, category: 'style' };
+    mockAnalyze.mockResolvedValueOnce([issue]);
+
+    const result = await analyzer.analyze({ updateBaseline: true });
+
+    const instance = vi.mocked(AnalysisBaseline).mock.instances[0];
+    expect(instance.write).toHaveBeenCalledWith([issue]);
+    expect(result.issues).toHaveLength(1);
+    expect(result.baseline).toBeUndefined();
+  });
+
+  it('should report only new issues against a baseline', async () => {
+    const known = { id: 'known', severity: { level: 'high' }, category: 'a' };
+    const added = { id: 'new', severity: { level: 'low' }, category: 'b' };
+    const comparison = {
+      file: 'b.json',
+      newIssues: 1,
+      unchanged: 1,
+      fixed: [],
+    };
+    vi.mocked(AnalysisBaseline.prototype.load).mockResolvedValueOnce([]);
+    vi.mocked(AnalysisBaseline.prototype.compare).mockReturnValueOnce({
+      issues: [added] as never,
+      comparison,
+    });
+    mockAnalyze.mockResolvedValueOnce([known, added]);
+
+    const analyzer = new ProjectAnalyzer({ baselineFile: 'b.json' });
+    const result = await analyzer.analyze();
+
+    expect(result.issues.map(issue => issue.id)).toEqual(['new']);
+    expect(result.baseline).toEqual(comparison);
+    // Health still reflects every current issue
+    expect(result.health.totalIssues).toBe(2);
+  });
+
+  it('should drop suppressed issues before calculating health', async () => {
+    const kept = { id: 'kept', severity: { level: 'high' }, category: 'a' };
+    const silenced = {
+      id: 'quiet',
+      severity: { level: 'high' },
+      category: 'a',
+    };
+    const suppression = {
+      file: 'src/a.ts',
+      line: 1,
+      targetLine: 2,
+      rules: ['TS2532'],
+      reason: 'checked by caller',
+      status: 'used' as const,
+      suppressed: 1,
+    };
+    vi.mocked(IssueSuppressions).mockImplementationOnce(function () {
+      return {
+        apply: vi.fn().mockResolvedValue({
+          issues: [kept],
+          suppressions: [suppression],
+          findings: [
+            {
+              type: 'suppression',
+              severity: { level: 'info', impact: 'cosmetic', urgency: 'low' },
+              title: 'Unused Suppression',
+              description: 'Suppression for x does not match any issue',
+              file: 'src/b.ts',
+              line: 3,
+              rule: 'unused-suppression',
+              category: 'Suppressions',
+              source: 'issue-suppressions',
+              autoFixable: false,
+            },
+          ],
+        }),
+      } as unknown as IssueSuppressions;
+    });
+    mockAnalyze.mockResolvedValueOnce([kept, silenced]);
+
+    const result = await new ProjectAnalyzer().analyze();
+
+    expect(result.issues.map(issue => issue.rule ?? issue.id)).toEqual([
+      'kept',
+      'unused-suppression',
+    ]);
+    expect(result.health.highIssues).toBe(1);
+    expect(result.suppressions).toEqual([suppression]);
+  });
+
+  it('should record health history and derive trends from it', async () => {
+    const snapshot = {
+      commit: 'abc1234',
+      timestamp: '2026-10-01T00:00:00.000Z',
+      score: 90,
+      criticalIssues: 0,
+      highIssues: 0,
+      mediumIssues: 0,
+      lowIssues: 0,
+      totalIssues: 0,
+      categories: {},
+    };
+    const history = [
+      snapshot,
+      { ...snapshot, commit: 'def5678', score: 80, lowIssues: 1 },
+    ];
+    vi.spyOn(HealthHistory.prototype, 'currentCommit').mockResolvedValueOnce(
+      'def5678'
+    );
+    const record = vi
+      .spyOn(HealthHistory.prototype, 'record')
+      .mockResolvedValueOnce(history);
+
+    const result = await new ProjectAnalyzer({
+      healthHistory: true,
+    }).analyze();
+
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({ score: 100 }),
+      'def5678'
+    );
+    expect(result.history).toEqual(history);
+    expect(result.health.trends).toMatchObject({
+      improving: false,
+      velocity: -10,
+    });
+  });
+
+  it('should only run modules that can scope to the given files', async () => {
+    const scoped = {
+      name: 'ScopedAnalyzer',
+      supportsFileScope: true,
+      canAnalyze: vi.fn().mockReturnValue(true),
+      analyze: mockAnalyze,
+    };
+    MockAnalyzer.mockImplementationOnce(function () {
+      return scoped;
+    });
+    const load = vi
+      .spyOn(HealthHistory.prototype, 'load')
+      .mockResolvedValueOnce([]);
+    const record = vi.spyOn(HealthHistory.prototype, 'record');
+
+    const analyzer = new ProjectAnalyzer({
+      files: ['src/a.ts'],
+      unscopedAnalyzers: 'skip',
+      healthHistory: true,
+    });
+    const result = await analyzer.analyze();
+
+    expect(mockAnalyze).toHaveBeenCalledOnce();
+    expect(mockAnalyze).toHaveBeenCalledWith(
+      expect.objectContaining({ files: ['src/a.ts'] }),
+      expect.any(AbortSignal)
+    );
+    expect(result.scope).toMatchObject({ files: ['src/a.ts'] });
+    expect(result.scope?.skippedModules).toHaveLength(10);
+    // Partial runs read the history but never add to it
+    expect(load).toHaveBeenCalled();
+    expect(record).not.toHaveBeenCalled();
+
+    await expect(analyzer.analyze({ updateBaseline: true })).rejects.toThrow();
+  });
+
+  it('should run unscoped modules in full when configured to', async () => {
+    const result = await new ProjectAnalyzer({
+      files: ['src/a.ts'],
+      unscopedAnalyzers: 'run',
+    }).analyze();
+
+    expect(mockAnalyze).toHaveBeenCalledTimes(11);
+    expect(result.scope?.skippedModules).toEqual([]);
+  });
 });
@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DependencyAnalyzer } from '../analysis/dependencies';
+import { AnalysisError } from '../errors';
+import { ModuleGraph } from '../utils/module-graph';
+import type { AnalyzerConfig } from '../types/analysis';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+describe('DependencyAnalyzer', () => {
+  let analyzer: DependencyAnalyzer;
+  let config: AnalyzerConfig;
+
+  const writeSource = async (name: string, lines: string[]) => {
+    const file = path.join(config.projectRoot, name);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, lines.join('\n'));
+  };
+
+  const issuesFor = async (rule: string) =>
+    (await analyzer.analyze(config))
+      .filter(issue => issue.rule === rule)
+      .map(issue => ({
+        file: issue.file,
+        line: issue.line,
+        column: issue.column,
+        description: issue.description,
+      }));
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    analyzer = new DependencyAnalyzer();
+    config = {
+      projectRoot: await fs.mkdtemp(path.join(os.tmpdir(), 'dependencies-')),
+      enabledAnalyzers: ['dependencies'],
+      ignore: [],
+      include: [],
+      frameworks: ['astro'],
+      severityThreshold: 'low',
+      outputFormat: 'terminal',
+      githubIntegration: false,
+      deploymentChecks: false,
+      autoFix: false,
+      watchMode: false,
+      enableCache: false,
+    };
+    await writeSource('tsconfig.json', [
+      JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }),
+    ]);
+  });
+
+  afterEach(async () => {
+    await fs.rm(config.projectRoot, { recursive: true, force: true });
+  });
+
+  describe('canAnalyze', () => {
+    it('should run when dependencies is enabled', () => {
+      expect(analyzer.canAnalyze(config)).toBe(true);
+      expect(
+        analyzer.canAnalyze({ ...config, enabledAnalyzers: ['types'] })
+      ).toBe(false);
+    });
+  });
+
+  it('should report circular imports with their cycle path', async () => {
+    await writeSource('src/pages/index.astro', [
+      '---',
+      "import { a } from '../lib/a';",
+      '---',
+      '<p>{a}</p>',
+    ]);
+    await writeSource('src/lib/a.ts', [
+      "import { b } from './b';",
+      'export const a = b;',
+    ]);
+    await writeSource('src/lib/b.ts', [
+      "import { c } from './c.js';",
+      'export const b = c;',
+    ]);
+    await writeSource('src/lib/c.ts', [
+      "import type { A } from './types';",
+      "import { a } from './a';",
+      'export const c = () => a;',
+    ]);
+    // Type-only cycles are erased at runtime and not reported
+    await writeSource('src/lib/types.ts', [
+      "import type { c } from './c';",
+      'export type A = typeof c;',
+    ]);
+
+    const issues = (await analyzer.analyze(config)).filter(
+      issue => issue.rule === 'dependency-cycle'
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      type: 'dependency',
+      severity: { level: 'medium' },
+      description:
+        'Circular import: src/lib/a.ts → src/lib/b.ts → src/lib/c.ts → src/lib/a.ts',
+      file: 'src/lib/a.ts',
+      line: 1,
+      column: 1,
+      context: { current: "import { b } from './b';" },
+      metadata: { relatedFiles: ['src/lib/b.ts:1:1', 'src/lib/c.ts:2:1'] },
+    });
+  });
+
+  it('should report exports that nothing imports, through barrels and aliases', async () => {
+    await writeSource('src/pages/index.astro', [
+      '---',
+      "import { clamp, lerp } from '@/utils';",
+      "import * as format from '../utils/format';",
+      "import Card from '../components/Card.astro';",
+      '---',
+      '<Card value={clamp(lerp(1, 2, 0.5), 0, 1)} label={format.label} />',
+    ]);
+    await writeSource('src/components/Card.astro', [
+      '---',
+      'export interface Props { value: number; label: string }',
+      '---',
+      '<div>{Astro.props.value}</div>',
+    ]);
+    await writeSource('src/utils/index.ts', [
+      "export * from './math';",
+      "export { lerp as interpolate } from './math';",
+    ]);
+    await writeSource('src/utils/math.ts', [
+      'export const clamp = (v: number, min: number, max: number) =>',
+      '  Math.min(Math.max(v, min), max);',
+      'export function lerp(a: number, b: number, t: number) {',
+      '  return a + (b - a) * t;',
+      '}',
+      'export function round(value: number) {',
+      '  return Math.round(value);',
+      '}',
+    ]);
+    await writeSource('src/utils/format.ts', [
+      "export const label = 'x';",
+      "export const unusedButNamespaced = 'y';",
+    ]);
+
+    expect(await issuesFor('dependency-unused-export')).toEqual([
+      {
+        file: 'src/utils/math.ts',
+        line: 6,
+        column: 17,
+        description: "Export 'round' is never imported",
+      },
+    ]);
+  });
+
+  it('should report files that no page or entrypoint reaches', async () => {
+    await writeSource('package.json', [
+      JSON.stringify({ scripts: { audit: 'tsx src/cli/audit.ts --json' } }),
+    ]);
+    await writeSource('src/pages/index.astro', [
+      '---',
+      "import Layout from '../layouts/Layout.astro';",
+      '---',
+      '<Layout />',
+    ]);
+    await writeSource('src/layouts/Layout.astro', [
+      '<main></main>',
+      '<script>',
+      "  import '../scripts/menu';",
+      '</script>',
+    ]);
+    await writeSource('src/scripts/menu.ts', ['document.title = "menu";']);
+    await writeSource('src/cli/audit.ts', ["import '../lib/report';"]);
+    await writeSource('src/lib/report.ts', ['console.log("report");']);
+    await writeSource('src/lib/legacy.ts', ['export const legacy = true;']);
+    await writeSource('src/lib/legacy.test.ts', ["import './legacy';"]);
+
+    expect(await issuesFor('dependency-unreachable-file')).toEqual([
+      {
+        file: 'src/lib/legacy.ts',
+        line: 1,
+        column: 1,
+        description:
+          'src/lib/legacy.ts is not imported, directly or indirectly, by any page or entrypoint',
+      },
+    ]);
+
+    config.rules = {
+      'dependency-unreachable-file': {
+        options: { entrypoints: ['src/pages/**', 'src/lib/legacy.ts'] },
+      },
+    };
+    expect(await issuesFor('dependency-unreachable-file')).toEqual([]);
+  });
+
+  it('should follow imports through ignored files without reporting them', async () => {
+    config.ignore = ['src/utils/**'];
+    await writeSource('package.json', [
+      JSON.stringify({ scripts: { review: 'tsx src/utils/cli.ts' } }),
+    ]);
+    await writeSource('src/pages/index.astro', [
+      '---',
+      "import { check } from '../utils/check';",
+      '---',
+      '<p>{check()}</p>',
+    ]);
+    await writeSource('src/utils/check.ts', [
+      "import { ROLES } from '../config/aria';",
+      'export const check = () => ROLES.length;',
+      'export const unused = 1;',
+    ]);
+    await writeSource('src/utils/cli.ts', ["import '../core/server';"]);
+    await writeSource('src/utils/orphan.ts', ['export const orphan = 1;']);
+    await writeSource('src/config/aria.ts', [
+      "export const ROLES = ['button'];",
+    ]);
+    await writeSource('src/core/server.ts', ['export const start = () => {};']);
+
+    const issues = await analyzer.analyze(config);
+
+    expect(
+      issues.filter(issue => issue.rule === 'dependency-unreachable-file')
+    ).toEqual([]);
+    expect(
+      issues
+        .filter(issue => issue.rule === 'dependency-unused-export')
+        .map(issue => `${issue.file}: ${issue.description}`)
+    ).toEqual(["src/core/server.ts: Export 'start' is never imported"]);
+  });
+
+  it('should treat src/cli modules as entrypoints', async () => {
+    await writeSource('src/pages/index.astro', ['<p>home</p>']);
+    await writeSource('src/cli/lsp.ts', ["import '../core/language-server';"]);
+    await writeSource('src/core/language-server.ts', ['console.log("lsp");']);
+
+    expect(await issuesFor('dependency-unreachable-file')).toEqual([]);
+  });
+
+  it('should report imports that cross a layer boundary', async () => {
+    await writeSource('src/pages/index.astro', [
+      '---',
+      "import { format } from '../utils/format';",
+      '---',
+      '<p>{format()}</p>',
+    ]);
+    await writeSource('src/utils/format.ts', [
+      "import { theme } from '@/components/theme';",
+      'export const format = () => theme;',
+    ]);
+    await writeSource('src/components/theme.ts', [
+      "export const theme = 'dark';",
+    ]);
+
+    expect(await issuesFor('dependency-layering')).toEqual([
+      {
+        file: 'src/utils/format.ts',
+        line: 1,
+        column: 1,
+        description:
+          'src/utils/format.ts imports src/components/theme.ts, but src/utils must not depend on src/components',
+      },
+    ]);
+
+    config.rules = {
+      'dependency-layering': { options: { layers: { 'src/pages': [] } } },
+    };
+    expect(await issuesFor('dependency-layering')).toEqual([]);
+  });
+
+  it('should follow dynamic imports and import.meta.glob', async () => {
+    await writeSource('src/pages/index.astro', [
+      '---',
+      "const posts = import.meta.glob('../content/**/*.ts');",
+      "const chart = await import('../lib/chart');",
+      '---',
+    ]);
+    await writeSource('src/content/2024/post.ts', ['export const title = 1;']);
+    await writeSource('src/lib/chart.ts', ['export const draw = () => 1;']);
+
+    const moduleGraph = await ModuleGraph.build(config.projectRoot);
+
+    expect(moduleGraph.graph.getNeighbors('src/pages/index.astro')).toEqual([
+      'src/content/2024/post.ts',
+      'src/lib/chart.ts',
+    ]);
+    await expect(issuesFor('dependency-unused-export')).resolves.toEqual([]);
+  });
+
+  it('should fail with an AnalysisError when the graph cannot be built', async () => {
+    vi.spyOn(ModuleGraph, 'build').mockRejectedValueOnce(new Error('boom'));
+
+    await expect(analyzer.analyze(config)).rejects.toThrow(AnalysisError);
+  });
+});
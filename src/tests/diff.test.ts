@@ -6,6 +6,9 @@ import {
   diffChars,
   diffWords,
   diffLines,
+  diffHunks,
+  formatHunk,
+  applyHunks,
   unifiedDiff,
   diffArrays,
   applyTextPatch,
@@ -157,6 +160,97 @@ describe('Diff Utilities', () => {
       expect(diff).toContain('--- old.txt');
       expect(diff).toContain('+++ new.txt');
     });
+
+    it('should number hunks from their first context line', () => {
+      const old = ['1', '2', '3', '4', '5', '6', '7', ''].join('\n');
+      const newText = ['1', '2', '3', '4', 'five', '6', '7', ''].join('\n');
+
+      expect(unifiedDiff(old, newText, 'a/f', 'b/f')).toBe(
+        [
+          '--- a/f',
+          '+++ b/f',
+          '@@ -2,6 +2,6 @@',
+          ' 2',
+          ' 3',
+          ' 4',
+          '-5',
+          '+five',
+          ' 6',
+          ' 7',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('diffHunks', () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+
+    it('should split distant changes into separate hunks', () => {
+      const changed = [...old];
+      changed[1] = 'second';
+      changed[17] = 'eighteenth';
+
+      const hunks = diffHunks(old.join('\n'), changed.join('\n'), 2);
+
+      expect(hunks).toHaveLength(2);
+      expect(hunks.map(hunk => [hunk.oldStart, hunk.oldCount])).toEqual([
+        [1, 4],
+        [16, 5],
+      ]);
+      expect(formatHunk(hunks[1]).split('\n')[0]).toBe('@@ -16,5 +16,5 @@');
+    });
+
+    it('should merge changes whose context overlaps', () => {
+      const changed = [...old];
+      changed[4] = 'five';
+      changed[8] = 'nine';
+
+      expect(diffHunks(old.join('\n'), changed.join('\n'), 2)).toHaveLength(1);
+    });
+
+    it('should start an empty side at the line before the hunk', () => {
+      const [hunk] = diffHunks('a\nb\n', 'a\nb\nc\n', 0);
+
+      expect(formatHunk(hunk)).toBe('@@ -2,0 +3,1 @@\n+c');
+    });
+  });
+
+  describe('applyHunks', () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join(
+      '\n'
+    );
+    const changed = old
+      .replace('line 2\n', 'line 2\ninserted\n')
+      .replace('line 18', 'eighteenth')
+      .concat('\n');
+
+    it('should reproduce the new text from all hunks', () => {
+      expect(applyHunks(old, diffHunks(old, changed))).toBe(
+        changed.slice(0, -1)
+      );
+      expect(applyHunks(`${old}\n`, diffHunks(`${old}\n`, changed))).toBe(
+        changed
+      );
+    });
+
+    it('should leave out the changes of hunks that are not applied', () => {
+      const [first, second] = diffHunks(old, changed);
+
+      expect(applyHunks(old, [second])).toBe(
+        old.replace('line 18', 'eighteenth')
+      );
+      expect(applyHunks(old, [first])).toBe(
+        old.replace('line 2\n', 'line 2\ninserted\n')
+      );
+    });
+
+    it('should reject hunks that do not match the text', () => {
+      const hunks = diffHunks(old, changed);
+
+      expect(() => applyHunks(old.replace('line 17', 'edited'), hunks)).toThrow(
+        /does not match/
+      );
+    });
   });
 
   describe('diffArrays', () => {
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DuplicationAnalyzer } from '../analysis/duplication';
+import { AnalysisError } from '../errors';
+import { ModuleGraph } from '../utils/module-graph';
+import type { AnalyzerConfig } from '../types/analysis';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+const SUMMARIZE = [
+  'function summarize(values: number[]) {',
+  '  const total = values.reduce((sum, value) => sum + value, 0);',
+  '  const average = values.length > 0 ? total / values.length : 0;',
+  '  const sorted = [...values].sort((a, b) => a - b);',
+  '  const median = sorted[Math.floor(sorted.length / 2)] ?? 0;',
+  '  return { total, average, median, count: values.length };',
+  '}',
+];
+
+describe('DuplicationAnalyzer', () => {
+  let analyzer: DuplicationAnalyzer;
+  let config: AnalyzerConfig;
+
+  const writeSource = async (name: string, lines: string[]) => {
+    const file = path.join(config.projectRoot, name);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, lines.join('\n'));
+  };
+
+  const issuesFor = async (rule: string) =>
+    (await analyzer.analyze(config)).filter(issue => issue.rule === rule);
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    analyzer = new DuplicationAnalyzer();
+    config = {
+      projectRoot: await fs.mkdtemp(path.join(os.tmpdir(), 'duplication-')),
+      enabledAnalyzers: ['duplication'],
+      ignore: [],
+      include: [],
+      frameworks: ['astro'],
+      severityThreshold: 'low',
+      outputFormat: 'terminal',
+      githubIntegration: false,
+      deploymentChecks: false,
+      autoFix: false,
+      watchMode: false,
+      enableCache: false,
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(config.projectRoot, { recursive: true, force: true });
+  });
+
+  describe('canAnalyze', () => {
+    it('should run when duplication is enabled', () => {
+      expect(analyzer.canAnalyze(config)).toBe(true);
+      expect(
+        analyzer.canAnalyze({ ...config, enabledAnalyzers: ['types'] })
+      ).toBe(false);
+    });
+  });
+
+  it('should report each clone cluster once with all of its locations', async () => {
+    await writeSource('src/utils/stats.ts', SUMMARIZE);
+    // Comments, imports and formatting do not hide a copy
+    await writeSource('src/scripts/chart.ts', [
+      "import { draw } from './draw';",
+      '',
+      '// Copied from utils/stats',
+      'export const render = () => draw(summarize([1, 2]));',
+      'function summarize(values: number[]) {',
+      '  const total = values.reduce(',
+      '    (sum, value) => sum + value,',
+      '    0',
+      '  );',
+      ...SUMMARIZE.slice(2),
+    ]);
+    await writeSource('src/components/Stats.astro', [
+      '---',
+      ...SUMMARIZE,
+      '---',
+      '<p>{summarize([1]).total}</p>',
+    ]);
+
+    const issues = await issuesFor('duplicate-code');
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      type: 'duplication',
+      severity: { level: 'medium' },
+      description:
+        '7 lines (103 tokens) are duplicated in 3 places across 3 files',
+      file: 'src/components/Stats.astro',
+      line: 2,
+      column: 1,
+      category: 'Duplication',
+      context: { current: 'function summarize(values: number[]) {' },
+      metadata: {
+        relatedFiles: [
+          'src/components/Stats.astro:2:1',
+          'src/scripts/chart.ts:5:1',
+          'src/utils/stats.ts:1:1',
+        ],
+      },
+    });
+    expect(analyzer.getLastSummary()).toEqual({
+      percentage: 96,
+      duplicatedLines: 24,
+      totalLines: 25,
+      clusters: 1,
+    });
+  });
+
+  it('should find repeated blocks within one file', async () => {
+    await writeSource('src/scripts/showroom.ts', [
+      ...SUMMARIZE,
+      'export const a = summarize([1]);',
+      ...SUMMARIZE.map(line => line.replace('summarize', 'summarizeAgain')),
+    ]);
+
+    const issues = await issuesFor('duplicate-code');
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      description: '7 lines (101 tokens) are duplicated in 2 places',
+      line: 1,
+      column: 19,
+      metadata: {
+        relatedFiles: [
+          'src/scripts/showroom.ts:1:19',
+          'src/scripts/showroom.ts:9:24',
+        ],
+      },
+    });
+  });
+
+  it('should honor the minTokens and minLines options', async () => {
+    await writeSource('src/utils/a.ts', SUMMARIZE);
+    await writeSource('src/utils/b.ts', SUMMARIZE);
+
+    config.rules = { 'duplicate-code': { options: { minTokens: 200 } } };
+    expect(await issuesFor('duplicate-code')).toEqual([]);
+    expect(analyzer.getLastSummary()?.percentage).toBe(0);
+
+    config.rules = { 'duplicate-code': { options: { minLines: 10 } } };
+    expect(await issuesFor('duplicate-code')).toEqual([]);
+  });
+
+  it('should report names exported by more than one module', async () => {
+    await writeSource('src/utils/device.ts', [
+      'export interface NetworkInfo { type: string }',
+      'export function isMobile() { return false; }',
+      'export default {};',
+    ]);
+    await writeSource('src/utils/media.ts', [
+      'export const isMobile = () => true;',
+      'export type NetworkInfo = { effectiveType: string };',
+      'export default {};',
+    ]);
+    await writeSource('src/pages/a.astro', [
+      '---',
+      'export const prerender = true;',
+      '---',
+    ]);
+    await writeSource('src/pages/b.astro', [
+      '---',
+      'export const prerender = true;',
+      '---',
+    ]);
+
+    const issues = await issuesFor('duplicate-export');
+
+    expect(
+      issues.map(issue => ({
+        description: issue.description,
+        file: issue.file,
+        line: issue.line,
+        relatedFiles: issue.metadata?.relatedFiles,
+      }))
+    ).toEqual([
+      {
+        description:
+          "'NetworkInfo' is exported by 2 modules: src/utils/device.ts, src/utils/media.ts",
+        file: 'src/utils/device.ts',
+        line: 1,
+        relatedFiles: ['src/utils/device.ts:1:18', 'src/utils/media.ts:2:13'],
+      },
+      {
+        description:
+          "'isMobile' is exported by 2 modules: src/utils/device.ts, src/utils/media.ts",
+        file: 'src/utils/device.ts',
+        line: 2,
+        relatedFiles: ['src/utils/device.ts:2:17', 'src/utils/media.ts:1:14'],
+      },
+    ]);
+
+    config.rules = {
+      'duplicate-export': {
+        options: { ignoreNames: ['isMobile', 'NetworkInfo'] },
+      },
+    };
+    expect(await issuesFor('duplicate-export')).toEqual([]);
+  });
+
+  it('should fail with an AnalysisError when sources cannot be read', async () => {
+    vi.spyOn(ModuleGraph, 'build').mockRejectedValueOnce(new Error('boom'));
+
+    await expect(analyzer.analyze(config)).rejects.toThrow(AnalysisError);
+    expect(analyzer.getLastSummary()).toBeNull();
+  });
+});
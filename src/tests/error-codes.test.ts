@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+  AnalysisError,
+  AppError,
+  ConfigurationError,
+  ERROR_CATALOG,
+  ERROR_CODES,
+  formatErrorMessage,
+  formatErrorReport,
+  getCauseChain,
+  getErrorDefinition,
+  TimeoutError,
+  ValidationError,
+} from '../errors';
+import { renderErrorCatalog } from '../errors/catalog';
+
+describe('Error codes', () => {
+  it('fills in message templates', () => {
+    expect(
+      formatErrorMessage('CONFIG_INVALID', {
+        source: '.analyzer.yml',
+        reason: 'Required',
+      })
+    ).toBe('Invalid configuration in .analyzer.yml (Required)');
+  });
+
+  it('builds errors from a registered code', () => {
+    const cause = new Error('ENOENT');
+    const error = new ConfigurationError('extends', {
+      code: 'CONFIG_PRESET_UNREADABLE',
+      params: {
+        preset: './base.yaml',
+        file: '.analyzer.yml',
+        reason: 'ENOENT',
+      },
+      cause,
+    });
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error.code).toBe('CONFIG_PRESET_UNREADABLE');
+    expect(error.message).toBe(
+      "Cannot read preset './base.yaml' extended by .analyzer.yml: ENOENT: extends"
+    );
+    expect(error.cause).toBe(cause);
+  });
+
+  it('registers the default code of every error class', () => {
+    const errors = [
+      new AppError('failed'),
+      new AnalysisError('Security', new Error('boom')),
+      new ConfigurationError('rules'),
+      new ValidationError('body', ['must be JSON']),
+      new TimeoutError('build', 1000),
+    ];
+
+    for (const error of errors) {
+      expect(getErrorDefinition(error.code)).toBeDefined();
+    }
+  });
+
+  it('takes retryability from the registry', () => {
+    expect(
+      new TimeoutError('npm audit', 10, 'COMMAND_TIMEOUT').isRetryable()
+    ).toBe(true);
+    expect(new ConfigurationError('rules').isRetryable()).toBe(false);
+    expect(new AppError('failed', 'UNREGISTERED').isRetryable()).toBe(false);
+  });
+
+  it('uses the original error as the cause', () => {
+    const original = new Error('tsc crashed');
+    const error = new AnalysisError('TypeScript', original, {
+      code: 'TYPE_CHECK_FAILED',
+    });
+
+    expect(getCauseChain(error)).toEqual([error, original]);
+  });
+
+  it('reports the code, hint and cause chain', () => {
+    const root = new Error('EACCES: permission denied');
+    const error = new ConfigurationError('file', {
+      code: 'CONFIG_UNREADABLE',
+      params: { file: '.analyzer.json', reason: root.message },
+      cause: new AppError('wrapped', 'WRAPPED_ERROR', { originalError: root }),
+    });
+
+    const report = formatErrorReport(error);
+
+    expect(report.split('\n')).toEqual([
+      '[CONFIG_UNREADABLE] Failed to read .analyzer.json: EACCES: permission denied: file',
+      `  hint: ${ERROR_CODES.CONFIG_UNREADABLE.remediation}`,
+      `  docs: ${ERROR_CATALOG}#config_unreadable`,
+      '  caused by: [WRAPPED_ERROR] wrapped',
+      '  caused by: Error: EACCES: permission denied',
+    ]);
+    expect(report).not.toContain(' at ');
+    expect(formatErrorReport(error, { stack: true })).toContain(error.stack);
+  });
+
+  it('keeps the shipped catalog in sync with the registry', () => {
+    const catalog = fs.readFileSync(
+      path.join(process.cwd(), ERROR_CATALOG),
+      'utf-8'
+    );
+
+    expect(catalog).toBe(renderErrorCatalog());
+    for (const code of Object.keys(ERROR_CODES)) {
+      expect(catalog).toContain(`## \`${code}\``);
+    }
+  });
+});
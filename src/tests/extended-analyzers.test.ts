@@ -181,58 +181,19 @@ describe('Accessibility Analyzer', () => {
     expect(
       issues.some(
         issue =>
-          issue.rule === 'accessibility-pattern' &&
-          issue.description.includes('alt attributes')
+          issue.rule === 'a11y-image-alt' &&
+          issue.description.includes('alt attribute')
       )
     ).toBe(true);
   });
 
-  it('should handle pattern scanning errors gracefully', async () => {
-    const { promises: fs } = await import('fs');
-    vi.mocked(fs.readFile).mockRejectedValue(new Error('read failure'));
-
-    const results = await (
-      analyzer as unknown as {
-        _checkFileForPatterns: (
-          filePath: string,
-          patterns: Array<{
-            pattern: RegExp;
-            message: string;
-            severity: 'critical' | 'high' | 'medium' | 'low';
-            type: string;
-            category: string;
-            source: string;
-            rule: string;
-            suggestion?: string;
-            autoFixable: boolean;
-          }>,
-          projectRoot: string
-        ) => Promise<
-          Array<{
-            rule: string;
-            description: string;
-          }>
-        >;
-      }
-    )._checkFileForPatterns(
-      '/test/project/page.astro',
-      [
-        {
-          pattern: /token/,
-          message: 'Found token',
-          severity: 'medium',
-          type: 'accessibility',
-          category: 'Accessibility',
-          source: 'a11y-scanner',
-          rule: 'accessibility-pattern',
-          suggestion: 'Handle token',
-          autoFixable: false,
-        },
-      ],
-      mockConfig.projectRoot
-    );
+  it('should skip files that cannot be read', async () => {
+    const { glob } = await import('glob');
+    vi.mocked(glob).mockResolvedValue(['/test/project/page.astro']);
+    fsMocks.readFile.mockRejectedValue(new Error('read failure'));
 
-    expect(results).toEqual([]);
+    const issues = await analyzer.analyze(mockConfig);
+    expect(issues).toEqual([]);
   });
 });
 
@@ -422,6 +383,42 @@ describe('Git Analyzer', () => {
     expect(uncommittedIssue).toBeDefined();
   });
 
+  it('should keep the ids of git issues while the working tree changes', async () => {
+    const { executeCommand } = await import('../utils/command-executor');
+    const analyzeWith = async (status: string, aheadBehind: string) => {
+      for (const stdout of ['main', status, 'abc123 Latest commit']) {
+        vi.mocked(executeCommand).mockResolvedValueOnce({
+          stdout,
+          stderr: '',
+          exitCode: 0,
+          signal: null,
+          duration: 10,
+        });
+      }
+      vi.mocked(executeCommand).mockResolvedValueOnce({
+        stdout: aheadBehind,
+        stderr: '',
+        exitCode: 0,
+        signal: null,
+        duration: 10,
+      });
+      return analyzer.analyze(mockConfig);
+    };
+
+    const before = await analyzeWith('M src/file.ts', '1\t0');
+    const after = await analyzeWith(
+      'M src/file.ts\nA src/new.ts\n?? .analyzer-baseline.json',
+      '3\t0'
+    );
+
+    expect(after.map(issue => issue.id)).toEqual(before.map(issue => issue.id));
+    expect(after.map(issue => issue.rule)).toEqual([
+      'git-status',
+      'git-branch-alignment',
+    ]);
+    expect(after[0].description).toContain('3 uncommitted changes');
+  });
+
   it('should capture upstream branch misalignment', async () => {
     const { executeCommand } = await import('../utils/command-executor');
     vi.mocked(executeCommand)
@@ -535,23 +532,25 @@ describe('Performance Analyzer (environment gating)', () => {
     };
   });
 
-  it('should skip heavy bundle check in CI', async () => {
+  it('should read bundle stats instead of running a build', async () => {
     const { executeCommand } = await import('../utils/command-executor');
-    const originalCI = process.env.CI;
-    process.env.CI = 'true';
 
     await analyzer.analyze(mockConfig);
     expect(vi.mocked(executeCommand)).not.toHaveBeenCalled();
-
-    process.env.CI = originalCI;
+    expect(fsMocks.readFile).toHaveBeenCalledWith(
+      '/test/project/.cache/bundle-stats.json',
+      'utf-8'
+    );
   });
 
   it('should avoid bundle analysis when watch mode is enabled', async () => {
-    const { executeCommand } = await import('../utils/command-executor');
     const watchConfig = { ...mockConfig, watchMode: true };
 
     await analyzer.analyze(watchConfig);
-    expect(vi.mocked(executeCommand)).not.toHaveBeenCalled();
+    expect(fsMocks.readFile).not.toHaveBeenCalledWith(
+      '/test/project/.cache/bundle-stats.json',
+      'utf-8'
+    );
   });
 });
 
@@ -635,8 +634,7 @@ describe('Security Analyzer', () => {
 
     const { glob } = await import('glob');
     vi.mocked(glob)
-      .mockResolvedValueOnce([]) // security patterns
-      .mockResolvedValueOnce([]) // environment content scanning
+      .mockResolvedValueOnce([]) // security patterns and secrets
       .mockResolvedValueOnce([envPath]); // env file detection
 
     // Mock readFile for content scanning if needed (though env file detection might just check existence/name)
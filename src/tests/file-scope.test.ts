@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { execSync } from 'child_process';
+import os from 'os';
+import path from 'path';
+import {
+  filterToFileScope,
+  getChangedFiles,
+  isInFileScope,
+  touchesFileScope,
+} from '../utils/file-scope';
+import { ConfigurationError } from '../errors';
+import { createIssue } from './fixtures/issues';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+describe('file scope', () => {
+  const projectRoot = path.join(os.tmpdir(), 'project');
+
+  it('should treat every file as in scope without a file list', () => {
+    expect(isInFileScope({ projectRoot }, 'src/anything.ts')).toBe(true);
+    expect(filterToFileScope({ projectRoot }, ['a', 'b'])).toEqual(['a', 'b']);
+  });
+
+  it('should match absolute and relative paths against the file list', () => {
+    const config = { projectRoot, files: ['src/a.ts', './src/b.astro'] };
+
+    expect(
+      filterToFileScope(config, [
+        path.join(projectRoot, 'src', 'a.ts'),
+        path.join(projectRoot, 'src', 'c.ts'),
+        'src/b.astro',
+      ])
+    ).toEqual([path.join(projectRoot, 'src', 'a.ts'), 'src/b.astro']);
+  });
+
+  it('should keep issues that point at a scoped file', () => {
+    const config = { projectRoot, files: ['src/b.ts'] };
+
+    expect(touchesFileScope(config, createIssue())).toBe(false);
+    expect(
+      touchesFileScope(
+        config,
+        createIssue({ metadata: { relatedFiles: ['src/b.ts:4:1'] } })
+      )
+    ).toBe(true);
+    expect(touchesFileScope(config, createIssue({ file: 'src/b.ts' }))).toBe(
+      true
+    );
+  });
+
+  describe('getChangedFiles', () => {
+    let repo: string;
+
+    const git = (command: string) =>
+      execSync(`git ${command}`, { cwd: repo, stdio: 'pipe' }).toString();
+    const write = async (file: string, content = 'export {};\n') => {
+      await fs.mkdir(path.dirname(path.join(repo, file)), { recursive: true });
+      await fs.writeFile(path.join(repo, file), content);
+    };
+
+    beforeEach(async () => {
+      repo = await fs.mkdtemp(path.join(os.tmpdir(), 'file-scope-'));
+      git('init -q -b main');
+      git('config user.email dev@example.com');
+      git('config user.name Dev');
+      await write('site/src/kept.ts');
+      await write('site/src/edited.ts');
+      await write('site/src/removed.ts');
+      await write('tools/outside.ts');
+      git('add -A');
+      git('commit -q -m base');
+    });
+
+    afterEach(async () => {
+      await fs.rm(repo, { recursive: true, force: true });
+    });
+
+    it('should list committed, uncommitted and untracked changes under the project root', async () => {
+      git('checkout -q -b feature');
+      await write('site/src/committed.ts');
+      git('add -A');
+      git('commit -q -m feature');
+      await write('site/src/edited.ts', 'export const edited = 1;\n');
+      await write('site/src/new file.ts');
+      await write('tools/outside.ts', 'export const changed = 1;\n');
+      git('rm -q site/src/removed.ts');
+
+      await expect(
+        getChangedFiles(path.join(repo, 'site'), 'main')
+      ).resolves.toEqual([
+        'src/committed.ts',
+        'src/edited.ts',
+        'src/new file.ts',
+      ]);
+      await expect(
+        getChangedFiles(path.join(repo, 'site'), 'HEAD')
+      ).resolves.toEqual(['src/edited.ts', 'src/new file.ts']);
+    });
+
+    it('should compare with the merge base of the ref', async () => {
+      git('checkout -q -b feature');
+      await write('site/src/feature.ts');
+      git('add -A');
+      git('commit -q -m feature');
+      git('checkout -q main');
+      await write('site/src/on-main.ts');
+      git('add -A');
+      git('commit -q -m main');
+      git('checkout -q feature');
+
+      await expect(getChangedFiles(repo, 'main')).resolves.toEqual([
+        'site/src/feature.ts',
+      ]);
+    });
+
+    it('should reject unknown and unsafe refs', async () => {
+      await expect(getChangedFiles(repo, 'no-such-branch')).rejects.toThrow(
+        ConfigurationError
+      );
+      await expect(getChangedFiles(repo, 'main; rm -rf /')).rejects.toThrow(
+        ConfigurationError
+      );
+    });
+  });
+});
@@ -0,0 +1,7 @@
+import { defineConfig } from '../../../config/config-loader';
+
+export default defineConfig({
+  extends: './preset.yaml',
+  autoFix: true,
+  rules: { 'lazy-loading': 'off' },
+});
@@ -0,0 +1 @@
+export { BannedImportsAnalyzer as default } from './banned-imports.mjs';
@@ -0,0 +1,28 @@
+export class BannedImportsAnalyzer {
+  name = 'banned-imports';
+
+  canAnalyze() {
+    return true;
+  }
+
+  async analyze() {
+    return [
+      {
+        id: 'unstable',
+        type: 'convention',
+        severity: { level: 'high', impact: 'major', urgency: 'high' },
+        title: 'Banned import',
+        description: 'lodash is not allowed',
+        file: 'src/index.ts',
+        line: 3,
+        rule: 'banned-imports',
+        category: 'Conventions',
+        source: 'banned-imports',
+        autoFixable: false,
+        context: { current: "import _ from 'lodash';" },
+      },
+    ];
+  }
+}
+
+export default new BannedImportsAnalyzer();
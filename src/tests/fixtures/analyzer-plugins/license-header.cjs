@@ -0,0 +1,7 @@
+module.exports = {
+  licenseHeader: {
+    name: 'license-header',
+    canAnalyze: () => true,
+    analyze: async () => [],
+  },
+};
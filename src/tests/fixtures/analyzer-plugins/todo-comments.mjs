@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const todoIssues = (file, content) =>
+  content.split('\n').flatMap((text, index) =>
+    text.includes('TODO')
+      ? [
+          {
+            id: 'unstable',
+            type: 'convention',
+            severity: { level: 'low', impact: 'minor', urgency: 'low' },
+            title: 'TODO comment',
+            description: 'Track the TODO in an issue instead',
+            file,
+            line: index + 1,
+            rule: 'todo-comment',
+            category: 'Conventions',
+            source: 'todo-comments',
+            autoFixable: false,
+            context: { current: text.trim() },
+          },
+        ]
+      : []
+  );
+
+export default {
+  name: 'todo-comments',
+  supportsFileScope: true,
+  version: '1',
+  reportedRules: ['todo-comment'],
+
+  canAnalyze() {
+    return true;
+  },
+
+  async getFiles(config) {
+    const files =
+      config.files ??
+      (await fs.readdir(path.join(config.projectRoot, 'src'))).map(name =>
+        path.join('src', name)
+      );
+    return files.map(file => path.join(config.projectRoot, file));
+  },
+
+  async analyzeFile(file, content) {
+    return todoIssues(file, content);
+  },
+
+  async analyze(config) {
+    const files = await this.getFiles(config);
+    const contents = await Promise.all(
+      files.map(file => fs.readFile(file, 'utf-8'))
+    );
+    return files.flatMap((file, index) => todoIssues(file, contents[index]));
+  },
+};
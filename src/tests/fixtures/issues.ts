@@ -0,0 +1,20 @@
+import type { CodeIssue } from '../../types/analysis';
+
+/**
+ * A lazy-loading issue on the home page. Tests override the fields they
+ * check, or spread a fixture of their own for another kind of issue.
+ */
+export const createIssue = (overrides: Partial<CodeIssue> = {}): CodeIssue => ({
+  id: 'performance-0000000000000000',
+  type: 'performance',
+  severity: { level: 'low', impact: 'minor', urgency: 'low' },
+  title: 'Image Missing Lazy Loading',
+  description: 'Consider adding loading="lazy" to defer off-screen images.',
+  file: 'src/pages/index.astro',
+  line: 10,
+  rule: 'lazy-loading',
+  category: 'Performance',
+  source: 'performance-analyzer',
+  autoFixable: true,
+  ...overrides,
+});
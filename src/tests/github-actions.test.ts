@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  formatAnnotation,
+  isGitHubActions,
+  publishToGitHubActions,
+} from '../utils/github-actions';
+import { ReportGenerator } from '../utils/report-generator';
+import { emitAnalysis } from '../utils/report-outputs';
+import type { AnalysisResult, CodeIssue } from '../types/analysis';
+import { createIssue } from './fixtures/issues';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+const SECRET: Partial<CodeIssue> = {
+  id: 'issue-1',
+  type: 'security',
+  severity: { level: 'critical', impact: 'blocking', urgency: 'immediate' },
+  title: 'Hardcoded secret',
+  description: 'API key assigned to a constant',
+  file: 'src/lib/api.ts',
+  line: 4,
+  column: 7,
+  rule: 'hardcoded-secret',
+  category: 'Security',
+  source: 'security-analyzer',
+  autoFixable: false,
+};
+
+const createAnalysis = (issues: CodeIssue[]): AnalysisResult => ({
+  issues,
+  health: {
+    score: 64,
+    criticalIssues: 1,
+    highIssues: 0,
+    mediumIssues: 1,
+    lowIssues: 0,
+    totalIssues: 2,
+    categories: { Security: 1, Performance: 1 },
+    trends: { improving: false, velocity: -2, lastCheck: new Date(0) },
+  },
+  git: null,
+  deployment: null,
+  baseline: {
+    file: '.analyzer-baseline.json',
+    newIssues: issues.length,
+    unchanged: 3,
+    fixed: [],
+  },
+});
+
+describe('GitHub Actions', () => {
+  describe('formatAnnotation', () => {
+    it('should map severities to workflow command levels', () => {
+      expect(formatAnnotation(createIssue(SECRET))).toBe(
+        '::error file=src/lib/api.ts,line=4,col=7,title=Hardcoded secret (hardcoded-secret)::API key assigned to a constant'
+      );
+      expect(
+        formatAnnotation(
+          createIssue({
+            ...SECRET,
+            severity: { level: 'medium', impact: 'minor', urgency: 'medium' },
+            line: undefined,
+          })
+        )
+      ).toMatch(/^::warning file=src\/lib\/api\.ts,title=/);
+      expect(
+        formatAnnotation(
+          createIssue({
+            ...SECRET,
+            severity: { level: 'info', impact: 'minor', urgency: 'low' },
+          })
+        )
+      ).toMatch(/^::notice /);
+    });
+
+    it('should escape properties and multi-line messages', () => {
+      expect(
+        formatAnnotation(
+          createIssue({
+            ...SECRET,
+            title: 'Ratio: 100%, too high',
+            description: 'First line\r\nsecond line',
+            suggestion: 'Split it',
+          })
+        )
+      ).toBe(
+        '::error file=src/lib/api.ts,line=4,col=7,title=Ratio%3A 100%25%2C too high (hardcoded-secret)::First line%0D%0Asecond line%0ASplit it'
+      );
+    });
+  });
+
+  describe('publishToGitHubActions', () => {
+    let workspace: string;
+    let env: NodeJS.ProcessEnv;
+
+    beforeEach(async () => {
+      workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'github-actions-'));
+      env = {
+        GITHUB_ACTIONS: 'true',
+        GITHUB_WORKSPACE: workspace,
+        GITHUB_STEP_SUMMARY: path.join(workspace, 'summary.md'),
+        GITHUB_OUTPUT: path.join(workspace, 'output.txt'),
+      };
+    });
+
+    afterEach(async () => {
+      await fs.rm(workspace, { recursive: true, force: true });
+    });
+
+    it('should do nothing outside GitHub Actions', async () => {
+      const stdout = { write: vi.fn() };
+
+      expect(isGitHubActions({})).toBe(false);
+      await expect(
+        publishToGitHubActions(
+          createAnalysis([createIssue(SECRET)]),
+          workspace,
+          {
+            env: { GITHUB_STEP_SUMMARY: env.GITHUB_STEP_SUMMARY },
+            stdout,
+          }
+        )
+      ).resolves.toBe(false);
+      expect(stdout.write).not.toHaveBeenCalled();
+      await expect(fs.access(env.GITHUB_STEP_SUMMARY!)).rejects.toThrow();
+    });
+
+    it('should annotate issues relative to the workspace', async () => {
+      const stdout = { write: vi.fn() };
+      const projectRoot = path.join(workspace, 'site');
+
+      await publishToGitHubActions(
+        createAnalysis([createIssue(SECRET)]),
+        projectRoot,
+        { env, stdout }
+      );
+
+      expect(stdout.write).toHaveBeenCalledWith(
+        '::error file=site/src/lib/api.ts,line=4,col=7,title=Hardcoded secret (hardcoded-secret)::API key assigned to a constant\n'
+      );
+    });
+
+    it('should append the job summary and step outputs', async () => {
+      const analysis = createAnalysis([
+        createIssue(SECRET),
+        createIssue({
+          ...SECRET,
+          id: 'issue-2',
+          severity: { level: 'medium', impact: 'minor', urgency: 'medium' },
+          title: 'Large image',
+          rule: 'image-optimization',
+        }),
+      ]);
+      await fs.writeFile(env.GITHUB_STEP_SUMMARY!, '# Earlier step\n');
+      await fs.writeFile(env.GITHUB_OUTPUT!, 'cache-hit=true\n');
+
+      await expect(
+        publishToGitHubActions(analysis, workspace, {
+          env,
+          stdout: { write: vi.fn() },
+        })
+      ).resolves.toBe(true);
+
+      const summary = await fs.readFile(env.GITHUB_STEP_SUMMARY!, 'utf-8');
+      expect(summary).toMatch(/^# Earlier step\n# .+ Project Health Report/);
+      expect(summary).toContain('| **Health Score** | 64/100 |');
+
+      const output = await fs.readFile(env.GITHUB_OUTPUT!, 'utf-8');
+      const [, delimiter] = output.match(/^pr-comment<<(\S+)$/m)!;
+      expect(output.split('\n').slice(0, 4)).toEqual([
+        'cache-hit=true',
+        'health-score=64',
+        'new-issues=2',
+        `pr-comment<<${delimiter}`,
+      ]);
+      expect(output).toContain(
+        `${ReportGenerator.generatePullRequestComment(analysis).trimEnd()}\n${delimiter}\n`
+      );
+    });
+
+    it('should keep annotations out of a JSON report on stdout', async () => {
+      const analysis = createAnalysis([createIssue(SECRET)]);
+      let written = '';
+      const stdout = { write: (chunk: string) => (written += chunk) };
+      const config = {
+        projectRoot: workspace,
+        outputFormat: 'json' as const,
+        githubIntegration: true,
+      };
+
+      await emitAnalysis(analysis, config, undefined, { env, stdout });
+      expect(JSON.parse(written).issues).toHaveLength(1);
+
+      written = '';
+      await emitAnalysis(
+        analysis,
+        { ...config, outputFormat: 'terminal' },
+        undefined,
+        { env, stdout }
+      );
+      expect(written).toMatch(/^::error file=src\/lib\/api\.ts,/);
+    });
+  });
+});
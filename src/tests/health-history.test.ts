@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HealthHistory } from '../utils/health-history';
+import type { HealthSnapshot, ProjectHealth } from '../types/analysis';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+const createHealth = (
+  overrides: Partial<ProjectHealth> = {}
+): ProjectHealth => ({
+  score: 80,
+  criticalIssues: 0,
+  highIssues: 1,
+  mediumIssues: 2,
+  lowIssues: 3,
+  totalIssues: 6,
+  categories: { Security: 1, Performance: 5 },
+  trends: { improving: true, velocity: 0, lastCheck: new Date() },
+  ...overrides,
+});
+
+const snapshot = (
+  commit: string,
+  score: number,
+  totalIssues = 10
+): HealthSnapshot => ({
+  commit,
+  timestamp: '2026-10-01T12:00:00.000Z',
+  score,
+  criticalIssues: 0,
+  highIssues: 0,
+  mediumIssues: 0,
+  lowIssues: totalIssues,
+  totalIssues,
+  categories: {},
+});
+
+describe('HealthHistory', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'health-history-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('starts with an empty history', async () => {
+    await expect(new HealthHistory(projectRoot).load()).resolves.toEqual([]);
+  });
+
+  it('records one snapshot per commit in the order they were analyzed', async () => {
+    const history = new HealthHistory(projectRoot);
+
+    await history.record(createHealth({ score: 70 }), 'aaa', new Date(1000));
+    await history.record(createHealth({ score: 75 }), 'bbb', new Date(2000));
+    const snapshots = await history.record(
+      createHealth({ score: 78 }),
+      'aaa',
+      new Date(3000)
+    );
+
+    expect(snapshots.map(entry => [entry.commit, entry.score])).toEqual([
+      ['bbb', 75],
+      ['aaa', 78],
+    ]);
+    expect(snapshots[1]).toEqual({
+      commit: 'aaa',
+      timestamp: new Date(3000).toISOString(),
+      score: 78,
+      criticalIssues: 0,
+      highIssues: 1,
+      mediumIssues: 2,
+      lowIssues: 3,
+      totalIssues: 6,
+      categories: { Security: 1, Performance: 5 },
+    });
+    await expect(history.load()).resolves.toEqual(snapshots);
+    expect(history.filePath).toBe(
+      path.join(projectRoot, '.cache', 'health-history.json')
+    );
+  });
+
+  it('ignores a store it cannot read', async () => {
+    const history = new HealthHistory(projectRoot, 'history.json');
+    await fs.writeFile(history.filePath, '{ not json');
+    await expect(history.load()).resolves.toEqual([]);
+
+    await fs.writeFile(
+      history.filePath,
+      JSON.stringify({ version: 99, snapshots: [] })
+    );
+    await expect(history.load()).resolves.toEqual([]);
+  });
+
+  it('has no commit outside a git repository', async () => {
+    await expect(
+      new HealthHistory(projectRoot).currentCommit()
+    ).resolves.toBeNull();
+  });
+
+  describe('getTrends', () => {
+    it('reports no movement without earlier snapshots', () => {
+      expect(HealthHistory.getTrends([snapshot('a', 60)])).toMatchObject({
+        improving: true,
+        velocity: 0,
+        lastCheck: new Date('2026-10-01T12:00:00.000Z'),
+      });
+    });
+
+    it('averages the score change over the last five commits', () => {
+      const history = [40, 90, 50, 55, 60, 61, 70].map((score, index) =>
+        snapshot(`c${index}`, score)
+      );
+
+      expect(HealthHistory.getTrends(history)).toMatchObject({
+        improving: true,
+        velocity: 5,
+      });
+      expect(
+        HealthHistory.getTrends([snapshot('a', 80), snapshot('b', 73)])
+      ).toMatchObject({ improving: false, velocity: -7 });
+    });
+
+    it('treats a flat score as improving only when issues did not grow', () => {
+      expect(
+        HealthHistory.getTrends([snapshot('a', 80, 10), snapshot('b', 80, 9)])
+      ).toMatchObject({ improving: true, velocity: 0 });
+      expect(
+        HealthHistory.getTrends([snapshot('a', 80, 10), snapshot('b', 80, 12)])
+      ).toMatchObject({ improving: false, velocity: 0 });
+    });
+  });
+});
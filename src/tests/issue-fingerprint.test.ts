@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import {
+  fingerprintIssue,
+  normalizeIssuePath,
+  stampIssues,
+} from '../utils/issue-fingerprint';
+import { createIssue } from './fixtures/issues';
+
+describe('fingerprintIssue', () => {
+  it('ignores line numbers, ids and indentation', () => {
+    const a = createIssue({
+      line: 10,
+      context: { current: '    <img src="/hero.png" />' },
+    });
+    const b = createIssue({
+      line: 42,
+      context: { current: '<img   src="/hero.png" />' },
+    });
+
+    expect(fingerprintIssue(a)).toBe(fingerprintIssue(b));
+  });
+
+  it('strips tsc location prefixes from context', () => {
+    const a = createIssue({
+      rule: 'TS2322',
+      context: {
+        current: "src/a.ts(10,5): error TS2322: Type 'x' is not assignable.",
+      },
+    });
+    const b = createIssue({
+      rule: 'TS2322',
+      context: {
+        current: "src/a.ts(31,7): error TS2322: Type 'x' is not assignable.",
+      },
+    });
+
+    expect(fingerprintIssue(a)).toBe(fingerprintIssue(b));
+  });
+
+  it('treats absolute and relative paths under the project root alike', () => {
+    const root = path.resolve('/repo');
+    const relative = createIssue();
+    const absolute = createIssue({
+      file: path.join(root, 'src', 'pages', 'index.astro'),
+    });
+
+    expect(fingerprintIssue(absolute, root)).toBe(
+      fingerprintIssue(relative, root)
+    );
+  });
+
+  it('differs by rule, file and content', () => {
+    const base = fingerprintIssue(createIssue());
+
+    expect(
+      fingerprintIssue(createIssue({ rule: 'image-optimization' }))
+    ).not.toBe(base);
+    expect(
+      fingerprintIssue(createIssue({ file: 'src/pages/about.astro' }))
+    ).not.toBe(base);
+    expect(
+      fingerprintIssue(
+        createIssue({ context: { current: '<img src="/b.png">' } })
+      )
+    ).not.toBe(base);
+  });
+});
+
+describe('normalizeIssuePath', () => {
+  it('uses forward slashes and strips leading ./', () => {
+    expect(normalizeIssuePath('.\\src\\pages\\index.astro')).toBe(
+      'src/pages/index.astro'
+    );
+    expect(normalizeIssuePath('./src/a.ts')).toBe('src/a.ts');
+  });
+});
+
+describe('stampIssues', () => {
+  it('produces the same ids for the same findings across runs', () => {
+    const first = stampIssues([createIssue()], '/repo');
+    const second = stampIssues([createIssue({ line: 99 })], '/repo');
+
+    expect(first[0].id).toBe(second[0].id);
+    expect(first[0].id).toMatch(/^performance-[0-9a-f]{16}$/);
+  });
+
+  it('keeps ids unique for identical findings in one file', () => {
+    const [a, b, c] = stampIssues(
+      [createIssue({ line: 1 }), createIssue({ line: 2 }), createIssue()],
+      '/repo'
+    );
+
+    expect(b.id).toBe(`${a.id}-2`);
+    expect(c.id).toBe(`${a.id}-3`);
+  });
+
+  it('fills metadata.checksum from the context lines', () => {
+    const [plain, withContext] = stampIssues(
+      [
+        createIssue({ metadata: { component: 'Hero' } }),
+        createIssue({
+          file: 'src/pages/about.astro',
+          context: {
+            before: ['<section>'],
+            current: '<img src="/hero.png" />',
+          },
+        }),
+      ],
+      '/repo'
+    );
+
+    expect(plain.metadata).toMatchObject({ component: 'Hero' });
+    expect(plain.metadata?.checksum).toMatch(/^[0-9a-f]{16}$/);
+    expect(withContext.metadata?.checksum).not.toBe(plain.metadata?.checksum);
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProjectAnalyzer } from '../core/analyzer';
+import { IssueSuppressions } from '../utils/issue-suppressions';
+import { createIssue } from './fixtures/issues';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+describe('IssueSuppressions', () => {
+  let projectRoot: string;
+  const now = new Date('2026-06-01T12:00:00Z');
+
+  const writeFile = async (name: string, lines: string[]) => {
+    const file = path.join(projectRoot, name);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, lines.join('\n'));
+  };
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'analyzer-suppressions-')
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  describe('parse', () => {
+    it('parses line comments, block comments and HTML comments', () => {
+      const directives = IssueSuppressions.parse(
+        [
+          '// analyzer-disable-next-line lazy-loading -- hero image must be eager',
+          '<img src="/hero.png" />',
+          '<!-- analyzer-disable-next-line accessibility-pattern, lazy-loading expires=2026-12-31 -- decorative -->',
+          '{/* analyzer-disable-next-line TS2532 -- narrowed by the caller */}',
+          'const value = input!; // analyzer-disable-line TS2322 -- legacy API',
+        ].join('\n'),
+        'src/pages/index.astro'
+      );
+
+      expect(
+        directives.map(({ line, targetLine, rules, reason, expires }) => ({
+          line,
+          targetLine,
+          rules,
+          reason,
+          expires,
+        }))
+      ).toEqual([
+        {
+          line: 1,
+          targetLine: 2,
+          rules: ['lazy-loading'],
+          reason: 'hero image must be eager',
+          expires: undefined,
+        },
+        {
+          line: 3,
+          targetLine: 4,
+          rules: ['accessibility-pattern', 'lazy-loading'],
+          reason: 'decorative',
+          expires: '2026-12-31',
+        },
+        {
+          line: 4,
+          targetLine: 5,
+          rules: ['TS2532'],
+          reason: 'narrowed by the caller',
+          expires: undefined,
+        },
+        {
+          line: 5,
+          targetLine: 5,
+          rules: ['TS2322'],
+          reason: 'legacy API',
+          expires: undefined,
+        },
+      ]);
+    });
+
+    it('marks suppressions without a reason or with a bad expiry invalid', () => {
+      const directives = IssueSuppressions.parse(
+        [
+          '// analyzer-disable-next-line lazy-loading',
+          '// analyzer-disable-next-line lazy-loading --',
+          '// analyzer-disable-next-line -- no rule',
+          '// analyzer-disable-next-line lazy-loading expires=soon -- later',
+        ].join('\n'),
+        'src/a.ts'
+      );
+
+      expect(directives.map(directive => directive.status)).toEqual([
+        'invalid',
+        'invalid',
+        'invalid',
+        'invalid',
+      ]);
+      expect(directives[0].problem).toMatch(/missing a reason/);
+      expect(directives[2].problem).toMatch(/does not name any rule/);
+      expect(directives[3].problem).toMatch(/invalid expiry 'soon'/);
+    });
+  });
+
+  describe('apply', () => {
+    it('drops suppressed issues and reports unused suppressions', async () => {
+      await writeFile('src/pages/index.astro', [
+        '---',
+        '---',
+        '<!-- analyzer-disable-next-line lazy-loading -- hero image must be eager -->',
+        '<img src="/hero.png" />',
+        '<!-- analyzer-disable-next-line accessibility-pattern -- fixed upstream -->',
+        '<p>ok</p>',
+      ]);
+      const suppressed = createIssue({ line: 4 });
+      const kept = createIssue({ line: 10 });
+
+      const result = await new IssueSuppressions(projectRoot, [], now).apply([
+        suppressed,
+        kept,
+      ]);
+
+      expect(result.issues).toEqual([kept]);
+      expect(
+        result.suppressions.map(({ line, status, suppressed }) => ({
+          line,
+          status,
+          suppressed,
+        }))
+      ).toEqual([
+        { line: 3, status: 'used', suppressed: 1 },
+        { line: 5, status: 'unused', suppressed: 0 },
+      ]);
+      expect(result.findings).toHaveLength(1);
+      expect(result.findings[0]).toMatchObject({
+        rule: 'unused-suppression',
+        severity: { level: 'info' },
+        file: 'src/pages/index.astro',
+        line: 5,
+      });
+    });
+
+    it('keeps issues whose suppression has expired', async () => {
+      await writeFile('src/pages/index.astro', [
+        '---',
+        '// analyzer-disable-next-line lazy-loading expires=2026-05-31 -- until redesign',
+        '<img src="/hero.png" />',
+      ]);
+      const issue = createIssue({
+        file: path.join(projectRoot, 'src/pages/index.astro'),
+        line: 3,
+      });
+
+      const result = await new IssueSuppressions(projectRoot, [], now).apply([
+        issue,
+      ]);
+
+      expect(result.issues).toEqual([issue]);
+      expect(result.suppressions[0].status).toBe('expired');
+      expect(result.findings[0]).toMatchObject({
+        rule: 'expired-suppression',
+        description: 'Suppression for lazy-loading expired on 2026-05-31',
+      });
+    });
+
+    it('only silences the listed rules on the target line', async () => {
+      await writeFile('src/util.ts', [
+        'export const a = 1;',
+        '// analyzer-disable-next-line TS2532 -- checked above',
+        'use(a);',
+      ]);
+      const otherRule = createIssue({
+        file: 'src/util.ts',
+        line: 3,
+        rule: 'TS2322',
+      });
+
+      const result = await new IssueSuppressions(projectRoot, [], now).apply([
+        otherRule,
+      ]);
+
+      expect(result.issues).toEqual([otherRule]);
+      expect(result.suppressions[0].status).toBe('unused');
+    });
+
+    it('leaves suppressions of unchecked rules out of the findings', async () => {
+      await writeFile('src/util.ts', [
+        '// analyzer-disable-next-line TS2532 -- checked above',
+        'use(a);',
+      ]);
+
+      const result = await new IssueSuppressions(projectRoot, [], now).apply(
+        [],
+        rule => rule !== 'TS2532'
+      );
+
+      expect(result.suppressions[0].status).toBe('unchecked');
+      expect(result.findings).toEqual([]);
+    });
+  });
+
+  describe('in a project analysis', () => {
+    const analyze = async (status: 'completed' | 'failed') => {
+      const analyzer = new ProjectAnalyzer({
+        projectRoot,
+        enabledAnalyzers: [],
+        healthHistory: false,
+      });
+      analyzer.registerModule({
+        name: 'Fixture',
+        reportedRules: ['lazy-loading'],
+        canAnalyze: () => true,
+        analyze: async () => {
+          if (status === 'failed') throw new Error('out of memory');
+          return [];
+        },
+      });
+      return analyzer.analyze();
+    };
+
+    beforeEach(async () => {
+      await writeFile('src/pages/index.astro', [
+        '<!-- analyzer-disable-next-line lazy-loading -- hero image must be eager -->',
+        '<img src="/hero.png" />',
+      ]);
+    });
+
+    it('reports a suppression as unused once its module completed', async () => {
+      const result = await analyze('completed');
+
+      expect(result.suppressions?.[0].status).toBe('unused');
+      expect(result.issues.map(issue => issue.rule)).toEqual([
+        'unused-suppression',
+      ]);
+    });
+
+    it('does not report a suppression whose module failed', async () => {
+      const result = await analyze('failed');
+
+      expect(result.suppressions?.[0].status).toBe('unchecked');
+      expect(
+        result.issues.filter(issue => issue.rule === 'unused-suppression')
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import { LanguageServer } from '../core/language-server';
+import { AccessibilityAnalyzer } from '../analysis/accessibility';
+import type { JsonRpcMessage } from '../utils/json-rpc';
+
+vi.mock('../utils/logger', async importOriginal => ({
+  ...(await importOriginal<typeof import('../utils/logger')>()),
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    subscribe: vi.fn(),
+  },
+}));
+
+const PAGE = [
+  '---',
+  "const title = 'Home';",
+  '---',
+  '<main>',
+  '  <img src="/hero.png">',
+  '  <h1>{title}</h1>',
+  '</main>',
+  '',
+].join('\n');
+
+/** Frame a message the way an editor writes it to the server's stdin */
+const frame = (body: string) =>
+  `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+
+/**
+ * Plays the editor's side of the protocol over the server's stdio streams
+ */
+class ScriptedClient {
+  readonly messages: JsonRpcMessage[] = [];
+  private nextId = 1;
+  private buffer = Buffer.alloc(0);
+
+  constructor(
+    private readonly input: PassThrough,
+    output: PassThrough
+  ) {
+    output.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      while (true) {
+        const headerEnd = this.buffer.indexOf('\r\n\r\n');
+        if (headerEnd === -1) return;
+        const length = Number(
+          /Content-Length: (\d+)/.exec(
+            this.buffer.subarray(0, headerEnd).toString()
+          )?.[1]
+        );
+        const end = headerEnd + 4 + length;
+        if (this.buffer.length < end) return;
+        this.messages.push(
+          JSON.parse(this.buffer.subarray(headerEnd + 4, end).toString())
+        );
+        this.buffer = this.buffer.subarray(end);
+      }
+    });
+  }
+
+  write(raw: string) {
+    this.input.write(raw);
+  }
+
+  async request(method: string, params?: unknown): Promise<JsonRpcMessage> {
+    const id = this.nextId++;
+    this.write(frame(JSON.stringify({ jsonrpc: '2.0', id, method, params })));
+    return this.waitFor(message => message.id === id);
+  }
+
+  notify(method: string, params?: unknown) {
+    this.write(frame(JSON.stringify({ jsonrpc: '2.0', method, params })));
+  }
+
+  /** The next diagnostics published for a document from now on */
+  async diagnostics(uri: string, send: () => void) {
+    const seen = this.messages.length;
+    send();
+    const message = await this.waitFor(
+      (candidate, index) =>
+        index >= seen &&
+        candidate.method === 'textDocument/publishDiagnostics' &&
+        (candidate.params as { uri: string }).uri === uri
+    );
+    return (message.params as { diagnostics: Array<Record<string, unknown>> })
+      .diagnostics;
+  }
+
+  waitFor(
+    predicate: (message: JsonRpcMessage, index: number) => boolean
+  ): Promise<JsonRpcMessage> {
+    return vi.waitFor(() => {
+      const message = this.messages.find(predicate);
+      if (!message) throw new Error('No matching message yet');
+      return message;
+    });
+  }
+}
+
+describe('LanguageServer', () => {
+  let projectRoot: string;
+  let uri: string;
+  let client: ScriptedClient;
+  let onExit: ReturnType<typeof vi.fn<(code: number) => void>>;
+
+  const initialize = () =>
+    client.request('initialize', {
+      processId: null,
+      rootUri: pathToFileURL(projectRoot).href,
+      capabilities: {},
+    });
+  const open = (text = PAGE) =>
+    client.diagnostics(uri, () =>
+      client.notify('textDocument/didOpen', {
+        textDocument: { uri, languageId: 'astro', version: 1, text },
+      })
+    );
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'lsp-'));
+    await fs.writeFile(
+      path.join(projectRoot, '.analyzer.json'),
+      JSON.stringify({ enabledAnalyzers: ['accessibility'] })
+    );
+    await fs.mkdir(path.join(projectRoot, 'src/pages'), { recursive: true });
+    const page = path.join(projectRoot, 'src/pages/index.astro');
+    await fs.writeFile(page, PAGE);
+    uri = pathToFileURL(page).href;
+
+    const input = new PassThrough();
+    const output = new PassThrough();
+    onExit = vi.fn<(code: number) => void>();
+    new LanguageServer(input, output, onExit).listen();
+    client = new ScriptedClient(input, output);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should advertise document sync and quick fixes', async () => {
+    const early = await client.request('textDocument/codeAction', {});
+    expect(early.error?.code).toBe(-32002);
+
+    const response = await initialize();
+
+    expect(response.result).toMatchObject({
+      capabilities: {
+        textDocumentSync: { openClose: true, change: 1 },
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+      },
+    });
+  });
+
+  it('should publish issues of opened documents as diagnostics', async () => {
+    await initialize();
+    const diagnostics = await open();
+
+    expect(diagnostics).toEqual([
+      {
+        range: {
+          start: { line: 4, character: 2 },
+          end: { line: 4, character: 23 },
+        },
+        severity: 1,
+        code: 'a11y-image-alt',
+        source: 'a11y-scanner',
+        message: expect.stringContaining('<img> has no alt attribute'),
+        data: { issueId: expect.any(String) },
+      },
+    ]);
+  });
+
+  it('should reuse cached issues until the file changes on disk', async () => {
+    const analyzeFile = vi.spyOn(
+      AccessibilityAnalyzer.prototype,
+      'analyzeFile'
+    );
+    await initialize();
+
+    await open();
+    await client.diagnostics(uri, () =>
+      client.notify('textDocument/didClose', { textDocument: { uri } })
+    );
+    expect(await open()).toHaveLength(1);
+    expect(analyzeFile).toHaveBeenCalledTimes(1);
+
+    await fs.writeFile(
+      path.join(projectRoot, 'src/pages/index.astro'),
+      PAGE.replace('<img src="/hero.png">', '<img src="/hero.png" alt="">')
+    );
+    const diagnostics = await client.diagnostics(uri, () =>
+      client.notify('textDocument/didSave', { textDocument: { uri } })
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(analyzeFile).toHaveBeenCalledTimes(2);
+  });
+
+  it('should offer auto-fixes as line edits', async () => {
+    await initialize();
+    const [diagnostic] = await open();
+
+    const response = await client.request('textDocument/codeAction', {
+      textDocument: { uri },
+      range: diagnostic.range,
+      context: { diagnostics: [diagnostic] },
+    });
+
+    expect(response.result).toEqual([
+      {
+        title: 'Fix: Missing Text Alternative',
+        kind: 'quickfix',
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: {
+          changes: {
+            [uri]: [
+              {
+                range: {
+                  start: { line: 4, character: 0 },
+                  end: { line: 5, character: 0 },
+                },
+                newText: '  <img src="/hero.png" alt="Descriptive alt text">\n',
+              },
+            ],
+          },
+        },
+      },
+    ]);
+  });
+
+  it('should not offer fixes for text edited since the last save', async () => {
+    await initialize();
+    const [diagnostic] = await open();
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: `<!-- draft -->\n${PAGE}` }],
+    });
+
+    const response = await client.request('textDocument/codeAction', {
+      textDocument: { uri },
+      range: diagnostic.range,
+      context: { diagnostics: [diagnostic] },
+    });
+
+    expect(response.result).toEqual([]);
+  });
+
+  it('should clear diagnostics when a document is closed', async () => {
+    await initialize();
+    await open();
+
+    const diagnostics = await client.diagnostics(uri, () =>
+      client.notify('textDocument/didClose', { textDocument: { uri } })
+    );
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should exit cleanly only after a shutdown request', async () => {
+    await initialize();
+    expect((await client.request('shutdown')).result).toBeNull();
+
+    client.notify('exit');
+
+    await vi.waitFor(() => expect(onExit).toHaveBeenCalledWith(0));
+  });
+
+  it('should report an exit without shutdown as a failure', async () => {
+    await initialize();
+    client.notify('exit');
+
+    await vi.waitFor(() => expect(onExit).toHaveBeenCalledWith(1));
+  });
+
+  it('should answer protocol errors', async () => {
+    await initialize();
+
+    const unknown = await client.request('workspace/symbol', { query: '' });
+    expect(unknown.error?.code).toBe(-32601);
+
+    client.write(frame('{"jsonrpc": "2.0", "id": 9, '));
+    const malformed = await client.waitFor(message => message.id === null);
+    expect(malformed.error?.code).toBe(-32700);
+  });
+
+  it('should read messages split across chunks', async () => {
+    const raw = frame(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { rootUri: pathToFileURL(projectRoot).href, capabilities: {} },
+      })
+    );
+
+    for (const part of [raw.slice(0, 10), raw.slice(10, 40), raw.slice(40)]) {
+      client.write(part);
+    }
+
+    const response = await client.waitFor(message => message.id === 1);
+    expect(response.result).toHaveProperty('capabilities');
+  });
+});
@@ -0,0 +1,299 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LicenseAnalyzer } from '../analysis/licenses';
+import { AnalysisError } from '../errors';
+import {
+  collectPackageLicenses,
+  detectLicenseText,
+  readLockfilePackages,
+} from '../utils/license-inventory';
+import {
+  evaluateLicense,
+  normalizeLicense,
+  normalizeLicenseId,
+  parseLicenseExpression,
+} from '../utils/spdx';
+import type { AnalyzerConfig } from '../types/analysis';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+const MIT_TEXT =
+  'MIT License\n\nPermission is hereby granted, free of charge, to any person obtaining a copy';
+
+describe('SPDX normalization', () => {
+  it.each([
+    ['MIT', 'MIT'],
+    ['mit', 'MIT'],
+    ['MIT License', 'MIT'],
+    ['Apache 2.0', 'Apache-2.0'],
+    ['Apache License, Version 2.0', 'Apache-2.0'],
+    ['BSD', 'BSD-2-Clause'],
+    ['BSD 3-Clause', 'BSD-3-Clause'],
+    ['GPL-2.0', 'GPL-2.0-only'],
+    ['GPL-3.0+', 'GPL-3.0-or-later'],
+    ['LicenseRef-Commercial', 'LicenseRef-Commercial'],
+  ])('should normalize %s to %s', (declared, expected) => {
+    expect(normalizeLicenseId(declared)).toBe(expected);
+  });
+
+  it('should normalize expressions and keep readable grouping', () => {
+    expect(normalizeLicense('(mit or cc0-1.0)')).toBe('MIT OR CC0-1.0');
+    expect(normalizeLicense('MIT OR (Apache-2.0 AND BSD-3-Clause)')).toBe(
+      'MIT OR (Apache-2.0 AND BSD-3-Clause)'
+    );
+    expect(normalizeLicense('Apache-2.0 WITH LLVM-exception')).toBe(
+      'Apache-2.0 WITH LLVM-exception'
+    );
+  });
+
+  it('should reject licenses that are not SPDX', () => {
+    expect(normalizeLicense('UNLICENSED')).toBeNull();
+    expect(normalizeLicense('SEE LICENSE IN LICENSE.md')).toBeNull();
+    expect(normalizeLicense("Standard 'no charge' license")).toBeNull();
+    expect(normalizeLicense('MIT OR')).toBeNull();
+    expect(normalizeLicense('(MIT')).toBeNull();
+  });
+
+  it('should evaluate OR by its best choice and AND by its worst part', () => {
+    const policy = { allow: ['MIT', 'ISC'], deny: ['GPL-3.0-only'] };
+    const evaluate = (expression: string) =>
+      evaluateLicense(parseLicenseExpression(expression)!, policy);
+
+    expect(evaluate('MIT')).toBe('allowed');
+    expect(evaluate('Zlib')).toBe('not-allowed');
+    expect(evaluate('GPL-3.0-only')).toBe('denied');
+    expect(evaluate('GPL-3.0-only OR MIT')).toBe('allowed');
+    expect(evaluate('MIT AND Zlib')).toBe('not-allowed');
+    expect(evaluate('MIT AND (GPL-3.0-only OR Zlib)')).toBe('not-allowed');
+    expect(evaluate('ISC AND GPL-3.0-only')).toBe('denied');
+    expect(
+      evaluateLicense(parseLicenseExpression('Zlib')!, {
+        allow: [],
+        deny: [],
+      })
+    ).toBe('allowed');
+  });
+});
+
+describe('license inventory', () => {
+  it('should read lockfile v1 dependency trees', () => {
+    expect(
+      readLockfilePackages({
+        lockfileVersion: 1,
+        dependencies: {
+          a: {
+            version: '1.0.0',
+            dependencies: { b: { version: '2.0.0', dev: true } },
+          },
+        },
+      })
+    ).toEqual([
+      { name: 'a', version: '1.0.0', path: 'node_modules/a', dev: false },
+      {
+        name: 'b',
+        version: '2.0.0',
+        path: 'node_modules/a/node_modules/b',
+        dev: true,
+      },
+    ]);
+  });
+
+  it('should recognize common license texts', () => {
+    expect(detectLicenseText(MIT_TEXT)).toBe('MIT');
+    expect(
+      detectLicenseText('Apache License\n  Version 2.0, January 2004')
+    ).toBe('Apache-2.0');
+    expect(detectLicenseText('All rights reserved.')).toBeNull();
+  });
+});
+
+describe('LicenseAnalyzer', () => {
+  let analyzer: LicenseAnalyzer;
+  let config: AnalyzerConfig;
+
+  const writeLockfile = async (
+    packages: Record<string, Record<string, unknown>>
+  ) => {
+    await fs.writeFile(
+      path.join(config.projectRoot, 'package-lock.json'),
+      JSON.stringify(
+        {
+          name: 'app',
+          lockfileVersion: 3,
+          packages: { '': { name: 'app' }, ...packages },
+        },
+        null,
+        2
+      )
+    );
+  };
+  const install = async (
+    key: string,
+    manifest: Record<string, unknown>,
+    files: Record<string, string> = {}
+  ) => {
+    const dir = path.join(config.projectRoot, key);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, 'package.json'),
+      JSON.stringify(manifest)
+    );
+    for (const [name, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(dir, name), content);
+    }
+  };
+  const issuesFor = async (rule: string) =>
+    (await analyzer.analyze(config)).filter(issue => issue.rule === rule);
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    analyzer = new LicenseAnalyzer();
+    config = {
+      projectRoot: await fs.mkdtemp(path.join(os.tmpdir(), 'licenses-')),
+      enabledAnalyzers: ['licenses'],
+      ignore: [],
+      include: [],
+      frameworks: [],
+      severityThreshold: 'low',
+      outputFormat: 'terminal',
+      githubIntegration: false,
+      deploymentChecks: false,
+      autoFix: false,
+      watchMode: false,
+      enableCache: false,
+    };
+
+    await writeLockfile({
+      'node_modules/permissive': { version: '1.0.0', license: 'MIT' },
+      'node_modules/copyleft': { version: '2.0.0', license: 'GPL-3.0' },
+      'node_modules/dual': {
+        version: '1.1.0',
+        license: '(GPL-3.0-only OR Apache-2.0)',
+      },
+      'node_modules/legacy': { version: '0.1.0' },
+      'node_modules/mystery': { version: '3.0.0' },
+      'node_modules/custom': {
+        version: '1.0.0',
+        license: 'SEE LICENSE IN EULA.txt',
+      },
+      'node_modules/tooling': {
+        version: '5.0.0',
+        license: 'Zlib',
+        dev: true,
+      },
+    });
+    await install('node_modules/permissive', { license: 'MIT License' });
+    // The installed manifest wins over the lockfile's copy
+    await install('node_modules/copyleft', { license: 'GPL-3.0' });
+    await install('node_modules/dual', {
+      license: '(GPL-3.0-only OR Apache-2.0)',
+    });
+    await install(
+      'node_modules/legacy',
+      { licenses: [{ type: 'BSD' }] },
+      { LICENSE: 'Redistribution and use in source and binary forms' }
+    );
+    await install('node_modules/mystery', {}, { 'LICENSE.md': MIT_TEXT });
+  });
+
+  afterEach(async () => {
+    await fs.rm(config.projectRoot, { recursive: true, force: true });
+  });
+
+  describe('canAnalyze', () => {
+    it('should run when licenses is enabled', () => {
+      expect(analyzer.canAnalyze(config)).toBe(true);
+      expect(
+        analyzer.canAnalyze({ ...config, enabledAnalyzers: ['types'] })
+      ).toBe(false);
+    });
+  });
+
+  it('should resolve every package offline, falling back to license files', async () => {
+    const inventory = await collectPackageLicenses(config.projectRoot);
+
+    expect(
+      inventory?.map(({ name, license, source }) => ({ name, license, source }))
+    ).toEqual([
+      { name: 'permissive', license: 'MIT', source: 'package.json' },
+      { name: 'copyleft', license: 'GPL-3.0-only', source: 'package.json' },
+      {
+        name: 'dual',
+        license: 'GPL-3.0-only OR Apache-2.0',
+        source: 'package.json',
+      },
+      { name: 'legacy', license: 'BSD-2-Clause', source: 'package.json' },
+      { name: 'mystery', license: 'MIT', source: 'license-file' },
+      { name: 'custom', license: null, source: 'lockfile' },
+      { name: 'tooling', license: 'Zlib', source: 'lockfile' },
+    ]);
+    expect(inventory?.[4].licenseFile).toBe('node_modules/mystery/LICENSE.md');
+  });
+
+  it('should deny strong copyleft licenses by default', async () => {
+    const denied = await issuesFor('license-denied');
+
+    expect(denied).toHaveLength(1);
+    expect(denied[0]).toMatchObject({
+      file: 'package-lock.json',
+      line: 12,
+      title: 'Denied Dependency License',
+      severity: { level: 'high' },
+      category: 'Licenses',
+    });
+    expect(denied[0].description).toContain('copyleft@2.0.0');
+  });
+
+  it('should report licenses that cannot be normalized to SPDX', async () => {
+    const unknown = await issuesFor('license-unknown');
+
+    expect(unknown.map(issue => issue.description)).toEqual([
+      "custom@1.0.0 declares the license 'SEE LICENSE IN EULA.txt', which is not an SPDX expression.",
+    ]);
+  });
+
+  it('should apply the allow list, package exceptions and dev setting', async () => {
+    config.licenses = {
+      allow: ['MIT', 'Apache 2.0', 'BSD-2-Clause'],
+      deny: ['GPL-3.0-only'],
+      ignorePackages: ['custom@1.0.0'],
+    };
+    const issues = await analyzer.analyze(config);
+
+    expect(issues.map(issue => [issue.rule, issue.context?.current])).toEqual([
+      ['license-denied', 'node_modules/copyleft@2.0.0: GPL-3.0'],
+      ['license-not-allowed', 'node_modules/tooling@5.0.0: Zlib (dev)'],
+    ]);
+
+    config.licenses.includeDev = false;
+    expect(await issuesFor('license-not-allowed')).toEqual([]);
+  });
+
+  it('should only run in changed-files mode when the lockfile changed', async () => {
+    config.files = ['src/index.ts'];
+    expect(await analyzer.analyze(config)).toEqual([]);
+
+    config.files = ['package-lock.json'];
+    expect(await issuesFor('license-denied')).toHaveLength(1);
+  });
+
+  it('should skip projects without a lockfile and fail on a broken one', async () => {
+    const lockfile = path.join(config.projectRoot, 'package-lock.json');
+    await fs.writeFile(lockfile, '{ broken');
+    await expect(analyzer.analyze(config)).rejects.toThrow(AnalysisError);
+
+    await fs.rm(lockfile);
+    expect(await analyzer.analyze(config)).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonLinesSink, RingBufferSink } from '../utils/log-sinks';
+import { logger, LogLevel } from '../utils/logger';
+import type { LogEntry } from '../utils/logger';
+import { executeCommand } from '../utils/command-executor';
+import { CORRELATION_ENV, withLogContext } from '../utils/log-context';
+import { ProjectAnalyzer } from '../core/analyzer';
+import type { AnalysisModule } from '../types/analysis';
+
+const entry = (message: string, correlationId?: string): LogEntry => ({
+  timestamp: '2026-01-01T00:00:00.000Z',
+  level: LogLevel.INFO,
+  message,
+  ...(correlationId && { correlationId }),
+});
+
+describe('JsonLinesSink', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'log-sinks-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append one JSON object per line and rotate by size', async () => {
+    const file = path.join(dir, 'logs/analyzer.jsonl');
+    const line = `${JSON.stringify(entry('message 0'))}\n`;
+    const sink = new JsonLinesSink(file, {
+      maxBytes: line.length * 2,
+      maxFiles: 2,
+    });
+
+    for (let index = 0; index < 7; index++) {
+      sink.write(entry(`message ${index}`));
+    }
+
+    const messages = async (name: string) =>
+      (await fs.readFile(path.join(dir, 'logs', name), 'utf-8'))
+        .trim()
+        .split('\n')
+        .map(text => (JSON.parse(text) as LogEntry).message);
+    expect(await messages('analyzer.jsonl')).toEqual(['message 6']);
+    expect(await messages('analyzer.jsonl.1')).toEqual([
+      'message 4',
+      'message 5',
+    ]);
+    expect(await messages('analyzer.jsonl.2')).toEqual([
+      'message 2',
+      'message 3',
+    ]);
+    await expect(
+      fs.access(path.join(dir, 'logs/analyzer.jsonl.3'))
+    ).rejects.toThrow();
+  });
+});
+
+describe('RingBufferSink', () => {
+  it('should keep the latest entries and filter them by correlation id', () => {
+    const sink = new RingBufferSink(3);
+    ['a', 'b', 'c', 'd'].forEach((message, index) =>
+      sink.write(entry(message, index % 2 ? 'run-2' : 'run-1'))
+    );
+
+    expect(sink.entries().map(({ message }) => message)).toEqual([
+      'b',
+      'c',
+      'd',
+    ]);
+    expect(sink.entries('run-2').map(({ message }) => message)).toEqual([
+      'b',
+      'd',
+    ]);
+    sink.clear();
+    expect(sink.entries()).toEqual([]);
+  });
+});
+
+describe('log correlation', () => {
+  let sink: RingBufferSink;
+  let removeSink: () => void;
+
+  beforeEach(() => {
+    sink = new RingBufferSink();
+    removeSink = logger.addSink(sink);
+    logger.setMinLevel(LogLevel.DEBUG);
+  });
+
+  afterEach(() => {
+    removeSink();
+    logger.setMinLevel(LogLevel.INFO);
+  });
+
+  it('should tag the entries of one analysis run and its modules', async () => {
+    const module = (name: string): AnalysisModule => ({
+      name,
+      canAnalyze: () => true,
+      analyze: async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        logger.info(`${name} checked`);
+        return [];
+      },
+    });
+    const projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'log-run-'));
+    const analyzer = new ProjectAnalyzer({
+      projectRoot,
+      enabledAnalyzers: [],
+      enableCache: false,
+      healthHistory: false,
+    });
+    analyzer.registerModule(module('first'));
+    analyzer.registerModule(module('second'));
+
+    await analyzer.analyze();
+    await analyzer.analyze();
+    await fs.rm(projectRoot, { recursive: true, force: true });
+
+    const checked = sink
+      .entries()
+      .filter(({ message }) => message.endsWith('checked'));
+    expect(checked.map(({ context }) => context?.module)).toEqual([
+      'first',
+      'second',
+      'first',
+      'second',
+    ]);
+    const [firstRun, , secondRun] = checked.map(
+      ({ correlationId }) => correlationId
+    );
+    expect(firstRun).toBeTruthy();
+    expect(secondRun).not.toBe(firstRun);
+    expect(sink.entries(firstRun).map(({ message }) => message)).toEqual(
+      expect.arrayContaining([
+        'Starting comprehensive project analysis...',
+        'first checked',
+        'second checked',
+        'Project analysis complete.',
+      ])
+    );
+  });
+
+  it('should pass the correlation id on to commands', async () => {
+    const { stdout } = await withLogContext({ correlationId: 'run-7' }, () =>
+      executeCommand(
+        `node -e "process.stdout.write(process.env.${CORRELATION_ENV})"`
+      )
+    );
+
+    expect(stdout).toBe('run-7');
+    expect(
+      sink.entries('run-7').find(({ message }) => message.startsWith('Command'))
+        ?.context
+    ).toMatchObject({ command: expect.stringContaining('node -e') });
+  });
+});
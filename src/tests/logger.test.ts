@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { logger, LogLevel } from '../utils/logger';
+import { Logger, logger, LogLevel } from '../utils/logger';
+import type { LogEntry } from '../utils/logger';
+import { withLogContext } from '../utils/log-context';
 
 describe('Logger Utility', () => {
   beforeEach(() => {
@@ -197,4 +199,65 @@ describe('Logger Utility', () => {
       logger.setMinLevel(LogLevel.INFO);
     });
   });
+
+  /* ==================== CHILD LOGGER AND SINK TESTS ==================== */
+
+  describe('Child Loggers and Sinks', () => {
+    it('should add bound and async context to entries', async () => {
+      const logger = new Logger(LogLevel.INFO);
+      const entries: LogEntry[] = [];
+      logger.subscribe(entry => entries.push(entry));
+      const child = logger.child({ module: 'SecurityAnalyzer' });
+
+      await withLogContext({ correlationId: 'run-1' }, async () => {
+        await Promise.resolve();
+        child.info('scanning', { file: 'src/a.ts' });
+      });
+      logger.info('done');
+
+      expect(entries[0]).toMatchObject({
+        correlationId: 'run-1',
+        context: { module: 'SecurityAnalyzer', file: 'src/a.ts' },
+      });
+      expect(entries[1].correlationId).toBeUndefined();
+      expect(entries[1].context).toBeUndefined();
+
+      // Children share the level of their parent
+      logger.setMinLevel(LogLevel.ERROR);
+      child.warn('hidden');
+      expect(entries).toHaveLength(2);
+    });
+
+    it('should redact sensitive keys before entries reach sinks', () => {
+      const logger = new Logger(LogLevel.INFO);
+      const sink = { write: vi.fn() };
+      logger.addSink({
+        write: () => {
+          throw new Error('disk full');
+        },
+      });
+      logger.addSink(sink);
+
+      const headers: Record<string, unknown> = {
+        Authorization: 'Bearer abc',
+        'x-api-key': 'k-123',
+      };
+      headers.self = headers;
+      logger.info('request', { headers, password: 'hunter2', maxTokens: 50 });
+
+      expect(sink.write).toHaveBeenCalledWith(
+        expect.objectContaining({
+          context: {
+            headers: {
+              Authorization: '[REDACTED]',
+              'x-api-key': '[REDACTED]',
+              self: '[Circular]',
+            },
+            password: '[REDACTED]',
+            maxTokens: 50,
+          },
+        })
+      );
+    });
+  });
 });
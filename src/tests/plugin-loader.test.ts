@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProjectAnalyzer } from '../core/analyzer';
+import { PluginLoader } from '../core/plugin-loader';
+import { ConfigLoader } from '../config/config-loader';
+import { ConfigurationError } from '../errors';
+import type { AnalyzerConfig } from '../config/schema';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+const fixture = (name: string) =>
+  path.join(__dirname, 'fixtures', 'analyzer-plugins', name);
+
+describe('PluginLoader', () => {
+  let projectRoot: string;
+  let config: AnalyzerConfig;
+
+  const writeFile = async (name: string, source = '') => {
+    const file = path.join(projectRoot, name);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, source);
+    return file;
+  };
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-plugin-'));
+    config = {
+      projectRoot,
+      ignore: [],
+      include: [],
+      frameworks: [],
+      enabledAnalyzers: ['banned-imports'],
+      severityThreshold: 'low',
+      outputFormat: 'terminal',
+      concurrencyLimit: 4,
+      githubIntegration: false,
+      deploymentChecks: false,
+      autoFix: false,
+      watchMode: false,
+      enableCache: false,
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('loads exported modules once, preferring instances over classes', async () => {
+    const plugin = fixture('banned-imports.mjs');
+
+    const modules = await PluginLoader.loadPlugins({ plugins: [plugin] });
+
+    expect(modules.map(module => module.name)).toEqual(['banned-imports']);
+    expect(modules[0].source).toBe(plugin);
+  });
+
+  it('loads CommonJS plugins exporting module objects', async () => {
+    const plugin = fixture('license-header.cjs');
+
+    const modules = await PluginLoader.loadPlugins({ plugins: [plugin] });
+
+    expect(modules.map(module => module.name)).toEqual(['license-header']);
+  });
+
+  it('toggles plugins through enabledAnalyzers by name', async () => {
+    const plugin = fixture('banned-imports.mjs');
+    const [module] = await PluginLoader.loadPlugins({ plugins: [plugin] });
+
+    expect(module.canAnalyze(config)).toBe(true);
+    expect(module.canAnalyze({ ...config, enabledAnalyzers: ['types'] })).toBe(
+      false
+    );
+  });
+
+  it('assigns stable fingerprinted ids to plugin issues', async () => {
+    const plugin = fixture('banned-imports.mjs');
+    const [module] = await PluginLoader.loadPlugins({ plugins: [plugin] });
+
+    const [issue] = await module.analyze(config);
+
+    expect(issue.id).toMatch(/^convention-[0-9a-f]{16}$/);
+    expect(issue.metadata?.checksum).toBeDefined();
+  });
+
+  it('rejects plugins without an AnalysisModule export', async () => {
+    const plugin = fixture('no-module.mjs');
+
+    await expect(
+      PluginLoader.loadPlugins({ plugins: [plugin] })
+    ).rejects.toThrow(ConfigurationError);
+  });
+
+  it('rejects duplicate plugin names', async () => {
+    const first = fixture('banned-imports.mjs');
+    const second = fixture('banned-imports-copy.mjs');
+
+    await expect(
+      PluginLoader.loadPlugins({ plugins: [first, second] })
+    ).rejects.toThrow(/Duplicate analyzer plugin name 'banned-imports'/);
+  });
+
+  it('rejects plugins named like a built-in analyzer', async () => {
+    const plugin = fixture('types.mjs');
+
+    await expect(
+      PluginLoader.loadPlugins({ plugins: [plugin] })
+    ).rejects.toMatchObject({
+      code: 'PLUGIN_NAME_RESERVED',
+      configKey: 'plugins',
+    });
+  });
+
+  describe('file-scoped plugins', () => {
+    const createAnalyzer = async (files?: string[]) => {
+      const [module] = await PluginLoader.loadPlugins({
+        plugins: [fixture('todo-comments.mjs')],
+      });
+      const analyzer = new ProjectAnalyzer({
+        projectRoot,
+        enabledAnalyzers: ['todo-comments'],
+        enableCache: true,
+        healthHistory: false,
+        ...(files && { files, unscopedAnalyzers: 'skip' as const }),
+      });
+      analyzer.registerModule(module);
+      return {
+        analyzer,
+        analyze: vi.spyOn(module, 'analyze'),
+        analyzeFile: vi.spyOn(module, 'analyzeFile' as never),
+      };
+    };
+
+    beforeEach(async () => {
+      await writeFile('src/a.ts', '// TODO: remove\nexport const a = 1;\n');
+      await writeFile('src/b.ts', 'export const b = 2;\n');
+    });
+
+    it('reuses the cached issues of unchanged files', async () => {
+      const first = await createAnalyzer();
+      const result = await first.analyzer.analyze();
+
+      expect(first.analyze).not.toHaveBeenCalled();
+      expect(first.analyzeFile).toHaveBeenCalledTimes(2);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues[0]).toMatchObject({
+        rule: 'todo-comment',
+        line: 1,
+        id: expect.stringMatching(/^convention-[0-9a-f]{16}$/),
+      });
+
+      const second = await createAnalyzer();
+      const cached = await second.analyzer.analyze();
+
+      expect(second.analyzeFile).not.toHaveBeenCalled();
+      expect(cached.issues).toEqual(result.issues);
+    });
+
+    it('keeps the plugin in changed-files runs', async () => {
+      const { analyzer, analyzeFile } = await createAnalyzer(['src/a.ts']);
+
+      const result = await analyzer.analyze();
+
+      expect(result.scope?.skippedModules).not.toContain('todo-comments');
+      expect(analyzeFile).toHaveBeenCalledOnce();
+      expect(result.issues.map(issue => issue.rule)).toEqual(['todo-comment']);
+    });
+  });
+
+  describe('ConfigLoader.resolvePlugins', () => {
+    it('resolves relative paths against the project root', async () => {
+      const plugin = await writeFile('plugins/banned.mjs');
+
+      await expect(
+        ConfigLoader.resolvePlugins(['./plugins/banned.mjs'], projectRoot)
+      ).resolves.toEqual([plugin]);
+    });
+
+    it('resolves package names from the project node_modules', async () => {
+      const entry = await writeFile(
+        'node_modules/analyzer-plugin-license/index.cjs'
+      );
+      await writeFile(
+        'node_modules/analyzer-plugin-license/package.json',
+        JSON.stringify({ name: 'analyzer-plugin-license', main: 'index.cjs' })
+      );
+
+      await expect(
+        ConfigLoader.resolvePlugins(['analyzer-plugin-license'], projectRoot)
+      ).resolves.toEqual([entry]);
+    });
+
+    it('fails validation for unresolvable plugins', async () => {
+      await expect(
+        ConfigLoader.resolvePlugins(['./missing.mjs'], projectRoot)
+      ).rejects.toThrow(ConfigurationError);
+      await expect(
+        ConfigLoader.resolvePlugins(['not-installed-plugin'], projectRoot)
+      ).rejects.toThrow(
+        /Cannot resolve analyzer plugin 'not-installed-plugin'/
+      );
+    });
+  });
+});
@@ -1,6 +1,14 @@
 import { describe, it, expect } from 'vitest';
 import { ReportGenerator } from '../utils/report-generator';
-import type { AnalysisResult, CodeIssue } from '../types/analysis';
+import { diffHunks } from '../utils/diff';
+import type {
+  AnalysisResult,
+  CodeIssue,
+  FixPreview,
+  HealthSnapshot,
+  IssueSuppression,
+  PackageLicense,
+} from '../types/analysis';
 
 // Helper to create mock analysis result
 function createMockAnalysis(
@@ -51,6 +59,62 @@ function createMockIssue(overrides: Partial<CodeIssue> = {}): CodeIssue {
   };
 }
 
+// Helper to create a recorded health snapshot
+function createSnapshot(
+  commit: string,
+  date: string,
+  score: number,
+  overrides: Partial<HealthSnapshot> = {}
+): HealthSnapshot {
+  return {
+    commit,
+    timestamp: `${date}T09:00:00.000Z`,
+    score,
+    criticalIssues: 0,
+    highIssues: 1,
+    mediumIssues: 3,
+    lowIssues: 5,
+    totalIssues: 9,
+    categories: {},
+    ...overrides,
+  };
+}
+
+const history = [
+  createSnapshot('aaaaaaa1', '2026-10-01', 50, {
+    criticalIssues: 1,
+    highIssues: 2,
+    totalIssues: 11,
+  }),
+  createSnapshot('bbbbbbb2', '2026-10-02', 75, {
+    highIssues: 2,
+    totalIssues: 10,
+  }),
+  createSnapshot('ccccccc3', '2026-10-03', 85),
+];
+
+const suppressions: IssueSuppression[] = [
+  {
+    file: 'src/pages/index.astro',
+    line: 12,
+    targetLine: 13,
+    rules: ['lazy-loading'],
+    reason: 'hero image must be eager',
+    status: 'used',
+    suppressed: 1,
+  },
+  {
+    file: 'src/util.ts',
+    line: 4,
+    targetLine: 5,
+    rules: ['TS2532'],
+    reason: 'checked | upstream',
+    expires: '2026-01-31',
+    status: 'expired',
+    suppressed: 0,
+  },
+];
+
 describe('ReportGenerator', () => {
   /* ==================== HTML REPORT TESTS ==================== */
 
@@ -111,6 +175,76 @@ describe('ReportGenerator', () => {
       expect(html).not.toContain('<script>alert');
       expect(html).toContain('&lt;script&gt;');
     });
+
+    it('should list suppressions', () => {
+      const analysis = createMockAnalysis({ suppressions });
+      const html = ReportGenerator.generateHTMLReport(analysis);
+
+      expect(html).toContain('Suppressions (2)');
+      expect(html).toContain('hero image must be eager');
+      expect(html).toContain('Expires 2026-01-31');
+    });
+
+    it('should draw a sparkline of the recorded scores', () => {
+      const analysis = createMockAnalysis({ history });
+      const html = ReportGenerator.generateHTMLReport(analysis);
+
+      expect(html).toContain('<polyline points="0,24 120,13 240,9"');
+      expect(html).toContain(
+        'aria-label="Health score over the last 3 commits: 50 to 85"'
+      );
+      expect(html).toContain('+0.5 per commit');
+      expect(
+        ReportGenerator.generateHTMLReport(
+          createMockAnalysis({ history: history.slice(0, 1) })
+        )
+      ).not.toContain('<svg');
+    });
+
+    it('should draw the bundle composition as a treemap', () => {
+      const analysis = createMockAnalysis({
+        bundle: {
+          totalBytes: 3072,
+          chunks: [
+            {
+              file: '_astro/vendor.js',
+              bytes: 2048,
+              groups: [
+                { name: 'three', kind: 'package', bytes: 1536 },
+                { name: 'src/scripts', kind: 'source', bytes: 512 },
+              ],
+            },
+            {
+              file: '_astro/page.js',
+              bytes: 1024,
+              groups: [{ name: 'src/pages', kind: 'source', bytes: 1024 }],
+            },
+          ],
+          routes: [
+            {
+              url: '/',
+              file: 'dist/index.html',
+              jsBytes: 3072,
+              cssBytes: 0,
+              weightBytes: 4096,
+            },
+          ],
+        },
+      });
+      const html = ReportGenerator.generateHTMLReport(analysis);
+
+      expect(html).toContain('Bundle Composition (3 KB in 2 chunks)');
+      expect(html).toContain(
+        '<div class="treemap-group package" style="flex-grow: 1536" title="three 1.5 KB (75%)">three 1.5 KB</div>'
+      );
+      expect(html).toContain('class="treemap-chunk" style="flex-grow: 1024"');
+      expect(html).toContain(
+        '<tr><td>/</td><td>3 KB</td><td>0 Bytes</td><td>4 KB</td></tr>'
+      );
+      expect(
+        ReportGenerator.generateHTMLReport(createMockAnalysis())
+      ).not.toContain('Bundle Composition');
+    });
   });
 
   /* ==================== MARKDOWN REPORT TESTS ==================== */
@@ -131,6 +265,20 @@ describe('ReportGenerator', () => {
       expect(md).toContain('| Metric | Value |');
       expect(md).toContain('Health Score');
       expect(md).toContain('/100');
+      expect(md).not.toContain('Duplication');
+    });
+
+    it('should include the duplication percentage when measured', () => {
+      const analysis = createMockAnalysis();
+      analysis.health.duplication = {
+        percentage: 5.4,
+        duplicatedLines: 54,
+        totalLines: 1000,
+        clusters: 3,
+      };
+      const md = ReportGenerator.generateMarkdownReport(analysis);
+
+      expect(md).toContain('| **Duplication** | 5.4% (54/1000 lines) |');
     });
 
     it('should group issues by category', () => {
@@ -186,6 +334,21 @@ describe('ReportGenerator', () => {
       expect(md).toContain('❌ Fail');
     });
 
+    it('should list suppressions for auditing', () => {
+      const analysis = createMockAnalysis({ suppressions });
+      const md = ReportGenerator.generateMarkdownReport(analysis);
+
+      expect(md).toContain('## Suppressions');
+      expect(md).toContain(
+        '1 issues suppressed by 2 comments (1 used, 0 unused, 0 unchecked, 1 expired, 0 invalid)'
+      );
+      expect(md).toContain(
+        '| `src/pages/index.astro:12` | lazy-loading | used | 1 | hero image must be eager |'
+      );
+      expect(md).toContain('expired (expires 2026-01-31)');
+      expect(md).toContain('checked \\| upstream');
+    });
+
     it('should include timestamp', () => {
       const analysis = createMockAnalysis();
       const md = ReportGenerator.generateMarkdownReport(analysis);
@@ -263,6 +426,15 @@ describe('ReportGenerator', () => {
       expect(terminal).toContain('... and 5 more issues');
     });
 
+    it('should list suppressions', () => {
+      const analysis = createMockAnalysis({ suppressions });
+      const terminal = ReportGenerator.generateTerminalReport(analysis);
+
+      expect(terminal).toContain('Suppressions: 1 issues suppressed');
+      expect(terminal).toContain('[EXPIRED] TS2532 - checked | upstream');
+      expect(terminal).toContain('src/util.ts:4');
+    });
+
     it('should show success message when no issues', () => {
       const analysis = createMockAnalysis({ issues: [] });
       const terminal = ReportGenerator.generateTerminalReport(analysis);
@@ -271,6 +443,237 @@ describe('ReportGenerator', () => {
     });
   });
 
+  /* ==================== PULL REQUEST COMMENT TESTS ==================== */
+
+  describe('generatePullRequestComment', () => {
+    it('should compare the health with the previous snapshot', () => {
+      const comment = ReportGenerator.generatePullRequestComment(
+        createMockAnalysis({ history })
+      );
+
+      expect(comment.split('\n').slice(0, 11)).toEqual([
+        ReportGenerator.PULL_REQUEST_COMMENT_MARKER,
+        '## ✅ Code Health: 85/100 (+10 since `bbbbbbb`)',
+        '',
+        '| Metric | Previous | Current | Change |',
+        '|--------|----------|---------|--------|',
+        '| Health Score | 75 | 85 | +10 |',
+        '| Critical | 0 | 0 | 0 |',
+        '| High | 2 | 1 | -1 |',
+        '| Medium | 3 | 3 | 0 |',
+        '| Low | 5 | 5 | 0 |',
+        '| Total Issues | 10 | 9 | -1 |',
+      ]);
+      expect(comment).toContain('### Issues (0)\n\n✅ No issues found.');
+    });
+
+    it('should not compare the score of a scoped run', () => {
+      const comment = ReportGenerator.generatePullRequestComment(
+        createMockAnalysis({
+          history,
+          scope: { files: ['src/a.ts', 'src/b.ts'], skippedModules: [] },
+        })
+      );
+
+      expect(comment).toContain('## ✅ Code Health: 85/100\n');
+      expect(comment).toContain('| Health Score | – | 85 | – |');
+      expect(comment).toContain(
+        'Only the 2 changed file(s) were analyzed, so the score is not compared with earlier full analyses.'
+      );
+    });
+
+    it('should list new issues by severity when comparing with a baseline', () => {
+      const comment = ReportGenerator.generatePullRequestComment(
+        createMockAnalysis({
+          issues: [
+            createMockIssue({
+              severity: { level: 'low', impact: 'minor', urgency: 'low' },
+              title: 'Low Issue',
+              line: undefined,
+            }),
+            createMockIssue({
+              severity: {
+                level: 'critical',
+                impact: 'blocking',
+                urgency: 'immediate',
+              },
+              title: 'Critical Issue',
+              description: 'Spans\n  two lines',
+            }),
+            createMockIssue({ title: 'High Issue' }),
+          ],
+          baseline: {
+            file: '.analyzer-baseline.json',
+            newIssues: 3,
+            unchanged: 7,
+            fixed: [],
+          },
+        }),
+        2
+      );
+
+      expect(comment).toContain('| Health Score | – | 85 | – |');
+      expect(comment).toContain(
+        [
+          '### New Issues (3)',
+          '',
+          'Compared against `.analyzer-baseline.json`: 3 new, 7 unchanged, 0 fixed.',
+          '',
+          '- 🔴 **Critical Issue** `src/test.ts:10` - Spans two lines',
+          '- 🟠 **High Issue** `src/test.ts:10` - This is a test issue description',
+          '- ... and 1 more',
+        ].join('\n')
+      );
+    });
+  });
+
+  /* ==================== TREND TABLE TESTS ==================== */
+
+  describe('generateTrendTable', () => {
+    it('should list snapshots newest first with the score change', () => {
+      expect(ReportGenerator.generateTrendTable(history).split('\n')).toEqual([
+        'Commit   Date        Score  Change  Critical  High  Medium  Low  Total',
+        '-------  ----------  -----  ------  --------  ----  ------  ---  -----',
+        'ccccccc  2026-10-03  85     +10     0         1     3       5    9',
+        'bbbbbbb  2026-10-02  75     +25     0         2     3       5    10',
+        'aaaaaaa  2026-10-01  50             1         2     3       5    11',
+      ]);
+    });
+
+    it('should honor the limit and explain an empty history', () => {
+      expect(
+        ReportGenerator.generateTrendTable(history, 1).split('\n')
+      ).toHaveLength(3);
+      expect(ReportGenerator.generateTrendTable([])).toContain(
+        'No health history recorded yet'
+      );
+    });
+  });
+
+  /* ==================== THIRD-PARTY NOTICES TESTS ==================== */
+
+  describe('generateThirdPartyNotices', () => {
+    const pkg = (overrides: Partial<PackageLicense>): PackageLicense => ({
+      name: 'left-pad',
+      version: '1.3.0',
+      path: 'node_modules/left-pad',
+      declared: 'MIT',
+      license: 'MIT',
+      source: 'package.json',
+      dev: false,
+      ...overrides,
+    });
+
+    it('should list each package version once with its license text', () => {
+      const notices = ReportGenerator.generateThirdPartyNotices(
+        [
+          pkg({ name: 'zod', version: '3.25.0', path: 'node_modules/zod' }),
+          pkg({ author: 'Azer', repository: 'https://github.com/a/left-pad' }),
+          pkg({ path: 'node_modules/a/node_modules/left-pad' }),
+          pkg({
+            name: 'mystery',
+            path: 'node_modules/mystery',
+            declared: null,
+            license: null,
+          }),
+        ],
+        new Map([['node_modules/left-pad', 'MIT License\n\nCopyright Azer']])
+      );
+
+      expect(notices).toContain('following 3 third-party packages');
+      expect(notices.match(/## left-pad@1\.3\.0/g)).toHaveLength(1);
+      expect(notices).toContain(
+        [
+          '## left-pad@1.3.0',
+          '',
+          '- License: MIT',
+          '- Author: Azer',
+          '- Repository: https://github.com/a/left-pad',
+          '',
+          '```text',
+          'MIT License',
+          '',
+          'Copyright Azer',
+          '```',
+        ].join('\n')
+      );
+      expect(notices).toContain(
+        '## mystery@1.3.0\n\n- License: Unknown\n\nNo license file is included in the package.'
+      );
+      expect(notices.indexOf('## zod')).toBeGreaterThan(
+        notices.indexOf('## mystery')
+      );
+    });
+  });
+
+  /* ==================== FIX PREVIEW TESTS ==================== */
+
+  describe('fix previews', () => {
+    const original = '<img src="a.png">\n<p>text</p>\n';
+    const patched = '<img src="a.png" loading="lazy">\n<p>text</p>\n';
+    const issue = createMockIssue({
+      title: 'Image Missing Lazy Loading',
+      file: 'src/pages/index.astro',
+      line: 1,
+      autoFixable: true,
+    });
+    const preview: FixPreview = {
+      patches: [
+        {
+          file: 'src/pages/index.astro',
+          original,
+          patched,
+          hunks: diffHunks(original, patched),
+          issues: [issue],
+        },
+      ],
+      failed: [
+        {
+          issue: createMockIssue({ file: 'package.json', line: undefined }),
+          reason: 'The fix makes no change',
+        },
+      ],
+    };
+
+    it('should write the proposed fixes as a unified diff', () => {
+      expect(ReportGenerator.generateFixPatch(preview)).toBe(
+        [
+          '--- a/src/pages/index.astro',
+          '+++ b/src/pages/index.astro',
+          '@@ -1,2 +1,2 @@',
+          '-<img src="a.png">',
+          '+<img src="a.png" loading="lazy">',
+          ' <p>text</p>',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should list the fixes and the issues that could not be fixed', () => {
+      const text = ReportGenerator.generateFixPreview(preview);
+
+      expect(text).toContain('Proposed fixes: 1 issues in 1 files');
+      expect(text).toContain('+<img src="a.png" loading="lazy">');
+      expect(text).toContain('Not fixable: 1 issues');
+      expect(text).toContain('✖ Test Issue - The fix makes no change');
+    });
+
+    it('should summarize applied fixes with the issues still reported', () => {
+      const text = ReportGenerator.generateFixSummary({
+        fixed: [issue],
+        failed: [],
+        skipped: [],
+        verification: { resolved: [], unresolved: [issue], unverified: [] },
+      });
+
+      expect(text).toContain('Auto-fix: 1 fixed, 0 skipped, 0 failed');
+      expect(text).toContain(
+        'Verification: 0 resolved, 1 still reported, 0 not re-checked'
+      );
+      expect(text).toContain('Image Missing Lazy Loading - still reported');
+    });
+  });
+
   /* ==================== SARIF REPORT TESTS ==================== */
 
   describe('generateSarifReport', () => {
@@ -0,0 +1,379 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import {
+  parseReportSpec,
+  renderReport,
+  reportFiles,
+  resolveReportOutputs,
+  writeReports,
+} from '../utils/report-outputs';
+import { ConfigurationError } from '../errors';
+import type { AnalysisResult, CodeIssue } from '../types/analysis';
+import { createIssue } from './fixtures/issues';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+const UNSAFE_EVAL: Partial<CodeIssue> = {
+  id: 'issue-1',
+  type: 'security',
+  severity: { level: 'high', impact: 'major', urgency: 'high' },
+  title: 'Unsafe <script> & "eval"',
+  description: 'Calls eval, with user input\nfrom the query string',
+  file: 'src/scripts/search.ts',
+  line: 12,
+  column: 3,
+  rule: 'no-eval',
+  category: 'Security',
+  source: 'security-analyzer',
+  autoFixable: false,
+};
+
+const analysis: AnalysisResult = {
+  issues: [
+    createIssue(UNSAFE_EVAL),
+    createIssue({
+      ...UNSAFE_EVAL,
+      id: 'issue-2',
+      line: 40,
+      column: undefined,
+    }),
+    createIssue({
+      ...UNSAFE_EVAL,
+      id: 'issue-3',
+      type: 'performance',
+      severity: { level: 'medium', impact: 'minor', urgency: 'medium' },
+      title: 'Unoptimized image',
+      description: 'hero.png is 900 KB',
+      file: 'src/pages/index.astro',
+      line: undefined,
+      column: undefined,
+      rule: 'image-optimization',
+      category: 'Performance',
+    }),
+    createIssue({
+      ...UNSAFE_EVAL,
+      id: 'issue-4',
+      severity: { level: 'low', impact: 'minor', urgency: 'low' },
+      title: 'Missing rel',
+      description: 'target="_blank" without rel="noopener"',
+      rule: 'external-link-rel',
+    }),
+  ],
+  health: {
+    score: 72,
+    criticalIssues: 0,
+    highIssues: 2,
+    mediumIssues: 1,
+    lowIssues: 1,
+    totalIssues: 4,
+    categories: { Security: 3, Performance: 1 },
+    trends: { improving: true, velocity: 0, lastCheck: new Date(0) },
+  },
+  git: null,
+  deployment: null,
+};
+
+// Subset of the SARIF 2.1.0 schema that code scanning uploads rely on
+const SarifLevelSchema = z.enum(['none', 'note', 'warning', 'error']);
+const SarifSchema = z.object({
+  $schema: z.string().url(),
+  version: z.literal('2.1.0'),
+  runs: z
+    .array(
+      z.object({
+        tool: z.object({
+          driver: z.object({
+            name: z.string().min(1),
+            version: z.string().optional(),
+            rules: z.array(
+              z.object({
+                id: z.string().min(1),
+                shortDescription: z.object({ text: z.string() }),
+                defaultConfiguration: z.object({ level: SarifLevelSchema }),
+              })
+            ),
+          }),
+        }),
+        results: z.array(
+          z.object({
+            ruleId: z.string().min(1),
+            ruleIndex: z.number().int().min(0),
+            level: SarifLevelSchema,
+            message: z.object({ text: z.string().min(1) }),
+            locations: z
+              .array(
+                z.object({
+                  physicalLocation: z.object({
+                    artifactLocation: z.object({ uri: z.string().min(1) }),
+                    region: z
+                      .object({
+                        startLine: z.number().int().min(1),
+                        startColumn: z.number().int().min(1).optional(),
+                      })
+                      .optional(),
+                  }),
+                })
+              )
+              .min(1),
+          })
+        ),
+      })
+    )
+    .length(1),
+});
+
+// RFC 4180 records: quoted fields may hold commas, quotes and newlines
+const parseCsv = (csv: string): string[][] => {
+  const rows: string[][] = [[]];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < csv.length; index++) {
+    const char = csv[index];
+    if (quoted) {
+      if (char === '"' && csv[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      rows[rows.length - 1].push(field);
+      field = '';
+    } else if (char === '\n') {
+      rows[rows.length - 1].push(field);
+      rows.push([]);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows[rows.length - 1].push(field);
+  return rows;
+};
+
+const parseXml = (xml: string): Document => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(document.getElementsByTagName('parsererror')).toHaveLength(0);
+  return document;
+};
+
+describe('report outputs', () => {
+  describe('renderReport', () => {
+    it('should render JSON that round-trips the analysis result', () => {
+      const report = JSON.parse(renderReport('json', analysis));
+
+      expect(report).toEqual(JSON.parse(JSON.stringify(analysis)));
+    });
+
+    it('should render SARIF 2.1.0 with results pointing at their rules', () => {
+      const sarif = SarifSchema.parse(
+        JSON.parse(renderReport('sarif', analysis))
+      );
+      const [run] = sarif.runs;
+
+      expect(run.tool.driver.rules.map(rule => rule.id)).toEqual([
+        'no-eval',
+        'image-optimization',
+        'external-link-rel',
+      ]);
+      expect(run.results).toHaveLength(analysis.issues.length);
+      for (const result of run.results) {
+        expect(run.tool.driver.rules[result.ruleIndex].id).toBe(result.ruleId);
+      }
+      expect(run.results.map(result => result.level)).toEqual([
+        'error',
+        'error',
+        'warning',
+        'note',
+      ]);
+    });
+
+    it('should render well-formed JUnit XML whose totals match its test cases', () => {
+      const document = parseXml(renderReport('junit', analysis));
+      const root = document.documentElement;
+      const suites = [...root.getElementsByTagName('testsuite')];
+
+      expect(root.tagName).toBe('testsuites');
+      expect(suites).toHaveLength(1);
+      for (const element of [root, ...suites]) {
+        expect(element.getAttribute('tests')).toBe(
+          String(element.getElementsByTagName('testcase').length)
+        );
+        expect(element.getAttribute('failures')).toBe(
+          String(element.getElementsByTagName('failure').length)
+        );
+      }
+
+      const testCases = [...root.getElementsByTagName('testcase')];
+      expect(testCases).toHaveLength(4);
+      for (const testCase of testCases) {
+        expect(testCase.getAttribute('name')).toBeTruthy();
+        expect(testCase.getAttribute('classname')).toBeTruthy();
+      }
+      expect(testCases[0].getAttribute('name')).toBe(
+        'Unsafe <script> & "eval"'
+      );
+      expect(root.getElementsByTagName('failure')).toHaveLength(2);
+    });
+
+    it('should render CSV records with one column per header', () => {
+      const [header, ...rows] = parseCsv(renderReport('csv', analysis));
+      const issueRows = rows.slice(0, analysis.issues.length);
+
+      expect(header).toEqual([
+        'ID',
+        'Severity',
+        'Impact',
+        'Urgency',
+        'Title',
+        'Description',
+        'File',
+        'Line',
+        'Column',
+        'Category',
+        'Rule',
+        'AutoFixable',
+        'Suggestion',
+      ]);
+      for (const row of issueRows) {
+        expect(row).toHaveLength(header.length);
+      }
+      expect(issueRows[0][header.indexOf('Description')]).toBe(
+        'Calls eval, with user input\nfrom the query string'
+      );
+      expect(rows).toContainEqual(['Health Score', '72']);
+    });
+
+    it('should render an HTML document that escapes issue text', () => {
+      const document = new DOMParser().parseFromString(
+        renderReport('html', analysis),
+        'text/html'
+      );
+
+      expect(document.title).toBe('Project Health Report');
+      expect(document.querySelectorAll('script')).toHaveLength(0);
+      expect(document.querySelector('.issue-title')?.textContent).toBe(
+        'Unsafe <script> & "eval"'
+      );
+    });
+
+    it('should render the markdown and terminal summaries', () => {
+      expect(renderReport('markdown', analysis)).toMatch(
+        /^# .+ Project Health Report/
+      );
+      expect(renderReport('terminal', analysis)).toContain('72');
+    });
+  });
+
+  describe('parseReportSpec', () => {
+    it('should read a format with an optional path', () => {
+      expect(parseReportSpec('sarif:reports/analysis.sarif')).toEqual({
+        format: 'sarif',
+        path: 'reports/analysis.sarif',
+      });
+      expect(parseReportSpec('junit:C:\\ci\\junit.xml')).toEqual({
+        format: 'junit',
+        path: 'C:\\ci\\junit.xml',
+      });
+      expect(parseReportSpec('terminal')).toEqual({ format: 'terminal' });
+      expect(parseReportSpec('json:-')).toEqual({ format: 'json' });
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => parseReportSpec('pdf:report.pdf')).toThrow(
+        ConfigurationError
+      );
+    });
+  });
+
+  describe('resolveReportOutputs', () => {
+    it('should prefer configured outputs over the single output format', () => {
+      expect(
+        resolveReportOutputs(
+          { outputFormat: 'json', outputs: [{ format: 'csv' }] },
+          'report.json'
+        )
+      ).toEqual([{ format: 'csv' }]);
+      expect(
+        resolveReportOutputs({ outputFormat: 'json' }, 'report.json')
+      ).toEqual([{ format: 'json', path: 'report.json' }]);
+      expect(resolveReportOutputs({ outputFormat: 'html' })).toEqual([
+        { format: 'html' },
+      ]);
+    });
+  });
+
+  describe('reportFiles', () => {
+    it('should list the files written, leaving out stdout', () => {
+      expect(
+        reportFiles({
+          projectRoot: '/repo',
+          outputFormat: 'json',
+          outputs: [
+            { format: 'json', path: '-' },
+            { format: 'sarif', path: 'reports/analysis.sarif' },
+            { format: 'terminal' },
+          ],
+        })
+      ).toEqual([path.resolve('/repo', 'reports/analysis.sarif')]);
+      expect(
+        reportFiles({ projectRoot: '/repo', outputFormat: 'html' }, 'out.html')
+      ).toEqual([path.resolve('/repo', 'out.html')]);
+    });
+  });
+
+  describe('writeReports', () => {
+    let projectRoot: string;
+
+    beforeEach(async () => {
+      projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'report-outputs-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should write every report from one analysis result', async () => {
+      const stdout = { write: vi.fn() };
+
+      const written = await writeReports(
+        analysis,
+        [
+          { format: 'sarif', path: 'reports/analysis.sarif' },
+          { format: 'junit', path: 'reports/junit.xml' },
+          { format: 'terminal' },
+        ],
+        projectRoot,
+        stdout
+      );
+
+      expect(written).toEqual([
+        path.join(projectRoot, 'reports', 'analysis.sarif'),
+        path.join(projectRoot, 'reports', 'junit.xml'),
+      ]);
+      SarifSchema.parse(JSON.parse(await fs.readFile(written[0], 'utf-8')));
+      parseXml(await fs.readFile(written[1], 'utf-8'));
+      expect(stdout.write).toHaveBeenCalledOnce();
+      expect(stdout.write).toHaveBeenCalledWith(
+        `${renderReport('terminal', analysis)}\n`
+      );
+    });
+  });
+});
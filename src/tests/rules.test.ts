@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyRuleSettings,
+  getRuleOptions,
+  isRuleEnabled,
+  resolveRule,
+  rulesForFile,
+} from '../config/rules';
+import { logger } from '../utils/logger';
+import { createIssue } from './fixtures/issues';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+describe('rules', () => {
+  it('enables rules that are not configured', () => {
+    expect(resolveRule({}, 'lazy-loading')).toEqual({
+      enabled: true,
+      options: {},
+    });
+  });
+
+  it('resolves shorthand and object settings', () => {
+    const config = {
+      rules: {
+        'lazy-loading': 'off' as const,
+        TS2532: 'critical' as const,
+        'bundle-size': { severity: 'off' as const },
+        'image-optimization': { options: { maxKb: 400 } },
+      },
+    };
+
+    expect(isRuleEnabled(config, 'lazy-loading')).toBe(false);
+    expect(isRuleEnabled(config, 'bundle-size')).toBe(false);
+    expect(resolveRule(config, 'TS2532')).toMatchObject({
+      enabled: true,
+      severity: 'critical',
+    });
+    expect(resolveRule(config, 'image-optimization')).toEqual({
+      enabled: true,
+      severity: undefined,
+      options: { maxKb: 400 },
+    });
+  });
+
+  it('merges options over defaults and ignores mismatched values', () => {
+    const config = {
+      rules: {
+        'image-optimization': {
+          options: { maxKb: 400, highKb: 'big', unknown: true },
+        },
+      },
+    };
+
+    expect(
+      getRuleOptions(config, 'image-optimization', { maxKb: 200, highKb: 500 })
+    ).toEqual({ maxKb: 400, highKb: 500 });
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops disabled rules and overrides severities', () => {
+    const lazy = createIssue();
+    const a11y = createIssue({
+      type: 'accessibility',
+      rule: 'accessibility-pattern',
+    });
+    const secret = createIssue({ type: 'security', rule: 'security-pattern' });
+
+    const applied = applyRuleSettings([lazy, a11y, secret], {
+      rules: {
+        'lazy-loading': 'off',
+        'accessibility-pattern': { severity: 'critical' },
+      },
+    });
+
+    expect(applied).toEqual([
+      {
+        ...a11y,
+        severity: {
+          level: 'critical',
+          impact: 'blocking',
+          urgency: 'immediate',
+        },
+      },
+      secret,
+    ]);
+  });
+
+  it('applies the overrides matching each issue file', () => {
+    const config = {
+      projectRoot: '/project',
+      rules: {
+        'lazy-loading': 'high' as const,
+        'security-pattern': 'off' as const,
+      },
+      overrides: [
+        { files: ['src/pages/**'], rules: { 'lazy-loading': 'off' as const } },
+        {
+          files: ['e2e/**', 'src/**/*.{ts,tsx}'],
+          excludedFiles: ['src/lib/**'],
+          rules: { 'security-pattern': 'low' as const },
+        },
+      ],
+    };
+
+    expect(rulesForFile(config, '/project/src/pages/blog/post.astro')).toEqual({
+      'lazy-loading': 'off',
+      'security-pattern': 'off',
+    });
+    expect(rulesForFile(config, 'e2e/home.spec.ts')).toEqual({
+      'lazy-loading': 'high',
+      'security-pattern': 'low',
+    });
+    expect(rulesForFile(config, 'src/lib/api.ts')).toEqual(config.rules);
+
+    // Turned off at the top level but back on for some files
+    expect(isRuleEnabled(config, 'security-pattern')).toBe(true);
+    expect(isRuleEnabled({ rules: config.rules }, 'security-pattern')).toBe(
+      false
+    );
+
+    const applied = applyRuleSettings(
+      [
+        createIssue({ file: 'src/pages/index.astro' }),
+        createIssue({ file: 'src/components/Hero.astro' }),
+        createIssue({ rule: 'security-pattern', file: 'e2e/home.spec.ts' }),
+        createIssue({ rule: 'security-pattern', file: 'src/lib/api.ts' }),
+      ],
+      config
+    );
+    expect(applied.map(issue => [issue.file, issue.severity.level])).toEqual([
+      ['src/components/Hero.astro', 'high'],
+      ['e2e/home.spec.ts', 'low'],
+    ]);
+  });
+});
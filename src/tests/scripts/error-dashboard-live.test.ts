@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { connectLiveDashboard } from '../../scripts/error-dashboard-live';
+import type { CodeIssue, ProjectHealth } from '../../types/analysis';
+import { createIssue } from '../fixtures/issues';
+
+class FakeEventSource extends EventTarget {
+  static last: FakeEventSource;
+  constructor(readonly url: URL) {
+    super();
+    FakeEventSource.last = this;
+  }
+  emit(type: string, data: unknown) {
+    this.dispatchEvent(new MessageEvent(type, { data: JSON.stringify(data) }));
+  }
+}
+
+const SECRET: Partial<CodeIssue> = {
+  id: 'issue-1',
+  type: 'security',
+  severity: { level: 'critical', impact: 'blocking', urgency: 'immediate' },
+  title: 'Hardcoded secret',
+  description: 'API key assigned to a constant',
+  file: 'src/lib/api.ts',
+  line: 4,
+  rule: 'hardcoded-secret',
+  category: 'Security',
+  source: 'security-analyzer',
+  autoFixable: false,
+};
+
+const health = (overrides: Partial<ProjectHealth> = {}): ProjectHealth => ({
+  score: 45,
+  criticalIssues: 1,
+  highIssues: 1,
+  mediumIssues: 0,
+  lowIssues: 0,
+  totalIssues: 2,
+  categories: { Security: 1, Accessibility: 1 },
+  trends: { improving: true, velocity: 0, lastCheck: new Date(0) },
+  ...overrides,
+});
+
+describe('connectLiveDashboard', () => {
+  let root: HTMLElement;
+
+  beforeEach(() => {
+    vi.stubGlobal('EventSource', FakeEventSource);
+    document.body.innerHTML = `
+      <div class="error-dashboard">
+        <div class="score-circle score-good" data-live="score-circle">
+          <div data-live="score">78</div>
+        </div>
+        <div data-live="criticalIssues">1</div>
+        <div data-live="highIssues">2</div>
+        <div data-live="categories"><div>mock</div></div>
+        <div data-live="critical"><div>mock</div></div>
+        <h2>All Issues (<span data-live="total">15</span>)</h2>
+        <table><tbody data-live="issues"><tr><td>mock</td></tr></tbody></table>
+        <template data-template="category">
+          <div><span data-field="icon"></span><span data-field="name"></span>
+          <span data-field="count"></span><div data-field="fill"></div></div>
+        </template>
+        <template data-template="critical-issue">
+          <div class="issue-item"><span data-field="title"></span>
+          <span data-field="severity"></span><span data-field="type"></span>
+          <span data-field="autofix"></span><span data-field="description"></span>
+          <span data-field="location"></span><span data-field="suggestion"></span></div>
+        </template>
+        <template data-template="issue-row">
+          <tr class="issue-row"><td><span data-field="severity"></span></td>
+          <td data-field="type"></td><td data-field="title"></td>
+          <td data-field="file"></td><td data-field="line"></td>
+          <td data-field="category"></td><td data-field="autofix"></td></tr>
+        </template>
+      </div>`;
+    root = document.querySelector('.error-dashboard') as HTMLElement;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should replace the mock data with the server snapshot', () => {
+    connectLiveDashboard(root, 'http://localhost:4400');
+    expect(FakeEventSource.last.url.href).toBe('http://localhost:4400/events');
+
+    FakeEventSource.last.emit('snapshot', {
+      issues: [
+        createIssue(SECRET),
+        createIssue({
+          ...SECRET,
+          id: 'issue-2',
+          type: 'accessibility',
+          severity: { level: 'high', impact: 'major', urgency: 'high' },
+          title: 'Missing Text Alternative',
+          file: 'src/pages/index.astro',
+          line: undefined,
+          category: 'Accessibility',
+          autoFixable: true,
+        }),
+      ],
+      health: health(),
+      analyzedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    expect(root.querySelector('[data-live="score"]')?.textContent).toBe('45');
+    expect(root.querySelector('[data-live="score-circle"]')?.className).toBe(
+      'score-circle score-critical'
+    );
+    expect(root.querySelector('[data-live="total"]')?.textContent).toBe('2');
+    const rows = [...root.querySelectorAll('tbody tr')];
+    expect(rows.map(row => row.className)).toEqual([
+      'issue-row severity-critical',
+      'issue-row severity-high',
+    ]);
+    expect(
+      [...rows[1].querySelectorAll('td')].map(cell => cell.textContent)
+    ).toEqual([
+      '⚠️high',
+      '♿accessibility',
+      'Missing Text Alternative',
+      'src/pages/index.astro',
+      'N/A',
+      'Accessibility',
+      '✅',
+    ]);
+    expect(
+      root.querySelectorAll('[data-live="critical"] .issue-item')
+    ).toHaveLength(1);
+    expect(
+      root.querySelector<HTMLElement>(
+        '[data-live="categories"] [data-field="fill"]'
+      )?.style.width
+    ).toBe('100%');
+  });
+
+  it('should apply streamed changes to the current issues', () => {
+    const updates = vi.fn();
+    root.addEventListener('error-dashboard:update', updates);
+    connectLiveDashboard(root, 'http://localhost:4400');
+    FakeEventSource.last.emit('snapshot', {
+      issues: [createIssue(SECRET)],
+      health: health(),
+      analyzedAt: null,
+    });
+
+    FakeEventSource.last.emit('issues', {
+      added: [
+        createIssue({
+          ...SECRET,
+          id: 'issue-3',
+          title: 'eval() call',
+        }),
+      ],
+      removed: ['issue-1'],
+      health: health({ score: 80 }),
+      analyzedAt: '2026-01-01T00:01:00.000Z',
+    });
+
+    expect(
+      [...root.querySelectorAll('tbody [data-field="title"]')].map(
+        cell => cell.textContent
+      )
+    ).toEqual(['eval() call']);
+    expect(updates).toHaveBeenLastCalledWith(
+      expect.objectContaining({ detail: { issues: 1, score: 80 } })
+    );
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SiteAnalyzer } from '../analysis/site';
+import { findSiteFile, pageUrl, resolveSiteUrl } from '../utils/site-crawler';
+import type { AnalyzerConfig } from '../types/analysis';
+
+vi.mock('../utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    setMinLevel: vi.fn(),
+  },
+}));
+
+const SITE = { basePath: '/repo/', siteUrl: 'https://acme.github.io/repo/' };
+
+const page = (
+  title: string,
+  body: string,
+  head = `<link rel="canonical" href="https://acme.github.io/repo/">
+    <meta property="og:title" content="${title}">
+    <meta property="og:type" content="website">
+    <meta property="og:image" content="https://acme.github.io/repo/og.png">
+    <meta property="og:url" content="https://acme.github.io/repo/">`
+) => `<!doctype html>
+<html lang="en">
+  <head>
+    <title>${title}</title>
+    ${head}
+  </head>
+  <body>
+    ${body}
+  </body>
+</html>
+`;
+
+describe('site URL resolution', () => {
+  it('should serve pages at their directory URL under the base path', () => {
+    expect(pageUrl('index.html', '/repo/')).toBe('/repo/');
+    expect(pageUrl('about/index.html', '/repo/')).toBe('/repo/about/');
+    expect(pageUrl('404.html', '/')).toBe('/404.html');
+  });
+
+  it('should resolve links the way the deployed site serves them', () => {
+    const resolve = (url: string) => resolveSiteUrl(url, '/repo/blog/', SITE);
+
+    expect(resolve('/repo/about/#team')).toEqual({
+      kind: 'internal',
+      path: 'about/',
+      fragment: 'team',
+    });
+    expect(resolve('first-post/')).toMatchObject({ path: 'blog/first-post/' });
+    expect(resolve('../')).toMatchObject({ path: '' });
+    expect(resolve('/repo')).toMatchObject({ path: '' });
+    expect(resolve('/repo/caf%C3%A9.png')).toMatchObject({ path: 'café.png' });
+    expect(resolve('https://acme.github.io/repo/og.png')).toMatchObject({
+      path: 'og.png',
+    });
+    expect(resolve('/about/')).toEqual({
+      kind: 'outside-base',
+      pathname: '/about/',
+    });
+    expect(resolve('https://github.com/acme')).toEqual({ kind: 'external' });
+    expect(resolve('//cdn.example.com/a.js')).toEqual({ kind: 'external' });
+    expect(resolve('mailto:hello@example.com')).toEqual({ kind: 'external' });
+  });
+
+  it('should find the file a static host serves for a path', () => {
+    const files = new Set(['index.html', 'about/index.html', 'terms.html']);
+
+    expect(findSiteFile(files, '')).toBe('index.html');
+    expect(findSiteFile(files, 'about/')).toBe('about/index.html');
+    expect(findSiteFile(files, 'about')).toBe('about/index.html');
+    expect(findSiteFile(files, 'terms')).toBe('terms.html');
+    expect(findSiteFile(files, 'pricing/')).toBeNull();
+  });
+});
+
+describe('SiteAnalyzer', () => {
+  let analyzer: SiteAnalyzer;
+  let config: AnalyzerConfig;
+
+  const write = async (file: string, content: string) => {
+    const target = path.join(config.projectRoot, 'dist', file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, content);
+  };
+  const issuesFor = async (rule: string) =>
+    (await analyzer.analyze(config)).filter(issue => issue.rule === rule);
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    analyzer = new SiteAnalyzer();
+    config = {
+      projectRoot: await fs.mkdtemp(path.join(os.tmpdir(), 'site-')),
+      enabledAnalyzers: ['site'],
+      ignore: [],
+      include: [],
+      frameworks: [],
+      severityThreshold: 'low',
+      outputFormat: 'terminal',
+      githubIntegration: false,
+      deploymentChecks: false,
+      autoFix: false,
+      watchMode: false,
+      enableCache: false,
+      site: SITE,
+    };
+
+    const nav = `<nav>
+      <a href="/repo/">Home</a>
+      <a href="/repo/about/">About</a>
+      <a href="/repo/pricing/">Pricing</a>
+    </nav>`;
+    await write(
+      'index.html',
+      page(
+        'Acme',
+        `${nav}
+    <main id="main">
+      <a href="#main">Skip</a>
+      <a href="/repo/about/#team">Team</a>
+      <a href="/repo/about/#careers">Careers</a>
+      <a href="/repo/demo/">Old demo</a>
+      <img src="/repo/logo.svg" srcset="/repo/logo.svg 1x, /repo/logo@2x.svg 2x">
+    </main>`
+      )
+    );
+    await write(
+      'about/index.html',
+      page(
+        'Acme',
+        `${nav}
+    <section id="team"><a href="/contact/">Contact</a></section>`
+      )
+    );
+    await write(
+      'terms/index.html',
+      page('Terms', '<p>Terms</p>', '<meta name="description" content="x">')
+    );
+    await write(
+      'demo/index.html',
+      page(
+        'Redirecting…',
+        '<a href="/repo/">Home</a>',
+        '<meta name="robots" content="noindex,nofollow">'
+      )
+    );
+    await write('logo.svg', '<svg></svg>');
+    await write('og.png', '');
+  });
+
+  afterEach(async () => {
+    await fs.rm(config.projectRoot, { recursive: true, force: true });
+  });
+
+  describe('canAnalyze', () => {
+    it('should run when site is enabled', () => {
+      expect(analyzer.canAnalyze(config)).toBe(true);
+      expect(
+        analyzer.canAnalyze({ ...config, enabledAnalyzers: ['types'] })
+      ).toBe(false);
+    });
+  });
+
+  it('should report each broken link once, with every place it appears', async () => {
+    const broken = await issuesFor('site-broken-link');
+
+    expect(broken.map(issue => issue.description)).toEqual([
+      '/repo/pricing/ does not resolve to a file in dist; linked from 2 places',
+      '/contact/ is outside the base path /repo/, so it is not found once deployed',
+      '/repo/logo@2x.svg does not resolve to a file in dist',
+    ]);
+    expect(broken[0]).toMatchObject({
+      file: 'dist/about/index.html',
+      line: 15,
+      severity: { level: 'high' },
+      category: 'Site',
+      context: { current: '<a href="/repo/pricing/">' },
+      metadata: {
+        relatedFiles: ['dist/about/index.html:15:10', 'dist/index.html:15:10'],
+      },
+    });
+  });
+
+  it('should check links under the base path the build was made for', async () => {
+    config.site = { ...SITE, basePath: '/' };
+    const broken = await issuesFor('site-broken-link');
+
+    expect(broken.map(issue => issue.description)).toEqual([
+      '/repo/pricing/ does not resolve to a file in dist; linked from 2 places',
+      '/contact/ is outside the base path /repo/, so it is not found once deployed',
+      '/repo/logo@2x.svg does not resolve to a file in dist',
+    ]);
+  });
+
+  it('should report fragments the target page does not have', async () => {
+    const anchors = await issuesFor('site-missing-anchor');
+
+    expect(anchors.map(issue => issue.description)).toEqual([
+      '/repo/about/#careers points at #careers, which dist/about/index.html does not have',
+    ]);
+  });
+
+  it('should report links to legacy routes', async () => {
+    const legacy = await issuesFor('site-legacy-link');
+
+    expect(legacy).toHaveLength(1);
+    expect(legacy[0]).toMatchObject({
+      file: 'dist/index.html',
+      description: '/repo/demo/ is a legacy route that only redirects',
+    });
+  });
+
+  it('should report indexable pages nothing links to', async () => {
+    const orphans = await issuesFor('site-orphan-page');
+
+    expect(orphans.map(issue => issue.file)).toEqual(['dist/terms/index.html']);
+  });
+
+  it('should report shared titles and missing head tags', async () => {
+    const issues = await analyzer.analyze(config);
+
+    expect(
+      issues.find(issue => issue.rule === 'site-duplicate-title')
+    ).toMatchObject({
+      file: 'dist/about/index.html',
+      description: '2 pages share the title "Acme": /repo/about/, /repo/',
+    });
+    expect(
+      issues
+        .filter(issue => issue.rule.startsWith('site-missing-'))
+        .filter(issue => issue.rule !== 'site-missing-anchor')
+        .map(issue => [issue.rule, issue.file])
+    ).toEqual([
+      ['site-missing-canonical', 'dist/terms/index.html'],
+      ['site-missing-open-graph', 'dist/terms/index.html'],
+    ]);
+  });
+
+  it('should honour ignore patterns and turned off rules', async () => {
+    config.rules = {
+      'site-broken-link': { options: { ignorePatterns: ['^/contact/'] } },
+      'site-orphan-page': 'off',
+    };
+    const issues = await analyzer.analyze(config);
+
+    expect(issues.some(issue => issue.rule === 'site-orphan-page')).toBe(false);
+    expect(
+      issues.filter(issue => issue.rule === 'site-broken-link')
+    ).toHaveLength(2);
+  });
+
+  it('should skip projects that have not been built', async () => {
+    config.site = { ...SITE, outDir: 'build' };
+
+    expect(await analyzer.analyze(config)).toEqual([]);
+  });
+});
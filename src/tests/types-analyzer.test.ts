@@ -1,13 +1,12 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { TypesAnalyzer } from '../analysis/types';
-import { AnalysisError, CommandExecutionError } from '../errors';
+import { AnalysisError } from '../errors';
+import { TypeScriptProgram } from '../utils/typescript-program';
 import type { AnalyzerConfig } from '../types/analysis';
 
-// Mock external dependencies
-vi.mock('../utils/command-executor', () => ({
-  executeCommand: vi.fn(),
-}));
-
 vi.mock('../utils/logger', () => ({
   logger: {
     debug: vi.fn(),
@@ -19,18 +18,32 @@ vi.mock('../utils/logger', () => ({
   },
 }));
 
-import { executeCommand } from '../utils/command-executor';
-import path from 'path';
+const TSCONFIG = JSON.stringify({
+  compilerOptions: {
+    strict: true,
+    target: 'es2020',
+    lib: ['es2020'],
+    types: [],
+    skipLibCheck: true,
+  },
+  include: ['src'],
+});
 
 describe('TypesAnalyzer', () => {
   let analyzer: TypesAnalyzer;
   let mockConfig: AnalyzerConfig;
 
-  beforeEach(() => {
+  const writeSource = async (name: string, lines: string[]) => {
+    const file = path.join(mockConfig.projectRoot, name);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, lines.join('\n'));
+  };
+
+  beforeEach(async () => {
     vi.clearAllMocks();
     analyzer = new TypesAnalyzer();
     mockConfig = {
-      projectRoot: path.resolve('/test/project'),
+      projectRoot: await fs.mkdtemp(path.join(os.tmpdir(), 'types-analyzer-')),
       enabledAnalyzers: ['types'],
       // Add other required config properties with default values
       ignore: [],
@@ -44,6 +57,15 @@ describe('TypesAnalyzer', () => {
       watchMode: false,
       enableCache: false,
     };
+    await fs.writeFile(
+      path.join(mockConfig.projectRoot, 'tsconfig.json'),
+      TSCONFIG
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(mockConfig.projectRoot, { recursive: true, force: true });
   });
 
   describe('canAnalyze', () => {
@@ -52,46 +74,35 @@ describe('TypesAnalyzer', () => {
     });
 
     it('should return false when types analyzer is disabled', () => {
-      const config = { ...mockConfig, enabledAnalyzers: ['syntax'] };
-      expect(analyzer.canAnalyze(config)).toBe(false);
+      mockConfig.enabledAnalyzers = ['syntax'];
+      expect(analyzer.canAnalyze(mockConfig)).toBe(false);
     });
   });
 
   describe('analyze', () => {
     it('should return empty issues when no type errors found', async () => {
-      vi.mocked(executeCommand).mockResolvedValue({
-        stdout: '',
-        stderr: '',
-        exitCode: 0,
-        signal: null,
-        duration: 100,
-      });
+      await writeSource('src/index.ts', ['export const value: number = 1;']);
 
       const issues = await analyzer.analyze(mockConfig);
       expect(issues).toEqual([]);
-      expect(executeCommand).toHaveBeenCalledWith(
-        'npx tsc --noEmit --skipLibCheck',
-        expect.objectContaining({
-          cwd: mockConfig.projectRoot,
-          ignoreExitCode: true,
-        })
-      );
     });
 
-    it('should parse type errors correctly', async () => {
-      const file1 = path.join(mockConfig.projectRoot, 'src', 'index.ts');
-      const file2 = path.join(mockConfig.projectRoot, 'src', 'utils.ts');
+    it('should skip projects without a tsconfig.json', async () => {
+      await fs.rm(path.join(mockConfig.projectRoot, 'tsconfig.json'));
 
-      const mockOutput = `${file1}(10,5): error TS2322: Type 'string' is not assignable to type 'number'.
-${file2}(20,15): error TS2531: Object is possibly 'null'.`;
+      await expect(analyzer.analyze(mockConfig)).resolves.toEqual([]);
+    });
 
-      vi.mocked(executeCommand).mockResolvedValue({
-        stdout: mockOutput,
-        stderr: '',
-        exitCode: 2,
-        signal: null,
-        duration: 100,
-      });
+    it('should convert type errors into issues', async () => {
+      await writeSource('src/index.ts', [
+        'export const count: number = 1;',
+        "export const label: number = 'a';",
+        'export const done = true;',
+      ]);
+      await writeSource('src/utils.ts', [
+        'declare function find(): { id: number } | null;',
+        'export const id = find().id;',
+      ]);
 
       const issues = await analyzer.analyze(mockConfig);
       expect(issues).toHaveLength(2);
@@ -105,10 +116,15 @@ ${file2}(20,15): error TS2531: Object is possibly 'null'.`;
         },
         title: 'TypeScript Error TS2322',
         description: "Type 'string' is not assignable to type 'number'.",
-        file: path.join('src', 'index.ts'),
-        line: 10,
-        column: 5,
+        file: 'src/index.ts',
+        line: 2,
+        column: 14,
         rule: 'TS2322',
+        context: {
+          before: ['export const count: number = 1;'],
+          current: "export const label: number = 'a';",
+          after: ['export const done = true;'],
+        },
       });
 
       expect(issues[1]).toMatchObject({
@@ -116,32 +132,136 @@ ${file2}(20,15): error TS2531: Object is possibly 'null'.`;
         severity: { level: 'high', impact: 'major', urgency: 'high' },
         title: 'TypeScript Error TS2531',
         description: "Object is possibly 'null'.",
-        file: path.join('src', 'utils.ts'),
-        line: 20,
-        column: 15,
+        file: 'src/utils.ts',
+        line: 2,
+        column: 19,
         rule: 'TS2531',
         autoFixable: true,
       });
     });
 
-    it('should handle command execution errors', async () => {
-      const error = new CommandExecutionError(
-        'npx tsc',
-        1,
-        null,
-        '',
-        'Error',
-        'Command failed'
+    it('should keep the full message chain and related locations', async () => {
+      await writeSource('src/index.ts', [
+        'interface Options {',
+        '  retries: number;',
+        '}',
+        "const input = { retries: 'three' };",
+        'export const options: Options = input;',
+      ]);
+
+      const [issue] = await analyzer.analyze(mockConfig);
+
+      expect(issue.description.split('\n')).toEqual([
+        "Type '{ retries: string; }' is not assignable to type 'Options'.",
+        "  Types of property 'retries' are incompatible.",
+        "    Type 'string' is not assignable to type 'number'.",
+      ]);
+
+      await writeSource('src/index.ts', [
+        'interface Options {',
+        '  retries: number;',
+        '}',
+        "export const options: Options = { retries: 'three' };",
+      ]);
+
+      const [related] = await analyzer.analyze(mockConfig);
+      expect(related.metadata?.relatedFiles).toEqual(['src/index.ts:2:3']);
+      expect(related.description).toContain(
+        "src/index.ts:2:3: The expected type comes from property 'retries'"
       );
-      vi.mocked(executeCommand).mockRejectedValue(error);
+    });
 
-      await expect(analyzer.analyze(mockConfig)).rejects.toThrow(AnalysisError);
+    it('should assign ids that are stable across runs', async () => {
+      const source = ["export const label: number = 'a';"];
+      await writeSource('src/index.ts', source);
+      const [first] = await analyzer.analyze(mockConfig);
+
+      await writeSource('src/index.ts', ['', '', ...source]);
+      const [second] = await analyzer.analyze(mockConfig);
+
+      expect(second.line).toBe(3);
+      expect(first.id).toBe(second.id);
+      expect(first.metadata?.checksum).toBeDefined();
     });
 
-    it('should handle unexpected errors', async () => {
-      vi.mocked(executeCommand).mockRejectedValue(
-        new Error('Unexpected error')
+    it('should honor per-rule settings', async () => {
+      await writeSource('src/index.ts', [
+        "export const label: number = 'a';",
+        'declare function find(): { id: number } | null;',
+        'export const id = find().id;',
+      ]);
+
+      const issues = await analyzer.analyze({
+        ...mockConfig,
+        rules: { TS2322: 'off', TS2531: { severity: 'info' } },
+      });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        rule: 'TS2531',
+        severity: { level: 'info', impact: 'cosmetic', urgency: 'low' },
+      });
+    });
+
+    it('should report tsconfig errors against the config file', async () => {
+      await fs.writeFile(
+        path.join(mockConfig.projectRoot, 'tsconfig.json'),
+        JSON.stringify({
+          compilerOptions: {
+            strict: true,
+            lib: ['es2020'],
+            types: [],
+            notAnOption: true,
+          },
+          include: ['src'],
+        })
+      );
+      await writeSource('src/index.ts', ['export const value = 1;']);
+
+      const issues = await analyzer.analyze(mockConfig);
+
+      expect(issues).toContainEqual(
+        expect.objectContaining({ rule: 'TS5023', file: 'tsconfig.json' })
       );
+    });
+
+    it('should write and reuse the .tsbuildinfo', async () => {
+      await writeSource('src/index.ts', ["export const label: number = 'a';"]);
+      const issues = await analyzer.analyze(mockConfig);
+
+      const buildInfo = path.join(
+        mockConfig.projectRoot,
+        TypeScriptProgram.BUILD_INFO_FILE
+      );
+      await expect(fs.access(buildInfo)).resolves.toBeUndefined();
+
+      // A cold program reads the diagnostics of unchanged files back from disk
+      const diagnostics = await new TypeScriptProgram(
+        mockConfig.projectRoot
+      ).getSemanticDiagnostics();
+      expect(diagnostics?.map(diagnostic => diagnostic.code)).toEqual([2322]);
+      expect(issues).toHaveLength(1);
+    });
+
+    it('should let timers run and stop when cancelled mid-check', async () => {
+      await writeSource('src/a.ts', ['export const a = 1;']);
+      await writeSource('src/b.ts', ["export const b: number = 'b';"]);
+      const controller = new AbortController();
+      // Fires only if the check yields to the event loop
+      setImmediate(() => controller.abort(new Error('cancelled')));
+
+      await expect(
+        analyzer.analyze(mockConfig, controller.signal)
+      ).rejects.toThrow('cancelled');
+    });
+
+    it('should handle unexpected errors', async () => {
+      vi.spyOn(
+        TypeScriptProgram.prototype,
+        'getSemanticDiagnostics'
+      ).mockImplementation(() => {
+        throw new Error('Unexpected error');
+      });
 
       await expect(analyzer.analyze(mockConfig)).rejects.toThrow(AnalysisError);
     });
@@ -1,3 +1,5 @@
+import type { DiffHunk } from '../utils/diff';
+
 export interface CodeIssue {
   id: string;
   type: string;
@@ -32,6 +34,9 @@ export interface CodeIssue {
   };
 }
 
+/** An issue as built by an analysis module, before it is assigned a stable id */
+export type IssueDraft = Omit<CodeIssue, 'id'>;
+
 export interface ProjectHealth {
   score: number; // 0-100
   criticalIssues: number;
@@ -45,6 +50,34 @@ export interface ProjectHealth {
     velocity: number;
     lastCheck: Date;
   };
+  /** Present when the duplication analyzer ran */
+  duplication?: DuplicationSummary;
+}
+
+/**
+ * How much of the analyzed code is duplicated. Lines are code lines, without
+ * blank and comment-only lines; `percentage` is rounded to one decimal.
+ */
+export interface DuplicationSummary {
+  percentage: number;
+  duplicatedLines: number;
+  totalLines: number;
+  clusters: number;
+}
+
+/**
+ * Health of one analyzed commit, as kept in the local history store
+ */
+export interface HealthSnapshot {
+  commit: string;
+  timestamp: string;
+  score: number;
+  criticalIssues: number;
+  highIssues: number;
+  mediumIssues: number;
+  lowIssues: number;
+  totalIssues: number;
+  categories: Record<string, number>;
 }
 
 export interface GitAnalysis {
@@ -76,17 +109,300 @@ export interface DeploymentChecklist {
   assets: 'pass' | 'fail' | 'warning';
 }
 
+export interface BaselineEntry {
+  fingerprint: string;
+  rule: string;
+  file: string;
+  title: string;
+  severity: CodeIssue['severity']['level'];
+}
+
+export interface BaselineComparison {
+  file: string;
+  newIssues: number;
+  unchanged: number;
+  fixed: BaselineEntry[];
+}
+
+/**
+ * An inline `analyzer-disable-line` / `analyzer-disable-next-line` comment.
+ * `used` suppressions silenced at least one issue; `invalid` ones are missing
+ * a reason or have a malformed expiry and never suppress anything.
+ */
+export interface IssueSuppression {
+  file: string;
+  line: number;
+  targetLine: number;
+  rules: string[];
+  reason: string;
+  expires?: string;
+  /** `unchecked` when a module that reports one of its rules did not complete */
+  status: 'used' | 'unused' | 'unchecked' | 'expired' | 'invalid';
+  suppressed: number;
+}
+
 export interface AnalysisResult {
   issues: CodeIssue[];
   health: ProjectHealth;
   git: GitAnalysis | null;
   deployment: DeploymentChecklist | null;
+  baseline?: BaselineComparison;
+  suppressions?: IssueSuppression[];
+  /** Recorded snapshots, oldest first, ending with this run */
+  history?: HealthSnapshot[];
+  /** Set when only some files were analyzed */
+  scope?: AnalysisScope;
+  /** Present when the performance analyzer read bundle stats */
+  bundle?: BundleComposition;
+  /** How the run of each scheduled module ended, in registration order */
+  modules?: ModuleRun[];
+  /** Set when the run was cancelled; issues come from the modules that completed */
+  cancelled?: boolean;
+}
+
+export type ModuleRunStatus = 'completed' | 'failed' | 'timeout' | 'cancelled';
+
+export interface ModuleRun {
+  module: string;
+  status: ModuleRunStatus;
+  durationMs: number;
+  issues: number;
+  /** Why the run did not complete */
+  error?: string;
+}
+
+/**
+ * Where an analysis run stands, sent whenever a module starts or ends.
+ * `modules` lists every scheduled module in schedule order.
+ */
+export interface AnalysisProgress {
+  modules: Array<{
+    name: string;
+    state: 'pending' | 'running' | ModuleRunStatus;
+    /** When the module started, in ms since the epoch */
+    startedAt?: number;
+    durationMs?: number;
+    issues?: number;
+  }>;
+  completed: number;
+  total: number;
+}
+
+export interface AnalysisScope {
+  changedSince?: string;
+  files: string[];
+  /** Modules that cannot scope to files and were skipped */
+  skippedModules: string[];
+}
+
+/**
+ * Proposed auto-fixes for one file. `hunks` turn `original` into `patched`
+ * and can be applied one by one.
+ */
+export interface FilePatch {
+  /** Path relative to the project root */
+  file: string;
+  original: string;
+  patched: string;
+  hunks: DiffHunk[];
+  issues: CodeIssue[];
+}
+
+export interface FixFailure {
+  issue: CodeIssue;
+  reason: string;
+}
+
+export interface FixPreview {
+  patches: FilePatch[];
+  /** Auto-fixable issues for which no fix could be proposed */
+  failed: FixFailure[];
+}
+
+/**
+ * Re-analysis of the files touched by applied fixes. An issue is unresolved
+ * when its rule still reports at the same file and line.
+ */
+export interface FixVerification {
+  resolved: CodeIssue[];
+  unresolved: CodeIssue[];
+  /** Issues whose module failed to re-run */
+  unverified: CodeIssue[];
+}
+
+export interface FixResult {
+  fixed: CodeIssue[];
+  failed: FixFailure[];
+  /** Issues whose hunks were rejected */
+  skipped: CodeIssue[];
+  verification: FixVerification;
+}
+
+export type SeverityLevel = CodeIssue['severity']['level'];
+
+/**
+ * ESLint-style per-rule setting: `off`, a severity override, or an object
+ * carrying an optional severity plus rule-specific options.
+ */
+export type RuleSetting =
+  | 'off'
+  | SeverityLevel
+  | {
+      severity?: 'off' | SeverityLevel;
+      options?: Record<string, unknown>;
+    };
+
+/**
+ * Rule settings for the files matching `files` (project-relative globs),
+ * applied over the top-level `rules` in order. Rule options always come from
+ * the top-level `rules`.
+ */
+export interface RuleOverride {
+  files: string[];
+  excludedFiles?: string[];
+  rules: Record<string, RuleSetting>;
+}
+
+/**
+ * Scheduling of one analysis module from `.analyzer.json`, keyed by module
+ * name; each field replaces what the module itself declares
+ */
+export interface ModuleSchedule {
+  /** Milliseconds; 0 runs the module without a timeout */
+  timeout?: number;
+  priority?: number;
+  dependsOn?: string[];
+}
+
+/**
+ * Dependency license policy from `.analyzer.json`. Entries are SPDX ids;
+ * packages are named as `name` or `name@version`.
+ */
+export interface LicensePolicy {
+  /** When set, licenses outside this list are violations */
+  allow?: string[];
+  deny?: string[];
+  /** Reviewed packages that are never reported */
+  ignorePackages?: string[];
+  /** Check devDependencies too; defaults to true */
+  includeDev?: boolean;
+}
+
+/**
+ * Where the built site lives and how it is served, for the site analyzer.
+ * Defaults follow the deployment config that the build itself uses.
+ */
+export interface SiteCheckConfig {
+  /** Build output directory, relative to the project root; defaults to dist */
+  outDir?: string;
+  /** Base path the site is served under, e.g. `/my-repo/` on GitHub Pages */
+  basePath?: string;
+  /** Absolute site URL; links to it are checked like root-relative ones */
+  siteUrl?: string;
+}
+
+/**
+ * What the client bundle is made of, from the stats the build records.
+ * Chunk bytes are attributed to the npm packages and source directories of
+ * the modules rendered into them.
+ */
+export interface BundleComposition {
+  totalBytes: number;
+  chunks: Array<{
+    /** Path inside the build output, e.g. `_astro/client.B37-9Zo1.js` */
+    file: string;
+    bytes: number;
+    groups: Array<{ name: string; kind: 'package' | 'source'; bytes: number }>;
+  }>;
+  /** JavaScript, CSS and total weight each built page loads */
+  routes: Array<{
+    url: string;
+    file: string;
+    jsBytes: number;
+    cssBytes: number;
+    weightBytes: number;
+  }>;
+}
+
+/**
+ * One installed package from the lockfile and the license it resolves to
+ */
+export interface PackageLicense {
+  name: string;
+  version: string;
+  /** Lockfile key, e.g. `node_modules/a/node_modules/b` */
+  path: string;
+  /** License as the package declares it; null when it declares none */
+  declared: string | null;
+  /** SPDX expression; null when it could not be determined */
+  license: string | null;
+  source: 'package.json' | 'lockfile' | 'license-file' | null;
+  dev: boolean;
+  author?: string;
+  repository?: string;
+  /** Project-relative path of the package's license file */
+  licenseFile?: string;
 }
 
 export interface AnalysisModule {
   name: string;
+  /**
+   * Modules that must end before this one starts, when they run too. A
+   * failed or timed-out dependency does not keep this module from running.
+   */
+  dependsOn?: string[];
+  /** Modules ready to start run in descending priority; defaults to 0 */
+  priority?: number;
+  /** Milliseconds after which the run is aborted; defaults to `moduleTimeout` */
+  timeout?: number;
+  /**
+   * Whether `analyze` limits itself to `config.files` when it is set.
+   * Modules that can only check the whole project leave it unset and are
+   * skipped, or run in full, in changed-files mode (`unscopedAnalyzers`).
+   */
+  supportsFileScope?: boolean;
+  /**
+   * Globs of the rule ids the module reports, like `TS*`. A suppression only
+   * counts as unused once the modules reporting its rules ran and completed;
+   * rules no module lists wait for the modules that list none.
+   */
+  reportedRules?: string[];
   canAnalyze(config: AnalyzerConfig): boolean;
-  analyze(config: AnalyzerConfig): Promise<CodeIssue[]>;
+  /**
+   * `signal` aborts when the run is cancelled or the module times out; pass
+   * it on to `executeCommand` and stop between long steps
+   */
+  analyze(config: AnalyzerConfig, signal?: AbortSignal): Promise<CodeIssue[]>;
+}
+
+/**
+ * A module whose issues in a file depend only on that file's content, so the
+ * analyzer can keep them in the AnalysisCache and skip unchanged files.
+ * `analyze` must report the same as `analyzeProject` plus `analyzeFile` over
+ * every file of `getFiles`.
+ */
+export interface FileAnalysisModule extends AnalysisModule {
+  supportsFileScope: true;
+  /** Bump whenever the checks change, so issues cached by older checks are dropped */
+  version: string;
+  /** Absolute paths of the files `analyzeFile` checks, within `config.files` when set */
+  getFiles(config: AnalyzerConfig): Promise<string[]>;
+  /** Check one file; the issues are stamped the way `analyze` stamps them */
+  analyzeFile(
+    file: string,
+    content: string,
+    config: AnalyzerConfig
+  ): Promise<CodeIssue[]>;
+  /** Checks that span files, such as `npm audit`; their issues are never cached */
+  analyzeProject?(
+    config: AnalyzerConfig,
+    signal?: AbortSignal
+  ): Promise<CodeIssue[]>;
+  /**
+   * Files other than the checked one that `analyzeFile` reads, such as an
+   * allowlist; cached issues are dropped when one of them changes
+   */
+  getCacheInputs?(config: AnalyzerConfig): string[];
 }
 
 export interface AnalyzerConfig {
@@ -96,10 +412,34 @@ export interface AnalyzerConfig {
   frameworks: string[];
   enabledAnalyzers: string[];
   severityThreshold: 'critical' | 'high' | 'medium' | 'low' | 'info';
-  outputFormat: 'json' | 'markdown' | 'html' | 'terminal';
+  outputFormat:
+    | 'json'
+    | 'markdown'
+    | 'html'
+    | 'terminal'
+    | 'sarif'
+    | 'csv'
+    | 'junit';
+  outputs?: Array<{ format: AnalyzerConfig['outputFormat']; path?: string }>;
   githubIntegration: boolean;
   deploymentChecks: boolean;
   autoFix: boolean;
   watchMode: boolean;
   enableCache: boolean;
+  baselineFile?: string;
+  secretsAllowlistFile?: string;
+  /** Stats written by the `bundleStats()` Astro integration */
+  bundleStatsFile?: string;
+  changedSince?: string;
+  /** Project-relative files to analyze; every file when unset */
+  files?: string[];
+  unscopedAnalyzers?: 'skip' | 'run';
+  healthHistory?: boolean;
+  plugins?: string[];
+  rules?: Record<string, RuleSetting>;
+  overrides?: RuleOverride[];
+  licenses?: LicensePolicy;
+  site?: SiteCheckConfig;
+  moduleTimeout?: number;
+  modules?: Record<string, ModuleSchedule>;
 }
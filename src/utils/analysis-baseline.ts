@@ -0,0 +1,157 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { fingerprintIssue, normalizeIssuePath } from './issue-fingerprint';
+import { ConfigurationError, getErrorMessage } from '../errors';
+import type {
+  BaselineComparison,
+  BaselineEntry,
+  CodeIssue,
+} from '../types/analysis';
+
+interface BaselineData {
+  version: number;
+  generatedAt: string;
+  entries: BaselineEntry[];
+}
+
+/**
+ * Committed snapshot of known issues. Runs compared against a baseline only
+ * report issues that are not in it, so CI can gate on regressions without
+ * first fixing every historical finding.
+ */
+export class AnalysisBaseline {
+  static readonly DEFAULT_FILE = '.analyzer-baseline.json';
+  private readonly BASELINE_VERSION = 1;
+  private projectRoot: string;
+  private baselineFile: string;
+
+  constructor(projectRoot: string, file = AnalysisBaseline.DEFAULT_FILE) {
+    this.projectRoot = projectRoot;
+    this.baselineFile = path.resolve(projectRoot, file);
+  }
+
+  get filePath(): string {
+    return this.baselineFile;
+  }
+
+  /**
+   * Load baseline entries from disk. Returns null when no baseline exists yet.
+   */
+  async load(): Promise<BaselineEntry[] | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.baselineFile, 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      const data = JSON.parse(raw) as BaselineData;
+      if (data.version !== this.BASELINE_VERSION) {
+        throw new Error(
+          `unsupported version ${data.version} (expected ${this.BASELINE_VERSION})`
+        );
+      }
+      if (!Array.isArray(data.entries)) {
+        throw new Error('missing entries array');
+      }
+      logger.debug(
+        `Loaded baseline with ${data.entries.length} entries from ${this.baselineFile}`
+      );
+      return data.entries;
+    } catch (error: unknown) {
+      throw new ConfigurationError('baselineFile', {
+        code: 'BASELINE_INVALID',
+        params: { file: this.baselineFile, reason: getErrorMessage(error) },
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Write the given issues as the new baseline
+   */
+  async write(issues: CodeIssue[]): Promise<BaselineEntry[]> {
+    const entries = issues
+      .map(issue => this.toEntry(issue))
+      .sort(
+        (a, b) =>
+          a.file.localeCompare(b.file) ||
+          a.rule.localeCompare(b.rule) ||
+          a.fingerprint.localeCompare(b.fingerprint)
+      );
+
+    const data: BaselineData = {
+      version: this.BASELINE_VERSION,
+      generatedAt: new Date().toISOString(),
+      entries,
+    };
+
+    await fs.mkdir(path.dirname(this.baselineFile), { recursive: true });
+    await fs.writeFile(
+      this.baselineFile,
+      `${JSON.stringify(data, null, 2)}\n`,
+      'utf-8'
+    );
+    logger.info(
+      `Baseline with ${entries.length} issues written to ${this.baselineFile}`
+    );
+    return entries;
+  }
+
+  /**
+   * Split current issues into new ones and ones already in the baseline.
+   * Fingerprints are matched as a multiset, so a second copy of a known issue
+   * in the same file still counts as new.
+   */
+  compare(
+    issues: CodeIssue[],
+    entries: BaselineEntry[]
+  ): { issues: CodeIssue[]; comparison: BaselineComparison } {
+    const remaining = new Map<string, BaselineEntry[]>();
+    for (const entry of entries) {
+      const bucket = remaining.get(entry.fingerprint) ?? [];
+      bucket.push(entry);
+      remaining.set(entry.fingerprint, bucket);
+    }
+
+    const newIssues: CodeIssue[] = [];
+    let unchanged = 0;
+
+    for (const issue of issues) {
+      const bucket = remaining.get(fingerprintIssue(issue, this.projectRoot));
+      if (bucket && bucket.length > 0) {
+        bucket.pop();
+        unchanged++;
+      } else {
+        newIssues.push(issue);
+      }
+    }
+
+    const fixed = Array.from(remaining.values()).flat();
+
+    return {
+      issues: newIssues,
+      comparison: {
+        file: path.relative(this.projectRoot, this.baselineFile),
+        newIssues: newIssues.length,
+        unchanged,
+        fixed,
+      },
+    };
+  }
+
+  private toEntry(issue: CodeIssue): BaselineEntry {
+    return {
+      fingerprint: fingerprintIssue(issue, this.projectRoot),
+      rule: issue.rule,
+      file: normalizeIssuePath(issue.file, this.projectRoot),
+      title: issue.title,
+      severity: issue.severity.level,
+    };
+  }
+}
@@ -6,13 +6,15 @@ import type { CodeIssue } from '../types/analysis';
 
 interface CacheEntry {
   fileHash: string;
-  issues: CodeIssue[];
+  /** Issues by the name of the module that reported them */
+  issues: Record<string, CodeIssue[]>;
   timestamp: number;
-  analyzedBy: string[];
 }
 
 interface CacheData {
   version: string;
+  /** Identifies the configuration and analyzers the entries were produced with */
+  key?: string;
   files: Record<string, CacheEntry>;
 }
 
@@ -20,7 +22,7 @@ export class AnalysisCache {
   private cacheDir: string;
   private cacheFile: string;
   private cache: CacheData;
-  private readonly CACHE_VERSION = '1.0.0';
+  private readonly CACHE_VERSION = '2.0.0';
   private readonly MAX_CACHE_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
 
   constructor(projectRoot: string) {
@@ -66,92 +68,95 @@ export class AnalysisCache {
   }
 
   /**
-   * Calculate hash of file content
+   * Drop every entry when they were produced with a different configuration
+   * or different analyzers than the given key identifies
    */
-  private async getFileHash(filePath: string): Promise<string> {
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      return crypto.createHash('sha256').update(content).digest('hex');
-    } catch (error) {
-      throw new Error(`Failed to hash file ${filePath}: ${error}`);
+  useKey(key: string): void {
+    if (this.cache.key === key) return;
+
+    const entries = Object.keys(this.cache.files).length;
+    if (entries > 0) {
+      logger.info(
+        `Analysis configuration changed, discarding ${entries} cached files`
+      );
     }
+    this.cache = { version: this.CACHE_VERSION, key, files: {} };
   }
 
   /**
-   * Get cached issues for a file if cache is valid
+   * Calculate hash of file content
    */
-  async getCachedIssues(
-    filePath: string,
-    analyzerModules: string[]
-  ): Promise<CodeIssue[] | null> {
-    try {
-      const entry = this.cache.files[filePath];
-
-      if (!entry) {
-        return null;
-      }
+  private getContentHash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
 
-      // Check if cache is too old
-      if (Date.now() - entry.timestamp > this.MAX_CACHE_AGE_MS) {
-        logger.debug(`Cache expired for ${filePath}`);
-        delete this.cache.files[filePath];
-        return null;
-      }
+  /**
+   * Get a module's cached issues for a file if its content is unchanged
+   *
+   * @param content - The file's current content
+   */
+  getCachedIssues(
+    filePath: string,
+    module: string,
+    content: string
+  ): CodeIssue[] | null {
+    const entry = this.cache.files[filePath];
 
-      // Check if file has been modified
-      const currentHash = await this.getFileHash(filePath);
-      if (currentHash !== entry.fileHash) {
-        logger.debug(`File modified: ${filePath}`);
-        delete this.cache.files[filePath];
-        return null;
-      }
+    if (!entry) {
+      return null;
+    }
 
-      // Check if all required analyzers were run
-      const hasAllAnalyzers = analyzerModules.every(module =>
-        entry.analyzedBy.includes(module)
-      );
+    // Check if cache is too old
+    if (Date.now() - entry.timestamp > this.MAX_CACHE_AGE_MS) {
+      logger.debug(`Cache expired for ${filePath}`);
+      delete this.cache.files[filePath];
+      return null;
+    }
 
-      if (!hasAllAnalyzers) {
-        logger.debug(`Missing analyzer results for ${filePath}`);
-        return null;
-      }
+    // Check if file has been modified
+    if (this.getContentHash(content) !== entry.fileHash) {
+      logger.debug(`File modified: ${filePath}`);
+      delete this.cache.files[filePath];
+      return null;
+    }
 
-      logger.debug(`Cache hit for ${filePath}`);
-      return entry.issues;
-    } catch (error) {
-      logger.warn(
-        `Error reading cache for ${filePath}`,
-        error as Record<string, unknown>
-      );
+    // Check if the module was run on this version of the file
+    const issues = entry.issues[module];
+    if (!issues) {
+      logger.debug(`Missing ${module} results for ${filePath}`);
       return null;
     }
+
+    logger.debug(`Cache hit for ${filePath}`);
+    return issues;
   }
 
   /**
-   * Store analysis results for a file
+   * Store a module's issues for a file, next to other modules' issues for
+   * the same content
+   *
+   * @param content - The content the issues were found in
    */
-  async setCachedIssues(
+  setCachedIssues(
     filePath: string,
-    issues: CodeIssue[],
-    analyzerModules: string[]
-  ): Promise<void> {
-    try {
-      const fileHash = await this.getFileHash(filePath);
-
+    module: string,
+    content: string,
+    issues: CodeIssue[]
+  ): void {
+    const fileHash = this.getContentHash(content);
+    const entry = this.cache.files[filePath];
+
+    if (entry?.fileHash === fileHash) {
+      entry.issues[module] = issues;
+    } else {
       this.cache.files[filePath] = {
         fileHash,
-        issues,
+        issues: { [module]: issues },
         timestamp: Date.now(),
-        analyzedBy: analyzerModules,
       };
-
-      logger.debug(`Cached ${issues.length} issues for ${filePath}`);
-    } catch (error) {
-      logger.warn(
-        `Failed to cache results for ${filePath}`,
-        error as Record<string, unknown>
-      );
     }
+
+    logger.debug(`Cached ${issues.length} ${module} issues for ${filePath}`);
   }
 
   /**
@@ -176,6 +181,7 @@ export class AnalysisCache {
   async clear(): Promise<void> {
     this.cache = {
       version: this.CACHE_VERSION,
+      key: this.cache.key,
       files: {},
     };
 
@@ -208,7 +214,12 @@ export class AnalysisCache {
   } {
     const files = Object.values(this.cache.files);
     const totalIssues = files.reduce(
-      (sum, entry) => sum + entry.issues.length,
+      (sum, entry) =>
+        sum +
+        Object.values(entry.issues).reduce(
+          (count, issues) => count + issues.length,
+          0
+        ),
       0
     );
     const timestamps = files.map(entry => entry.timestamp);
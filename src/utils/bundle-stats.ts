@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileSystemError } from '../errors';
+
+export interface BundleStatsChunk {
+  /** Path inside the build output, e.g. `_astro/client.B37-9Zo1.js` */
+  file: string;
+  bytes: number;
+  isEntry: boolean;
+  isDynamicEntry: boolean;
+  /** Module the chunk is the entry of, when it is one */
+  facadeModule: string | null;
+  /** Chunks loaded before this one runs */
+  imports: string[];
+  dynamicImports: string[];
+  css: string[];
+  /** Modules rendered into the chunk, by their size before minification */
+  modules: Array<{ id: string; bytes: number }>;
+}
+
+/**
+ * The chunk graph and module graph of a client build, as written by the
+ * `bundleStats()` Astro integration. Module ids are project-relative.
+ */
+export interface BundleStats {
+  version: 1;
+  chunks: BundleStatsChunk[];
+  assets: Array<{ file: string; bytes: number }>;
+  modules: Record<string, { imports: string[]; dynamicImports: string[] }>;
+}
+
+export interface BundleGroup {
+  /** Package name, or the source directory of first-party modules */
+  name: string;
+  kind: 'package' | 'source';
+  bytes: number;
+}
+
+/**
+ * Read the bundle stats of the last build. Returns null when the project has
+ * not been built with the integration.
+ */
+export async function readBundleStats(
+  projectRoot: string,
+  file: string
+): Promise<BundleStats | null> {
+  const statsPath = path.resolve(projectRoot, file);
+  try {
+    return JSON.parse(await fs.readFile(statsPath, 'utf-8')) as BundleStats;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw new FileSystemError(
+      'read',
+      statsPath,
+      error instanceof Error ? error : new Error(String(error)),
+      { code: 'BUNDLE_STATS_UNREADABLE' }
+    );
+  }
+}
+
+/**
+ * The npm package a module belongs to, and the directory it is installed in.
+ * Nested installs (`node_modules/a/node_modules/b`) belong to the innermost
+ * package, so two copies of a package have different paths.
+ */
+export function packageOf(id: string): { name: string; path: string } | null {
+  const clean = id.split('?')[0];
+  const marker = 'node_modules/';
+  const last = clean.lastIndexOf(marker);
+  if (last === -1) return null;
+
+  const segments = clean.slice(last + marker.length).split('/');
+  const nameLength = segments[0].startsWith('@') ? 2 : 1;
+  if (segments.length <= nameLength) return null;
+  const name = segments.slice(0, nameLength).join('/');
+  const start = clean.indexOf(marker);
+  return {
+    name,
+    path: clean.slice(start, last + marker.length + name.length),
+  };
+}
+
+/**
+ * The package or source directory a module's bytes are attributed to
+ */
+export function moduleGroup(id: string): Omit<BundleGroup, 'bytes'> {
+  const pkg = packageOf(id);
+  if (pkg) return { name: pkg.name, kind: 'package' };
+  // Plugin prefixes like `astro-entry:` and query strings are not part of the path
+  const clean = id.split('?')[0].replace(/^[\w-]{2,}:/, '');
+  const dir = path.posix.dirname(clean);
+  return { name: dir === '.' ? clean : dir, kind: 'source' };
+}
+
+/**
+ * Each module's share of the chunk's emitted bytes. Rendered sizes are
+ * measured before minification, so they are scaled to the chunk size.
+ */
+export function moduleBytes(chunk: BundleStatsChunk): Map<string, number> {
+  const rendered = chunk.modules.reduce((sum, module) => sum + module.bytes, 0);
+  const scale = rendered > 0 ? chunk.bytes / rendered : 0;
+  return new Map(
+    chunk.modules.map(module => [module.id, module.bytes * scale])
+  );
+}
+
+/**
+ * Chunk bytes by package and source directory, largest first
+ */
+export function chunkGroups(chunk: BundleStatsChunk): BundleGroup[] {
+  const groups = new Map<string, BundleGroup>();
+  for (const [id, bytes] of moduleBytes(chunk)) {
+    const { name, kind } = moduleGroup(id);
+    const key = `${kind}\0${name}`;
+    const group = groups.get(key) ?? { name, kind, bytes: 0 };
+    group.bytes += bytes;
+    groups.set(key, group);
+  }
+  return [...groups.values()]
+    .map(group => ({ ...group, bytes: Math.round(group.bytes) }))
+    .sort((a, b) => b.bytes - a.bytes || a.name.localeCompare(b.name));
+}
+
+/**
+ * Every chunk the browser loads up front for the given entry chunks: the
+ * entries and what they import statically, but not dynamic imports
+ */
+export function staticChunkClosure(
+  stats: BundleStats,
+  entries: Iterable<string>
+): Set<string> {
+  const chunks = new Map(stats.chunks.map(chunk => [chunk.file, chunk]));
+  const seen = new Set<string>();
+  const queue = [...entries];
+  while (queue.length > 0) {
+    const file = queue.pop() as string;
+    const chunk = chunks.get(file);
+    if (!chunk || seen.has(file)) continue;
+    seen.add(file);
+    queue.push(...chunk.imports);
+  }
+  return seen;
+}
+
+/**
+ * Modules the given modules import statically, directly or indirectly. A
+ * module in a loaded chunk but outside this set only rides along because
+ * Rollup shares the chunk with another entry.
+ */
+export function reachableModules(
+  stats: BundleStats,
+  roots: Iterable<string>
+): Set<string> {
+  const seen = new Set<string>();
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const id = queue.pop() as string;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    queue.push(...(stats.modules[id]?.imports ?? []));
+  }
+  return seen;
+}
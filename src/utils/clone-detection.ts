@@ -0,0 +1,251 @@
+import ts from 'typescript';
+
+export interface CloneSource {
+  /** Project-relative path, used in the reported locations */
+  file: string;
+  code: string;
+  jsx?: boolean;
+}
+
+export interface CloneLocation {
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+}
+
+/**
+ * One block of code found, token for token, in two or more places
+ */
+export interface CloneCluster {
+  tokens: number;
+  /** Line span of the block at its first location */
+  lines: number;
+  locations: CloneLocation[];
+}
+
+export interface CloneReport {
+  clusters: CloneCluster[];
+  /** Lines holding at least one token, across every source */
+  totalLines: number;
+  /** Lines covered by any location of a reported cluster */
+  duplicatedLines: number;
+}
+
+export interface CloneDetectionOptions {
+  minTokens: number;
+  minLines: number;
+}
+
+interface Token {
+  id: number;
+  line: number;
+  column: number;
+  endLine: number;
+}
+
+interface Occurrence {
+  source: number;
+  start: number;
+}
+
+const HASH_BASE = 1_000_003;
+
+/**
+ * Find duplicated blocks of at least `minTokens` tokens across the given
+ * sources. Whitespace, comments and import declarations are ignored; every
+ * other token must match exactly. Each block is reported once as a cluster
+ * with all of its locations, extended for as long as every location agrees.
+ */
+export function detectClones(
+  sources: CloneSource[],
+  options: CloneDetectionOptions
+): CloneReport {
+  const { minTokens, minLines } = options;
+  const vocabulary = new Map<string, number>();
+  const tokenized = sources.map(source => tokenize(source, vocabulary));
+
+  // Rolling hash of every window of `minTokens` tokens
+  const index = new Map<number, Occurrence[]>();
+  const hashes = tokenized.map((tokens, source) => {
+    const windows = new Int32Array(Math.max(0, tokens.length - minTokens + 1));
+    let power = 1;
+    for (let i = 1; i < minTokens; i++) power = Math.imul(power, HASH_BASE);
+
+    let hash = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      if (i >= minTokens) {
+        hash = (hash - Math.imul(tokens[i - minTokens].id, power)) | 0;
+      }
+      hash = (Math.imul(hash, HASH_BASE) + tokens[i].id) | 0;
+
+      const start = i - minTokens + 1;
+      if (start < 0) continue;
+      windows[start] = hash;
+      const bucket = index.get(hash);
+      if (bucket) bucket.push({ source, start });
+      else index.set(hash, [{ source, start }]);
+    }
+    return windows;
+  });
+
+  const covered = tokenized.map(tokens => new Uint8Array(tokens.length));
+  const duplicated = tokenized.map(() => new Set<number>());
+  const clusters: CloneCluster[] = [];
+
+  const matches = (a: Occurrence, b: Occurrence, length: number): boolean => {
+    for (let k = 0; k < length; k++) {
+      if (
+        tokenized[a.source][a.start + k]?.id !==
+        tokenized[b.source][b.start + k]?.id
+      ) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  // Reported blocks never overlap, so a window must not touch one
+  const isFree = ({ source, start }: Occurrence) =>
+    !covered[source].subarray(start, start + minTokens).includes(1);
+
+  // Locations in one source must not overlap each other
+  const fits = (members: Occurrence[], candidate: Occurrence, length: number) =>
+    members.every(
+      member =>
+        member.source !== candidate.source ||
+        member.start + length <= candidate.start ||
+        candidate.start + length <= member.start
+    );
+
+  tokenized.forEach((tokens, source) => {
+    for (let start = 0; start + minTokens <= tokens.length; start++) {
+      const first = { source, start };
+      if (!isFree(first)) continue;
+
+      const members: Occurrence[] = [first];
+      for (const candidate of index.get(hashes[source][start]) ?? []) {
+        if (
+          isFree(candidate) &&
+          fits(members, candidate, minTokens) &&
+          matches(first, candidate, minTokens)
+        ) {
+          members.push(candidate);
+        }
+      }
+      if (members.length < 2) continue;
+
+      let length = minTokens;
+      while (
+        members.every(member => {
+          const next = tokenized[member.source][member.start + length];
+          return (
+            next !== undefined &&
+            next.id === tokens[start + length]?.id &&
+            !covered[member.source][member.start + length]
+          );
+        }) &&
+        members.every((member, i) =>
+          fits(members.slice(i + 1), member, length + 1)
+        )
+      ) {
+        length++;
+      }
+
+      for (const member of members) {
+        covered[member.source].fill(1, member.start, member.start + length);
+      }
+
+      const locations = members.map(member => {
+        const memberTokens = tokenized[member.source];
+        const head = memberTokens[member.start];
+        return {
+          file: sources[member.source].file,
+          line: head.line,
+          column: head.column,
+          endLine: memberTokens[member.start + length - 1].endLine,
+        };
+      });
+      const lines = locations[0].endLine - locations[0].line + 1;
+      if (lines < minLines) continue;
+
+      members.forEach((member, i) => {
+        for (
+          let line = locations[i].line;
+          line <= locations[i].endLine;
+          line++
+        ) {
+          duplicated[member.source].add(line);
+        }
+      });
+      clusters.push({ tokens: length, lines, locations });
+    }
+  });
+
+  const codeLines = tokenized.map(
+    tokens => new Set(tokens.map(token => token.line))
+  );
+  return {
+    clusters,
+    totalLines: codeLines.reduce((sum, lines) => sum + lines.size, 0),
+    duplicatedLines: duplicated.reduce(
+      (sum, lines, source) =>
+        sum + [...lines].filter(line => codeLines[source].has(line)).length,
+      0
+    ),
+  };
+}
+
+/**
+ * The syntax tree's leaf tokens, each interned as a number
+ */
+function tokenize(
+  source: CloneSource,
+  vocabulary: Map<string, number>
+): Token[] {
+  const sourceFile = ts.createSourceFile(
+    source.file,
+    source.code,
+    ts.ScriptTarget.Latest,
+    true,
+    source.jsx ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  );
+  const tokens: Token[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isImportDeclaration(node) ||
+      (node.kind >= ts.SyntaxKind.FirstJSDocNode &&
+        node.kind <= ts.SyntaxKind.LastJSDocNode)
+    ) {
+      return;
+    }
+
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0) {
+      children.forEach(visit);
+      return;
+    }
+    if (node.kind === ts.SyntaxKind.EndOfFileToken) return;
+
+    const text = node.getText(sourceFile);
+    if (!text.trim()) return;
+    let id = vocabulary.get(text);
+    if (id === undefined) {
+      id = vocabulary.size + 1;
+      vocabulary.set(text, id);
+    }
+    const start = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(sourceFile)
+    );
+    tokens.push({
+      id,
+      line: start.line + 1,
+      column: start.character + 1,
+      endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+    });
+  };
+
+  visit(sourceFile);
+  return tokens;
+}
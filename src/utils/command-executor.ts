@@ -1,8 +1,13 @@
 import { exec } from 'child_process';
 import type { ExecException } from 'child_process';
 import { promisify } from 'util';
-import { CommandExecutionError, TimeoutError } from '../errors';
+import {
+  CancellationError,
+  CommandExecutionError,
+  TimeoutError,
+} from '../errors';
 import { logger } from './logger';
+import { CORRELATION_ENV, getLogContext, withLogContext } from './log-context';
 
 const execPromise = promisify(exec);
 
@@ -63,6 +68,7 @@ interface CommandOptions {
   env?: NodeJS.ProcessEnv; // custom environment variables
   shell?: string; // custom shell to use
   onRetry?: (attempt: number, error: Error) => void;
+  signal?: AbortSignal; // kills the command and rejects with a CancellationError
 }
 
 interface CommandStreamOptions extends CommandOptions {
@@ -77,19 +83,33 @@ const sleep = (ms: number): Promise<void> =>
   new Promise(resolve => setTimeout(resolve, ms));
 
 /**
- * Execute a command with retry support and enhanced error handling
+ * The command's environment with the active correlation id, so tools that
+ * log with this logger join the run that started them
+ */
+function withCorrelationEnv(
+  env: NodeJS.ProcessEnv | undefined
+): NodeJS.ProcessEnv | undefined {
+  const { correlationId } = getLogContext();
+  return correlationId ? { ...env, [CORRELATION_ENV]: correlationId } : env;
+}
+
+/**
+ * Execute a command with retry support and enhanced error handling. Entries
+ * it logs carry the command, and the active correlation id is passed on.
  */
 export async function executeCommand(
   command: string,
   options: CommandOptions = {}
 ): Promise<CommandResult> {
-  if (isAstroBuildCommand(command)) {
-    return withAstroBuildLock(command, () =>
-      executeCommandInternal(command, options)
-    );
-  }
-
-  return executeCommandInternal(command, options);
+  const withEnv = { ...options, env: withCorrelationEnv(options.env) };
+
+  return withLogContext({ command }, () =>
+    isAstroBuildCommand(command)
+      ? withAstroBuildLock(command, () =>
+          executeCommandInternal(command, withEnv)
+        )
+      : executeCommandInternal(command, withEnv)
+  );
 }
 
 /**
@@ -110,6 +130,7 @@ async function executeCommandInternal(
     env,
     shell,
     onRetry,
+    signal,
   } = options;
 
   let lastError: Error | null = null;
@@ -117,6 +138,9 @@ async function executeCommandInternal(
 
   while (attempt <= retries) {
     const startTime = Date.now();
+    if (signal?.aborted) {
+      throw new CancellationError(command, 'COMMAND_CANCELLED');
+    }
 
     try {
       if (attempt > 0) {
@@ -139,6 +163,7 @@ async function executeCommandInternal(
         killSignal: 'SIGTERM',
         env: env ? { ...process.env, ...env } : undefined,
         shell,
+        signal,
       });
 
       const duration = Date.now() - startTime;
@@ -161,12 +186,14 @@ async function executeCommandInternal(
         killed?: boolean;
       };
 
+      // A cancelled command is neither retried nor treated as an exit code
+      if (signal?.aborted) {
+        throw new CancellationError(command, 'COMMAND_CANCELLED');
+      }
+
       // Check if this was a timeout
       if (err.killed && err.signal === 'SIGTERM') {
-        lastError = new TimeoutError(
-          command, // operation
-          timeout // timeoutMs
-        );
+        lastError = new TimeoutError(command, timeout, 'COMMAND_TIMEOUT');
       } else {
         lastError = new CommandExecutionError(
           command,
@@ -174,7 +201,7 @@ async function executeCommandInternal(
           err.signal,
           err.stdout || '',
           err.stderr || '',
-          `Command execution failed: ${command}`
+          { code: 'COMMAND_FAILED', params: { command } }
         );
       }
 
@@ -219,9 +246,14 @@ export function executeCommandStream(
     shell,
     onStdout,
     onStderr,
+    signal,
   } = options;
 
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancellationError(command, 'COMMAND_CANCELLED'));
+      return;
+    }
     const startTime = Date.now();
     let stdout = '';
     let stderr = '';
@@ -232,18 +264,14 @@ export function executeCommandStream(
       maxBuffer,
       env: env ? { ...process.env, ...env } : undefined,
       shell,
+      signal,
     });
 
     // Set up timeout
     if (timeout > 0) {
       timeoutId = setTimeout(() => {
         child.kill('SIGTERM');
-        reject(
-          new TimeoutError(
-            command, // operation
-            timeout // timeoutMs
-          )
-        );
+        reject(new TimeoutError(command, timeout, 'COMMAND_TIMEOUT'));
       }, timeout);
     }
 
@@ -273,14 +301,10 @@ export function executeCommandStream(
 
       if (code !== 0 && !ignoreExitCode) {
         reject(
-          new CommandExecutionError(
-            command,
-            code,
-            signal,
-            stdout,
-            stderr,
-            `Command exited with code ${code}`
-          )
+          new CommandExecutionError(command, code, signal, stdout, stderr, {
+            code: 'COMMAND_EXITED',
+            params: { exitCode: String(code) },
+          })
         );
         return;
       }
@@ -299,7 +323,11 @@ export function executeCommandStream(
       if (timeoutId) {
         clearTimeout(timeoutId);
       }
-      reject(error);
+      reject(
+        signal?.aborted
+          ? new CancellationError(command, 'COMMAND_CANCELLED')
+          : error
+      );
     });
   });
 }
@@ -277,14 +277,44 @@ export function diffLines(oldText: string, newText: string): LineDiffEntry[] {
   const oldLines = oldText.split('\n');
   const newLines = newText.split('\n');
 
-  const matrix = lcsMatrix(oldLines, newLines);
-  const rawDiff = backtrackDiff(
-    matrix,
-    oldLines,
-    newLines,
-    oldLines.length,
-    newLines.length
-  );
+  // Lines shared at both ends always match, so only the middle needs the
+  // quadratic LCS matrix; edits to large files are usually local
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] ===
+      newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const matrix = lcsMatrix(oldMiddle, newMiddle);
+  const rawDiff = [
+    ...oldLines
+      .slice(0, prefix)
+      .map(value => ({ type: 'equal' as const, value })),
+    ...backtrackDiff(
+      matrix,
+      oldMiddle,
+      newMiddle,
+      oldMiddle.length,
+      newMiddle.length
+    ),
+    ...oldLines
+      .slice(oldLines.length - suffix)
+      .map(value => ({ type: 'equal' as const, value })),
+  ];
 
   const result: LineDiffEntry[] = [];
   let oldLineNum = 1;
@@ -324,105 +354,168 @@ export function diffLines(oldText: string, newText: string): LineDiffEntry[] {
 }
 
 /**
- * Generate unified diff format
+ * Drop the newline that ends the last line, so that splitting the text on
+ * newlines does not produce an empty last line
+ */
+function withoutFinalNewline(text: string): string {
+  return text.endsWith('\n') ? text.slice(0, -1) : text;
+}
+
+/**
+ * Group the line changes between two texts into unified diff hunks
  * @param oldText - Original text
  * @param newText - New text
- * @param oldName - Original file name
- * @param newName - New file name
  * @param contextLines - Number of context lines (default: 3)
- * @returns Unified diff string
+ * @returns Hunks in file order; changes within twice the context share a hunk
  */
-export function unifiedDiff(
+export function diffHunks(
   oldText: string,
   newText: string,
-  oldName = 'a',
-  newName = 'b',
   contextLines = 3
-): string {
-  const lineDiff = diffLines(oldText, newText);
-
-  // Group changes into hunks
-  const hunks: DiffHunk[] = [];
-  let currentHunk: DiffHunk | null = null;
-  let unchangedBuffer: LineDiffEntry[] = [];
-
-  for (let i = 0; i < lineDiff.length; i++) {
-    const entry = lineDiff[i];
-
-    if (entry.type === 'unchanged') {
-      if (currentHunk) {
-        unchangedBuffer.push(entry);
-        if (unchangedBuffer.length > contextLines * 2) {
-          // End current hunk
-          for (let j = 0; j < contextLines; j++) {
-            currentHunk.lines.push(unchangedBuffer[j]);
-          }
-          hunks.push(currentHunk);
-          currentHunk = null;
-          unchangedBuffer = unchangedBuffer.slice(-contextLines);
-        }
-      } else {
-        unchangedBuffer.push(entry);
-        if (unchangedBuffer.length > contextLines) {
-          unchangedBuffer.shift();
-        }
-      }
-    } else {
-      if (!currentHunk) {
-        currentHunk = {
-          oldStart: entry.oldLineNumber || entry.lineNumber,
-          oldCount: 0,
-          newStart: entry.newLineNumber || entry.lineNumber,
-          newCount: 0,
-          lines: [...unchangedBuffer],
-        };
-        unchangedBuffer = [];
-      } else {
-        currentHunk.lines.push(...unchangedBuffer);
-        unchangedBuffer = [];
-      }
-      currentHunk.lines.push(entry);
-    }
+): DiffHunk[] {
+  const lineDiff = diffLines(
+    withoutFinalNewline(oldText),
+    withoutFinalNewline(newText)
+  );
+
+  // List each block of changed lines as removals before additions
+  for (let start = 0; start < lineDiff.length; start++) {
+    if (lineDiff[start].type === 'unchanged') continue;
+    let end = start;
+    while (end < lineDiff.length && lineDiff[end].type !== 'unchanged') end++;
+    const block = lineDiff.slice(start, end);
+    lineDiff.splice(
+      start,
+      block.length,
+      ...block.filter(entry => entry.type === 'removed'),
+      ...block.filter(entry => entry.type !== 'removed')
+    );
+    start = end;
   }
 
-  // Finalize last hunk
-  if (currentHunk) {
-    for (const entry of unchangedBuffer.slice(0, contextLines)) {
-      currentHunk.lines.push(entry);
+  // Entry ranges of each hunk, context included
+  const ranges: Array<[number, number]> = [];
+  lineDiff.forEach((entry, index) => {
+    if (entry.type === 'unchanged') return;
+    const from = Math.max(0, index - contextLines);
+    const to = Math.min(lineDiff.length - 1, index + contextLines);
+    const previous = ranges[ranges.length - 1];
+    if (previous && from <= previous[1] + 1) {
+      previous[1] = to;
+    } else {
+      ranges.push([from, to]);
     }
-    hunks.push(currentHunk);
-  }
+  });
 
-  // Generate output
-  const lines: string[] = [];
-  lines.push(`--- ${oldName}`);
-  lines.push(`+++ ${newName}`);
+  let oldLine = 0;
+  let newLine = 0;
+  let position = 0;
 
-  for (const hunk of hunks) {
-    let oldCount = 0;
-    let newCount = 0;
+  return ranges.map(([from, to]) => {
+    for (; position < from; position++) {
+      if (lineDiff[position].type !== 'added') oldLine++;
+      if (lineDiff[position].type !== 'removed') newLine++;
+    }
+    const lines = lineDiff.slice(from, to + 1);
+    const oldCount = lines.filter(line => line.type !== 'added').length;
+    const newCount = lines.filter(line => line.type !== 'removed').length;
+
+    // An empty side starts at the line before the hunk, as in `diff -u`
+    return {
+      oldStart: oldCount > 0 ? oldLine + 1 : oldLine,
+      oldCount,
+      newStart: newCount > 0 ? newLine + 1 : newLine,
+      newCount,
+      lines,
+    };
+  });
+}
 
-    for (const line of hunk.lines) {
-      if (line.type === 'removed' || line.type === 'unchanged') oldCount++;
-      if (line.type === 'added' || line.type === 'unchanged') newCount++;
+/**
+ * Format one hunk in unified diff format, starting with its `@@` header
+ * @param hunk - Hunk from diffHunks
+ * @returns Hunk text without a trailing newline
+ */
+export function formatHunk(hunk: DiffHunk): string {
+  const lines = [
+    `@@ -${hunk.oldStart},${hunk.oldCount} +${hunk.newStart},${hunk.newCount} @@`,
+  ];
+
+  for (const line of hunk.lines) {
+    if (line.type === 'unchanged') {
+      lines.push(` ${line.content}`);
+    } else if (line.type === 'removed') {
+      lines.push(`-${line.content}`);
+    } else if (line.type === 'added') {
+      lines.push(`+${line.content}`);
     }
+  }
 
-    lines.push(
-      `@@ -${hunk.oldStart},${oldCount} +${hunk.newStart},${newCount} @@`
-    );
+  return lines.join('\n');
+}
+
+/**
+ * Apply some of the hunks computed from a text back to it, so that changes
+ * can be accepted one hunk at a time
+ * @param oldText - Text the hunks were computed from
+ * @param hunks - Hunks to apply, from diffHunks(oldText, ...)
+ * @returns Patched text, ending in a newline when oldText does
+ * @throws {Error} If a hunk does not match oldText or overlaps another hunk
+ */
+export function applyHunks(oldText: string, hunks: DiffHunk[]): string {
+  const oldLines = withoutFinalNewline(oldText).split('\n');
+  const result: string[] = [];
+  let position = 0;
+
+  for (const hunk of [...hunks].sort((a, b) => a.oldStart - b.oldStart)) {
+    const start = hunk.oldCount > 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    if (start < position) {
+      throw new Error(`Hunk at line ${hunk.oldStart} overlaps another hunk`);
+    }
+    result.push(...oldLines.slice(position, start));
+    position = start;
 
     for (const line of hunk.lines) {
-      if (line.type === 'unchanged') {
-        lines.push(` ${line.content}`);
-      } else if (line.type === 'removed') {
-        lines.push(`-${line.content}`);
-      } else if (line.type === 'added') {
-        lines.push(`+${line.content}`);
+      if (line.type !== 'added') {
+        if (oldLines[position] !== line.content) {
+          throw new Error(
+            `Hunk at line ${hunk.oldStart} does not match line ${position + 1}`
+          );
+        }
+        position++;
+      }
+      if (line.type !== 'removed') {
+        result.push(line.content);
       }
     }
   }
+  result.push(...oldLines.slice(position));
 
-  return lines.join('\n');
+  const text = result.join('\n');
+  return oldText.endsWith('\n') ? `${text}\n` : text;
+}
+
+/**
+ * Generate unified diff format
+ * @param oldText - Original text
+ * @param newText - New text
+ * @param oldName - Original file name
+ * @param newName - New file name
+ * @param contextLines - Number of context lines (default: 3)
+ * @returns Unified diff string
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldName = 'a',
+  newName = 'b',
+  contextLines = 3
+): string {
+  return [
+    `--- ${oldName}`,
+    `+++ ${newName}`,
+    ...diffHunks(oldText, newText, contextLines).map(formatHunk),
+  ].join('\n');
 }
 
 // ============================================================================
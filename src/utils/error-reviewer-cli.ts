@@ -1,25 +1,100 @@
 import { ProjectAnalyzer } from '../core/analyzer';
+import { AnalysisServer } from '../core/analysis-server';
+import { PluginLoader } from '../core/plugin-loader';
+import { runInterruptibleAnalysis } from '../core/interruptible-analysis';
 import { ReportGenerator } from '../utils/report-generator';
+import { HealthHistory } from '../utils/health-history';
+import {
+  collectPackageLicenses,
+  readLicenseTexts,
+} from '../utils/license-inventory';
+import {
+  emitAnalysis,
+  parseReportSpec,
+  reportFiles,
+} from '../utils/report-outputs';
 import { logger, LogLevel } from '../utils/logger';
-import { AppError } from '../errors';
+import { JsonLinesSink } from '../utils/log-sinks';
+import { formatHunk } from '../utils/diff';
+import type { DiffHunk } from '../utils/diff';
+import { watchProject } from '../utils/project-watcher';
+import {
+  AppError,
+  ConfigurationError,
+  formatErrorReport,
+  getErrorMessage,
+} from '../errors';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import path from 'path';
-import { promises as fs } from 'fs';
 import { ConfigLoader } from '../config/config-loader';
+import { ReportFormatSchema } from '../config/schema';
 import type { AnalyzerConfig } from '../config/schema';
-import chokidar from 'chokidar';
+import type { FilePatch } from '../types/analysis';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline/promises';
+import type { Interface } from 'readline/promises';
 
 class Cli {
   private args: Partial<AnalyzerConfig> & {
     output?: string;
+    report?: string[];
     format?: 'json' | 'markdown' | 'html';
     verbose?: boolean;
+    baseline?: string;
+    updateBaseline?: boolean;
     clearCache?: boolean;
+    limit?: number;
+    patch?: string;
+    interactive?: boolean;
+    apply?: boolean;
+    port?: number;
+    printConfig?: string;
+    logFile?: string;
+    _: Array<string | number>;
   };
 
   constructor() {
     this.args = yargs(hideBin(process.argv))
+      .command('analyze', 'Analyze the project (default)')
+      .command(
+        'trend',
+        'Print the health score history recorded by previous runs'
+      )
+      .command(
+        'fix',
+        'Preview auto-fixes as a diff, write them as a patch, or apply them'
+      )
+      .command(
+        'notices',
+        'Write third-party notices for the production dependencies in package-lock.json'
+      )
+      .command(
+        'serve',
+        'Keep the analyzer running and serve its issues over a local HTTP API'
+      )
+      .option('port', {
+        type: 'number',
+        default: 4400,
+        description: 'Port the serve command listens on',
+      })
+      .option('patch', {
+        type: 'string',
+        description: 'Write the proposed fixes to this .patch file',
+      })
+      .option('interactive', {
+        type: 'boolean',
+        description: 'Apply fixes after accepting or rejecting each hunk',
+      })
+      .option('apply', {
+        type: 'boolean',
+        description: 'Apply every proposed fix',
+      })
+      .option('limit', {
+        type: 'number',
+        default: 20,
+        description: 'Number of snapshots printed by the trend command',
+      })
       .option('projectRoot', {
         type: 'string',
         description: 'Root directory of the project to analyze',
@@ -36,12 +111,19 @@ class Cli {
       })
       .option('outputFormat', {
         type: 'string',
-        choices: ['json', 'markdown', 'html', 'terminal'],
+        choices: ReportFormatSchema.options,
         description: 'Output format for the report',
       })
+      .option('report', {
+        type: 'string',
+        array: true,
+        description:
+          'Report to emit as format[:path], repeatable; without a path it goes to stdout',
+      })
       .option('githubIntegration', {
         type: 'boolean',
-        description: 'Enable GitHub integration',
+        description:
+          'Publish annotations, a job summary and a PR comment body in GitHub Actions',
       })
       .option('deploymentChecks', {
         type: 'boolean',
@@ -63,6 +145,35 @@ class Cli {
         type: 'boolean',
         description: 'Clear the analysis cache before running',
       })
+      .option('baseline', {
+        type: 'string',
+        description:
+          'Baseline file to compare against and update (default .analyzer-baseline.json); only issues missing from it are reported',
+      })
+      .option('changedSince', {
+        type: 'string',
+        description:
+          'Only analyze files changed since this git ref (e.g. HEAD for a pre-commit check, origin/main for a PR)',
+      })
+      .option('moduleTimeout', {
+        type: 'number',
+        description:
+          'Milliseconds after which an analysis module is stopped (0 for no limit)',
+      })
+      .option('updateBaseline', {
+        type: 'boolean',
+        description: 'Write the current issues to the baseline file',
+      })
+      .option('printConfig', {
+        type: 'string',
+        description:
+          'Print the configuration in effect for this file and where each value comes from',
+      })
+      .option('logFile', {
+        type: 'string',
+        description:
+          'Also write log entries as JSON Lines to this file, rotated at 10 MiB',
+      })
       .option('verbose', {
         type: 'boolean',
         description: 'Enable verbose logging',
@@ -74,117 +185,299 @@ class Cli {
     if (this.args.verbose) {
       logger.setMinLevel(LogLevel.DEBUG);
     }
+    if (this.args.logFile) {
+      logger.addSink(new JsonLinesSink(path.resolve(this.args.logFile)));
+    }
   }
 
-  private async performAnalysisAndReport(config: AnalyzerConfig) {
+  private async createAnalyzer(config: AnalyzerConfig) {
     const analyzer = new ProjectAnalyzer(config);
-    const analysisResult = await analyzer.analyze();
-
-    let reportContent: string;
-    switch (config.outputFormat) {
-      case 'json':
-        reportContent = ReportGenerator.generateJsonReport(analysisResult);
-        break;
-      case 'markdown':
-        reportContent = ReportGenerator.generateMarkdownReport(analysisResult);
-        break;
-      case 'html':
-        reportContent = ReportGenerator.generateHTMLReport(analysisResult);
-        break;
-      case 'terminal':
-        reportContent = ReportGenerator.generateJsonReport(analysisResult); // For terminal, we'll just output JSON for now
-        break;
-      default:
-        reportContent = ReportGenerator.generateJsonReport(analysisResult); // Fallback
+    for (const plugin of await PluginLoader.loadPlugins(config)) {
+      analyzer.registerModule(plugin);
+    }
+    return analyzer;
+  }
+
+  /**
+   * The first Ctrl+C cancels the analysis and still reports what finished;
+   * a second one exits at once
+   */
+  private async performAnalysisAndReport(
+    config: AnalyzerConfig,
+    analyzer: ProjectAnalyzer
+  ) {
+    const analysisResult = await runInterruptibleAnalysis(analyzer, {
+      updateBaseline: this.args.updateBaseline,
+    });
+
+    await emitAnalysis(analysisResult, config, this.args.output);
+
+    // Fail CI only on regressions when comparing against a baseline
+    if (analysisResult.baseline && analysisResult.baseline.newIssues > 0) {
+      logger.warn(
+        `${analysisResult.baseline.newIssues} new issue(s) not in baseline ${analysisResult.baseline.file}`
+      );
+      process.exitCode = 1;
+    }
+    if (analysisResult.cancelled) {
+      process.exitCode = 130;
+    }
+  }
+
+  /**
+   * Print the proposed fixes, or write them as a patch, unless asked to
+   * apply them; applied fixes are re-checked by their modules
+   */
+  private async runFix(config: AnalyzerConfig) {
+    if (this.args.interactive && !process.stdin.isTTY) {
+      throw new ConfigurationError('interactive', { code: 'FIX_NEEDS_TTY' });
+    }
+
+    const analyzer = await this.createAnalyzer(config);
+    const preview = await analyzer.previewFixes();
+
+    if (this.args.patch) {
+      const patchPath = path.resolve(config.projectRoot, this.args.patch);
+      await fs.mkdir(path.dirname(patchPath), { recursive: true });
+      await fs.writeFile(
+        patchPath,
+        ReportGenerator.generateFixPatch(preview),
+        'utf-8'
+      );
+      logger.info(
+        `Wrote fixes for ${preview.patches.length} files to ${patchPath}`
+      );
+    }
+
+    if (!this.args.apply && !this.args.interactive) {
+      if (!this.args.patch) {
+        process.stdout.write(ReportGenerator.generateFixPreview(preview));
+      }
+      return;
+    }
+
+    const prompt = this.args.interactive
+      ? createInterface({ input: process.stdin, output: process.stdout })
+      : null;
+    try {
+      const result = await analyzer.applyFixes(
+        preview,
+        prompt ? this.createHunkPrompt(prompt) : undefined
+      );
+      process.stdout.write(ReportGenerator.generateFixSummary(result));
+      if (result.verification.unresolved.length > 0) {
+        process.exitCode = 1;
+      }
+    } finally {
+      prompt?.close();
+    }
+  }
+
+  /**
+   * Ask whether to apply each hunk, like `git add --patch`
+   */
+  private createHunkPrompt(prompt: Interface) {
+    let remaining: 'apply' | 'skip' | null = null;
+
+    return async (patch: FilePatch, hunk: DiffHunk): Promise<boolean> => {
+      if (remaining) return remaining === 'apply';
+
+      process.stdout.write(
+        `\n--- a/${patch.file}\n+++ b/${patch.file}\n${formatHunk(hunk)}\n`
+      );
+      for (;;) {
+        const answer = (await prompt.question('Apply this hunk [y,n,a,q,?]? '))
+          .trim()
+          .toLowerCase();
+        switch (answer) {
+          case 'y':
+            return true;
+          case 'n':
+            return false;
+          case 'a':
+            remaining = 'apply';
+            return true;
+          case 'q':
+            remaining = 'skip';
+            return false;
+          default:
+            process.stdout.write(
+              [
+                'y - apply this hunk',
+                'n - skip this hunk',
+                'a - apply this and all remaining hunks',
+                'q - skip this and all remaining hunks',
+                '',
+              ].join('\n')
+            );
+        }
+      }
+    };
+  }
+
+  /**
+   * Serve the issues over HTTP until interrupted, re-analyzing changed files
+   */
+  private async serve(config: AnalyzerConfig) {
+    const server = new AnalysisServer(
+      await this.createAnalyzer(config),
+      config
+    );
+    await server.start({ port: this.args.port });
+
+    process.on('SIGINT', () => {
+      logger.info('Stopping analysis server...');
+      void server.close().then(() => process.exit(0));
+    });
+  }
+
+  private async printTrend(config: AnalyzerConfig) {
+    const history = await new HealthHistory(config.projectRoot).load();
+    const lines = [
+      ReportGenerator.generateTrendTable(history, this.args.limit),
+    ];
+
+    if (history.length > 1) {
+      const { improving, velocity } = HealthHistory.getTrends(history);
+      lines.push(
+        '',
+        `Trend: ${improving ? 'improving' : 'declining'}, ${velocity > 0 ? '+' : ''}${velocity} points per commit over the last ${Math.min(history.length, HealthHistory.TREND_WINDOW)} commits`
+      );
     }
+    process.stdout.write(`${lines.join('\n')}\n`);
+  }
 
-    if (this.args.output) {
-      const outputPath = path.resolve(config.projectRoot, this.args.output);
-      await fs.writeFile(outputPath, reportContent);
-      logger.info(`Report successfully written to ${outputPath}`);
-    } else {
-      process.stdout.write(`${reportContent}\n`);
+  /**
+   * Write the license notices of every production dependency to `--output`
+   * or stdout
+   */
+  private async writeNotices(config: AnalyzerConfig) {
+    const inventory = await collectPackageLicenses(config.projectRoot);
+    if (!inventory) {
+      throw new ConfigurationError('projectRoot', {
+        code: 'LOCKFILE_MISSING',
+        params: { projectRoot: config.projectRoot },
+      });
     }
+
+    const packages = inventory.filter(pkg => !pkg.dev);
+    const notices = ReportGenerator.generateThirdPartyNotices(
+      packages,
+      await readLicenseTexts(config.projectRoot, packages)
+    );
+    if (!this.args.output) {
+      process.stdout.write(notices);
+      return;
+    }
+
+    const outputPath = path.resolve(config.projectRoot, this.args.output);
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, notices, 'utf-8');
+    logger.info(`Third-party notices written to ${outputPath}`);
+  }
+
+  /**
+   * Print every value of the configuration in effect for `file`, with the
+   * file, preset or CLI option it comes from. A relative `file` is taken
+   * from the project root, like the paths in the configuration.
+   */
+  private async printConfig(cliOptions: Partial<AnalyzerConfig>, file: string) {
+    const project = await ConfigLoader.resolveConfig(cliOptions);
+    const target = path.resolve(project.config.projectRoot, file);
+    const resolved = ConfigLoader.forFile(project, target);
+    const values = ConfigLoader.listValues(resolved);
+    const width = Math.max(...values.map(({ key }) => key.length));
+    const lines = values.map(
+      ({ key, value, source }) =>
+        `${key.padEnd(width)}  ${JSON.stringify(value)}  (${source})`
+    );
+    process.stdout.write(
+      `Configuration for ${path.relative(resolved.config.projectRoot, target)}\n\n${lines.join('\n')}\n`
+    );
   }
 
   async run() {
     try {
       logger.info('Initializing Project Analyzer CLI...');
 
-      const loadedConfig = await ConfigLoader.loadConfig({
+      const cliOptions: Partial<AnalyzerConfig> = {
         projectRoot: this.args.projectRoot,
         severityThreshold: this.args.severityThreshold,
         outputFormat: this.args.outputFormat,
+        outputs: this.args.report?.map(parseReportSpec),
         githubIntegration: this.args.githubIntegration,
         deploymentChecks: this.args.deploymentChecks,
         autoFix: this.args.autoFix,
         watchMode: this.args.watchMode,
+        baselineFile: this.args.baseline,
+        changedSince: this.args.changedSince,
         enableCache: this.args.enableCache,
-      });
+        moduleTimeout: this.args.moduleTimeout,
+      };
+      if (this.args.printConfig) {
+        await this.printConfig(cliOptions, this.args.printConfig);
+        return;
+      }
 
-      // Clear cache if requested
+      const loadedConfig = await ConfigLoader.loadConfig(cliOptions);
+      if (this.args._[0] === 'trend') {
+        await this.printTrend(loadedConfig);
+        return;
+      }
+      if (this.args._[0] === 'fix') {
+        await this.runFix(loadedConfig);
+        return;
+      }
+      if (this.args._[0] === 'notices') {
+        await this.writeNotices(loadedConfig);
+        return;
+      }
+      if (this.args._[0] === 'serve') {
+        await this.serve(loadedConfig);
+        return;
+      }
+
+      // Initial analysis; watch mode keeps the analyzer, and with it the
+      // cache, so a change only re-analyzes the changed files
+      const analyzer = await this.createAnalyzer(loadedConfig);
       if (this.args.clearCache) {
-        const analyzer = new ProjectAnalyzer(loadedConfig);
         await analyzer.clearCache();
       }
-
-      // Initial analysis
-      await this.performAnalysisAndReport(loadedConfig);
+      await this.performAnalysisAndReport(loadedConfig, analyzer);
 
       if (loadedConfig.watchMode) {
         logger.info(`Watching for changes in ${loadedConfig.projectRoot}...`);
         logger.info('Press Ctrl+C to stop watching');
 
-        const watcher = chokidar.watch(loadedConfig.projectRoot, {
-          ignored: loadedConfig.ignore, // Use configured ignore patterns
-          persistent: true,
-          ignoreInitial: true, // Don't trigger on initial scan
-          awaitWriteFinish: {
-            stabilityThreshold: 500,
-            pollInterval: 100,
+        let activeRuns = 0;
+        const watcher = watchProject(
+          {
+            ...loadedConfig,
+            ignore: [
+              ...loadedConfig.ignore,
+              ...reportFiles(loadedConfig, this.args.output),
+            ],
           },
-        });
-
-        let debounceTimer: NodeJS.Timeout | null = null;
-        const changedFiles: Set<string> = new Set();
-
-        watcher.on('all', async (event, changedPath) => {
-          changedFiles.add(changedPath);
-
-          if (debounceTimer) {
-            clearTimeout(debounceTimer);
-          }
-
-          debounceTimer = setTimeout(async () => {
-            logger.info(
-              `${changedFiles.size} file(s) changed, re-analyzing...`
-            );
-            logger.debug(
-              `Changed files: ${Array.from(changedFiles).join(', ')}`
-            );
-            changedFiles.clear();
-
+          async files => {
+            logger.info(`${files.length} file(s) changed, re-analyzing...`);
+            activeRuns++;
             try {
-              await this.performAnalysisAndReport(loadedConfig);
+              await this.performAnalysisAndReport(loadedConfig, analyzer);
               logger.info('Analysis complete. Watching for more changes...');
             } catch (error) {
               logger.error(
                 'Analysis failed during watch',
                 error instanceof Error ? error : undefined
               );
+            } finally {
+              activeRuns--;
             }
-          }, 1000); // Wait 1 second after last change before re-analyzing
-        });
-
-        watcher.on('error', error => {
-          logger.error(
-            'File watcher error',
-            error instanceof Error ? error : undefined
-          );
-        });
+          }
+        );
 
-        // Graceful shutdown
+        // While a run is active, Ctrl+C cancels it instead
         process.on('SIGINT', () => {
+          if (activeRuns > 0) return;
           logger.info('Stopping file watcher...');
           watcher.close();
           process.exit(0);
@@ -199,8 +492,14 @@ class Cli {
       const err =
         error instanceof AppError
           ? error
-          : new AppError(String(error), 'CLI_ERROR');
-      logger.fatal('CLI encountered a fatal error', err);
+          : new AppError({
+              code: 'CLI_ERROR',
+              params: { reason: getErrorMessage(error) },
+              cause: error instanceof Error ? error : undefined,
+            });
+      logger.fatal(
+        `CLI encountered a fatal error\n${formatErrorReport(err, { stack: this.args.verbose })}`
+      );
       process.exit(1);
     }
   }
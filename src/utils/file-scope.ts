@@ -0,0 +1,117 @@
+import { executeCommand } from './command-executor';
+import { normalizeIssuePath } from './issue-fingerprint';
+import { logger } from './logger';
+import { ConfigurationError } from '../errors';
+import type { AnalyzerConfig, IssueDraft } from '../types/analysis';
+
+type ScopeConfig = Pick<AnalyzerConfig, 'projectRoot' | 'files'>;
+
+// Refs are interpolated into a shell command, so only allow ref syntax
+const GIT_REF_RE = /^[\w][\w./@^~{}:-]*$/;
+
+const scopeSets = new WeakMap<string[], Set<string>>();
+
+function scopeSet(files: string[]): Set<string> {
+  let set = scopeSets.get(files);
+  if (!set) {
+    set = new Set(files.map(file => normalizeIssuePath(file)));
+    scopeSets.set(files, set);
+  }
+  return set;
+}
+
+/**
+ * Whether a file, absolute or relative to the project root, is analyzed.
+ * Without `config.files` every file is.
+ */
+export function isInFileScope(config: ScopeConfig, file: string): boolean {
+  return (
+    !config.files ||
+    scopeSet(config.files).has(normalizeIssuePath(file, config.projectRoot))
+  );
+}
+
+/**
+ * Keep the files that are in the analysis scope
+ */
+export function filterToFileScope(
+  config: ScopeConfig,
+  files: string[]
+): string[] {
+  return config.files
+    ? files.filter(file => isInFileScope(config, file))
+    : files;
+}
+
+/**
+ * Whether an issue is located in, or points at (`relatedFiles`), a file in
+ * the analysis scope. For checks that must look at the whole project but
+ * should only report what the scoped files are involved in.
+ */
+export function touchesFileScope(
+  config: ScopeConfig,
+  issue: IssueDraft
+): boolean {
+  return (
+    isInFileScope(config, issue.file) ||
+    (issue.metadata?.relatedFiles ?? []).some(location =>
+      isInFileScope(config, location.replace(/(?::\d+)+$/, ''))
+    )
+  );
+}
+
+/**
+ * Files under the project root that differ from the merge base of `ref` and
+ * HEAD: committed, staged and unstaged changes plus untracked files.
+ * Deleted files are left out since there is nothing to analyze.
+ */
+export async function getChangedFiles(
+  projectRoot: string,
+  ref: string
+): Promise<string[]> {
+  if (!GIT_REF_RE.test(ref)) {
+    throw new ConfigurationError('changedSince', {
+      code: 'GIT_REF_INVALID',
+      params: { ref },
+    });
+  }
+
+  const run = (command: string) =>
+    executeCommand(command, {
+      cwd: projectRoot,
+      timeout: 30000,
+      ignoreExitCode: true,
+    });
+
+  const mergeBase = await run(`git merge-base ${ref} HEAD`);
+  if (mergeBase.exitCode !== 0 || !mergeBase.stdout.trim()) {
+    throw new ConfigurationError('changedSince', {
+      code: 'GIT_REF_UNRESOLVED',
+      params: {
+        ref,
+        reason:
+          mergeBase.stderr.trim() || 'not a git repository or unknown ref',
+      },
+    });
+  }
+  const base = mergeBase.stdout.trim();
+
+  // -z keeps unusual names unquoted; --relative limits the diff to the
+  // project root and makes its paths relative to it
+  const [diff, untracked] = await Promise.all([
+    run(`git diff -z --name-only --relative --diff-filter=ACMR ${base}`),
+    run('git ls-files -z --others --exclude-standard'),
+  ]);
+  const files = [
+    ...new Set(
+      [...diff.stdout.split('\0'), ...untracked.stdout.split('\0')]
+        .filter(Boolean)
+        .map(file => normalizeIssuePath(file))
+    ),
+  ].sort();
+
+  logger.debug(
+    `${files.length} files changed since ${ref} (${base.slice(0, 7)})`
+  );
+  return files;
+}
@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { ReportGenerator } from './report-generator';
+import { logger } from './logger';
+import type {
+  AnalysisResult,
+  CodeIssue,
+  SeverityLevel,
+} from '../types/analysis';
+
+type AnnotationLevel = 'error' | 'warning' | 'notice';
+
+const ANNOTATION_LEVELS: Record<SeverityLevel, AnnotationLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'notice',
+  info: 'notice',
+};
+
+interface GitHubActionsOptions {
+  env?: NodeJS.ProcessEnv;
+  stdout?: Pick<NodeJS.WritableStream, 'write'>;
+  /** Write workflow annotations to `stdout`; off while a parsed report goes there */
+  annotations?: boolean;
+}
+
+// Workflow command escaping, matching @actions/core
+const escapeData = (value: string): string =>
+  value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+
+const escapeProperty = (value: string): string =>
+  escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+
+export function isGitHubActions(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.GITHUB_ACTIONS === 'true';
+}
+
+/**
+ * Format an issue as an `::error`/`::warning`/`::notice` workflow command,
+ * which GitHub shows on the run and on the pull request diff. `file` must be
+ * relative to the repository root.
+ */
+export function formatAnnotation(
+  issue: CodeIssue,
+  file: string = issue.file
+): string {
+  const properties = [
+    ['file', file],
+    ...(issue.line ? [['line', String(issue.line)]] : []),
+    ...(issue.line && issue.column ? [['col', String(issue.column)]] : []),
+    ['title', `${issue.title} (${issue.rule})`],
+  ].map(([key, value]) => `${key}=${escapeProperty(value)}`);
+  const message = issue.suggestion
+    ? `${issue.description}\n${issue.suggestion}`
+    : issue.description;
+
+  return `::${ANNOTATION_LEVELS[issue.severity.level]} ${properties.join(',')}::${escapeData(message)}`;
+}
+
+/**
+ * Publish an analysis to the current GitHub Actions step: one annotation per
+ * issue unless `annotations` is off, the Markdown report as the job summary (`$GITHUB_STEP_SUMMARY`),
+ * and `health-score`, `new-issues` and `pr-comment` step outputs
+ * (`$GITHUB_OUTPUT`). Does nothing outside Actions and returns whether it ran.
+ */
+export async function publishToGitHubActions(
+  analysis: AnalysisResult,
+  projectRoot: string,
+  {
+    env = process.env,
+    stdout = process.stdout,
+    annotations = true,
+  }: GitHubActionsOptions = {}
+): Promise<boolean> {
+  if (!isGitHubActions(env)) {
+    return false;
+  }
+
+  // Annotations resolve against the checkout, which may contain the project
+  const workspace = env.GITHUB_WORKSPACE || projectRoot;
+  for (const issue of annotations ? analysis.issues : []) {
+    const file = path
+      .relative(workspace, path.resolve(projectRoot, issue.file))
+      .split(path.sep)
+      .join('/');
+    stdout.write(`${formatAnnotation(issue, file)}\n`);
+  }
+
+  if (env.GITHUB_STEP_SUMMARY) {
+    await fs.appendFile(
+      env.GITHUB_STEP_SUMMARY,
+      ReportGenerator.generateMarkdownReport(analysis)
+    );
+  }
+
+  if (env.GITHUB_OUTPUT) {
+    const delimiter = `ghadelimiter_${randomUUID()}`;
+    const comment = ReportGenerator.generatePullRequestComment(analysis);
+    await fs.appendFile(
+      env.GITHUB_OUTPUT,
+      [
+        `health-score=${analysis.health.score}`,
+        `new-issues=${analysis.baseline?.newIssues ?? analysis.issues.length}`,
+        `pr-comment<<${delimiter}`,
+        comment.trimEnd(),
+        delimiter,
+        '',
+      ].join('\n')
+    );
+  }
+
+  if (annotations) {
+    logger.info(
+      `Published ${analysis.issues.length} annotation(s) to GitHub Actions`
+    );
+  } else {
+    logger.warn(
+      'Skipped GitHub Actions annotations, which would break the report on stdout; write the report to a file to get them'
+    );
+  }
+  return true;
+}
@@ -0,0 +1,47 @@
+/**
+ * RegExp for a glob over forward-slash paths: `*` and `?` within a directory,
+ * `**` across directories and `{a,b}` alternatives
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a project-relative path matches any of the globs
+ */
+export function matchesGlob(file: string, patterns: string[]): boolean {
+  const normalized = file.replace(/\\/g, '/').replace(/^\.\//, '');
+  return patterns.some(pattern =>
+    globToRegExp(pattern.replace(/^\.\//, '')).test(normalized)
+  );
+}
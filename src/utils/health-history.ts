@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { executeCommand } from './command-executor';
+import type { HealthSnapshot, ProjectHealth } from '../types/analysis';
+
+interface HistoryData {
+  version: number;
+  snapshots: HealthSnapshot[];
+}
+
+/**
+ * Local store of the project health at each analyzed commit. Running the
+ * analyzer again on the same commit replaces that commit's snapshot, so the
+ * history has one point per commit in the order they were analyzed.
+ */
+export class HealthHistory {
+  static readonly DEFAULT_FILE = '.cache/health-history.json';
+  /** Snapshots used for the trend; older ones only show in the history */
+  static readonly TREND_WINDOW = 5;
+  private readonly HISTORY_VERSION = 1;
+  private readonly MAX_SNAPSHOTS = 500;
+  private projectRoot: string;
+  private historyFile: string;
+
+  constructor(projectRoot: string, file = HealthHistory.DEFAULT_FILE) {
+    this.projectRoot = projectRoot;
+    this.historyFile = path.resolve(projectRoot, file);
+  }
+
+  get filePath(): string {
+    return this.historyFile;
+  }
+
+  /**
+   * Recorded snapshots, oldest first. A missing or unreadable store is an
+   * empty history; it only ever holds derived data.
+   */
+  async load(): Promise<HealthSnapshot[]> {
+    try {
+      const data = JSON.parse(
+        await fs.readFile(this.historyFile, 'utf-8')
+      ) as HistoryData;
+      if (
+        data.version !== this.HISTORY_VERSION ||
+        !Array.isArray(data.snapshots)
+      ) {
+        logger.warn(
+          `Ignoring health history ${this.historyFile} with unsupported format`
+        );
+        return [];
+      }
+      return data.snapshots;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(
+          `Ignoring unreadable health history ${this.historyFile}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Append a snapshot of `health` for `commit` and return the full history
+   */
+  async record(
+    health: ProjectHealth,
+    commit: string,
+    timestamp = new Date()
+  ): Promise<HealthSnapshot[]> {
+    const snapshot: HealthSnapshot = {
+      commit,
+      timestamp: timestamp.toISOString(),
+      score: health.score,
+      criticalIssues: health.criticalIssues,
+      highIssues: health.highIssues,
+      mediumIssues: health.mediumIssues,
+      lowIssues: health.lowIssues,
+      totalIssues: health.totalIssues,
+      categories: { ...health.categories },
+    };
+    const snapshots = [
+      ...(await this.load()).filter(entry => entry.commit !== commit),
+      snapshot,
+    ].slice(-this.MAX_SNAPSHOTS);
+
+    const data: HistoryData = { version: this.HISTORY_VERSION, snapshots };
+    await fs.mkdir(path.dirname(this.historyFile), { recursive: true });
+    await fs.writeFile(
+      this.historyFile,
+      `${JSON.stringify(data, null, 2)}\n`,
+      'utf-8'
+    );
+    logger.debug(
+      `Recorded health ${health.score} for ${commit.slice(0, 7)} (${snapshots.length} snapshots)`
+    );
+    return snapshots;
+  }
+
+  /**
+   * The checked-out commit, or null outside a git repository
+   */
+  async currentCommit(): Promise<string | null> {
+    try {
+      const { stdout, exitCode } = await executeCommand('git rev-parse HEAD', {
+        cwd: this.projectRoot,
+        timeout: 10000,
+        ignoreExitCode: true,
+      });
+      return exitCode === 0 && stdout.trim() ? stdout.trim() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Trend over the last `TREND_WINDOW` snapshots. `velocity` is the average
+   * score change per analyzed commit; a flat score counts as improving when
+   * the issue count did not grow since the previous snapshot.
+   */
+  static getTrends(history: HealthSnapshot[]): ProjectHealth['trends'] {
+    const recent = history.slice(-HealthHistory.TREND_WINDOW);
+    const latest = recent[recent.length - 1];
+    if (recent.length < 2) {
+      return {
+        improving: true,
+        velocity: 0,
+        lastCheck: latest ? new Date(latest.timestamp) : new Date(),
+      };
+    }
+
+    const previous = recent[recent.length - 2];
+    const velocity =
+      Math.round(
+        ((latest.score - recent[0].score) / (recent.length - 1)) * 100
+      ) / 100;
+
+    return {
+      improving:
+        velocity > 0 ||
+        (velocity === 0 && latest.totalIssues <= previous.totalIssues),
+      velocity,
+      lastCheck: new Date(latest.timestamp),
+    };
+  }
+}
@@ -555,6 +555,9 @@ export {
   diffChars,
   diffWords,
   diffLines,
+  diffHunks,
+  formatHunk,
+  applyHunks,
   unifiedDiff,
   diffArrays,
   applyTextPatch,
@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import path from 'path';
+import type { CodeIssue, IssueDraft } from '../types/analysis';
+
+type FingerprintSource = Pick<CodeIssue, 'rule' | 'file' | 'title'> & {
+  context?: CodeIssue['context'];
+};
+
+/**
+ * Normalize a project file path so the same file produces the same key on
+ * every platform and regardless of whether the analyzer reported it absolute.
+ */
+export function normalizeIssuePath(file: string, projectRoot?: string): string {
+  const relative =
+    projectRoot && path.isAbsolute(file)
+      ? path.relative(projectRoot, file)
+      : file;
+  return relative.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Normalize a source snippet so indentation changes and location prefixes
+ * emitted by tools like tsc (`file(12,5)` or `file:12:5`) don't change it.
+ */
+export function normalizeSnippet(snippet: string): string {
+  return snippet
+    .replace(/\(\d+,\d+\)/g, '')
+    .replace(/:\d+:\d+\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Compute a stable fingerprint for an issue from its rule, file and
+ * normalized context. Line numbers are deliberately excluded so the
+ * fingerprint survives unrelated edits above the issue.
+ */
+export function fingerprintIssue(
+  issue: FingerprintSource,
+  projectRoot?: string
+): string {
+  const snippet = issue.context?.current ?? issue.title;
+
+  return shortHash(
+    [
+      issue.rule,
+      normalizeIssuePath(issue.file, projectRoot),
+      normalizeSnippet(snippet),
+    ].join('\u0000')
+  );
+}
+
+/**
+ * Checksum of the normalized code an issue was reported against, including
+ * the surrounding context lines, so consumers can tell when it changed.
+ */
+export function checksumIssueContext(issue: FingerprintSource): string {
+  const lines = [
+    ...(issue.context?.before ?? []),
+    issue.context?.current ?? issue.title,
+    ...(issue.context?.after ?? []),
+  ];
+  return shortHash(lines.map(normalizeSnippet).join('\n'));
+}
+
+/**
+ * Assign content-addressed ids and checksums to a module's issues. Identical
+ * findings in the same file get an occurrence suffix, keeping ids unique
+ * within a run while still stable across runs.
+ */
+export function stampIssues(
+  issues: IssueDraft[],
+  projectRoot: string
+): CodeIssue[] {
+  const occurrences = new Map<string, number>();
+
+  return issues.map(issue => {
+    const baseId = `${issue.type}-${fingerprintIssue(issue, projectRoot)}`;
+    const occurrence = (occurrences.get(baseId) ?? 0) + 1;
+    occurrences.set(baseId, occurrence);
+
+    return {
+      ...issue,
+      id: occurrence === 1 ? baseId : `${baseId}-${occurrence}`,
+      metadata: {
+        ...issue.metadata,
+        checksum: checksumIssueContext(issue),
+      },
+    };
+  });
+}
+
+function shortHash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
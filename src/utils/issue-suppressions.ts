@@ -0,0 +1,254 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { logger } from './logger';
+import { normalizeIssuePath } from './issue-fingerprint';
+import type {
+  CodeIssue,
+  IssueDraft,
+  IssueSuppression,
+} from '../types/analysis';
+
+/** A parsed suppression comment plus what is needed to report on it */
+export type SuppressionDirective = IssueSuppression & {
+  comment: string;
+  problem?: string;
+};
+
+// `// analyzer-disable-next-line rule -- reason`, `/* ... */`, `{/* ... */}` or `<!-- ... -->`
+const DIRECTIVE_RE =
+  /(?:\/\/|\/\*|<!--)\s*analyzer-disable-(next-line|line)(?=\s|$|\*\/|-->)(.*)$/;
+const EXPIRES_RE = /^expires=(.*)$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Inline suppression comments. Each one silences the listed rules on a single
+ * line and must give a reason after `--`, so every exception stays auditable:
+ *
+ *   // analyzer-disable-next-line lazy-loading -- hero image must be eager
+ *   <!-- analyzer-disable-next-line a11y-image-alt expires=2026-12-31 -- decorative -->
+ */
+export class IssueSuppressions {
+  static readonly SOURCE_GLOB =
+    '**/*.{ts,tsx,js,jsx,mjs,cjs,astro,html,vue,svelte,css,scss}';
+  private projectRoot: string;
+  private ignore: string[];
+  private now: Date;
+
+  constructor(projectRoot: string, ignore: string[] = [], now = new Date()) {
+    this.projectRoot = projectRoot;
+    this.ignore = ignore;
+    this.now = now;
+  }
+
+  /**
+   * Parse the suppression comments in a file's content
+   */
+  static parse(content: string, file: string): SuppressionDirective[] {
+    const directives: SuppressionDirective[] = [];
+    const lines = content.split('\n');
+
+    lines.forEach((text, index) => {
+      const match = DIRECTIVE_RE.exec(text);
+      if (!match) return;
+
+      const body = match[2].replace(/\s*(?:-->|\*\/\}?)\s*$/, '');
+      const separator = body.search(/(?:^|\s)--(?:\s|$)/);
+      const head = separator === -1 ? body : body.slice(0, separator);
+      const reason =
+        separator === -1 ? '' : body.slice(separator).replace(/^\s*--/, '');
+
+      const rules: string[] = [];
+      let expires: string | undefined;
+      for (const token of head.split(/[\s,]+/).filter(Boolean)) {
+        const expiry = EXPIRES_RE.exec(token);
+        if (expiry) {
+          expires = expiry[1];
+        } else {
+          rules.push(token);
+        }
+      }
+
+      const line = index + 1;
+      const directive: SuppressionDirective = {
+        file,
+        line,
+        targetLine: match[1] === 'next-line' ? line + 1 : line,
+        rules,
+        reason: reason.trim(),
+        ...(expires !== undefined && { expires }),
+        status: 'unused',
+        suppressed: 0,
+        comment: text.trim(),
+      };
+
+      if (rules.length === 0) {
+        directive.problem = 'does not name any rule';
+      } else if (!directive.reason) {
+        directive.problem = 'is missing a reason after --';
+      } else if (
+        expires !== undefined &&
+        (!DATE_RE.test(expires) || Number.isNaN(Date.parse(expires)))
+      ) {
+        directive.problem = `has an invalid expiry '${expires}' (expected YYYY-MM-DD)`;
+      }
+      if (directive.problem) {
+        directive.status = 'invalid';
+      }
+
+      directives.push(directive);
+    });
+
+    return directives;
+  }
+
+  /**
+   * Find every suppression comment in the project's source files
+   */
+  async scan(): Promise<SuppressionDirective[]> {
+    const files = await glob(IssueSuppressions.SOURCE_GLOB, {
+      cwd: this.projectRoot,
+      ignore: ['node_modules/**', 'dist/**', '.astro/**', ...this.ignore],
+    });
+
+    const directives: SuppressionDirective[] = [];
+    for (const file of files.sort()) {
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(this.projectRoot, file), 'utf-8');
+      } catch {
+        // Skip unreadable files
+        continue;
+      }
+      if (!content.includes('analyzer-disable-')) continue;
+
+      directives.push(
+        ...IssueSuppressions.parse(content, normalizeIssuePath(file))
+      );
+    }
+
+    logger.debug(`Found ${directives.length} suppression comments`);
+    return directives;
+  }
+
+  /**
+   * Drop issues silenced by a valid, unexpired suppression. Unused, expired
+   * and invalid suppressions come back as info-level findings. A suppression
+   * is only unused when `wasChecked` holds for each of its rules in its
+   * file; otherwise its rules may not have run and it is `unchecked`.
+   */
+  async apply(
+    issues: CodeIssue[],
+    wasChecked: (rule: string, file: string) => boolean = () => true
+  ): Promise<{
+    issues: CodeIssue[];
+    suppressions: IssueSuppression[];
+    findings: IssueDraft[];
+  }> {
+    const directives = await this.scan();
+    if (directives.length === 0) {
+      return { issues, suppressions: [], findings: [] };
+    }
+
+    for (const directive of directives) {
+      if (directive.status !== 'invalid' && this.isExpired(directive)) {
+        directive.status = 'expired';
+      }
+    }
+
+    const active = directives.filter(
+      directive => directive.status === 'unused'
+    );
+    const remaining = issues.filter(issue => {
+      const file = normalizeIssuePath(issue.file, this.projectRoot);
+      const directive = active.find(
+        candidate =>
+          candidate.file === file &&
+          candidate.targetLine === issue.line &&
+          candidate.rules.includes(issue.rule)
+      );
+      if (!directive) return true;
+
+      directive.suppressed++;
+      return false;
+    });
+
+    for (const directive of active) {
+      if (directive.suppressed > 0) {
+        directive.status = 'used';
+      } else if (
+        !directive.rules.every(rule => wasChecked(rule, directive.file))
+      ) {
+        directive.status = 'unchecked';
+      }
+    }
+
+    return {
+      issues: remaining,
+      suppressions: directives.map(
+        ({ comment: _comment, problem: _problem, ...suppression }) =>
+          suppression
+      ),
+      findings: directives
+        .filter(
+          directive =>
+            directive.status !== 'used' && directive.status !== 'unchecked'
+        )
+        .map(directive => this.toFinding(directive)),
+    };
+  }
+
+  private isExpired(directive: SuppressionDirective): boolean {
+    return (
+      directive.expires !== undefined &&
+      Date.parse(`${directive.expires}T23:59:59.999Z`) < this.now.getTime()
+    );
+  }
+
+  private toFinding(directive: SuppressionDirective): IssueDraft {
+    const rules = directive.rules.join(', ') || '(none)';
+    const details = {
+      unused: {
+        title: 'Unused Suppression',
+        rule: 'unused-suppression',
+        description: `Suppression for ${rules} does not match any reported issue`,
+        suggestion: 'Remove the suppression comment',
+      },
+      expired: {
+        title: 'Expired Suppression',
+        rule: 'expired-suppression',
+        description: `Suppression for ${rules} expired on ${directive.expires}`,
+        suggestion: 'Fix the suppressed issue or extend the expiry date',
+      },
+      invalid: {
+        title: 'Invalid Suppression',
+        rule: 'invalid-suppression',
+        description: `Suppression comment ${directive.problem}`,
+        suggestion:
+          'Use `analyzer-disable-next-line <rule> -- <reason>` with an optional expires=YYYY-MM-DD',
+      },
+    }[
+      directive.status as Exclude<
+        IssueSuppression['status'],
+        'used' | 'unchecked'
+      >
+    ];
+
+    return {
+      type: 'suppression',
+      severity: { level: 'info', impact: 'cosmetic', urgency: 'low' },
+      title: details.title,
+      description: details.description,
+      file: directive.file,
+      line: directive.line,
+      rule: details.rule,
+      category: 'Suppressions',
+      source: 'issue-suppressions',
+      suggestion: details.suggestion,
+      autoFixable: false,
+      context: {
+        current: directive.comment,
+      },
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import type { Readable, Writable } from 'stream';
+import { JsonRpcError } from '../errors';
+import { logger } from './logger';
+
+/** Error codes from the JSON-RPC and Language Server Protocol specifications */
+export const JsonRpcErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+export type JsonRpcId = number | string;
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: JsonRpcId | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+type RequestHandler = (params: unknown) => unknown;
+type NotificationHandler = (params: unknown) => void | Promise<void>;
+
+const HEADER_END = '\r\n\r\n';
+
+/**
+ * A JSON-RPC 2.0 connection over a pair of streams, with messages framed by
+ * `Content-Length` headers as the Language Server Protocol does over stdio
+ */
+export class JsonRpcConnection {
+  private buffer = Buffer.alloc(0);
+  private requestHandlers = new Map<string, RequestHandler>();
+  private notificationHandlers = new Map<string, NotificationHandler>();
+
+  constructor(
+    private readonly input: Readable,
+    private readonly output: Writable
+  ) {}
+
+  /**
+   * Answer requests for a method. A thrown `JsonRpcError` is sent back with
+   * its code; any other error as an internal error.
+   */
+  onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  /**
+   * Start reading messages; `onClose` runs when the input ends
+   */
+  listen(onClose?: () => void): void {
+    this.input.on('data', (chunk: Buffer | string) => {
+      this.buffer = Buffer.concat([
+        this.buffer,
+        typeof chunk === 'string' ? Buffer.from(chunk) : chunk,
+      ]);
+      this.readMessages();
+    });
+    if (onClose) this.input.on('end', onClose);
+  }
+
+  private readMessages(): void {
+    while (true) {
+      const headerEnd = this.buffer.indexOf(HEADER_END);
+      if (headerEnd === -1) return;
+
+      const headers = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const length = /^content-length:\s*(\d+)\s*$/im.exec(headers);
+      const bodyStart = headerEnd + HEADER_END.length;
+      if (!length) {
+        // Nothing to recover the message boundary from; drop the headers
+        logger.warn('Dropped a JSON-RPC message without Content-Length');
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+
+      const bodyEnd = bodyStart + Number(length[1]);
+      if (this.buffer.length < bodyEnd) return;
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf-8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+      this.dispatch(body);
+    }
+  }
+
+  private dispatch(body: string): void {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(body) as JsonRpcMessage;
+    } catch {
+      this.sendError(null, JsonRpcErrorCodes.ParseError, 'Invalid JSON');
+      return;
+    }
+
+    if (typeof message.method !== 'string') {
+      // Responses to server-to-client requests are not used
+      if (message.id === undefined) {
+        this.sendError(
+          null,
+          JsonRpcErrorCodes.InvalidRequest,
+          'Message has no method'
+        );
+      }
+      return;
+    }
+
+    if (message.id === undefined || message.id === null) {
+      void this.handleNotification(message.method, message.params);
+    } else {
+      void this.handleRequest(message.id, message.method, message.params);
+    }
+  }
+
+  private async handleRequest(
+    id: JsonRpcId,
+    method: string,
+    params: unknown
+  ): Promise<void> {
+    const handler = this.requestHandlers.get(method);
+    try {
+      if (!handler) {
+        throw new JsonRpcError(JsonRpcErrorCodes.MethodNotFound, {
+          code: 'RPC_METHOD_NOT_FOUND',
+          params: { method },
+        });
+      }
+      const result = await handler(params);
+      this.send({ jsonrpc: '2.0', id, result: result ?? null });
+    } catch (error: unknown) {
+      if (error instanceof JsonRpcError) {
+        this.sendError(id, error.rpcCode, error.message);
+        return;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(
+        `Request ${method} failed: ${message}`,
+        error instanceof Error ? error : undefined
+      );
+      this.sendError(id, JsonRpcErrorCodes.InternalError, message);
+    }
+  }
+
+  private async handleNotification(
+    method: string,
+    params: unknown
+  ): Promise<void> {
+    const handler = this.notificationHandlers.get(method);
+    if (!handler) {
+      // `$/` notifications are optional by definition
+      if (!method.startsWith('$/')) {
+        logger.debug(`Ignored notification ${method}`);
+      }
+      return;
+    }
+    try {
+      await handler(params);
+    } catch (error: unknown) {
+      logger.error(
+        `Notification ${method} failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  private sendError(id: JsonRpcId | null, code: number, message: string) {
+    this.send({ jsonrpc: '2.0', id, error: { code, message } });
+  }
+
+  private send(message: JsonRpcMessage): void {
+    const body = JSON.stringify(message);
+    this.output.write(
+      `Content-Length: ${Buffer.byteLength(body, 'utf-8')}${HEADER_END}${body}`
+    );
+  }
+}
@@ -0,0 +1,267 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { normalizeLicense } from './spdx';
+import { FileSystemError } from '../errors';
+import type { PackageLicense } from '../types/analysis';
+
+interface LockfileEntry {
+  name?: string;
+  version?: string;
+  license?: string;
+  dev?: boolean;
+  link?: boolean;
+  dependencies?: Record<string, LockfileEntry | string>;
+}
+
+interface Lockfile {
+  lockfileVersion?: number;
+  packages?: Record<string, LockfileEntry>;
+  dependencies?: Record<string, LockfileEntry>;
+}
+
+interface PackageManifest {
+  license?: unknown;
+  licenses?: unknown;
+  author?: unknown;
+  repository?: unknown;
+}
+
+export interface LockfilePackage {
+  name: string;
+  version: string;
+  path: string;
+  dev: boolean;
+  license?: string;
+}
+
+const LICENSE_FILE_RE = /^(?:licen[cs]e|copying)(?:[.-].*)?$/i;
+
+// Distinctive sentences of the licenses most often shipped without metadata
+const LICENSE_TEXTS: Array<{ id: string; pattern: RegExp }> = [
+  { id: 'MIT', pattern: /Permission is hereby granted, free of charge/i },
+  {
+    id: 'ISC',
+    pattern:
+      /Permission to use, copy, modify, and\/or distribute this software for any purpose/i,
+  },
+  { id: 'Apache-2.0', pattern: /Apache License,?\s+Version 2\.0/i },
+  {
+    id: 'BSD-3-Clause',
+    pattern: /Redistribution and use[\s\S]+Neither the name/i,
+  },
+  {
+    id: 'BSD-2-Clause',
+    pattern: /Redistribution and use in source and binary/i,
+  },
+  { id: 'Unlicense', pattern: /This is free and unencumbered software/i },
+  {
+    id: 'MPL-2.0',
+    pattern: /Mozilla Public License,?\s+(?:v\.|version) 2\.0/i,
+  },
+];
+
+/**
+ * Packages installed by a package-lock.json, in lockfile order. Supports the
+ * `packages` map of lockfile v2/v3 and the nested `dependencies` of v1.
+ * Workspace links and the root project are left out.
+ */
+export function readLockfilePackages(lockfile: Lockfile): LockfilePackage[] {
+  if (lockfile.packages) {
+    return Object.entries(lockfile.packages)
+      .filter(([key, entry]) => key.includes('node_modules/') && !entry.link)
+      .map(([key, entry]) => ({
+        name: entry.name ?? key.slice(key.lastIndexOf('node_modules/') + 13),
+        version: entry.version ?? '0.0.0',
+        path: key,
+        dev: entry.dev === true,
+        license: entry.license,
+      }));
+  }
+
+  const packages: LockfilePackage[] = [];
+  const walk = (
+    dependencies: Record<string, LockfileEntry | string>,
+    parent: string
+  ) => {
+    for (const [name, entry] of Object.entries(dependencies)) {
+      if (typeof entry === 'string') continue;
+      const key = `${parent}node_modules/${name}`;
+      packages.push({
+        name,
+        version: entry.version ?? '0.0.0',
+        path: key,
+        dev: entry.dev === true,
+      });
+      if (entry.dependencies) walk(entry.dependencies, `${key}/`);
+    }
+  };
+  walk(lockfile.dependencies ?? {}, '');
+  return packages;
+}
+
+/**
+ * Guess the license of a license file from its wording
+ */
+export function detectLicenseText(text: string): string | null {
+  return LICENSE_TEXTS.find(({ pattern }) => pattern.test(text))?.id ?? null;
+}
+
+/**
+ * The declared license of a manifest: `license` as a string or legacy
+ * `{ type }` object, or the legacy `licenses` array joined with OR
+ */
+function declaredLicense(manifest: PackageManifest): string | null {
+  const name = (value: unknown): string | null =>
+    typeof value === 'string'
+      ? value
+      : value && typeof value === 'object' && 'type' in value
+        ? String((value as { type: unknown }).type)
+        : null;
+
+  const single = name(manifest.license);
+  if (single) return single;
+  if (Array.isArray(manifest.licenses)) {
+    const names = manifest.licenses.map(name).filter(Boolean);
+    if (names.length > 0) {
+      return names.length === 1 ? names[0] : `(${names.join(' OR ')})`;
+    }
+  }
+  return null;
+}
+
+function personName(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && 'name' in value) {
+    return String((value as { name: unknown }).name);
+  }
+  return undefined;
+}
+
+function repositoryUrl(value: unknown): string | undefined {
+  const url =
+    typeof value === 'string'
+      ? value
+      : value && typeof value === 'object' && 'url' in value
+        ? String((value as { url: unknown }).url)
+        : undefined;
+  return url?.replace(/^git\+/, '').replace(/\.git$/, '');
+}
+
+async function findLicenseFile(dir: string): Promise<string | undefined> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isFile() && LICENSE_FILE_RE.test(entry.name))
+      .map(entry => entry.name)
+      .sort()[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the license of every package in the project's package-lock.json
+ * without network access. The installed package.json wins over the
+ * lockfile's copy of the license field; packages declaring none are
+ * identified by their license file. Returns null without a lockfile.
+ */
+export async function collectPackageLicenses(
+  projectRoot: string
+): Promise<PackageLicense[] | null> {
+  const lockfilePath = path.join(projectRoot, 'package-lock.json');
+  let lockfile: Lockfile;
+  try {
+    lockfile = JSON.parse(await fs.readFile(lockfilePath, 'utf-8'));
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw new FileSystemError(
+      'read',
+      lockfilePath,
+      error instanceof Error ? error : new Error(String(error)),
+      { code: 'LOCKFILE_UNREADABLE' }
+    );
+  }
+
+  const packages = readLockfilePackages(lockfile);
+  const resolved = await Promise.all(
+    packages.map(async (pkg): Promise<PackageLicense> => {
+      const dir = path.join(projectRoot, pkg.path);
+      let manifest: PackageManifest | null = null;
+      try {
+        manifest = JSON.parse(
+          await fs.readFile(path.join(dir, 'package.json'), 'utf-8')
+        );
+      } catch {
+        // Not installed (e.g. an optional dependency for another platform)
+      }
+
+      const licenseFileName = manifest ? await findLicenseFile(dir) : undefined;
+      const licenseFile = licenseFileName
+        ? path.posix.join(pkg.path, licenseFileName)
+        : undefined;
+      const fromManifest = manifest ? declaredLicense(manifest) : null;
+      const declared = fromManifest ?? pkg.license ?? null;
+      let license = declared ? normalizeLicense(declared) : null;
+      let source: PackageLicense['source'] = !declared
+        ? null
+        : fromManifest
+          ? 'package.json'
+          : 'lockfile';
+
+      if (!declared && licenseFile) {
+        const text = await fs
+          .readFile(path.join(projectRoot, licenseFile), 'utf-8')
+          .catch(() => '');
+        license = detectLicenseText(text);
+        source = license ? 'license-file' : null;
+      }
+
+      return {
+        name: pkg.name,
+        version: pkg.version,
+        path: pkg.path,
+        declared,
+        license,
+        source,
+        dev: pkg.dev,
+        author: manifest ? personName(manifest.author) : undefined,
+        repository: manifest ? repositoryUrl(manifest.repository) : undefined,
+        licenseFile,
+      };
+    })
+  );
+
+  logger.debug(
+    `Resolved licenses for ${resolved.length} packages from ${lockfilePath}`
+  );
+  return resolved;
+}
+
+/**
+ * License file contents of the given packages, keyed by lockfile path.
+ * Packages without a readable license file are left out.
+ */
+export async function readLicenseTexts(
+  projectRoot: string,
+  packages: PackageLicense[]
+): Promise<Map<string, string>> {
+  const texts = new Map<string, string>();
+  await Promise.all(
+    packages.map(async pkg => {
+      if (!pkg.licenseFile) return;
+      try {
+        const text = await fs.readFile(
+          path.join(projectRoot, pkg.licenseFile),
+          'utf-8'
+        );
+        texts.set(pkg.path, text.trim());
+      } catch (error) {
+        logger.debug(`Could not read ${pkg.licenseFile}`, { error });
+      }
+    })
+  );
+  return texts;
+}
@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+/**
+ * Context added to every entry logged within `withLogContext`. A
+ * `correlationId` is lifted onto the entry so one run's logs can be filtered.
+ */
+export type LogContext = Record<string, unknown> & { correlationId?: string };
+
+/** Environment variable passing the correlation id on to child processes */
+export const CORRELATION_ENV = 'ANALYZER_CORRELATION_ID';
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+// A process started by an analysis run joins it
+const inherited: LogContext =
+  typeof process !== 'undefined' && process.env[CORRELATION_ENV]
+    ? { correlationId: process.env[CORRELATION_ENV] }
+    : {};
+
+/**
+ * Run `fn` with `context` added to the entries it logs, across awaits and
+ * nested over the context already active
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return storage.run({ ...getLogContext(), ...context }, fn);
+}
+
+/**
+ * The context active for the current async call chain
+ */
+export function getLogContext(): LogContext {
+  return storage.getStore() ?? inherited;
+}
+
+/**
+ * A short random id for one analysis run or request
+ */
+export function createCorrelationId(): string {
+  return randomUUID().slice(0, 8);
+}
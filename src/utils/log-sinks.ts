@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import type { LogEntry, LogSink } from './logger';
+
+interface JsonLinesOptions {
+  /** Size at which the file is rotated; defaults to 10 MiB */
+  maxBytes?: number;
+  /** Rotated files kept as `<file>.1` (newest) to `<file>.<maxFiles>` */
+  maxFiles?: number;
+}
+
+/**
+ * One JSON object per line, appended synchronously so entries logged right
+ * before the process exits are kept
+ */
+export class JsonLinesSink implements LogSink {
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private size: number | null = null;
+
+  constructor(
+    private readonly file: string,
+    options: JsonLinesOptions = {}
+  ) {
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 3;
+  }
+
+  write(entry: LogEntry): void {
+    const line = `${JSON.stringify(entry)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    if (this.size === null) {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      this.size = fs.existsSync(this.file) ? fs.statSync(this.file).size : 0;
+    }
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+      this.size = 0;
+    }
+
+    fs.appendFileSync(this.file, line, 'utf-8');
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    fs.rmSync(`${this.file}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${this.file}.${index}`)) {
+        fs.renameSync(`${this.file}.${index}`, `${this.file}.${index + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.file, `${this.file}.1`);
+    } else {
+      fs.rmSync(this.file, { force: true });
+    }
+  }
+}
+
+/**
+ * Keeps the latest entries in memory, e.g. to attach to an error report
+ */
+export class RingBufferSink implements LogSink {
+  private buffer: LogEntry[] = [];
+
+  constructor(private readonly capacity = 1000) {}
+
+  write(entry: LogEntry): void {
+    this.buffer.push(entry);
+    if (this.buffer.length > this.capacity) {
+      this.buffer.shift();
+    }
+  }
+
+  /**
+   * Entries oldest first, optionally those of one correlation id only
+   */
+  entries(correlationId?: string): LogEntry[] {
+    return correlationId
+      ? this.buffer.filter(entry => entry.correlationId === correlationId)
+      : [...this.buffer];
+  }
+
+  clear(): void {
+    this.buffer = [];
+  }
+}
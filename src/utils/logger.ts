@@ -1,3 +1,6 @@
+import { getLogContext } from './log-context';
+import type { LogContext } from './log-context';
+
 export enum LogLevel {
   DEBUG = 'DEBUG',
   INFO = 'INFO',
@@ -10,6 +13,8 @@ export interface LogEntry {
   timestamp: string;
   level: LogLevel;
   message: string;
+  /** Shared by every entry of one analysis run or request */
+  correlationId?: string;
   context?: Record<string, unknown>;
   error?: {
     name: string;
@@ -22,12 +27,137 @@ export interface LogEntry {
 type ErrorWithDetails = Error & { details?: unknown };
 type LogListener = (entry: LogEntry) => void;
 
+/**
+ * Receives every entry at or above the logger's level. A sink that throws
+ * never stops the others.
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+}
+
+// Keys whose values never reach a sink, compared without case, `-` or `_`
+const SENSITIVE_KEY =
+  /(password|passwd|secret|token|apikey|accesskey|privatekey|authorization|cookie|credentials?|sessionid)$/;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Copy a value for logging: values under sensitive keys are replaced, unless
+ * they are numbers or booleans, and circular references are cut
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value !== 'object' || value === null) return value;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, seen));
+  }
+  if (value instanceof Date) return value;
+  if (value instanceof Error)
+    return { name: value.name, message: value.message };
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    copy[key] =
+      SENSITIVE_KEY.test(key.toLowerCase().replace(/[-_]/g, '')) &&
+      typeof child !== 'number' &&
+      typeof child !== 'boolean' &&
+      child !== null &&
+      child !== undefined
+        ? REDACTED
+        : redact(child, seen);
+  }
+  return copy;
+}
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  [LogLevel.DEBUG]: '\x1b[90m',
+  [LogLevel.INFO]: '\x1b[36m',
+  [LogLevel.WARN]: '\x1b[33m',
+  [LogLevel.ERROR]: '\x1b[31m',
+  [LogLevel.FATAL]: '\x1b[1;31m',
+};
+
+/**
+ * Human-readable lines on stdout, errors on stderr; the level is colored
+ * when the stream is a terminal and `NO_COLOR` is unset
+ */
+export class ConsoleSink implements LogSink {
+  write(entry: LogEntry): void {
+    if (typeof process === 'undefined') return;
+    const stream =
+      entry.level === LogLevel.ERROR || entry.level === LogLevel.FATAL
+        ? process.stderr
+        : process.stdout;
+    if (!stream || typeof stream.write !== 'function') return;
+
+    const color = stream.isTTY && !process.env.NO_COLOR;
+    stream.write(`${ConsoleSink.format(entry, color)}\n`);
+  }
+
+  static format(entry: LogEntry, color = false): string {
+    const { timestamp, level, message, context, error } = entry;
+    const label = color ? `${LEVEL_COLORS[level]}${level}\x1b[0m` : level;
+    let logString = `[${timestamp}] [${label}] ${message}`;
+
+    if (context) {
+      try {
+        logString += ` | Context: ${JSON.stringify(context)}`;
+      } catch {
+        logString += ' | Context: [unserializable]';
+      }
+    }
+
+    if (error) {
+      logString += ` | Error: ${error.name}: ${error.message}`;
+      if (error.details) {
+        try {
+          logString += ` | Details: ${JSON.stringify(error.details)}`;
+        } catch {
+          logString += ' | Details: [unserializable]';
+        }
+      }
+      if (error.stack) {
+        logString += `\nStack: ${error.stack}`;
+      }
+    }
+
+    return logString;
+  }
+}
+
+/** What a logger and its children share */
+interface LoggerState {
+  minLevel: LogLevel;
+  listeners: Set<LogListener>;
+  sinks: Set<LogSink>;
+  writeToStreams: boolean;
+}
+
 export class Logger {
-  private minLevel: LogLevel = LogLevel.INFO;
-  private listeners: Set<LogListener> = new Set();
+  private state: LoggerState;
+  private bindings: LogContext = {};
+  private readonly consoleSink = new ConsoleSink();
 
   constructor(minLevel: LogLevel = LogLevel.INFO) {
-    this.minLevel = minLevel;
+    this.state = {
+      minLevel,
+      listeners: new Set(),
+      sinks: new Set(),
+      writeToStreams: true,
+    };
+  }
+
+  /**
+   * A logger that adds `bindings` to the context of every entry. It shares
+   * the level, sinks and listeners of this one.
+   */
+  public child(bindings: LogContext): Logger {
+    const child = new Logger();
+    child.state = this.state;
+    child.bindings = { ...this.bindings, ...bindings };
+    return child;
   }
 
   private shouldLog(level: LogLevel): boolean {
@@ -38,7 +168,7 @@ export class Logger {
       LogLevel.ERROR,
       LogLevel.FATAL,
     ];
-    return levels.indexOf(level) >= levels.indexOf(this.minLevel);
+    return levels.indexOf(level) >= levels.indexOf(this.state.minLevel);
   }
 
   private formatMessage(
@@ -53,8 +183,17 @@ export class Logger {
       message,
     };
 
-    if (context) {
-      logEntry.context = context;
+    // Call context over bindings over the active async context
+    const { correlationId, ...merged } = {
+      ...getLogContext(),
+      ...this.bindings,
+      ...context,
+    };
+    if (correlationId) {
+      logEntry.correlationId = String(correlationId);
+    }
+    if (context || Object.keys(merged).length > 0) {
+      logEntry.context = redact(merged) as Record<string, unknown>;
     }
 
     if (error) {
@@ -65,7 +204,7 @@ export class Logger {
       };
       // If it's a custom error with details, include them
       if (this.hasDetails(error)) {
-        logEntry.error.details = error.details;
+        logEntry.error.details = redact(error.details);
       }
     }
     return logEntry;
@@ -75,38 +214,16 @@ export class Logger {
     return 'details' in error;
   }
 
-  private formatForStream(entry: LogEntry): string {
-    const { timestamp, level, message, context, error } = entry;
-    let logString = `[${timestamp}] [${level}] ${message}`;
-
-    if (context) {
+  private emit(entry: LogEntry): void {
+    this.state.listeners.forEach(listener => listener(entry));
+    for (const sink of this.state.sinks) {
       try {
-        logString += ` | Context: ${JSON.stringify(context)}`;
+        sink.write(entry);
       } catch {
-        logString += ' | Context: [unserializable]';
-      }
-    }
-
-    if (error) {
-      logString += ` | Error: ${error.name}: ${error.message}`;
-      if (error.details) {
-        try {
-          logString += ` | Details: ${JSON.stringify(error.details)}`;
-        } catch {
-          logString += ' | Details: [unserializable]';
-        }
-      }
-      if (error.stack) {
-        logString += `\nStack: ${error.stack}`;
+        // A failing sink must not break logging
       }
     }
 
-    return logString;
-  }
-
-  private emit(entry: LogEntry, formatted: string): void {
-    this.listeners.forEach(listener => listener(entry));
-
     if (
       typeof window !== 'undefined' &&
       typeof window.dispatchEvent === 'function'
@@ -121,42 +238,47 @@ export class Logger {
       }
     }
 
-    if (typeof process !== 'undefined') {
-      const stream =
-        entry.level === LogLevel.ERROR || entry.level === LogLevel.FATAL
-          ? process.stderr
-          : process.stdout;
-      if (stream && typeof stream.write === 'function') {
-        stream.write(`${formatted}\n`);
-      }
+    if (this.state.writeToStreams) {
+      this.consoleSink.write(entry);
     }
   }
 
+  /**
+   * Stop writing to stdout and stderr, e.g. when stdout carries a protocol.
+   * Subscribers and added sinks still receive every entry.
+   */
+  public setStreamOutput(enabled: boolean) {
+    this.state.writeToStreams = enabled;
+  }
+
   public subscribe(listener: LogListener): () => void {
-    this.listeners.add(listener);
-    return () => this.listeners.delete(listener);
+    this.state.listeners.add(listener);
+    return () => this.state.listeners.delete(listener);
   }
 
-  private output(entry: LogEntry) {
-    const formatted = this.formatForStream(entry);
-    this.emit(entry, formatted);
+  /**
+   * Send entries to another sink as well, e.g. a `JsonLinesSink` log file
+   */
+  public addSink(sink: LogSink): () => void {
+    this.state.sinks.add(sink);
+    return () => this.state.sinks.delete(sink);
   }
 
   public debug(message: string, context?: Record<string, unknown>) {
     if (this.shouldLog(LogLevel.DEBUG)) {
-      this.output(this.formatMessage(LogLevel.DEBUG, message, context));
+      this.emit(this.formatMessage(LogLevel.DEBUG, message, context));
     }
   }
 
   public info(message: string, context?: Record<string, unknown>) {
     if (this.shouldLog(LogLevel.INFO)) {
-      this.output(this.formatMessage(LogLevel.INFO, message, context));
+      this.emit(this.formatMessage(LogLevel.INFO, message, context));
     }
   }
 
   public warn(message: string, context?: Record<string, unknown>) {
     if (this.shouldLog(LogLevel.WARN)) {
-      this.output(this.formatMessage(LogLevel.WARN, message, context));
+      this.emit(this.formatMessage(LogLevel.WARN, message, context));
     }
   }
 
@@ -166,7 +288,7 @@ export class Logger {
     context?: Record<string, unknown>
   ) {
     if (this.shouldLog(LogLevel.ERROR)) {
-      this.output(this.formatMessage(LogLevel.ERROR, message, context, error));
+      this.emit(this.formatMessage(LogLevel.ERROR, message, context, error));
     }
   }
 
@@ -176,12 +298,12 @@ export class Logger {
     context?: Record<string, unknown>
   ) {
     if (this.shouldLog(LogLevel.FATAL)) {
-      this.output(this.formatMessage(LogLevel.FATAL, message, context, error));
+      this.emit(this.formatMessage(LogLevel.FATAL, message, context, error));
     }
   }
 
   public setMinLevel(level: LogLevel) {
-    this.minLevel = level;
+    this.state.minLevel = level;
   }
 }
 
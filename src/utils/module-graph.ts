@@ -0,0 +1,557 @@
+import ts from 'typescript';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { parse as parseAstro } from '@astrojs/compiler';
+import type { Node as AstroNode } from '@astrojs/compiler/types';
+import { Graph } from './graph';
+import { globToRegExp } from './glob-pattern';
+
+/**
+ * Where an import, export or re-export appears in its file (1-based)
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+export interface ModuleImport extends SourceLocation {
+  specifier: string;
+  /** Project-relative path of the imported module */
+  target: string;
+  /** Imported export names; `*` when every export may be used */
+  names: string[];
+  /** Erased at runtime (`import type`, `typeof import()`) */
+  typeOnly: boolean;
+  /** `import()` and `import.meta.glob()`; loaded after the importer runs */
+  dynamic: boolean;
+  /** `export { name } from` or `export * from` */
+  reExport?: Array<{ imported: string; exported: string }> | '*';
+}
+
+export interface ModuleExport extends SourceLocation {
+  name: string;
+}
+
+export interface ModuleInfo {
+  /** Project-relative path with forward slashes */
+  file: string;
+  imports: ModuleImport[];
+  /** Exports declared in this file; re-exports live in `imports` */
+  exports: ModuleExport[];
+  lines: string[];
+  /** The parsed code; for `.astro` files the script parts, blanked elsewhere */
+  code: string;
+}
+
+const SOURCE_PATTERNS = ['src/**/*.{ts,tsx,astro}', '*.config.{ts,mts,js,mjs}'];
+const EXCLUDED_PATTERNS = [
+  '**/*.d.ts',
+  '**/*.test.*',
+  '**/*.spec.*',
+  'src/tests/**',
+];
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.astro', '.js', '.mjs'];
+
+/**
+ * Import graph of a project's `src/` modules (`.ts`, `.tsx` and the
+ * frontmatter and bundled `<script>`s of `.astro` files) plus root-level
+ * config files. Only imports that resolve to another project module become
+ * edges; packages are ignored.
+ */
+export class ModuleGraph {
+  /** Every import between project modules, type-only ones included */
+  readonly graph = new Graph<string>(true);
+  readonly modules = new Map<string, ModuleInfo>();
+
+  private projectRoot: string;
+  private aliases: Array<{
+    prefix: string;
+    wildcard: boolean;
+    targets: string[];
+  }> = [];
+
+  private constructor(projectRoot: string) {
+    this.projectRoot = path.resolve(projectRoot);
+  }
+
+  static async build(
+    projectRoot: string,
+    ignore: string[] = []
+  ): Promise<ModuleGraph> {
+    const moduleGraph = new ModuleGraph(projectRoot);
+    await moduleGraph.load(ignore);
+    return moduleGraph;
+  }
+
+  /**
+   * Graph of the imports that run when a module is evaluated: no type-only
+   * or dynamic imports, which cannot cause initialisation-order problems
+   */
+  runtimeGraph(): Graph<string> {
+    const runtime = new Graph<string>(true);
+    for (const info of this.modules.values()) {
+      runtime.addNode(info.file);
+      for (const entry of info.imports) {
+        if (!entry.typeOnly && !entry.dynamic) {
+          runtime.addEdge(info.file, entry.target);
+        }
+      }
+    }
+    return runtime;
+  }
+
+  /**
+   * The first import of `to` in `from`
+   */
+  getImport(from: string, to: string): ModuleImport | undefined {
+    return this.modules.get(from)?.imports.find(entry => entry.target === to);
+  }
+
+  /**
+   * Import cycles, each as a path that starts and ends with the same module.
+   * One shortest cycle is reported per strongly connected component.
+   */
+  findCycles(): string[][] {
+    const runtime = this.runtimeGraph();
+    const cycles: string[][] = [];
+
+    for (const component of runtime.getStronglyConnectedComponents()) {
+      const [start] = [...component].sort();
+      if (component.length === 1) {
+        if (runtime.hasEdge(start, start)) cycles.push([start, start]);
+        continue;
+      }
+
+      let shortest: string[] | undefined;
+      for (const next of runtime.getNeighbors(start)) {
+        if (!component.includes(next)) continue;
+        const { path: back, found } = runtime.dijkstra(next, start);
+        if (found && (!shortest || back.length + 1 < shortest.length)) {
+          shortest = [start, ...back];
+        }
+      }
+      if (shortest) cycles.push(shortest);
+    }
+
+    return cycles.sort((a, b) => a[0].localeCompare(b[0]));
+  }
+
+  /**
+   * Modules reachable from the given entry modules, entries included
+   */
+  reachableFrom(entries: string[]): Set<string> {
+    const reached = new Set<string>();
+    for (const entry of entries) {
+      if (reached.has(entry) || !this.graph.hasNode(entry)) continue;
+      for (const node of this.graph.bfs({ start: entry })) {
+        reached.add(node);
+      }
+    }
+    return reached;
+  }
+
+  /**
+   * Export names imported by some module, per module. Imports through
+   * barrel files (`export * from`, `export { a as b } from`) are followed
+   * back to the module that declares the export.
+   */
+  usedExports(): Map<string, Set<string>> {
+    const used = new Map<string, Set<string>>();
+
+    const markUsed = (file: string, name: string): void => {
+      const info = this.modules.get(file);
+      if (!info) return;
+      const names = used.get(file) ?? new Set<string>();
+      if (names.has(name) || names.has('*')) return;
+      names.add(name);
+      used.set(file, names);
+
+      const declared = info.exports.some(entry => entry.name === name);
+      for (const entry of info.imports) {
+        if (entry.reExport === '*') {
+          // `export *` never forwards the default export
+          if (name === '*' || (!declared && name !== 'default')) {
+            markUsed(entry.target, name);
+          }
+        } else if (entry.reExport) {
+          for (const { imported, exported } of entry.reExport) {
+            if (name === '*' || name === exported) {
+              markUsed(entry.target, imported);
+            }
+          }
+        }
+      }
+    };
+
+    for (const info of this.modules.values()) {
+      for (const entry of info.imports) {
+        if (entry.reExport) continue;
+        for (const name of entry.names) {
+          markUsed(entry.target, name);
+        }
+      }
+    }
+
+    return used;
+  }
+
+  private async load(ignore: string[]): Promise<void> {
+    await this.loadAliases();
+
+    const files = await glob(SOURCE_PATTERNS, {
+      cwd: this.projectRoot,
+      ignore: [...ignore, ...EXCLUDED_PATTERNS],
+      nodir: true,
+      posix: true,
+    });
+    const known = new Set(files);
+
+    for (const file of files.sort()) {
+      const content = await fs.readFile(
+        path.join(this.projectRoot, file),
+        'utf-8'
+      );
+      const info = await this.parseModule(file, content, known);
+      this.modules.set(file, info);
+      this.graph.addNode(file);
+    }
+
+    for (const info of this.modules.values()) {
+      for (const entry of info.imports) {
+        this.graph.addEdge(info.file, entry.target);
+      }
+    }
+  }
+
+  private async parseModule(
+    file: string,
+    content: string,
+    known: Set<string>
+  ): Promise<ModuleInfo> {
+    const code = file.endsWith('.astro')
+      ? await this.astroScriptSource(content)
+      : content;
+    const sourceFile = ts.createSourceFile(
+      file,
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+    );
+
+    const info: ModuleInfo = {
+      file,
+      imports: [],
+      exports: [],
+      lines: content.split('\n'),
+      code,
+    };
+
+    const locate = (node: ts.Node): SourceLocation => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+        node.getStart(sourceFile)
+      );
+      return { line: line + 1, column: character + 1 };
+    };
+
+    const addImport = (
+      node: ts.Node,
+      specifier: string,
+      details: Pick<ModuleImport, 'names' | 'typeOnly' | 'dynamic' | 'reExport'>
+    ) => {
+      for (const target of this.resolve(specifier, file, known)) {
+        info.imports.push({ specifier, target, ...details, ...locate(node) });
+      }
+    };
+
+    const addExport = (name: ts.Node, exported = name.getText(sourceFile)) => {
+      info.exports.push({ name: exported, ...locate(name) });
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (
+        ts.isImportDeclaration(node) &&
+        ts.isStringLiteral(node.moduleSpecifier)
+      ) {
+        const clause = node.importClause;
+        const names: string[] = [];
+        if (clause?.name) names.push('default');
+        if (clause?.namedBindings) {
+          if (ts.isNamespaceImport(clause.namedBindings)) {
+            names.push('*');
+          } else {
+            for (const element of clause.namedBindings.elements) {
+              names.push((element.propertyName ?? element.name).text);
+            }
+          }
+        }
+        addImport(node, node.moduleSpecifier.text, {
+          names,
+          typeOnly:
+            !!clause?.isTypeOnly ||
+            (names.length > 0 &&
+              !!clause?.namedBindings &&
+              ts.isNamedImports(clause.namedBindings) &&
+              !clause.name &&
+              clause.namedBindings.elements.every(
+                element => element.isTypeOnly
+              )),
+          dynamic: false,
+        });
+      } else if (ts.isExportDeclaration(node)) {
+        if (node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+          const clause = node.exportClause;
+          addImport(node, node.moduleSpecifier.text, {
+            names: [],
+            typeOnly: node.isTypeOnly,
+            dynamic: false,
+            reExport: !clause
+              ? '*'
+              : ts.isNamespaceExport(clause)
+                ? [{ imported: '*', exported: clause.name.text }]
+                : clause.elements.map(element => ({
+                    imported: (element.propertyName ?? element.name).getText(
+                      sourceFile
+                    ),
+                    exported: element.name.getText(sourceFile),
+                  })),
+          });
+        } else if (node.exportClause && ts.isNamedExports(node.exportClause)) {
+          for (const element of node.exportClause.elements) {
+            addExport(element.name);
+          }
+        }
+      } else if (ts.isExportAssignment(node) && !node.isExportEquals) {
+        info.exports.push({ name: 'default', ...locate(node) });
+      } else if (this.hasExportModifier(node)) {
+        this.collectDeclaredExports(node, addExport);
+      } else if (ts.isCallExpression(node)) {
+        this.visitCall(node, addImport);
+      } else if (
+        ts.isImportTypeNode(node) &&
+        ts.isLiteralTypeNode(node.argument) &&
+        ts.isStringLiteral(node.argument.literal)
+      ) {
+        const qualifier = node.qualifier
+          ? node.qualifier.getText(sourceFile).split('.')[0]
+          : '*';
+        addImport(node, node.argument.literal.text, {
+          names: [qualifier],
+          typeOnly: true,
+          dynamic: false,
+        });
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return info;
+  }
+
+  private visitCall(
+    node: ts.CallExpression,
+    addImport: (
+      node: ts.Node,
+      specifier: string,
+      details: Pick<ModuleImport, 'names' | 'typeOnly' | 'dynamic'>
+    ) => void
+  ): void {
+    const [argument] = node.arguments;
+    if (!argument || !ts.isStringLiteralLike(argument)) return;
+
+    const callee = node.expression;
+    if (callee.kind === ts.SyntaxKind.ImportKeyword) {
+      addImport(node, argument.text, {
+        names: ['*'],
+        typeOnly: false,
+        dynamic: true,
+      });
+    } else if (ts.isIdentifier(callee) && callee.text === 'require') {
+      addImport(node, argument.text, {
+        names: ['*'],
+        typeOnly: false,
+        dynamic: false,
+      });
+    } else if (
+      ts.isPropertyAccessExpression(callee) &&
+      callee.name.text === 'glob' &&
+      ts.isMetaProperty(callee.expression)
+    ) {
+      // import.meta.glob('./posts/*.ts'): every match may be loaded
+      addImport(node, argument.text, {
+        names: ['*'],
+        typeOnly: false,
+        dynamic: true,
+      });
+    }
+  }
+
+  private hasExportModifier(node: ts.Node): boolean {
+    return (
+      ts.canHaveModifiers(node) &&
+      !!ts
+        .getModifiers(node)
+        ?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)
+    );
+  }
+
+  private collectDeclaredExports(
+    node: ts.Node,
+    addExport: (name: ts.Node, exported?: string) => void
+  ): void {
+    const isDefault = ts
+      .getModifiers(node as ts.HasModifiers)
+      ?.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isVariableStatement(node)) {
+      for (const declaration of node.declarationList.declarations) {
+        this.collectBindingNames(declaration.name, addExport);
+      }
+    } else if (
+      ts.isFunctionDeclaration(node) ||
+      ts.isClassDeclaration(node) ||
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      ts.isEnumDeclaration(node) ||
+      ts.isModuleDeclaration(node)
+    ) {
+      if (isDefault) {
+        addExport(node.name ?? node, 'default');
+      } else if (node.name) {
+        addExport(node.name);
+      }
+    }
+  }
+
+  private collectBindingNames(
+    name: ts.BindingName,
+    addExport: (name: ts.Node) => void
+  ): void {
+    if (ts.isIdentifier(name)) {
+      addExport(name);
+      return;
+    }
+    for (const element of name.elements) {
+      if (ts.isBindingElement(element)) {
+        this.collectBindingNames(element.name, addExport);
+      }
+    }
+  }
+
+  /**
+   * The frontmatter and bundled `<script>` code of an `.astro` file, with
+   * everything else blanked out so positions still match the file
+   */
+  private async astroScriptSource(content: string): Promise<string> {
+    const { ast } = await parseAstro(content);
+    const snippets: string[] = [];
+
+    const collect = (node: AstroNode): void => {
+      if (node.type === 'frontmatter') {
+        snippets.push(node.value);
+      } else if (
+        node.type === 'element' &&
+        node.name === 'script' &&
+        !node.attributes.some(attribute =>
+          ['is:inline', 'src', 'define:vars'].includes(attribute.name)
+        )
+      ) {
+        for (const child of node.children) {
+          if (child.type === 'text') snippets.push(child.value);
+        }
+        return;
+      }
+      if ('children' in node) node.children.forEach(collect);
+    };
+    collect(ast);
+
+    const masked = content.replace(/[^\n]/g, ' ').split('');
+    let searchFrom = 0;
+    for (const snippet of snippets) {
+      const start = content.indexOf(snippet, searchFrom);
+      if (start === -1) continue;
+      for (let i = 0; i < snippet.length; i++) {
+        masked[start + i] = content[start + i];
+      }
+      searchFrom = start + snippet.length;
+    }
+    return masked.join('');
+  }
+
+  /**
+   * Project modules a specifier refers to; several for `import.meta.glob`
+   */
+  private resolve(
+    specifier: string,
+    importer: string,
+    known: Set<string>
+  ): string[] {
+    const bases: string[] = [];
+
+    if (specifier.startsWith('.')) {
+      bases.push(path.posix.join(path.posix.dirname(importer), specifier));
+    } else {
+      for (const alias of this.aliases) {
+        if (alias.wildcard && specifier.startsWith(alias.prefix)) {
+          const rest = specifier.slice(alias.prefix.length);
+          bases.push(...alias.targets.map(target => target + rest));
+        } else if (!alias.wildcard && specifier === alias.prefix) {
+          bases.push(...alias.targets);
+        }
+      }
+      if (specifier.startsWith('/')) bases.push(specifier.slice(1));
+    }
+
+    const resolved = new Set<string>();
+    for (const base of bases) {
+      const normalized = path.posix.normalize(base);
+      if (normalized.includes('*')) {
+        const pattern = globToRegExp(normalized);
+        for (const file of known) {
+          if (pattern.test(file)) resolved.add(file);
+        }
+        continue;
+      }
+      const match = this.resolveFile(normalized, known);
+      if (match) resolved.add(match);
+    }
+    return [...resolved];
+  }
+
+  private resolveFile(base: string, known: Set<string>): string | undefined {
+    // ESM-style `./util.js` imports of `./util.ts`
+    const stripped = base.replace(/\.(?:js|jsx|mjs)$/, '');
+    const candidates = [
+      base,
+      ...RESOLVE_EXTENSIONS.map(extension => stripped + extension),
+      ...RESOLVE_EXTENSIONS.map(extension => `${base}/index${extension}`),
+    ];
+    return candidates.find(candidate => known.has(candidate));
+  }
+
+  /**
+   * `compilerOptions.paths` from tsconfig.json, e.g. `@/*` -> `src/*`
+   */
+  private async loadAliases(): Promise<void> {
+    const configFile = path.join(this.projectRoot, 'tsconfig.json');
+    const { config } = ts.readConfigFile(configFile, ts.sys.readFile);
+    const options = config?.compilerOptions as
+      | { baseUrl?: string; paths?: Record<string, string[]> }
+      | undefined;
+    if (!options?.paths) return;
+
+    const baseUrl = options.baseUrl ?? '.';
+    this.aliases = Object.entries(options.paths)
+      .map(([pattern, targets]) => ({
+        prefix: pattern.replace(/\*$/, ''),
+        wildcard: pattern.endsWith('*'),
+        targets: targets.map(target =>
+          path.posix.join(baseUrl, target.replace(/\*$/, ''))
+        ),
+      }))
+      // Most specific alias first
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+  }
+}
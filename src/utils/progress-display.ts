@@ -0,0 +1,122 @@
+import type { AnalysisProgress } from '../types/analysis';
+import { ConsoleSink, logger, type LogEntry, type LogSink } from './logger';
+
+type ModuleState = AnalysisProgress['modules'][number]['state'];
+
+export const MODULE_STATE_ICONS: Record<ModuleState, string> = {
+  pending: '·',
+  running: '…',
+  completed: '✓',
+  failed: '✗',
+  timeout: '⏱',
+  cancelled: '⛔',
+};
+
+const BAR_WIDTH = 24;
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Live module progress at the bottom of a terminal. While it is shown, log
+ * entries go through it so they are printed above the progress block instead
+ * of through it.
+ */
+export class ProgressDisplay implements LogSink {
+  private progress: AnalysisProgress | null = null;
+  private drawnLines = 0;
+  private ticker: ReturnType<typeof setInterval> | undefined;
+  private removeSink: (() => void) | undefined;
+  private readonly console = new ConsoleSink();
+
+  constructor(private readonly stream: NodeJS.WriteStream = process.stderr) {}
+
+  /**
+   * Take over console logging and redraw every second, so the elapsed time
+   * of running modules keeps moving
+   */
+  start(): void {
+    logger.setStreamOutput(false);
+    this.removeSink = logger.addSink(this);
+    this.ticker = setInterval(() => this.redraw(), 1000);
+    this.ticker.unref?.();
+  }
+
+  update(progress: AnalysisProgress): void {
+    this.progress = progress;
+    this.redraw();
+  }
+
+  write(entry: LogEntry): void {
+    this.clear();
+    this.console.write(entry);
+    this.draw();
+  }
+
+  /**
+   * Erase the progress block and hand console logging back
+   */
+  stop(): void {
+    clearInterval(this.ticker);
+    this.ticker = undefined;
+    this.clear();
+    this.removeSink?.();
+    this.removeSink = undefined;
+    logger.setStreamOutput(true);
+  }
+
+  /**
+   * A summary line with a bar, then one line per module in schedule order
+   */
+  static render(progress: AnalysisProgress, now = Date.now()): string[] {
+    const { completed, total } = progress;
+    const filled = total > 0 ? Math.round((completed / total) * BAR_WIDTH) : 0;
+    const lines = [
+      `Analyzing [${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)}] ${completed}/${total} modules`,
+    ];
+    const width = Math.max(...progress.modules.map(entry => entry.name.length));
+
+    for (const entry of progress.modules) {
+      const details =
+        entry.state === 'running' && entry.startedAt !== undefined
+          ? formatDuration(now - entry.startedAt)
+          : entry.state === 'pending'
+            ? ''
+            : [
+                entry.durationMs !== undefined &&
+                  formatDuration(entry.durationMs),
+                entry.state === 'completed' && `${entry.issues ?? 0} issues`,
+                entry.state !== 'completed' && entry.state,
+              ]
+                .filter(Boolean)
+                .join(', ');
+      lines.push(
+        `  ${MODULE_STATE_ICONS[entry.state]} ${entry.name.padEnd(width)}  ${details}`.trimEnd()
+      );
+    }
+    return lines;
+  }
+
+  private redraw(): void {
+    this.clear();
+    this.draw();
+  }
+
+  private draw(): void {
+    if (!this.progress) return;
+    const columns = this.stream.columns || 80;
+    // Lines are cut to the terminal width so each takes exactly one row
+    const lines = ProgressDisplay.render(this.progress).map(line =>
+      line.slice(0, columns - 1)
+    );
+    this.stream.write(`${lines.join('\n')}\n`);
+    this.drawnLines = lines.length;
+  }
+
+  private clear(): void {
+    if (this.drawnLines === 0) return;
+    this.stream.write(`\x1b[${this.drawnLines}A\x1b[0J`);
+    this.drawnLines = 0;
+  }
+}
@@ -0,0 +1,84 @@
+import chokidar from 'chokidar';
+import type { FSWatcher } from 'chokidar';
+import path from 'path';
+import type { AnalyzerConfig } from '../types/analysis';
+import { logger } from './logger';
+
+// Written by the analyzer itself, so watching them would re-trigger analysis
+const ALWAYS_IGNORED_DIRS = ['.git', '.cache'];
+const DIRECTORY_PATTERN_RE = /^\*\*\/([^*/]+)\/\*\*$/;
+
+/**
+ * Watch the project and report changed files in batches, once no change has
+ * happened for `debounceMs`
+ *
+ * @param onChange - Receives the absolute paths changed, added or removed in the batch
+ * @returns The watcher; close it to stop watching
+ */
+export function watchProject(
+  config: Pick<AnalyzerConfig, 'projectRoot' | 'ignore'>,
+  onChange: (files: string[]) => void | Promise<void>,
+  debounceMs = 1000
+): FSWatcher {
+  // chokidar matches strings as literal paths, not globs, so `**/dir/**`
+  // patterns are applied by directory name
+  const ignoredDirs = new Set([
+    ...ALWAYS_IGNORED_DIRS,
+    ...config.ignore.flatMap(pattern => {
+      const match = DIRECTORY_PATTERN_RE.exec(pattern);
+      return match ? [match[1]] : [];
+    }),
+  ]);
+
+  const watcher = chokidar.watch(config.projectRoot, {
+    ignored: [
+      ...config.ignore,
+      (file: string) =>
+        path
+          .relative(config.projectRoot, file)
+          .split(path.sep)
+          .some(segment => ignoredDirs.has(segment)),
+    ],
+    persistent: true,
+    ignoreInitial: true, // Don't trigger on initial scan
+    awaitWriteFinish: {
+      stabilityThreshold: 500,
+      pollInterval: 100,
+    },
+  });
+
+  let debounceTimer: NodeJS.Timeout | null = null;
+  const changedFiles: Set<string> = new Set();
+
+  watcher.on('all', (_event, changedPath) => {
+    changedFiles.add(path.resolve(changedPath));
+
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+
+    debounceTimer = setTimeout(async () => {
+      const files = Array.from(changedFiles);
+      changedFiles.clear();
+      logger.debug(`Changed files: ${files.join(', ')}`);
+
+      try {
+        await onChange(files);
+      } catch (error) {
+        logger.error(
+          'Handling file changes failed',
+          error instanceof Error ? error : undefined
+        );
+      }
+    }, debounceMs);
+  });
+
+  watcher.on('error', error => {
+    logger.error(
+      'File watcher error',
+      error instanceof Error ? error : undefined
+    );
+  });
+
+  return watcher;
+}
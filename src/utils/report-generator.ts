@@ -1,4 +1,16 @@
-import type { AnalysisResult, CodeIssue } from '../types/analysis';
+import type {
+  AnalysisResult,
+  BundleComposition,
+  CodeIssue,
+  FixPreview,
+  FixResult,
+  HealthSnapshot,
+  IssueSuppression,
+  PackageLicense,
+} from '../types/analysis';
+import { formatHunk } from './diff';
+import { MODULE_STATE_ICONS } from './progress-display';
+import { formatBytes } from '../config/performance-budgets';
 
 /**
  * Generates analysis reports in various formats
@@ -20,6 +32,9 @@ export class ReportGenerator {
     info: '🔵',
   } as const;
 
+  /** First line of every pull request comment the analyzer generates */
+  static readonly PULL_REQUEST_COMMENT_MARKER = '<!-- code-health-analyzer -->';
+
   /**
    * Generate an HTML report with proper styling
    */
@@ -69,6 +84,8 @@ export class ReportGenerator {
       color: ${severityColor};
     }
     .score-label { color: var(--text-secondary); font-size: 0.875rem; }
+    .sparkline { padding-left: 1.5rem; border-left: 1px solid var(--border-color); }
+    .sparkline svg { display: block; margin-bottom: 0.25rem; }
     .stats-grid {
       display: grid;
       grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
@@ -109,6 +126,42 @@ export class ReportGenerator {
     .low { background: rgba(22, 163, 74, 0.2); color: #86efac; }
     .info { background: rgba(37, 99, 235, 0.2); color: #93c5fd; }
     .empty-state { text-align: center; padding: 3rem; color: var(--text-secondary); }
+    .treemap {
+      display: flex;
+      flex-wrap: wrap;
+      height: 360px;
+      gap: 2px;
+      margin-bottom: 1rem;
+    }
+    .treemap-chunk {
+      display: flex;
+      flex-direction: column;
+      flex-basis: 0;
+      min-width: 48px;
+      gap: 1px;
+      border: 1px solid var(--border-color);
+      border-radius: 4px;
+      overflow: hidden;
+    }
+    .treemap-group {
+      flex-basis: 0;
+      min-height: 2px;
+      overflow: hidden;
+      padding: 0 0.25rem;
+      font-size: 0.7rem;
+      white-space: nowrap;
+      text-overflow: ellipsis;
+    }
+    .treemap-group.package { background: rgba(99, 102, 241, 0.35); }
+    .treemap-group.source { background: rgba(22, 163, 74, 0.3); }
+    .treemap-group.other { background: var(--bg-secondary); color: var(--text-secondary); }
+    .route-table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+    .route-table th, .route-table td {
+      text-align: left;
+      padding: 0.4rem 0.75rem;
+      border-bottom: 1px solid var(--border-color);
+    }
+    .route-table th { color: var(--text-secondary); font-weight: 500; }
   </style>
 </head>
 <body>
@@ -120,6 +173,7 @@ export class ReportGenerator {
         <div class="score-value">${health.score}</div>
         <div class="score-label">Health Score</div>
       </div>
+      ${this.renderSparkline(analysis.history ?? [], health.trends.velocity)}
     </div>
 
     <div class="stats-grid">
@@ -168,6 +222,30 @@ export class ReportGenerator {
       </ul>`
         : '<div class="empty-state">✅ No issues found!</div>'
     }
+    ${
+      analysis.suppressions && analysis.suppressions.length > 0
+        ? `<h2>Suppressions (${analysis.suppressions.length})</h2>
+    <ul class="issue-list">
+      ${analysis.suppressions
+        .map(
+          suppression => `
+        <li class="issue-item">
+          <div class="issue-header">
+            <span class="issue-severity info">${suppression.status}</span>
+            <span class="issue-title">${this.escapeHtml(suppression.rules.join(', '))}</span>
+          </div>
+          <div class="issue-desc">${this.escapeHtml(suppression.reason || 'No reason given')}</div>
+          <div class="issue-meta">
+            📁 ${this.escapeHtml(suppression.file)} • Line ${suppression.line} • ${suppression.suppressed} suppressed${suppression.expires ? ` • Expires ${suppression.expires}` : ''}
+          </div>
+        </li>
+      `
+        )
+        .join('')}
+    </ul>`
+        : ''
+    }
+    ${analysis.bundle ? this.renderBundleComposition(analysis.bundle) : ''}
   </div>
 </body>
 </html>`;
@@ -192,7 +270,7 @@ export class ReportGenerator {
 | **High** | ${health.highIssues} |
 | **Medium** | ${health.mediumIssues} |
 | **Low** | ${health.lowIssues} |
-
+${health.duplication ? `| **Duplication** | ${health.duplication.percentage}% (${health.duplication.duplicatedLines}/${health.duplication.totalLines} lines) |\n` : ''}
 ---
 
 ## Issues by Category
@@ -214,6 +292,40 @@ export class ReportGenerator {
       }
     }
 
+    if (analysis.baseline) {
+      const { baseline } = analysis;
+      report += `---
+
+## Baseline
+
+Compared against \`${baseline.file}\`: **${baseline.newIssues}** new, ${baseline.unchanged} unchanged, ${baseline.fixed.length} fixed.
+
+`;
+      if (baseline.fixed.length > 0) {
+        report += `### Fixed Since Baseline\n\n`;
+        for (const entry of baseline.fixed) {
+          report += `- ✅ **${entry.title}** (\`${entry.rule}\`) - \`${entry.file}\`\n`;
+        }
+        report += '\n';
+      }
+    }
+
+    if (analysis.suppressions && analysis.suppressions.length > 0) {
+      report += `---
+
+## Suppressions
+
+${this.summarizeSuppressions(analysis.suppressions)}
+
+| File | Rules | Status | Suppressed | Reason |
+|------|-------|--------|------------|--------|
+`;
+      for (const suppression of analysis.suppressions) {
+        report += `| \`${suppression.file}:${suppression.line}\` | ${suppression.rules.join(', ')} | ${suppression.status}${suppression.expires ? ` (expires ${suppression.expires})` : ''} | ${suppression.suppressed} | ${suppression.reason.replace(/\|/g, '\\|')} |\n`;
+      }
+      report += '\n';
+    }
+
     // Git status
     if (git) {
       report += `---
@@ -256,6 +368,78 @@ export class ReportGenerator {
     return report;
   }
 
+  /**
+   * Generate a pull request comment body: the health change since the
+   * previous recorded snapshot, unless the run was scoped to changed files,
+   * and the issues the change introduces. The
+   * leading marker lets tooling find and update its earlier comment.
+   */
+  static generatePullRequestComment(
+    analysis: AnalysisResult,
+    maxIssues = 25
+  ): string {
+    const { health, issues, baseline, history = [], scope } = analysis;
+    // A scoped score covers only some files, so it has nothing to compare with
+    const previous =
+      !scope && history.length > 1 ? history[history.length - 2] : undefined;
+    const severityOrder = Object.keys(this.SEVERITY_ICONS);
+    const sorted = [...issues].sort(
+      (a, b) =>
+        severityOrder.indexOf(a.severity.level) -
+        severityOrder.indexOf(b.severity.level)
+    );
+
+    const metrics = [
+      ['Health Score', 'score'],
+      ['Critical', 'criticalIssues'],
+      ['High', 'highIssues'],
+      ['Medium', 'mediumIssues'],
+      ['Low', 'lowIssues'],
+      ['Total Issues', 'totalIssues'],
+    ] as const;
+    const lines = [
+      this.PULL_REQUEST_COMMENT_MARKER,
+      `## ${this.getHealthIcon(health.score)} Code Health: ${health.score}/100${previous ? ` (${this.formatChange(health.score - previous.score)} since \`${previous.commit.slice(0, 7)}\`)` : ''}`,
+      '',
+      '| Metric | Previous | Current | Change |',
+      '|--------|----------|---------|--------|',
+      ...metrics.map(([label, key]) =>
+        previous
+          ? `| ${label} | ${previous[key]} | ${health[key]} | ${this.formatChange(health[key] - previous[key])} |`
+          : `| ${label} | – | ${health[key]} | – |`
+      ),
+      '',
+      ...(scope
+        ? [
+            `Only the ${scope.files.length} changed file(s) were analyzed, so the score is not compared with earlier full analyses.`,
+            '',
+          ]
+        : []),
+      `### ${baseline ? 'New Issues' : 'Issues'} (${issues.length})`,
+      '',
+    ];
+
+    if (baseline) {
+      lines.push(
+        `Compared against \`${baseline.file}\`: ${baseline.newIssues} new, ${baseline.unchanged} unchanged, ${baseline.fixed.length} fixed.`,
+        ''
+      );
+    }
+    if (sorted.length === 0) {
+      lines.push(baseline ? '✅ No new issues.' : '✅ No issues found.');
+    }
+    for (const issue of sorted.slice(0, maxIssues)) {
+      lines.push(
+        `- ${this.SEVERITY_ICONS[issue.severity.level]} **${issue.title}** \`${issue.file}${issue.line ? `:${issue.line}` : ''}\` - ${issue.description.replace(/\s*\n\s*/g, ' ')}`
+      );
+    }
+    if (sorted.length > maxIssues) {
+      lines.push(`- ... and ${sorted.length - maxIssues} more`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
   /**
    * Generate a JSON report
    */
@@ -291,11 +475,69 @@ export class ReportGenerator {
       `║  🔴 Critical: ${health.criticalIssues.toString().padEnd(5)} 🟠 High: ${health.highIssues.toString().padEnd(5)} 🟡 Medium: ${health.mediumIssues.toString().padEnd(5)}     ║`
     );
     lines.push(`║  🟢 Low: ${health.lowIssues.toString().padEnd(55)}║`);
+    if (health.duplication) {
+      lines.push(
+        `║  Duplication: ${`${health.duplication.percentage}% of ${health.duplication.totalLines} lines`.padEnd(49)}║`
+      );
+    }
     lines.push(
       '╚══════════════════════════════════════════════════════════════╝'
     );
     lines.push('');
 
+    const unfinished = (analysis.modules ?? []).filter(
+      run => run.status !== 'completed'
+    );
+    if (analysis.cancelled) {
+      lines.push(
+        '⚠️  Partial analysis: cancelled before every module finished'
+      );
+    }
+    if (unfinished.length > 0) {
+      lines.push('Modules without results:');
+      for (const run of unfinished) {
+        lines.push(
+          `  ${MODULE_STATE_ICONS[run.status]} ${run.module} (${run.status})${run.error ? ` - ${run.error}` : ''}`
+        );
+      }
+    }
+    if (analysis.cancelled || unfinished.length > 0) {
+      lines.push('');
+    }
+
+    if (analysis.baseline) {
+      const { baseline } = analysis;
+      lines.push(
+        `Baseline (${baseline.file}): ${baseline.newIssues} new, ${baseline.unchanged} unchanged, ${baseline.fixed.length} fixed`
+      );
+      for (const entry of baseline.fixed.slice(0, 10)) {
+        lines.push(`  ✅ Fixed: ${entry.title}`);
+        lines.push(`     ${entry.file}`);
+      }
+      if (baseline.fixed.length > 10) {
+        lines.push(`  ... and ${baseline.fixed.length - 10} more fixed issues`);
+      }
+      lines.push('');
+    }
+
+    if (analysis.suppressions && analysis.suppressions.length > 0) {
+      lines.push(
+        `Suppressions: ${this.summarizeSuppressions(analysis.suppressions)}`
+      );
+      for (const suppression of analysis.suppressions.slice(0, 10)) {
+        lines.push(
+          `  🔇 [${suppression.status.toUpperCase()}] ${suppression.rules.join(', ')} - ${suppression.reason}`
+        );
+        lines.push(`     ${suppression.file}:${suppression.line}`);
+      }
+      if (analysis.suppressions.length > 10) {
+        lines.push(
+          `  ... and ${analysis.suppressions.length - 10} more suppressions`
+        );
+      }
+      lines.push('');
+    }
+
     if (issues.length > 0) {
       lines.push('Issues:');
       lines.push('');
@@ -319,6 +561,294 @@ export class ReportGenerator {
   }
 
   // Helper methods
+  /**
+   * Print recorded health snapshots as a table, newest first, with the
+   * score change against the previous snapshot
+   */
+  static generateTrendTable(history: HealthSnapshot[], limit = 20): string {
+    if (history.length === 0) {
+      return 'No health history recorded yet. Run an analysis to record one.';
+    }
+
+    const header = [
+      'Commit',
+      'Date',
+      'Score',
+      'Change',
+      'Critical',
+      'High',
+      'Medium',
+      'Low',
+      'Total',
+    ];
+    const rows = history
+      .map((snapshot, index) => {
+        const previous = history[index - 1];
+        const change = previous ? snapshot.score - previous.score : 0;
+        return [
+          snapshot.commit.slice(0, 7),
+          snapshot.timestamp.slice(0, 10),
+          snapshot.score.toString(),
+          !previous ? '' : change > 0 ? `+${change}` : change.toString(),
+          snapshot.criticalIssues.toString(),
+          snapshot.highIssues.toString(),
+          snapshot.mediumIssues.toString(),
+          snapshot.lowIssues.toString(),
+          snapshot.totalIssues.toString(),
+        ];
+      })
+      .slice(-limit)
+      .reverse();
+
+    const widths = header.map((title, column) =>
+      Math.max(title.length, ...rows.map(row => row[column].length))
+    );
+    const format = (row: string[]) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd();
+
+    return [
+      format(header),
+      format(widths.map(width => '-'.repeat(width))),
+      ...rows.map(format),
+    ].join('\n');
+  }
+
+  /**
+   * Third-party notices listing each package once per version with its
+   * license and, when it ships one, the text of its license file
+   */
+  static generateThirdPartyNotices(
+    packages: PackageLicense[],
+    licenseTexts: Map<string, string>
+  ): string {
+    const unique = new Map<string, PackageLicense>();
+    for (const pkg of packages) {
+      const key = `${pkg.name}@${pkg.version}`;
+      if (!unique.has(key) || licenseTexts.has(pkg.path)) unique.set(key, pkg);
+    }
+    const sorted = [...unique.values()].sort(
+      (a, b) =>
+        a.name.localeCompare(b.name) ||
+        a.version.localeCompare(b.version, undefined, { numeric: true })
+    );
+
+    const lines = [
+      '# Third-Party Notices',
+      '',
+      `This project includes the following ${sorted.length} third-party packages.`,
+    ];
+    for (const pkg of sorted) {
+      lines.push(
+        '',
+        `## ${pkg.name}@${pkg.version}`,
+        '',
+        `- License: ${pkg.license ?? pkg.declared ?? 'Unknown'}`
+      );
+      if (pkg.author) lines.push(`- Author: ${pkg.author}`);
+      if (pkg.repository) lines.push(`- Repository: ${pkg.repository}`);
+
+      const text = licenseTexts.get(pkg.path);
+      lines.push(
+        '',
+        ...(text
+          ? ['```text', text, '```']
+          : ['No license file is included in the package.'])
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Proposed fixes as a unified diff that `git apply` accepts
+   */
+  static generateFixPatch(preview: FixPreview): string {
+    return preview.patches
+      .map(patch =>
+        [
+          `--- a/${patch.file}`,
+          `+++ b/${patch.file}`,
+          ...patch.hunks.map(hunk => formatHunk(hunk)),
+          '',
+        ].join('\n')
+      )
+      .join('');
+  }
+
+  /**
+   * Terminal-friendly listing of the proposed fixes and the issues that
+   * could not be fixed
+   */
+  static generateFixPreview(preview: FixPreview): string {
+    const issueCount = preview.patches.reduce(
+      (sum, patch) => sum + patch.issues.length,
+      0
+    );
+    const lines: string[] = [''];
+
+    if (preview.patches.length > 0) {
+      lines.push(
+        `Proposed fixes: ${issueCount} issues in ${preview.patches.length} files`,
+        '',
+        this.generateFixPatch(preview)
+      );
+    } else {
+      lines.push('  No fixes to propose', '');
+    }
+
+    if (preview.failed.length > 0) {
+      lines.push(`Not fixable: ${preview.failed.length} issues`, '');
+      lines.push(
+        ...this.listIssues(
+          preview.failed.map(({ issue, reason }) => ({ issue, note: reason })),
+          '✖'
+        )
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Outcome of applying fixes, with the fixed issues that re-analysis
+   * still reports
+   */
+  static generateFixSummary(result: FixResult): string {
+    const { resolved, unresolved, unverified } = result.verification;
+    const lines = [
+      '',
+      `Auto-fix: ${result.fixed.length} fixed, ${result.skipped.length} skipped, ${result.failed.length} failed`,
+    ];
+
+    if (result.fixed.length > 0) {
+      lines.push(
+        `Verification: ${resolved.length} resolved, ${unresolved.length} still reported, ${unverified.length} not re-checked`
+      );
+    }
+    if (unresolved.length > 0) {
+      lines.push(
+        '',
+        ...this.listIssues(
+          unresolved.map(issue => ({ issue, note: 'still reported' })),
+          '⚠️'
+        )
+      );
+    }
+    if (result.failed.length > 0) {
+      lines.push(
+        '',
+        ...this.listIssues(
+          result.failed.map(({ issue, reason }) => ({ issue, note: reason })),
+          '✖'
+        )
+      );
+    }
+
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  /**
+   * Up to ten issues with a note each, for the fix listings
+   */
+  private static listIssues(
+    entries: Array<{ issue: CodeIssue; note: string }>,
+    icon: string
+  ): string[] {
+    const lines: string[] = [];
+    for (const { issue, note } of entries.slice(0, 10)) {
+      lines.push(`  ${icon} ${issue.title} - ${note}`);
+      lines.push(`     ${issue.file}${issue.line ? `:${issue.line}` : ''}`);
+    }
+    if (entries.length > 10) {
+      lines.push(`  ... and ${entries.length - 10} more issues`);
+    }
+    return lines;
+  }
+
+  /**
+   * Inline SVG of the score across the recorded history
+   */
+  private static renderSparkline(
+    history: HealthSnapshot[],
+    velocity: number
+  ): string {
+    if (history.length < 2) return '';
+
+    const scores = history.slice(-30).map(snapshot => snapshot.score);
+    const width = 240;
+    const height = 48;
+    const step = width / (scores.length - 1);
+    const points = scores
+      .map(
+        (score, index) =>
+          `${Math.round(index * step)},${Math.round(height - (score / 100) * (height - 4) - 2)}`
+      )
+      .join(' ');
+    const label = `Health score over the last ${scores.length} commits: ${scores[0]} to ${scores[scores.length - 1]}`;
+
+    return `<div class="sparkline">
+        <svg viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" role="img" aria-label="${label}">
+          <polyline points="${points}" fill="none" stroke="var(--accent)" stroke-width="2" stroke-linejoin="round" />
+        </svg>
+        <div class="score-label">${scores.length} commits • ${velocity > 0 ? '+' : ''}${velocity} per commit</div>
+      </div>`;
+  }
+
+  /**
+   * A treemap of the largest chunks, each split into the packages and source
+   * directories its bytes come from, and the pages that load the most
+   */
+  private static renderBundleComposition(bundle: BundleComposition): string {
+    const maxChunks = 12;
+    const shown = bundle.chunks.slice(0, maxChunks);
+    const rest = bundle.chunks.slice(maxChunks);
+    const restBytes = rest.reduce((sum, chunk) => sum + chunk.bytes, 0);
+
+    const tile = (name: string, kind: string, bytes: number, total: number) => {
+      const label = this.escapeHtml(`${name} ${formatBytes(bytes, 1)}`);
+      return `<div class="treemap-group ${kind}" style="flex-grow: ${bytes}" title="${label} (${Math.round((bytes / total) * 100)}%)">${label}</div>`;
+    };
+    const chunks = shown.map(
+      chunk => `
+      <div class="treemap-chunk" style="flex-grow: ${chunk.bytes}" title="${this.escapeHtml(`${chunk.file} ${formatBytes(chunk.bytes, 1)}`)}">
+        ${chunk.groups.map(group => tile(group.name, group.kind, group.bytes, chunk.bytes)).join('')}
+      </div>`
+    );
+    if (rest.length > 0) {
+      chunks.push(`
+      <div class="treemap-chunk" style="flex-grow: ${restBytes}">
+        ${tile(`${rest.length} more chunks`, 'other', restBytes, restBytes)}
+      </div>`);
+    }
+
+    const routes = [...bundle.routes]
+      .sort((a, b) => b.weightBytes - a.weightBytes)
+      .slice(0, 10);
+
+    return `<h2>Bundle Composition (${formatBytes(bundle.totalBytes, 1)} in ${bundle.chunks.length} chunks)</h2>
+    <div class="treemap" role="img" aria-label="Largest chunks by the packages and source directories they contain">${chunks.join('')}
+    </div>
+    ${
+      routes.length > 0
+        ? `<table class="route-table">
+      <thead><tr><th>Page</th><th>JavaScript</th><th>CSS</th><th>Total weight</th></tr></thead>
+      <tbody>
+        ${routes
+          .map(
+            route =>
+              `<tr><td>${this.escapeHtml(route.url)}</td><td>${formatBytes(route.jsBytes, 1)}</td><td>${formatBytes(route.cssBytes, 1)}</td><td>${formatBytes(route.weightBytes, 1)}</td></tr>`
+          )
+          .join('\n        ')}
+      </tbody>
+    </table>`
+        : ''
+    }`;
+  }
+
   private static escapeHtml(text: string): string {
     return text
       .replace(/&/g, '&amp;')
@@ -335,6 +865,10 @@ export class ReportGenerator {
     return '#dc2626';
   }
 
+  private static formatChange(change: number): string {
+    return change > 0 ? `+${change}` : String(change);
+  }
+
   private static getHealthIcon(score: number): string {
     if (score >= 80) return '✅';
     if (score >= 60) return '⚠️';
@@ -355,6 +889,18 @@ export class ReportGenerator {
     }
   }
 
+  private static summarizeSuppressions(
+    suppressions: IssueSuppression[]
+  ): string {
+    const count = (status: IssueSuppression['status']) =>
+      suppressions.filter(suppression => suppression.status === status).length;
+    const suppressed = suppressions.reduce(
+      (sum, suppression) => sum + suppression.suppressed,
+      0
+    );
+    return `${suppressed} issues suppressed by ${suppressions.length} comments (${count('used')} used, ${count('unused')} unused, ${count('unchecked')} unchecked, ${count('expired')} expired, ${count('invalid')} invalid)`;
+  }
+
   private static groupIssuesByCategory(
     issues: CodeIssue[]
   ): Record<string, CodeIssue[]> {
@@ -382,6 +928,8 @@ export class ReportGenerator {
     toolVersion = '1.0.0'
   ): string {
     const { issues } = analysis;
+    const rules = this.generateSarifRules(issues);
+    const ruleIndexes = new Map(rules.map((rule, index) => [rule.id, index]));
 
     const sarifReport = {
       $schema:
@@ -394,11 +942,11 @@ export class ReportGenerator {
               name: toolName,
               version: toolVersion,
               informationUri: 'https://github.com/your-repo/code-analyzer',
-              rules: this.generateSarifRules(issues),
+              rules,
             },
           },
-          results: issues.map((issue, index) =>
-            this.issueToSarifResult(issue, index)
+          results: issues.map(issue =>
+            this.issueToSarifResult(issue, ruleIndexes.get(issue.rule) ?? 0)
           ),
           invocations: [
             {
@@ -464,7 +1012,7 @@ export class ReportGenerator {
    */
   private static issueToSarifResult(
     issue: CodeIssue,
-    index: number
+    ruleIndex: number
   ): {
     ruleId: string;
     ruleIndex: number;
@@ -497,7 +1045,7 @@ export class ReportGenerator {
   } {
     const result: ReturnType<typeof this.issueToSarifResult> = {
       ruleId: issue.rule,
-      ruleIndex: index,
+      ruleIndex,
       level: this.severityToSarifLevel(issue.severity.level),
       message: {
         text: `${issue.title}: ${issue.description}`,
@@ -609,6 +1157,9 @@ export class ReportGenerator {
       ['High', health.highIssues.toString()],
       ['Medium', health.mediumIssues.toString()],
       ['Low', health.lowIssues.toString()],
+      ...(health.duplication
+        ? [['Duplication %', health.duplication.percentage.toString()]]
+        : []),
     ];
 
     const allRows = [headers, ...rows, ...summaryRows];
@@ -634,10 +1185,16 @@ export class ReportGenerator {
     analysis: AnalysisResult,
     suiteName = 'Code Health Analysis'
   ): string {
-    const { issues, health } = analysis;
+    const { issues } = analysis;
     const timestamp = new Date().toISOString();
-    const failureCount = health.criticalIssues + health.highIssues;
-    const warningCount = health.mediumIssues;
+    // Count the emitted elements so the totals always match the test cases
+    const failureCount = issues.filter(
+      issue =>
+        issue.severity.level === 'critical' || issue.severity.level === 'high'
+    ).length;
+    const warningCount = issues.filter(
+      issue => issue.severity.level === 'medium'
+    ).length;
 
     let xml = `<?xml version="1.0" encoding="UTF-8"?>
 <testsuites name="${this.escapeXml(suiteName)}" tests="${issues.length}" failures="${failureCount}" warnings="${warningCount}" timestamp="${timestamp}">
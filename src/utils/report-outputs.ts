@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ReportGenerator } from './report-generator';
+import { publishToGitHubActions } from './github-actions';
+import { logger } from './logger';
+import { ConfigurationError } from '../errors';
+import { ReportFormatSchema } from '../config/schema';
+import type {
+  AnalyzerConfig,
+  ReportFormat,
+  ReportOutput,
+} from '../config/schema';
+import type { AnalysisResult } from '../types/analysis';
+
+// Path that sends a report to stdout instead of a file
+const STDOUT_PATH = '-';
+
+// Formats read by tools, which anything else on the same stream breaks
+const PARSED_FORMATS = new Set<ReportFormat>([
+  'json',
+  'html',
+  'sarif',
+  'csv',
+  'junit',
+]);
+
+type ReportStream = Pick<NodeJS.WritableStream, 'write'>;
+
+/**
+ * Render one analysis result in the given report format
+ */
+export function renderReport(
+  format: ReportFormat,
+  analysis: AnalysisResult
+): string {
+  switch (format) {
+    case 'json':
+      return ReportGenerator.generateJsonReport(analysis);
+    case 'markdown':
+      return ReportGenerator.generateMarkdownReport(analysis);
+    case 'html':
+      return ReportGenerator.generateHTMLReport(analysis);
+    case 'terminal':
+      return ReportGenerator.generateTerminalReport(analysis);
+    case 'sarif':
+      return ReportGenerator.generateSarifReport(analysis);
+    case 'csv':
+      return ReportGenerator.generateCsvReport(analysis);
+    case 'junit':
+      return ReportGenerator.generateJunitReport(analysis);
+  }
+}
+
+/**
+ * Parse a `--report` value: `format` writes to stdout, `format:path` to a file
+ */
+export function parseReportSpec(spec: string): ReportOutput {
+  const separator = spec.indexOf(':');
+  const format = (separator === -1 ? spec : spec.slice(0, separator)).trim();
+  const reportPath = separator === -1 ? '' : spec.slice(separator + 1).trim();
+
+  const parsed = ReportFormatSchema.safeParse(format);
+  if (!parsed.success) {
+    throw new ConfigurationError('report', {
+      code: 'REPORT_FORMAT_UNKNOWN',
+      params: {
+        format,
+        spec,
+        formats: ReportFormatSchema.options.join(', '),
+      },
+    });
+  }
+  return {
+    format: parsed.data,
+    ...(reportPath && reportPath !== STDOUT_PATH && { path: reportPath }),
+  };
+}
+
+/**
+ * Reports to emit for a run: the configured `outputs`, or else the single
+ * `outputFormat` report written to `output` (stdout when unset)
+ */
+export function resolveReportOutputs(
+  config: Pick<AnalyzerConfig, 'outputFormat' | 'outputs'>,
+  output?: string
+): ReportOutput[] {
+  if (config.outputs && config.outputs.length > 0) {
+    return config.outputs;
+  }
+  return [{ format: config.outputFormat, ...(output && { path: output }) }];
+}
+
+/**
+ * Absolute paths of the report files a run writes, which watch mode ignores
+ * so writing them does not start another run
+ */
+export function reportFiles(
+  config: Pick<AnalyzerConfig, 'outputFormat' | 'outputs' | 'projectRoot'>,
+  output?: string
+): string[] {
+  return resolveReportOutputs(config, output).flatMap(report =>
+    report.path && report.path !== STDOUT_PATH
+      ? [path.resolve(config.projectRoot, report.path)]
+      : []
+  );
+}
+
+/**
+ * Write every report for one analysis result. Paths resolve against the
+ * project root and missing directories are created. Returns the files written.
+ */
+export async function writeReports(
+  analysis: AnalysisResult,
+  outputs: ReportOutput[],
+  projectRoot: string,
+  stdout: ReportStream = process.stdout
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const output of outputs) {
+    const content = renderReport(output.format, analysis);
+    if (!output.path || output.path === STDOUT_PATH) {
+      stdout.write(`${content}\n`);
+      continue;
+    }
+
+    const outputPath = path.resolve(projectRoot, output.path);
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, content);
+    logger.info(`${output.format} report written to ${outputPath}`);
+    written.push(outputPath);
+  }
+  return written;
+}
+
+/**
+ * Write the reports of a run and, with `githubIntegration`, publish it to
+ * GitHub Actions first. Workflow annotations also go to stdout, so they are
+ * left out while a report in a parsed format such as JSON is written there.
+ */
+export async function emitAnalysis(
+  analysis: AnalysisResult,
+  config: Pick<
+    AnalyzerConfig,
+    'outputFormat' | 'outputs' | 'githubIntegration' | 'projectRoot'
+  >,
+  output?: string,
+  {
+    env = process.env,
+    stdout = process.stdout,
+  }: { env?: NodeJS.ProcessEnv; stdout?: ReportStream } = {}
+): Promise<void> {
+  const outputs = resolveReportOutputs(config, output);
+  if (config.githubIntegration) {
+    await publishToGitHubActions(analysis, config.projectRoot, {
+      env,
+      stdout,
+      annotations: !outputs.some(
+        report =>
+          (!report.path || report.path === STDOUT_PATH) &&
+          PARSED_FORMATS.has(report.format)
+      ),
+    });
+  }
+  await writeReports(analysis, outputs, config.projectRoot, stdout);
+}
@@ -0,0 +1,420 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { normalizeIssuePath } from './issue-fingerprint';
+import { ConfigurationError, getErrorMessage } from '../errors';
+import type { SeverityLevel } from '../types/analysis';
+
+export interface SecretSignature {
+  id: string;
+  name: string;
+  /** Global pattern; the first capture group, when present, is the secret */
+  pattern: RegExp;
+  severity: SeverityLevel;
+  /** Leading part of the secret that identifies its kind and stays visible */
+  prefix?: RegExp;
+  /** Skip matches whose secret is less random than this, e.g. placeholders */
+  minEntropy?: number;
+}
+
+/**
+ * A secret found in a piece of content. `secret` is the raw value and must
+ * never leave the scanner's callers; report `fingerprint` instead.
+ */
+export interface SecretFinding {
+  kind: 'signature' | 'entropy';
+  signature: string;
+  name: string;
+  severity: SeverityLevel;
+  secret: string;
+  fingerprint: string;
+  /** Offset of the secret in the scanned content */
+  index: number;
+  line: number;
+  column: number;
+  entropy: number;
+}
+
+// A type alias so it can be used as rule options
+export type EntropyOptions = {
+  minLength: number;
+  /** Bits per character for base64-like strings */
+  minEntropy: number;
+  /** Bits per character for hex strings, whose maximum is 4 */
+  minHexEntropy: number;
+};
+
+export interface SecretScanOptions {
+  signatures?: boolean;
+  /** Report random-looking string literals; off when false */
+  entropy?: EntropyOptions | false;
+}
+
+export const DEFAULT_ENTROPY_OPTIONS: EntropyOptions = {
+  minLength: 20,
+  minEntropy: 4.5,
+  minHexEntropy: 3,
+};
+
+export const SECRET_SIGNATURES: SecretSignature[] = [
+  {
+    id: 'aws-access-key-id',
+    name: 'AWS Access Key ID',
+    pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16})\b/g,
+    severity: 'critical',
+    prefix: /^[A-Z]{4}/,
+  },
+  {
+    id: 'aws-secret-access-key',
+    name: 'AWS Secret Access Key',
+    pattern:
+      /aws.{0,20}?(?:secret|private).{0,20}?['"`]([A-Za-z0-9/+=]{40})['"`]/gi,
+    severity: 'critical',
+  },
+  {
+    id: 'github-token',
+    name: 'GitHub Token',
+    pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_\w{80,255})\b/g,
+    severity: 'critical',
+    prefix: /^(?:gh[pousr]_|github_pat_)/,
+  },
+  {
+    id: 'stripe-live-key',
+    name: 'Stripe Live Key',
+    pattern: /\b((?:sk|rk)_live_[A-Za-z0-9]{24,})\b/g,
+    severity: 'critical',
+    prefix: /^[a-z]{2}_live_/,
+  },
+  {
+    id: 'stripe-test-key',
+    name: 'Stripe Test Key',
+    pattern: /\b((?:sk|rk)_test_[A-Za-z0-9]{24,})\b/g,
+    severity: 'medium',
+    prefix: /^[a-z]{2}_test_/,
+  },
+  {
+    id: 'jwt',
+    name: 'JSON Web Token',
+    pattern:
+      /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g,
+    severity: 'high',
+    prefix: /^eyJ/,
+  },
+  {
+    id: 'private-key',
+    name: 'Private Key',
+    // The body is optional so a header alone, e.g. in a truncated file, counts
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----(?:[\s\S]{0,8192}?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----)?/g,
+    severity: 'critical',
+    prefix: /^-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/,
+  },
+  {
+    id: 'generic-secret',
+    name: 'Hardcoded Secret',
+    pattern:
+      /(?:api[_-]?key|secret|password|passwd|pwd|private[_-]?key|auth[_-]?token|access[_-]?token|bearer)['"]?\s*[:=]\s*['"`]([^'"`\s]{8,})['"`]/gi,
+    severity: 'critical',
+    minEntropy: 3,
+  },
+];
+
+// Values that stand in for a secret in examples and templates
+const PLACEHOLDER_RE =
+  /(?:x{4,}|\*{3,}|\.{3}|<[^>]*>|\$\{|\{\{|your[_-]|example|placeholder|changeme|dummy|redacted)/i;
+
+// Quoted literals made of base64, base64url or hex characters only
+const CANDIDATE_RE = /(['"`])([A-Za-z0-9+/=_-]+)\1/g;
+
+const HEX_RE = /^[0-9a-f]+$/i;
+
+// Subresource integrity and similar content hashes are public
+const CONTENT_HASH_RE = /^sha(?:1|256|384|512)-/;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Stable, non-reversible identifier for a secret value, used to allowlist
+ * or deduplicate it without storing the secret itself.
+ */
+export function fingerprintSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex').slice(0, 16);
+}
+
+/**
+ * Find secrets in a piece of content by provider signature and, optionally,
+ * by the entropy of string literals. Overlapping matches keep the first
+ * signature that found them; entropy candidates inside a signature match are
+ * skipped.
+ */
+export function scanForSecrets(
+  content: string,
+  options: SecretScanOptions = {}
+): SecretFinding[] {
+  const { signatures = true, entropy = DEFAULT_ENTROPY_OPTIONS } = options;
+  const findings: SecretFinding[] = [];
+  const lineStarts = computeLineStarts(content);
+
+  const overlaps = (start: number, end: number) =>
+    findings.some(
+      finding =>
+        start < finding.index + finding.secret.length && end > finding.index
+    );
+
+  const add = (
+    kind: SecretFinding['kind'],
+    signature: Pick<SecretSignature, 'id' | 'name' | 'severity'>,
+    secret: string,
+    index: number,
+    secretEntropy: number
+  ) => {
+    if (overlaps(index, index + secret.length)) return;
+    const { line, column } = locate(lineStarts, index);
+    findings.push({
+      kind,
+      signature: signature.id,
+      name: signature.name,
+      severity: signature.severity,
+      secret,
+      fingerprint: fingerprintSecret(secret),
+      index,
+      line,
+      column,
+      entropy: secretEntropy,
+    });
+  };
+
+  if (signatures) {
+    for (const signature of SECRET_SIGNATURES) {
+      for (const match of content.matchAll(signature.pattern)) {
+        const secret = match[1] ?? match[0];
+        const index = (match.index ?? 0) + match[0].indexOf(secret);
+        const secretEntropy = shannonEntropy(secret);
+
+        if (
+          signature.minEntropy !== undefined &&
+          (secretEntropy < signature.minEntropy || PLACEHOLDER_RE.test(secret))
+        ) {
+          continue;
+        }
+        add('signature', signature, secret, index, secretEntropy);
+      }
+    }
+  }
+
+  if (entropy) {
+    for (const match of content.matchAll(CANDIDATE_RE)) {
+      const candidate = match[2];
+      if (
+        candidate.length < entropy.minLength ||
+        CONTENT_HASH_RE.test(candidate) ||
+        PLACEHOLDER_RE.test(candidate)
+      ) {
+        continue;
+      }
+
+      const hex = HEX_RE.test(candidate);
+      // Identifiers and words are long but not random; require a mix
+      if (!hex && !(/\d/.test(candidate) && /[A-Za-z]/.test(candidate))) {
+        continue;
+      }
+      if (isCharacterSequence(candidate)) continue;
+
+      const candidateEntropy = shannonEntropy(candidate);
+      const threshold = hex ? entropy.minHexEntropy : entropy.minEntropy;
+      if (candidateEntropy < threshold) continue;
+
+      add(
+        'entropy',
+        {
+          id: 'high-entropy-string',
+          name: hex ? 'High-Entropy Hex String' : 'High-Entropy String',
+          severity: 'high',
+        },
+        candidate,
+        (match.index ?? 0) + 1,
+        candidateEntropy
+      );
+    }
+  }
+
+  return findings.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Replace every found secret in the content with `[REDACTED]`, keeping the
+ * prefix that identifies its kind (e.g. `ghp_`) and the line structure, so
+ * redacted lines can stand in for the original ones in issue context.
+ */
+export function redactSecrets(
+  content: string,
+  findings: SecretFinding[]
+): string {
+  let redacted = '';
+  let cursor = 0;
+
+  for (const finding of [...findings].sort((a, b) => a.index - b.index)) {
+    if (finding.index < cursor) continue;
+    redacted += content.slice(cursor, finding.index);
+    redacted += redactSecret(finding);
+    cursor = finding.index + finding.secret.length;
+  }
+
+  return redacted + content.slice(cursor);
+}
+
+function redactSecret(finding: SecretFinding): string {
+  const prefix = SECRET_SIGNATURES.find(
+    signature => signature.id === finding.signature
+  )?.prefix;
+  const visible = prefix?.exec(finding.secret)?.[0] ?? '';
+
+  return (
+    visible +
+    finding.secret
+      .slice(visible.length)
+      .split('\n')
+      .map(part => (part.trim() ? '[REDACTED]' : part))
+      .join('\n')
+  );
+}
+
+/**
+ * Whether a string is mostly runs of consecutive characters, like the
+ * alphabets used by encoders and random id generators
+ */
+function isCharacterSequence(value: string): boolean {
+  let steps = 0;
+  for (let i = 1; i < value.length; i++) {
+    if (value.charCodeAt(i) - value.charCodeAt(i - 1) === 1) steps++;
+  }
+  return steps / (value.length - 1) > 0.5;
+}
+
+function computeLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function locate(
+  lineStarts: number[],
+  index: number
+): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= index) low = mid;
+    else high = mid - 1;
+  }
+  return { line: low + 1, column: index - lineStarts[low] + 1 };
+}
+
+interface AllowlistData {
+  paths?: string[];
+  patterns?: string[];
+  fingerprints?: string[];
+}
+
+/**
+ * Known non-secrets the scanner should not report: files by path regex,
+ * values by regex and individual secrets by their fingerprint, so a value
+ * never has to be written down to be allowed.
+ */
+export class SecretAllowlist {
+  static readonly DEFAULT_FILE = '.secrets-allowlist.json';
+  readonly filePath: string | null;
+  private paths: RegExp[];
+  private patterns: RegExp[];
+  private fingerprints: Set<string>;
+
+  constructor(data: AllowlistData = {}, filePath: string | null = null) {
+    this.filePath = filePath;
+    this.paths = (data.paths ?? []).map(source => new RegExp(source));
+    this.patterns = (data.patterns ?? []).map(source => new RegExp(source));
+    this.fingerprints = new Set(data.fingerprints ?? []);
+  }
+
+  /**
+   * Load the allowlist file. A missing or empty file allows nothing.
+   */
+  static async load(
+    projectRoot: string,
+    file = SecretAllowlist.DEFAULT_FILE
+  ): Promise<SecretAllowlist> {
+    const filePath = path.resolve(projectRoot, file);
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new SecretAllowlist({}, filePath);
+      }
+      throw error;
+    }
+    if (!raw?.trim()) return new SecretAllowlist({}, filePath);
+
+    try {
+      const data = JSON.parse(raw) as AllowlistData;
+      for (const key of ['paths', 'patterns', 'fingerprints'] as const) {
+        const value = data[key];
+        if (
+          value !== undefined &&
+          (!Array.isArray(value) ||
+            value.some(item => typeof item !== 'string'))
+        ) {
+          throw new Error(`'${key}' must be an array of strings`);
+        }
+      }
+      const allowlist = new SecretAllowlist(data, filePath);
+      logger.debug(`Loaded secret allowlist from ${filePath}`);
+      return allowlist;
+    } catch (error: unknown) {
+      throw new ConfigurationError('secretsAllowlistFile', {
+        code: 'SECRETS_ALLOWLIST_INVALID',
+        params: { file: filePath, reason: getErrorMessage(error) },
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Whether a project-relative file is skipped entirely
+   */
+  allowsFile(file: string): boolean {
+    const normalized = normalizeIssuePath(file);
+    return this.paths.some(pattern => pattern.test(normalized));
+  }
+
+  /**
+   * Whether a finding in the given file is allowed
+   */
+  allows(file: string, finding: SecretFinding): boolean {
+    return (
+      this.allowsFile(file) ||
+      this.fingerprints.has(finding.fingerprint) ||
+      this.patterns.some(pattern => pattern.test(finding.secret))
+    );
+  }
+}
@@ -0,0 +1,424 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { parseTemplate } from './template-ast';
+import type { TemplateElement, TemplateNode } from './template-ast';
+import { createDeploymentConfig } from '../../config/deployment.js';
+import type { SiteCheckConfig } from '../types/analysis';
+
+export interface SiteLocation {
+  line: number;
+  column: number;
+}
+
+export interface SiteLink extends SiteLocation {
+  url: string;
+  element: string;
+  attribute: string;
+  /** A link a visitor follows (`<a>`, `<area>`), as opposed to a resource */
+  navigation: boolean;
+}
+
+export interface SiteMeta extends SiteLocation {
+  value: string;
+}
+
+export interface SitePage {
+  /** Project-relative path of the HTML file */
+  file: string;
+  /** Path of the HTML file inside the build output */
+  path: string;
+  /** Path the page is served at, including the base path */
+  url: string;
+  title: SiteMeta | null;
+  description: SiteMeta | null;
+  canonical: SiteMeta | null;
+  /** `og:*` properties by name */
+  openGraph: Map<string, SiteMeta>;
+  /** Asks search engines not to index it, like legacy redirect pages */
+  noindex: boolean;
+  /** Fragment targets: element ids and `<a name>` */
+  anchors: Set<string>;
+  links: SiteLink[];
+}
+
+export interface BuiltSite {
+  /** Project-relative build output directory */
+  outDir: string;
+  /** Base path the build was made for, which page URLs include */
+  basePath: string;
+  pages: SitePage[];
+  /** Every file in the build, relative to the output directory */
+  files: Set<string>;
+}
+
+export type ResolvedSiteUrl =
+  | { kind: 'external' }
+  | { kind: 'outside-base'; pathname: string }
+  | {
+      kind: 'internal';
+      /** Decoded path below the base path, e.g. `services/` */
+      path: string;
+      fragment: string | null;
+    };
+
+// Attributes that reference another URL, by element
+const LINK_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  area: ['href'],
+  link: ['href'],
+  img: ['src', 'srcset'],
+  source: ['src', 'srcset'],
+  script: ['src'],
+  iframe: ['src'],
+  video: ['src', 'poster'],
+  audio: ['src'],
+  track: ['src'],
+  embed: ['src'],
+  // Hydrated islands load their component and framework renderer
+  'astro-island': ['component-url', 'renderer-url', 'before-hydration-url'],
+};
+
+// `<meta>` properties whose content is a URL on the site
+const META_URL_PROPERTIES = new Set(['og:url', 'og:image', 'twitter:image']);
+
+// Resource hints name origins, not documents
+const SKIPPED_LINK_RELS = new Set(['preconnect', 'dns-prefetch']);
+
+const SKIPPED_SCHEMES_RE = /^(?:mailto|tel|sms|javascript|data|blob):/i;
+
+// Stand-in origin for resolving root-relative and relative URLs
+const LOCAL_ORIGIN = 'http://site.invalid';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[\da-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] === '#') {
+        const code =
+          name[1].toLowerCase() === 'x'
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+function attributeValue(element: TemplateElement, name: string): string | null {
+  return (
+    element.attributes.find(attribute => attribute.name.toLowerCase() === name)
+      ?.value ?? null
+  );
+}
+
+function textContent(nodes: TemplateNode[]): string {
+  return nodes
+    .map(node =>
+      node.kind === 'text' ? node.value : textContent(node.children)
+    )
+    .join('');
+}
+
+/**
+ * Where the build output is and how it is served. Unset values come from
+ * the same deployment config the build uses, so links match what was emitted.
+ */
+export function siteDeployment(site: SiteCheckConfig = {}): {
+  outDir: string;
+  basePath: string;
+  siteUrl: string;
+} {
+  const { basePath, siteUrl } = createDeploymentConfig({
+    ...(process.env as Record<string, string>),
+    ...(site.basePath && { BASE_PATH: site.basePath }),
+    ...(site.siteUrl && { SITE_URL: site.siteUrl }),
+  });
+  return { outDir: site.outDir ?? 'dist', basePath, siteUrl };
+}
+
+/**
+ * The path a built HTML file is served at: `about/index.html` under the base
+ * path `/repo/` is `/repo/about/`
+ */
+export function pageUrl(file: string, basePath: string): string {
+  if (file === 'index.html') return basePath;
+  return `${basePath}${file.endsWith('/index.html') ? file.slice(0, -10) : file}`;
+}
+
+/**
+ * Resolve a URL found on a page. Root-relative URLs and absolute URLs on the
+ * site's own origin are internal when they start with the base path, which
+ * is how `withBasePath` builds them.
+ */
+export function resolveSiteUrl(
+  url: string,
+  fromPage: string,
+  options: { basePath: string; siteUrl?: string }
+): ResolvedSiteUrl {
+  const value = url.trim();
+  if (!value || SKIPPED_SCHEMES_RE.test(value)) return { kind: 'external' };
+
+  let resolved: URL;
+  try {
+    resolved = new URL(value, new URL(fromPage, LOCAL_ORIGIN));
+  } catch {
+    return { kind: 'external' };
+  }
+
+  let siteOrigin: string | null = null;
+  try {
+    siteOrigin = options.siteUrl ? new URL(options.siteUrl).origin : null;
+  } catch {
+    // Not a usable site URL; only relative links are internal
+  }
+  if (resolved.origin !== LOCAL_ORIGIN && resolved.origin !== siteOrigin) {
+    return { kind: 'external' };
+  }
+
+  const { pathname } = resolved;
+  const { basePath } = options;
+  let rest: string;
+  if (pathname.startsWith(basePath)) {
+    rest = pathname.slice(basePath.length);
+  } else if (pathname === basePath.slice(0, -1)) {
+    rest = '';
+  } else {
+    return { kind: 'outside-base', pathname };
+  }
+
+  const decode = (text: string) => {
+    try {
+      return decodeURIComponent(text);
+    } catch {
+      return text;
+    }
+  };
+  return {
+    kind: 'internal',
+    path: decode(rest),
+    fragment: resolved.hash ? decode(resolved.hash.slice(1)) : null,
+  };
+}
+
+/**
+ * The built file a static host serves for a path below the base path, trying
+ * `index.html` for directories and the `.html` extension the way GitHub
+ * Pages does. Returns null when nothing would be served.
+ */
+export function findSiteFile(
+  files: Set<string>,
+  sitePath: string
+): string | null {
+  const candidates =
+    sitePath === '' || sitePath.endsWith('/')
+      ? [`${sitePath}index.html`]
+      : [sitePath, `${sitePath}.html`, `${sitePath}/index.html`];
+  return candidates.find(candidate => files.has(candidate)) ?? null;
+}
+
+function readPage(nodes: TemplateNode[], page: SitePage): void {
+  for (const node of nodes) {
+    if (node.kind === 'text') continue;
+    if (node.kind === 'expression') {
+      readPage(node.children, page);
+      continue;
+    }
+
+    const id = attributeValue(node, 'id');
+    if (id) page.anchors.add(id);
+    let hasLinks = node.name in LINK_ATTRIBUTES;
+
+    switch (node.name) {
+      case 'title':
+        page.title ??= {
+          value: decodeEntities(textContent(node.children))
+            .replace(/\s+/g, ' ')
+            .trim(),
+          line: node.line,
+          column: node.column,
+        };
+        break;
+      case 'meta': {
+        const name = (
+          attributeValue(node, 'name') ??
+          attributeValue(node, 'property') ??
+          ''
+        ).toLowerCase();
+        const content = attributeValue(node, 'content');
+        if (content === null) break;
+        const meta = { value: content, line: node.line, column: node.column };
+
+        if (name === 'description') page.description ??= meta;
+        if (name === 'robots' && /\bnoindex\b/i.test(content)) {
+          page.noindex = true;
+        }
+        if (name.startsWith('og:') && !page.openGraph.has(name)) {
+          page.openGraph.set(name, meta);
+        }
+        if (META_URL_PROPERTIES.has(name)) {
+          page.links.push({
+            url: content,
+            element: 'meta',
+            attribute: 'content',
+            navigation: false,
+            line: node.line,
+            column: node.column,
+          });
+        }
+        break;
+      }
+      case 'a': {
+        const name = attributeValue(node, 'name');
+        if (name) page.anchors.add(name);
+        break;
+      }
+      case 'link': {
+        const rel = (attributeValue(node, 'rel') ?? '')
+          .toLowerCase()
+          .split(/\s+/);
+        const href = attributeValue(node, 'href');
+        if (rel.includes('canonical') && href !== null) {
+          page.canonical ??= {
+            value: href,
+            line: node.line,
+            column: node.column,
+          };
+        }
+        hasLinks = !rel.some(value => SKIPPED_LINK_RELS.has(value));
+        break;
+      }
+    }
+
+    for (const attribute of hasLinks ? node.attributes : []) {
+      const name = attribute.name.toLowerCase();
+      if (!LINK_ATTRIBUTES[node.name].includes(name) || !attribute.value) {
+        continue;
+      }
+      // `srcset` lists candidates as `url descriptor`, separated by commas
+      const urls =
+        name === 'srcset'
+          ? attribute.value
+              .split(/,\s+|,(?=\S)/)
+              .map(candidate => candidate.trim().split(/\s+/)[0])
+              .filter(Boolean)
+          : [attribute.value];
+      for (const url of urls) {
+        page.links.push({
+          url,
+          element: node.name,
+          attribute: name,
+          navigation: node.name === 'a' || node.name === 'area',
+          line: attribute.line,
+          column: attribute.column,
+        });
+      }
+    }
+
+    readPage(node.children, page);
+  }
+}
+
+/**
+ * The base path a build was made for, from its own resource links: the
+ * prefix that `/repo/_astro/app.js` must lose to name a file in the output.
+ * Returns `fallback` when no resource link points into the build.
+ */
+export function detectBasePath(
+  pages: SitePage[],
+  files: Set<string>,
+  fallback: string
+): string {
+  const votes = new Map<string, number>();
+  for (const link of pages.flatMap(page => page.links)) {
+    if (link.navigation || !link.url.startsWith('/')) continue;
+    const pathname = link.url.replace(/[?#].*$/, '');
+    let prefix = '/';
+    for (const segment of pathname.slice(1).split('/')) {
+      if (files.has(pathname.slice(prefix.length))) {
+        votes.set(prefix, (votes.get(prefix) ?? 0) + 1);
+        break;
+      }
+      prefix += `${segment}/`;
+    }
+  }
+
+  let detected = fallback;
+  for (const [prefix, count] of votes) {
+    if (count > (votes.get(detected) ?? 0)) detected = prefix;
+  }
+  return detected;
+}
+
+/**
+ * Read every HTML page of a static build offline: its links, fragment
+ * targets and the head tags search engines use. Page URLs use the base path
+ * the build was made for, which can differ from `basePath` when the build
+ * ran with another environment. Returns null when the build output
+ * directory does not exist.
+ */
+export async function crawlSite(
+  projectRoot: string,
+  outDir: string,
+  basePath: string
+): Promise<BuiltSite | null> {
+  const root = path.resolve(projectRoot, outDir);
+  try {
+    if (!(await fs.stat(root)).isDirectory()) return null;
+  } catch {
+    return null;
+  }
+
+  const files = await glob('**/*', {
+    cwd: root,
+    nodir: true,
+    dot: true,
+    posix: true,
+  });
+  const relativeOutDir = path
+    .relative(projectRoot, root)
+    .split(path.sep)
+    .join('/');
+  const pages: SitePage[] = [];
+
+  // One page at a time keeps large builds out of memory
+  for (const file of files.filter(name => name.endsWith('.html')).sort()) {
+    const source = await fs.readFile(path.join(root, file), 'utf-8');
+    const page: SitePage = {
+      file: path.posix.join(relativeOutDir, file),
+      path: file,
+      url: pageUrl(file, basePath),
+      title: null,
+      description: null,
+      canonical: null,
+      openGraph: new Map(),
+      noindex: false,
+      anchors: new Set(),
+      links: [],
+    };
+    readPage(await parseTemplate(file, source), page);
+    pages.push(page);
+  }
+
+  const builtFiles = new Set(files);
+  const builtBasePath = detectBasePath(pages, builtFiles, basePath);
+  if (builtBasePath !== basePath) {
+    for (const page of pages) page.url = pageUrl(page.path, builtBasePath);
+  }
+  return {
+    outDir: relativeOutDir,
+    basePath: builtBasePath,
+    pages,
+    files: builtFiles,
+  };
+}
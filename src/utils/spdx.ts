@@ -0,0 +1,294 @@
+/**
+ * Normalization of the free-form license strings found in package.json files
+ * to SPDX license expressions, and evaluation of those expressions against
+ * an allow/deny policy.
+ */
+
+export type LicenseNode =
+  | { type: 'license'; id: string; exception?: string }
+  | { type: 'and' | 'or'; left: LicenseNode; right: LicenseNode };
+
+/** How a license expression fares against a policy, best first */
+export type LicenseVerdict = 'allowed' | 'not-allowed' | 'denied';
+
+export interface LicensePolicyLists {
+  /** When non-empty, only these licenses are allowed */
+  allow: string[];
+  deny: string[];
+}
+
+// SPDX ids seen in the npm ecosystem, used to restore their canonical case
+const KNOWN_IDS = [
+  '0BSD',
+  'AFL-2.1',
+  'AFL-3.0',
+  'AGPL-1.0-only',
+  'AGPL-1.0-or-later',
+  'AGPL-3.0-only',
+  'AGPL-3.0-or-later',
+  'Apache-1.1',
+  'Apache-2.0',
+  'Artistic-2.0',
+  'BlueOak-1.0.0',
+  'BSD-1-Clause',
+  'BSD-2-Clause',
+  'BSD-3-Clause',
+  'BSD-3-Clause-Clear',
+  'BSL-1.0',
+  'CC-BY-3.0',
+  'CC-BY-4.0',
+  'CC-BY-SA-4.0',
+  'CC0-1.0',
+  'CDDL-1.0',
+  'CDDL-1.1',
+  'EPL-1.0',
+  'EPL-2.0',
+  'EUPL-1.2',
+  'GPL-2.0-only',
+  'GPL-2.0-or-later',
+  'GPL-3.0-only',
+  'GPL-3.0-or-later',
+  'ISC',
+  'LGPL-2.0-only',
+  'LGPL-2.0-or-later',
+  'LGPL-2.1-only',
+  'LGPL-2.1-or-later',
+  'LGPL-3.0-only',
+  'LGPL-3.0-or-later',
+  'MIT',
+  'MIT-0',
+  'MPL-1.1',
+  'MPL-2.0',
+  'ODC-By-1.0',
+  'OFL-1.1',
+  'Python-2.0',
+  'SSPL-1.0',
+  'Unicode-DFS-2016',
+  'Unicode-3.0',
+  'Unlicense',
+  'UPL-1.0',
+  'W3C',
+  'WTFPL',
+  'X11',
+  'Zlib',
+];
+
+const KNOWN_EXCEPTIONS = [
+  'Classpath-exception-2.0',
+  'GCC-exception-3.1',
+  'LLVM-exception',
+];
+
+const CANONICAL = new Map(KNOWN_IDS.map(id => [id.toLowerCase(), id]));
+
+// Common spellings that are not SPDX ids, keyed like `aliasKey` output
+const ALIASES: Record<string, string> = {
+  mit: 'MIT',
+  'the mit': 'MIT',
+  'mit/x11': 'MIT',
+  expat: 'MIT',
+  isc: 'ISC',
+  apache: 'Apache-2.0',
+  'apache 2': 'Apache-2.0',
+  'apache 2.0': 'Apache-2.0',
+  'apache v2': 'Apache-2.0',
+  'apache version 2.0': 'Apache-2.0',
+  'apache-2': 'Apache-2.0',
+  apache2: 'Apache-2.0',
+  'asl 2.0': 'Apache-2.0',
+  bsd: 'BSD-2-Clause',
+  'bsd 2 clause': 'BSD-2-Clause',
+  'simplified bsd': 'BSD-2-Clause',
+  freebsd: 'BSD-2-Clause',
+  'bsd 3 clause': 'BSD-3-Clause',
+  'new bsd': 'BSD-3-Clause',
+  'modified bsd': 'BSD-3-Clause',
+  'revised bsd': 'BSD-3-Clause',
+  'bsd-3': 'BSD-3-Clause',
+  cc0: 'CC0-1.0',
+  'mpl 2.0': 'MPL-2.0',
+  'mozilla public 2.0': 'MPL-2.0',
+  gpl: 'GPL-3.0-or-later',
+  gplv2: 'GPL-2.0-only',
+  gplv3: 'GPL-3.0-only',
+  lgpl: 'LGPL-3.0-or-later',
+  lgplv3: 'LGPL-3.0-only',
+  agplv3: 'AGPL-3.0-only',
+  'the unlicense': 'Unlicense',
+  'python software foundation': 'Python-2.0',
+  psf: 'Python-2.0',
+  'zlib/libpng': 'Zlib',
+};
+
+// Deprecated GNU ids without an -only/-or-later suffix
+const GNU_ID_RE = /^(A?GPL|LGPL)-(\d\.\d)(\+)?$/i;
+
+// `LicenseRef-` and `DocumentRef-` ids name licenses outside the SPDX list
+const REF_ID_RE = /^(?:DocumentRef-[\w.-]+:)?LicenseRef-[\w.-]+$/;
+
+function aliasKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\blicen[cs]e[sd]?\b/g, '')
+    .replace(/[\s_,]+/g, ' ')
+    .replace(/\s*-\s*(?=clause)/g, ' ')
+    .trim();
+}
+
+/**
+ * Canonical SPDX id for a single license name, or null when it is not one.
+ * Accepts ids in any case, deprecated GNU ids and common spellings like
+ * `Apache 2.0` or `BSD-3`.
+ */
+export function normalizeLicenseId(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (REF_ID_RE.test(trimmed)) return trimmed;
+
+  const plus = trimmed.endsWith('+') && !GNU_ID_RE.test(trimmed);
+  const id = plus ? trimmed.slice(0, -1) : trimmed;
+
+  const gnu = GNU_ID_RE.exec(id);
+  if (gnu) {
+    return (
+      CANONICAL.get(
+        `${gnu[1]}-${gnu[2]}-${gnu[3] ? 'or-later' : 'only'}`.toLowerCase()
+      ) ?? null
+    );
+  }
+
+  const canonical =
+    CANONICAL.get(id.toLowerCase()) ??
+    ALIASES[aliasKey(id)] ??
+    CANONICAL.get(aliasKey(id).replace(/ /g, '-'));
+  if (!canonical) return null;
+  return plus ? `${canonical}+` : canonical;
+}
+
+function tokenize(expression: string): string[] {
+  return expression
+    .replace(/([()])/g, ' $1 ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Parse a license expression (`MIT OR (Apache-2.0 AND BSD-3-Clause)`),
+ * normalizing every license in it. Returns null when any part is not a
+ * recognizable license or the expression is malformed.
+ */
+export function parseLicenseExpression(expression: string): LicenseNode | null {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position]?.toUpperCase();
+
+  const parsePrimary = (): LicenseNode | null => {
+    if (peek() === '(') {
+      position++;
+      const inner = parseOr();
+      if (!inner || peek() !== ')') return null;
+      position++;
+      return inner;
+    }
+
+    // Names like `Apache License 2.0` span several tokens
+    const words: string[] = [];
+    while (
+      position < tokens.length &&
+      !['(', ')', 'AND', 'OR', 'WITH'].includes(peek())
+    ) {
+      words.push(tokens[position++]);
+    }
+    const id = normalizeLicenseId(words.join(' '));
+    if (!id) return null;
+
+    if (peek() === 'WITH') {
+      position++;
+      const exception = tokens[position++];
+      const canonical = KNOWN_EXCEPTIONS.find(
+        known => known.toLowerCase() === exception?.toLowerCase()
+      );
+      return canonical ? { type: 'license', id, exception: canonical } : null;
+    }
+    return { type: 'license', id };
+  };
+
+  const parseAnd = (): LicenseNode | null => {
+    let left = parsePrimary();
+    while (left && peek() === 'AND') {
+      position++;
+      const right = parsePrimary();
+      left = right ? { type: 'and', left, right } : null;
+    }
+    return left;
+  };
+
+  const parseOr = (): LicenseNode | null => {
+    let left = parseAnd();
+    while (left && peek() === 'OR') {
+      position++;
+      const right = parseAnd();
+      left = right ? { type: 'or', left, right } : null;
+    }
+    return left;
+  };
+
+  const tree = tokens.length > 0 ? parseOr() : null;
+  return tree && position === tokens.length ? tree : null;
+}
+
+/**
+ * Render a parsed expression in canonical SPDX form. Compound parts of a
+ * different operator keep their parentheses for readability.
+ */
+export function formatLicenseExpression(
+  node: LicenseNode,
+  parent?: 'and' | 'or'
+): string {
+  if (node.type === 'license') {
+    return node.exception ? `${node.id} WITH ${node.exception}` : node.id;
+  }
+  const text = `${formatLicenseExpression(node.left, node.type)} ${node.type.toUpperCase()} ${formatLicenseExpression(node.right, node.type)}`;
+  return parent && parent !== node.type ? `(${text})` : text;
+}
+
+/**
+ * Normalize a declared license to an SPDX expression, or null
+ */
+export function normalizeLicense(declared: string): string | null {
+  const tree = parseLicenseExpression(declared);
+  return tree ? formatLicenseExpression(tree) : null;
+}
+
+const VERDICT_RANK: Record<LicenseVerdict, number> = {
+  allowed: 2,
+  'not-allowed': 1,
+  denied: 0,
+};
+
+/**
+ * Check an expression against a policy. `OR` needs one acceptable choice,
+ * `AND` needs every part; a denied license wins over one that is merely not
+ * on the allow list.
+ */
+export function evaluateLicense(
+  node: LicenseNode,
+  policy: LicensePolicyLists
+): LicenseVerdict {
+  if (node.type === 'license') {
+    // `GPL-2.0+` is covered by policy entries for either spelling
+    const ids = [node.id, node.id.replace(/\+$/, '')];
+    if (ids.some(id => policy.deny.includes(id))) return 'denied';
+    return policy.allow.length === 0 ||
+      ids.some(id => policy.allow.includes(id))
+      ? 'allowed'
+      : 'not-allowed';
+  }
+
+  const left = evaluateLicense(node.left, policy);
+  const right = evaluateLicense(node.right, policy);
+  const pick = node.type === 'or' ? Math.max : Math.min;
+  const rank = pick(VERDICT_RANK[left], VERDICT_RANK[right]);
+  return rank === VERDICT_RANK[left] ? left : right;
+}
@@ -0,0 +1,258 @@
+import ts from 'typescript';
+import path from 'path';
+import { parse as parseAstro } from '@astrojs/compiler';
+import type {
+  AttributeNode as AstroAttribute,
+  Node as AstroNode,
+} from '@astrojs/compiler/types';
+
+export interface TemplateAttribute {
+  name: string;
+  /** Static value; null when the value is only known at runtime */
+  value: string | null;
+  line: number;
+  column: number;
+}
+
+export interface TemplateElement {
+  kind: 'element';
+  name: string;
+  /** Framework components and custom elements render markup we cannot see */
+  component: boolean;
+  attributes: TemplateAttribute[];
+  /** Has `{...props}`, so any attribute may be present */
+  spread: boolean;
+  children: TemplateNode[];
+  line: number;
+  column: number;
+}
+
+export interface TemplateText {
+  kind: 'text';
+  value: string;
+}
+
+/** A runtime expression; may render any of its children, or other content */
+export interface TemplateExpression {
+  kind: 'expression';
+  children: TemplateNode[];
+}
+
+export type TemplateNode = TemplateElement | TemplateText | TemplateExpression;
+
+/** File extensions parseTemplate understands */
+export const TEMPLATE_EXTENSIONS = ['.astro', '.tsx', '.jsx'];
+
+// Raw-text elements whose content is not markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+/**
+ * Parse the markup of an `.astro` file (with the Astro compiler) or a
+ * `.tsx`/`.jsx` file (with the TypeScript parser) into one element tree.
+ * Built `.html` pages go through the Astro compiler as well, since Astro
+ * markup is a superset of HTML.
+ */
+export async function parseTemplate(
+  filePath: string,
+  source: string
+): Promise<TemplateNode[]> {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.astro' || extension === '.html') {
+    const { ast } = await parseAstro(source, { position: true });
+    return fromAstroNodes(ast.children);
+  }
+  if (extension === '.tsx' || extension === '.jsx') {
+    return fromJsxSource(filePath, source, extension);
+  }
+
+  throw new Error(`Unsupported template file type: ${extension}`);
+}
+
+function fromAstroNodes(nodes: AstroNode[]): TemplateNode[] {
+  const result: TemplateNode[] = [];
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'element':
+      case 'component':
+      case 'custom-element': {
+        const element: TemplateElement = {
+          kind: 'element',
+          name: node.type === 'element' ? node.name.toLowerCase() : node.name,
+          component: node.type !== 'element',
+          attributes: [],
+          spread: false,
+          children: RAW_TEXT_ELEMENTS.has(node.name)
+            ? []
+            : fromAstroNodes(node.children),
+          line: node.position?.start.line ?? 0,
+          column: node.position?.start.column ?? 0,
+        };
+        for (const attribute of node.attributes) {
+          if (attribute.kind === 'spread') {
+            element.spread = true;
+          } else {
+            element.attributes.push(fromAstroAttribute(attribute));
+          }
+        }
+        result.push(element);
+        break;
+      }
+      case 'fragment':
+        result.push(...fromAstroNodes(node.children));
+        break;
+      case 'expression':
+        result.push({
+          kind: 'expression',
+          children: fromAstroNodes(node.children),
+        });
+        break;
+      case 'text':
+        result.push({ kind: 'text', value: node.value });
+        break;
+      default:
+        // Frontmatter, comments and doctypes carry no markup
+        break;
+    }
+  }
+
+  return result;
+}
+
+function fromAstroAttribute(attribute: AstroAttribute): TemplateAttribute {
+  const value =
+    attribute.kind === 'quoted'
+      ? attribute.value
+      : attribute.kind === 'empty'
+        ? ''
+        : attribute.kind === 'expression'
+          ? literalValue(attribute.value)
+          : null;
+
+  return {
+    name: attribute.name,
+    value,
+    line: attribute.position?.start.line ?? 0,
+    column: attribute.position?.start.column ?? 0,
+  };
+}
+
+function fromJsxSource(
+  filePath: string,
+  source: string,
+  extension: string
+): TemplateNode[] {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    extension === '.tsx' ? ts.ScriptKind.TSX : ts.ScriptKind.JSX
+  );
+
+  const position = (node: ts.Node) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(sourceFile)
+    );
+    return { line: line + 1, column: character + 1 };
+  };
+
+  // JSX nested anywhere inside a non-JSX node, e.g. `items.map(i => <li />)`
+  const collect = (node: ts.Node): TemplateNode[] => {
+    if (
+      ts.isJsxElement(node) ||
+      ts.isJsxSelfClosingElement(node) ||
+      ts.isJsxFragment(node)
+    ) {
+      return fromJsx(node);
+    }
+    const nested: TemplateNode[] = [];
+    node.forEachChild(child => {
+      nested.push(...collect(child));
+    });
+    return nested;
+  };
+
+  const fromJsxChildren = (
+    children: ts.NodeArray<ts.JsxChild>
+  ): TemplateNode[] =>
+    children.flatMap((child): TemplateNode[] => {
+      if (ts.isJsxText(child)) {
+        return child.containsOnlyTriviaWhiteSpaces
+          ? []
+          : [{ kind: 'text', value: child.text }];
+      }
+      if (ts.isJsxExpression(child)) {
+        return child.expression
+          ? [{ kind: 'expression', children: collect(child.expression) }]
+          : [];
+      }
+      return fromJsx(child);
+    });
+
+  const fromJsx = (
+    node: ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment
+  ): TemplateNode[] => {
+    if (ts.isJsxFragment(node)) {
+      return fromJsxChildren(node.children);
+    }
+
+    const opening = ts.isJsxElement(node) ? node.openingElement : node;
+    const tagName = opening.tagName.getText(sourceFile);
+    // Lower-case tags are intrinsic elements; everything else is a component
+    const component = !/^[a-z][a-z0-9]*$/.test(tagName);
+    const element: TemplateElement = {
+      kind: 'element',
+      name: component ? tagName : tagName.toLowerCase(),
+      component,
+      attributes: [],
+      spread: false,
+      children:
+        ts.isJsxElement(node) && !RAW_TEXT_ELEMENTS.has(tagName)
+          ? fromJsxChildren(node.children)
+          : [],
+      ...position(node),
+    };
+
+    for (const property of opening.attributes.properties) {
+      if (ts.isJsxSpreadAttribute(property)) {
+        element.spread = true;
+        continue;
+      }
+      const name = property.name.getText(sourceFile);
+      element.attributes.push({
+        name: name === 'htmlFor' ? 'for' : name,
+        value: jsxAttributeValue(property.initializer),
+        ...position(property),
+      });
+    }
+
+    return [element];
+  };
+
+  return collect(sourceFile);
+}
+
+function jsxAttributeValue(
+  initializer: ts.JsxAttributeValue | undefined
+): string | null {
+  // `<div aria-hidden />` is `aria-hidden={true}` in JSX
+  if (!initializer) return 'true';
+  if (ts.isStringLiteral(initializer)) return initializer.text;
+  if (ts.isJsxExpression(initializer) && initializer.expression) {
+    return literalValue(initializer.expression.getText());
+  }
+  return null;
+}
+
+/**
+ * Static value of a literal attribute expression such as `{true}`, `{2}` or
+ * `{'dialog'}`; null for anything evaluated at runtime
+ */
+function literalValue(expression: string): string | null {
+  const source = expression.trim();
+  if (/^(?:true|false|-?\d+(?:\.\d+)?)$/.test(source)) return source;
+  const quoted = /^(['"`])([^'"`\\$]*)\1$/.exec(source);
+  return quoted ? quoted[2] : null;
+}
@@ -0,0 +1,328 @@
+import ts from 'typescript';
+import { statSync } from 'fs';
+import path from 'path';
+import { setImmediate as nextTurn } from 'timers/promises';
+import { logger } from './logger';
+import type { CodeIssue } from '../types/analysis';
+
+type BuilderProgram = ts.EmitAndSemanticDiagnosticsBuilderProgram;
+
+export type TypeScriptDiagnosticKind =
+  | 'Error'
+  | 'Warning'
+  | 'Suggestion'
+  | 'Message';
+
+/**
+ * A compiler diagnostic flattened into the pieces a CodeIssue is built from
+ */
+export interface TypeScriptDiagnosticInfo {
+  code: number;
+  kind: TypeScriptDiagnosticKind;
+  description: string;
+  file: string;
+  line?: number;
+  column?: number;
+  context?: CodeIssue['context'];
+  relatedFiles: string[];
+}
+
+interface CachedSourceFile {
+  stamp: string;
+  sourceFile: ts.SourceFile;
+}
+
+const CONTEXT_LINES = 2;
+
+/**
+ * Checking a project is synchronous compiler work; yielding between files
+ * lets module timeouts and Ctrl+C fire, and stops once `signal` aborts
+ */
+async function betweenFiles(signal?: AbortSignal): Promise<void> {
+  await nextTurn();
+  signal?.throwIfAborted();
+}
+
+/**
+ * Incremental TypeScript program for a project, shared by TypesAnalyzer and
+ * SyntaxAnalyzer so the project is only parsed and checked once per run.
+ * Semantic diagnostics of unchanged files come from the previous builder
+ * program or, on a cold start, from the `.tsbuildinfo` written after each check.
+ */
+export class TypeScriptProgram {
+  static readonly BUILD_INFO_FILE = path.join('.cache', 'analyzer.tsbuildinfo');
+  private static readonly instances = new Map<string, TypeScriptProgram>();
+
+  private projectRoot: string;
+  private configFile: string | undefined;
+  private configModified: number | undefined;
+  private configDiagnostics: ts.Diagnostic[] = [];
+  private builder: BuilderProgram | undefined;
+  private sourceFiles = new Map<string, CachedSourceFile>();
+
+  constructor(projectRoot: string) {
+    this.projectRoot = path.resolve(projectRoot);
+  }
+
+  /**
+   * Shared instance for a project root, so builder state survives between
+   * modules and between watch-mode runs
+   */
+  static forProject(projectRoot: string): TypeScriptProgram {
+    const root = path.resolve(projectRoot);
+    let instance = this.instances.get(root);
+    if (!instance) {
+      instance = new TypeScriptProgram(root);
+      this.instances.set(root, instance);
+    }
+    return instance;
+  }
+
+  get buildInfoFile(): string {
+    return path.join(this.projectRoot, TypeScriptProgram.BUILD_INFO_FILE);
+  }
+
+  /**
+   * Parse errors in the project's files, or only in `files` (relative to the
+   * project root). Returns null when the project has no tsconfig.json.
+   * Aborting `signal` stops between files; building the program is not
+   * interrupted.
+   */
+  async getSyntacticDiagnostics(
+    files?: string[],
+    signal?: AbortSignal
+  ): Promise<ts.Diagnostic[] | null> {
+    const builder = this.update();
+    // Broken configs are reported with the semantic diagnostics
+    if (!builder) return this.configFile ? [] : null;
+
+    const diagnostics: ts.Diagnostic[] = [];
+    for (const sourceFile of this.getSourceFiles(builder, files)) {
+      await betweenFiles(signal);
+      diagnostics.push(...builder.getSyntacticDiagnostics(sourceFile));
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Config, options, global and semantic diagnostics. With `files`, only
+   * those files are type checked, although errors they cause in files that
+   * depend on them are missed. Returns null when the project has no
+   * tsconfig.json. Aborting `signal` stops between files.
+   */
+  async getSemanticDiagnostics(
+    files?: string[],
+    signal?: AbortSignal
+  ): Promise<ts.Diagnostic[] | null> {
+    const builder = this.update();
+    if (!builder) return this.configFile ? [...this.configDiagnostics] : null;
+
+    const diagnostics = [
+      ...this.configDiagnostics,
+      ...builder.getOptionsDiagnostics(),
+      ...builder.getGlobalDiagnostics(),
+    ];
+    for (const sourceFile of this.getSourceFiles(builder, files)) {
+      await betweenFiles(signal);
+      diagnostics.push(...builder.getSemanticDiagnostics(sourceFile));
+    }
+
+    // With noEmit forced on, emitting only writes the .tsbuildinfo
+    const { diagnostics: emitDiagnostics } = builder.emit();
+    if (emitDiagnostics.length > 0) {
+      logger.debug(`Could not write ${this.buildInfoFile}`, {
+        diagnostics: emitDiagnostics.map(diagnostic =>
+          ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+        ),
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Flatten a diagnostic with its full message chain, related locations and
+   * the surrounding source lines
+   */
+  describe(diagnostic: ts.Diagnostic): TypeScriptDiagnosticInfo {
+    const related = (diagnostic.relatedInformation ?? []).map(info => ({
+      location: this.formatLocation(info),
+      message: ts.flattenDiagnosticMessageText(info.messageText, '\n'),
+    }));
+    const description = [
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      ...related.map(({ location, message }) => `${location}: ${message}`),
+    ].join('\n');
+
+    const info: TypeScriptDiagnosticInfo = {
+      code: diagnostic.code,
+      kind: ts.DiagnosticCategory[
+        diagnostic.category
+      ] as TypeScriptDiagnosticKind,
+      description,
+      file: diagnostic.file
+        ? this.relativePath(diagnostic.file.fileName)
+        : this.relativePath(this.configFile ?? 'tsconfig.json'),
+      relatedFiles: related.map(({ location }) => location),
+    };
+
+    if (diagnostic.file && diagnostic.start !== undefined) {
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(
+        diagnostic.start
+      );
+      const lines = diagnostic.file.text.split(/\r?\n/);
+      info.line = line + 1;
+      info.column = character + 1;
+      info.context = {
+        before: lines.slice(Math.max(0, line - CONTEXT_LINES), line),
+        current: lines[line] ?? '',
+        after: lines.slice(line + 1, line + 1 + CONTEXT_LINES),
+      };
+    }
+
+    return info;
+  }
+
+  /**
+   * Create or incrementally update the builder program from tsconfig.json
+   */
+  private update(): BuilderProgram | undefined {
+    this.configFile = ts.findConfigFile(this.projectRoot, ts.sys.fileExists);
+    if (!this.configFile) {
+      this.builder = undefined;
+      return undefined;
+    }
+
+    // A changed tsconfig can change how every file is parsed
+    const configModified = ts.sys.getModifiedTime?.(this.configFile)?.getTime();
+    if (configModified !== this.configModified) {
+      this.configModified = configModified;
+      this.builder = undefined;
+      this.sourceFiles.clear();
+    }
+
+    let unrecoverable: ts.Diagnostic | undefined;
+    const parsed = ts.getParsedCommandLineOfConfigFile(
+      this.configFile,
+      undefined,
+      {
+        ...ts.sys,
+        onUnRecoverableConfigFileDiagnostic: diagnostic => {
+          unrecoverable = diagnostic;
+        },
+      }
+    );
+    if (!parsed) {
+      this.configDiagnostics = unrecoverable ? [unrecoverable] : [];
+      this.builder = undefined;
+      return undefined;
+    }
+    this.configDiagnostics = [...ts.getConfigFileParsingDiagnostics(parsed)];
+
+    const options: ts.CompilerOptions = {
+      ...parsed.options,
+      noEmit: true,
+      incremental: true,
+      composite: false,
+      tsBuildInfoFile: this.buildInfoFile,
+    };
+    const host = this.createHost(options);
+
+    const start = Date.now();
+    this.builder = ts.createEmitAndSemanticDiagnosticsBuilderProgram(
+      parsed.fileNames,
+      options,
+      host,
+      this.builder ?? ts.readBuilderProgram(options, host),
+      this.configDiagnostics,
+      parsed.projectReferences
+    );
+    logger.debug(
+      `TypeScript program for ${parsed.fileNames.length} files ready in ${Date.now() - start}ms`
+    );
+
+    return this.builder;
+  }
+
+  /**
+   * Compiler host that reuses parsed source files whose mtime and size are
+   * unchanged, so the old program's structure (and checked files) is reused
+   */
+  private createHost(options: ts.CompilerOptions): ts.CompilerHost {
+    const host = ts.createIncrementalCompilerHost(options);
+    const getSourceFile = host.getSourceFile.bind(host);
+
+    host.getSourceFile = (
+      fileName,
+      languageVersion,
+      onError,
+      shouldCreateNewSourceFile
+    ) => {
+      const stamp = this.fileStamp(fileName);
+      const cached = this.sourceFiles.get(fileName);
+      if (
+        cached &&
+        stamp !== undefined &&
+        cached.stamp === stamp &&
+        !shouldCreateNewSourceFile
+      ) {
+        return cached.sourceFile;
+      }
+
+      const sourceFile = getSourceFile(
+        fileName,
+        languageVersion,
+        onError,
+        shouldCreateNewSourceFile
+      );
+      if (sourceFile && stamp !== undefined) {
+        this.sourceFiles.set(fileName, { stamp, sourceFile });
+      }
+      return sourceFile;
+    };
+
+    return host;
+  }
+
+  /**
+   * Program source files for project-relative paths, or all of them; files
+   * outside the program (not matched by tsconfig.json) are skipped
+   */
+  private getSourceFiles(
+    builder: BuilderProgram,
+    files?: string[]
+  ): readonly ts.SourceFile[] {
+    if (!files) return builder.getSourceFiles();
+    return files
+      .map(file =>
+        builder.getSourceFile(
+          path.resolve(this.projectRoot, file).replace(/\\/g, '/')
+        )
+      )
+      .filter((sourceFile): sourceFile is ts.SourceFile => !!sourceFile);
+  }
+
+  private fileStamp(fileName: string): string | undefined {
+    try {
+      const stats = statSync(fileName);
+      return `${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private formatLocation(info: ts.DiagnosticRelatedInformation): string {
+    if (!info.file) return this.relativePath(this.configFile ?? '');
+    const file = this.relativePath(info.file.fileName);
+    if (info.start === undefined) return file;
+
+    const { line, character } = info.file.getLineAndCharacterOfPosition(
+      info.start
+    );
+    return `${file}:${line + 1}:${character + 1}`;
+  }
+
+  private relativePath(fileName: string): string {
+    return path.relative(this.projectRoot, fileName).replace(/\\/g, '/');
+  }
+}